@@ -0,0 +1,243 @@
+import { useState, useRef } from "react";
+import { format } from "date-fns";
+import { WorkspaceCollection, WorkspaceData } from "@/lib/types";
+import {
+  COLLECTION_LABELS,
+  WorkspaceBackup,
+  createBackup,
+  diffWorkspace,
+  mergeWorkspace,
+  parseBackup,
+  readViewPreferences,
+  writeViewPreferences,
+} from "@/lib/backup";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { AlertTriangle, DatabaseBackup, Download, Upload } from "lucide-react";
+
+interface Props {
+  workspace: WorkspaceData;
+  /** Leave out to offer the backup download only (restoring is for admins) */
+  onRestore?: (data: WorkspaceData) => void;
+}
+
+type ImportMode = "replace" | "merge";
+
+export default function BackupDialog({ workspace, onRestore }: Props) {
+  const [open, setOpen] = useState(false);
+  const [backup, setBackup] = useState<WorkspaceBackup | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [error, setError] = useState<{ message: string; issues: string[] }>(
+    null,
+  );
+  const [mode, setMode] = useState<ImportMode>("replace");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = () => {
+    const file = createBackup(workspace, readViewPreferences());
+    const blob = new Blob([JSON.stringify(file, null, 2)], {
+      type: "application/json;charset=utf-8;",
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `workspace-backup-${format(new Date(), "yyyy-MM-dd")}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    const reader = new FileReader();
+    reader.onload = (ev) => {
+      const result = parseBackup(ev.target?.result as string);
+      if ("backup" in result) {
+        setBackup(result.backup);
+        setError(null);
+      } else {
+        setBackup(null);
+        setError({ message: result.error, issues: result.issues });
+      }
+      setMode("replace");
+      setOpen(true);
+    };
+    reader.readAsText(file);
+    e.target.value = "";
+  };
+
+  const handleImport = () => {
+    if (!backup) return;
+    onRestore(
+      mode === "replace" ? backup.data : mergeWorkspace(workspace, backup.data),
+    );
+    writeViewPreferences(backup.preferences);
+    setOpen(false);
+    setBackup(null);
+  };
+
+  const diff = backup ? diffWorkspace(workspace, backup.data) : null;
+
+  return (
+    <>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={handleFileSelect}
+      />
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 text-xs"
+        onClick={handleExport}
+      >
+        <Download className="h-3.5 w-3.5 mr-1" /> Backup
+      </Button>
+      {onRestore && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 text-xs"
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <Upload className="h-3.5 w-3.5 mr-1" /> Restore
+        </Button>
+      )}
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <DatabaseBackup className="h-5 w-5" /> Restore Workspace
+            </DialogTitle>
+            <DialogDescription>
+              {backup
+                ? `"${fileName}" · exported ${format(new Date(backup.exportedAt), "MMM d, yyyy HH:mm")} · format v${backup.version}`
+                : `"${fileName}" could not be read.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {error && (
+            <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm space-y-1">
+              <p className="flex items-start gap-2">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                {error.message}
+              </p>
+              {error.issues.slice(0, 5).map((issue) => (
+                <p key={issue} className="text-xs font-mono pl-6">
+                  {issue}
+                </p>
+              ))}
+              {error.issues.length > 5 && (
+                <p className="text-xs pl-6">
+                  …and {error.issues.length - 5} more
+                </p>
+              )}
+            </div>
+          )}
+
+          {diff && (
+            <>
+              <div className="border rounded-md overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted/50">
+                    <tr>
+                      <th className="text-left px-3 py-2 font-medium text-muted-foreground" />
+                      <th className="text-right px-3 py-2 font-medium text-muted-foreground">
+                        New
+                      </th>
+                      <th className="text-right px-3 py-2 font-medium text-muted-foreground">
+                        Changed
+                      </th>
+                      <th className="text-right px-3 py-2 font-medium text-muted-foreground">
+                        Unchanged
+                      </th>
+                      <th className="text-right px-3 py-2 font-medium text-muted-foreground">
+                        {mode === "replace" ? "Removed" : "Kept"}
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {(
+                      Object.keys(COLLECTION_LABELS) as WorkspaceCollection[]
+                    ).map((key) => (
+                      <tr key={key}>
+                        <td className="px-3 py-2">{COLLECTION_LABELS[key]}</td>
+                        <td className="px-3 py-2 text-right text-emerald-600">
+                          {diff[key].added || "—"}
+                        </td>
+                        <td className="px-3 py-2 text-right text-amber-600">
+                          {diff[key].changed || "—"}
+                        </td>
+                        <td className="px-3 py-2 text-right text-muted-foreground">
+                          {diff[key].unchanged || "—"}
+                        </td>
+                        <td
+                          className={`px-3 py-2 text-right ${mode === "replace" ? "text-destructive" : "text-muted-foreground"}`}
+                        >
+                          {diff[key].removed || "—"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <RadioGroup
+                value={mode}
+                onValueChange={(v) => setMode(v as ImportMode)}
+                className="gap-3"
+              >
+                <label className="flex items-start gap-2 text-sm cursor-pointer">
+                  <RadioGroupItem value="replace" className="mt-0.5" />
+                  <span>
+                    <span className="font-medium">Replace</span>
+                    <span className="block text-xs text-muted-foreground">
+                      Discard the current workspace and use the backup as-is.
+                    </span>
+                  </span>
+                </label>
+                <label className="flex items-start gap-2 text-sm cursor-pointer">
+                  <RadioGroupItem value="merge" className="mt-0.5" />
+                  <span>
+                    <span className="font-medium">Merge</span>
+                    <span className="block text-xs text-muted-foreground">
+                      Add new items and update matching ones; keep everything
+                      else.
+                    </span>
+                  </span>
+                </label>
+              </RadioGroup>
+            </>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleImport}
+              disabled={!backup}
+              variant={mode === "replace" ? "destructive" : "default"}
+            >
+              {mode === "replace"
+                ? "Replace workspace"
+                : "Merge into workspace"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
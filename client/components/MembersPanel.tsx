@@ -1,9 +1,29 @@
-import { useState, useRef, useCallback } from "react";
-import { Team, Member } from "@/lib/types";
-import { parseMemberCsv } from "@/lib/csvImport";
+import { useState, useRef, useCallback, useMemo } from "react";
+import { Team, Member, MemberSkill, SkillLevel, TimeOff } from "@/lib/types";
+import { CsvMemberRow, parseMemberCsv } from "@/lib/csvImport";
+import {
+  DEFAULT_HOURS_PER_WEEK,
+  DEFAULT_WORKING_DAYS,
+  WEEKDAY_LABELS,
+  formatCapacity,
+  getHoursPerWeek,
+  getWorkingDays,
+  hasCustomCapacity,
+  isPlaceholder,
+} from "@/lib/capacity";
+import {
+  DEFAULT_SKILL_LEVEL,
+  SKILL_LEVELS,
+  SKILL_LEVEL_LABELS,
+  formatSkillsCell,
+  listSkills,
+} from "@/lib/skills";
+import { formatMoney } from "@/lib/costs";
+import TimeOffDialog from "@/components/TimeOffDialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Dialog,
   DialogContent,
@@ -28,6 +48,9 @@ import {
   Upload,
   GripVertical,
   Download,
+  Palmtree,
+  CircleDashed,
+  X,
 } from "lucide-react";
 
 interface Props {
@@ -35,11 +58,20 @@ interface Props {
   members: Member[];
   addTeam: (t: Omit<Team, "id">) => Team;
   updateTeam: (id: string, data: Partial<Team>) => void;
-  deleteTeam: (id: string) => void;
+  deleteTeam?: (id: string) => void; // admins only
   addMember: (m: Omit<Member, "id">) => Member;
   updateMember: (id: string, data: Partial<Member>) => void;
   deleteMember: (id: string) => void;
   reorderTeams: (teams: Team[]) => void;
+  timeOff: TimeOff[];
+  addTimeOff: (t: Omit<TimeOff, "id">) => TimeOff;
+  updateTimeOff: (id: string, data: Partial<TimeOff>) => void;
+  deleteTimeOff: (id: string) => void;
+  batch: <T>(label: string, run: () => T) => T;
+  /** Browse only: no adding, editing, moving or deleting (viewers) */
+  readOnly: boolean;
+  /** Offer the CSV import (admins) */
+  canImport: boolean;
 }
 
 const TEAM_COLORS = [
@@ -53,6 +85,9 @@ const TEAM_COLORS = [
   "#14b8a6",
 ];
 
+// Monday-first order for the working-day toggles
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
 export default function MembersPanel({
   teams,
   members,
@@ -63,15 +98,21 @@ export default function MembersPanel({
   updateMember,
   deleteMember,
   reorderTeams,
+  timeOff,
+  addTimeOff,
+  updateTimeOff,
+  deleteTimeOff,
+  batch,
+  readOnly,
+  canImport,
 }: Props) {
   const [teamDialog, setTeamDialog] = useState(false);
   const [memberDialog, setMemberDialog] = useState(false);
   const [editingTeam, setEditingTeam] = useState<Team | null>(null);
   const [editingMember, setEditingMember] = useState<Member | null>(null);
+  const [timeOffDialog, setTimeOffDialog] = useState(false);
   const [csvDialog, setCsvDialog] = useState(false);
-  const [csvPreview, setCsvPreview] = useState<
-    { name: string; role: string; team: string }[]
-  >([]);
+  const [csvPreview, setCsvPreview] = useState<CsvMemberRow[]>([]);
   const [csvFileName, setCsvFileName] = useState("");
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -93,6 +134,14 @@ export default function MembersPanel({
   const [memberName, setMemberName] = useState("");
   const [memberRole, setMemberRole] = useState("");
   const [memberTeamId, setMemberTeamId] = useState("");
+  const [memberHours, setMemberHours] = useState(DEFAULT_HOURS_PER_WEEK);
+  const [memberDays, setMemberDays] = useState<number[]>(DEFAULT_WORKING_DAYS);
+  const [memberSkills, setMemberSkills] = useState<MemberSkill[]>([]);
+  const [memberPlaceholder, setMemberPlaceholder] = useState(false);
+  // Kept as text so a blank field means "no rate"
+  const [memberCostRate, setMemberCostRate] = useState("");
+  const [memberBillRate, setMemberBillRate] = useState("");
+  const skillCatalog = useMemo(() => listSkills(members), [members]);
 
   const openTeamDialog = (team?: Team) => {
     if (team) {
@@ -107,17 +156,29 @@ export default function MembersPanel({
     setTeamDialog(true);
   };
 
-  const openMemberDialog = (member?: Member) => {
+  const openMemberDialog = (member?: Member, placeholder = false) => {
     if (member) {
       setEditingMember(member);
       setMemberName(member.name);
       setMemberRole(member.role);
       setMemberTeamId(member.teamId);
+      setMemberHours(getHoursPerWeek(member));
+      setMemberDays(getWorkingDays(member));
+      setMemberSkills(member.skills ?? []);
+      setMemberPlaceholder(isPlaceholder(member));
+      setMemberCostRate(member.costRate?.toString() ?? "");
+      setMemberBillRate(member.billRate?.toString() ?? "");
     } else {
       setEditingMember(null);
       setMemberName("");
       setMemberRole("");
       setMemberTeamId(teams[0]?.id ?? "");
+      setMemberHours(DEFAULT_HOURS_PER_WEEK);
+      setMemberDays(DEFAULT_WORKING_DAYS);
+      setMemberSkills([]);
+      setMemberPlaceholder(placeholder);
+      setMemberCostRate("");
+      setMemberBillRate("");
     }
     setMemberDialog(true);
   };
@@ -132,16 +193,51 @@ export default function MembersPanel({
     setTeamDialog(false);
   };
 
+  const toggleMemberDay = (day: number) => {
+    setMemberDays((prev) =>
+      prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day],
+    );
+  };
+
   const handleSaveMember = () => {
-    if (!memberName.trim() || !memberTeamId) return;
+    // An open role may go unnamed; it is then listed under its role
+    const name =
+      memberName.trim() ||
+      (memberPlaceholder ? memberRole.trim() || "Open role" : "");
+    if (!name || !memberTeamId || memberDays.length === 0) return;
+    const capacity = {
+      hoursPerWeek: Math.max(1, Math.min(memberHours || 0, 168)),
+      workingDays: WEEKDAY_ORDER.filter((d) => memberDays.includes(d)),
+    };
+    // Blank rows are dropped; an empty list clears the skills
+    const named = memberSkills
+      .map((s) => ({ ...s, name: s.name.trim() }))
+      .filter((s) => s.name);
+    const skills = named.length ? named : undefined;
+    const rates = {
+      costRate: parseRate(memberCostRate),
+      billRate: parseRate(memberBillRate),
+    };
     if (editingMember) {
       updateMember(editingMember.id, {
-        name: memberName,
+        name,
         role: memberRole,
         teamId: memberTeamId,
+        ...capacity,
+        skills,
+        placeholder: memberPlaceholder || undefined,
+        ...rates,
       });
     } else {
-      addMember({ name: memberName, role: memberRole, teamId: memberTeamId });
+      addMember({
+        name,
+        role: memberRole,
+        teamId: memberTeamId,
+        ...capacity,
+        skills,
+        placeholder: memberPlaceholder || undefined,
+        ...rates,
+      });
     }
     setMemberDialog(false);
   };
@@ -164,32 +260,40 @@ export default function MembersPanel({
   };
 
   const handleCsvImport = () => {
-    const teamMap = new Map<string, string>();
-    for (const t of teams) teamMap.set(t.name.toLowerCase(), t.id);
-    let teamColorIdx = teams.length;
-
-    for (const row of csvPreview) {
-      let teamId = "";
-      if (row.team) {
-        const key = row.team.toLowerCase();
-        if (teamMap.has(key)) {
-          teamId = teamMap.get(key)!;
+    if (!canImport) return;
+    batch("Import members CSV", () => {
+      const teamMap = new Map<string, string>();
+      for (const t of teams) teamMap.set(t.name.toLowerCase(), t.id);
+      let teamColorIdx = teams.length;
+
+      for (const row of csvPreview) {
+        let teamId = "";
+        if (row.team) {
+          const key = row.team.toLowerCase();
+          if (teamMap.has(key)) {
+            teamId = teamMap.get(key)!;
+          } else {
+            const newTeam = addTeam({
+              name: row.team,
+              color: TEAM_COLORS[teamColorIdx % TEAM_COLORS.length],
+            });
+            teamId = newTeam.id;
+            teamMap.set(key, teamId);
+            teamColorIdx++;
+          }
         } else {
-          const newTeam = addTeam({
-            name: row.team,
-            color: TEAM_COLORS[teamColorIdx % TEAM_COLORS.length],
+          teamId = teams[0]?.id ?? "";
+        }
+        if (teamId) {
+          addMember({
+            name: row.name,
+            role: row.role,
+            teamId,
+            skills: row.skills.length ? row.skills : undefined,
           });
-          teamId = newTeam.id;
-          teamMap.set(key, teamId);
-          teamColorIdx++;
         }
-      } else {
-        teamId = teams[0]?.id ?? "";
       }
-      if (teamId) {
-        addMember({ name: row.name, role: row.role, teamId });
-      }
-    }
+    });
     setCsvDialog(false);
     setCsvPreview([]);
   };
@@ -284,12 +388,12 @@ export default function MembersPanel({
   }, []);
 
   const handleExportCsv = useCallback(() => {
-    const header = "Name,Role,Team";
+    const header = "Name,Role,Team,Skills";
     const rows = members.map((m) => {
       const team = teams.find((t) => t.id === m.teamId);
       const escapeCsv = (v: string) =>
         v.includes(",") || v.includes('"') ? `"${v.replace(/"/g, '""')}"` : v;
-      return `${escapeCsv(m.name)},${escapeCsv(m.role)},${escapeCsv(team?.name ?? "")}`;
+      return `${escapeCsv(m.name)},${escapeCsv(m.role)},${escapeCsv(team?.name ?? "")},${escapeCsv(formatSkillsCell(m.skills))}`;
     });
     const csv = [header, ...rows].join("\n");
     const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
@@ -332,19 +436,43 @@ export default function MembersPanel({
           <Button variant="outline" size="sm" onClick={handleExportCsv}>
             <Download className="h-4 w-4 mr-1" /> Export CSV
           </Button>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={() => fileInputRef.current?.click()}
-          >
-            <Upload className="h-4 w-4 mr-1" /> Import CSV
-          </Button>
-          <Button variant="outline" size="sm" onClick={() => openTeamDialog()}>
-            <Users className="h-4 w-4 mr-1" /> Add Team
-          </Button>
-          <Button size="sm" onClick={() => openMemberDialog()}>
-            <UserPlus className="h-4 w-4 mr-1" /> Add Member
-          </Button>
+          {canImport && !readOnly && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <Upload className="h-4 w-4 mr-1" /> Import CSV
+            </Button>
+          )}
+          {!readOnly && (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setTimeOffDialog(true)}
+              >
+                <Palmtree className="h-4 w-4 mr-1" /> Time Off
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => openTeamDialog()}
+              >
+                <Users className="h-4 w-4 mr-1" /> Add Team
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => openMemberDialog(undefined, true)}
+              >
+                <CircleDashed className="h-4 w-4 mr-1" /> Add Open Role
+              </Button>
+              <Button size="sm" onClick={() => openMemberDialog()}>
+                <UserPlus className="h-4 w-4 mr-1" /> Add Member
+              </Button>
+            </>
+          )}
         </div>
       </div>
 
@@ -379,13 +507,17 @@ export default function MembersPanel({
               }}
             >
               <div
-                className="flex items-center justify-between px-4 py-3 border-b bg-muted/30 cursor-grab active:cursor-grabbing"
-                draggable
+                className={`flex items-center justify-between px-4 py-3 border-b bg-muted/30 ${
+                  readOnly ? "" : "cursor-grab active:cursor-grabbing"
+                }`}
+                draggable={!readOnly}
                 onDragStart={(e) => handleTeamDragStart(e, team.id)}
                 onDragEnd={handleTeamDragEnd}
               >
                 <div className="flex items-center gap-2">
-                  <GripVertical className="h-4 w-4 text-muted-foreground/40 shrink-0" />
+                  {!readOnly && (
+                    <GripVertical className="h-4 w-4 text-muted-foreground/40 shrink-0" />
+                  )}
                   <div
                     className="w-3 h-3 rounded-full"
                     style={{ backgroundColor: team.color }}
@@ -396,22 +528,26 @@ export default function MembersPanel({
                   </Badge>
                 </div>
                 <div className="flex gap-1">
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    className="h-7 w-7"
-                    onClick={() => openTeamDialog(team)}
-                  >
-                    <Pencil className="h-3.5 w-3.5" />
-                  </Button>
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    className="h-7 w-7 text-destructive"
-                    onClick={() => deleteTeam(team.id)}
-                  >
-                    <Trash2 className="h-3.5 w-3.5" />
-                  </Button>
+                  {!readOnly && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => openTeamDialog(team)}
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                  )}
+                  {deleteTeam && !readOnly && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 text-destructive"
+                      onClick={() => deleteTeam(team.id)}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  )}
                 </div>
               </div>
               {teamMembers.length === 0 ? (
@@ -424,7 +560,9 @@ export default function MembersPanel({
                 >
                   {isDropTarget
                     ? "Drop here to move to this team"
-                    : "No members in this team yet. Drag members here."}
+                    : readOnly
+                      ? "No members in this team yet."
+                      : "No members in this team yet. Drag members here."}
                 </div>
               ) : (
                 <div className="divide-y">
@@ -434,6 +572,7 @@ export default function MembersPanel({
                       member={member}
                       team={team}
                       isDragging={dragMemberId === member.id}
+                      readOnly={readOnly}
                       onEdit={() => openMemberDialog(member)}
                       onDelete={() => deleteMember(member.id)}
                       onDragStart={(e) => handleMemberDragStart(e, member.id)}
@@ -459,6 +598,7 @@ export default function MembersPanel({
                   key={member.id}
                   member={member}
                   isDragging={dragMemberId === member.id}
+                  readOnly={readOnly}
                   onEdit={() => openMemberDialog(member)}
                   onDelete={() => deleteMember(member.id)}
                   onDragStart={(e) => handleMemberDragStart(e, member.id)}
@@ -520,21 +660,34 @@ export default function MembersPanel({
         <DialogContent>
           <DialogHeader>
             <DialogTitle>
-              {editingMember ? "Edit Member" : "Add Member"}
+              {editingMember ? "Edit" : "Add"}{" "}
+              {memberPlaceholder ? "Open Role" : "Member"}
             </DialogTitle>
             <DialogDescription>
-              {editingMember
-                ? "Update member details."
-                : "Add a new team member."}
+              {memberPlaceholder
+                ? "Demand that can be booked now and staffed later."
+                : editingMember
+                  ? "Update member details."
+                  : "Add a new team member."}
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
             <div>
-              <label className="text-sm font-medium mb-1.5 block">Name</label>
+              <label className="text-sm font-medium mb-1.5 block">
+                Name
+                {memberPlaceholder && (
+                  <span className="font-normal text-muted-foreground">
+                    {" "}
+                    (optional)
+                  </span>
+                )}
+              </label>
               <Input
                 value={memberName}
                 onChange={(e) => setMemberName(e.target.value)}
-                placeholder="e.g. John Doe"
+                placeholder={
+                  memberPlaceholder ? "e.g. Backend hire #2" : "e.g. John Doe"
+                }
               />
             </div>
             <div>
@@ -560,6 +713,81 @@ export default function MembersPanel({
                 </SelectContent>
               </Select>
             </div>
+            <div>
+              <label className="text-sm font-medium mb-1.5 block">
+                Capacity
+              </label>
+              <div className="flex items-center gap-2 mb-2">
+                <Input
+                  type="number"
+                  min={1}
+                  max={168}
+                  className="w-24"
+                  value={memberHours}
+                  onChange={(e) => setMemberHours(Number(e.target.value))}
+                />
+                <span className="text-sm text-muted-foreground">
+                  hours per week
+                </span>
+              </div>
+              <div className="flex gap-1 flex-wrap">
+                {WEEKDAY_ORDER.map((d) => (
+                  <Button
+                    key={d}
+                    type="button"
+                    variant={memberDays.includes(d) ? "secondary" : "outline"}
+                    size="sm"
+                    className="h-8 w-11 px-0 text-xs"
+                    onClick={() => toggleMemberDay(d)}
+                  >
+                    {WEEKDAY_LABELS[d]}
+                  </Button>
+                ))}
+              </div>
+              {memberDays.length === 0 && (
+                <p className="text-xs text-destructive mt-1.5">
+                  Select at least one working day.
+                </p>
+              )}
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-1.5 block">
+                Hourly rates
+              </label>
+              <div className="grid grid-cols-2 gap-3">
+                <RateInput
+                  label="Cost"
+                  value={memberCostRate}
+                  onChange={setMemberCostRate}
+                  hoursPerDay={memberHours / Math.max(memberDays.length, 1)}
+                />
+                <RateInput
+                  label="Bill"
+                  value={memberBillRate}
+                  onChange={setMemberBillRate}
+                  hoursPerDay={memberHours / Math.max(memberDays.length, 1)}
+                />
+              </div>
+            </div>
+            <SkillEditor
+              skills={memberSkills}
+              onChange={setMemberSkills}
+              catalog={skillCatalog}
+            />
+            <label className="flex items-start gap-2 text-sm cursor-pointer">
+              <Checkbox
+                className="mt-0.5"
+                checked={memberPlaceholder}
+                onCheckedChange={(v) => setMemberPlaceholder(v === true)}
+              />
+              <span>
+                Open role
+                <span className="block text-xs text-muted-foreground">
+                  Not yet staffed. Its bookings show as demand on the schedule
+                  until filled by a real member.
+                </span>
+              </span>
+            </label>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setMemberDialog(false)}>
@@ -572,6 +800,17 @@ export default function MembersPanel({
         </DialogContent>
       </Dialog>
 
+      <TimeOffDialog
+        open={timeOffDialog}
+        onOpenChange={setTimeOffDialog}
+        teams={teams}
+        members={members}
+        timeOff={timeOff}
+        addTimeOff={addTimeOff}
+        updateTimeOff={updateTimeOff}
+        deleteTimeOff={deleteTimeOff}
+      />
+
       {/* CSV Import Preview Dialog */}
       <Dialog open={csvDialog} onOpenChange={setCsvDialog}>
         <DialogContent className="max-w-lg">
@@ -596,6 +835,9 @@ export default function MembersPanel({
                   <th className="text-left px-3 py-2 font-medium text-muted-foreground">
                     Team
                   </th>
+                  <th className="text-left px-3 py-2 font-medium text-muted-foreground">
+                    Skills
+                  </th>
                 </tr>
               </thead>
               <tbody className="divide-y">
@@ -634,6 +876,9 @@ export default function MembersPanel({
                         </span>
                       )}
                     </td>
+                    <td className="px-3 py-2 text-xs text-muted-foreground">
+                      {row.skills.map((s) => s.name).join(", ") || "—"}
+                    </td>
                   </tr>
                 ))}
               </tbody>
@@ -642,7 +887,7 @@ export default function MembersPanel({
           {csvPreview.length === 0 && (
             <p className="text-sm text-muted-foreground text-center py-4">
               No valid rows found. Make sure the CSV has columns: Name, Role,
-              Team.
+              Team and optionally Skills.
             </p>
           )}
           <DialogFooter>
@@ -663,6 +908,126 @@ export default function MembersPanel({
   );
 }
 
+function SkillEditor({
+  skills,
+  onChange,
+  catalog,
+}: {
+  skills: MemberSkill[];
+  onChange: (skills: MemberSkill[]) => void;
+  catalog: string[];
+}) {
+  const edit = (index: number, data: Partial<MemberSkill>) =>
+    onChange(skills.map((s, i) => (i === index ? { ...s, ...data } : s)));
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1.5">
+        <label className="text-sm font-medium">Skills</label>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-7 text-xs"
+          onClick={() =>
+            onChange([...skills, { name: "", level: DEFAULT_SKILL_LEVEL }])
+          }
+        >
+          <Plus className="h-3.5 w-3.5 mr-1" /> Add
+        </Button>
+      </div>
+      {skills.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Add skills so planners can find qualified people when staffing.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {skills.map((skill, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <Input
+                value={skill.name}
+                onChange={(e) => edit(i, { name: e.target.value })}
+                placeholder="e.g. React Native"
+                list="skill-catalog"
+                className="flex-1"
+              />
+              <Select
+                value={skill.level}
+                onValueChange={(v) => edit(i, { level: v as SkillLevel })}
+              >
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SKILL_LEVELS.map((level) => (
+                    <SelectItem key={level} value={level}>
+                      {SKILL_LEVEL_LABELS[level]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                onClick={() => onChange(skills.filter((_, j) => j !== i))}
+              >
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          ))}
+          <datalist id="skill-catalog">
+            {catalog.map((name) => (
+              <option key={name} value={name} />
+            ))}
+          </datalist>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Blank or invalid input clears the rate */
+function parseRate(text: string): number | undefined {
+  const value = parseFloat(text);
+  return Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+function RateInput({
+  label,
+  value,
+  onChange,
+  hoursPerDay,
+}: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  hoursPerDay: number;
+}) {
+  const rate = parseRate(value);
+  return (
+    <div>
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-muted-foreground w-8">{label}</span>
+        <Input
+          type="number"
+          min={0}
+          step={5}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="—"
+        />
+      </div>
+      {rate !== undefined && (
+        <p className="text-[11px] text-muted-foreground mt-1 ml-10">
+          {formatMoney(rate * hoursPerDay)} per day
+        </p>
+      )}
+    </div>
+  );
+}
+
 function MemberRow({
   member,
   team,
@@ -671,10 +1036,12 @@ function MemberRow({
   onDelete,
   onDragStart,
   onDragEnd,
+  readOnly,
 }: {
   member: Member;
   team?: Team;
   isDragging: boolean;
+  readOnly: boolean;
   onEdit: () => void;
   onDelete: () => void;
   onDragStart: (e: React.DragEvent) => void;
@@ -686,47 +1053,94 @@ function MemberRow({
     .join("")
     .toUpperCase()
     .slice(0, 2);
+  const placeholder = isPlaceholder(member);
 
   return (
     <div
       className={`flex items-center justify-between px-4 py-3 hover:bg-muted/20 transition-all ${
         isDragging ? "opacity-40 bg-muted/30" : ""
       }`}
-      draggable
+      draggable={!readOnly}
       onDragStart={onDragStart}
       onDragEnd={onDragEnd}
     >
       <div className="flex items-center gap-3">
-        <GripVertical className="h-4 w-4 text-muted-foreground/40 cursor-grab active:cursor-grabbing shrink-0" />
-        <div
-          className="w-8 h-8 rounded-full flex items-center justify-center text-xs font-semibold text-white"
-          style={{ backgroundColor: team?.color ?? "#94a3b8" }}
-        >
-          {initials}
-        </div>
+        {!readOnly && (
+          <GripVertical className="h-4 w-4 text-muted-foreground/40 cursor-grab active:cursor-grabbing shrink-0" />
+        )}
+        {placeholder ? (
+          <div
+            className="w-8 h-8 rounded-full flex items-center justify-center border-2 border-dashed"
+            style={{ borderColor: team?.color ?? "#94a3b8" }}
+          >
+            <CircleDashed className="h-3.5 w-3.5 text-muted-foreground" />
+          </div>
+        ) : (
+          <div
+            className="w-8 h-8 rounded-full flex items-center justify-center text-xs font-semibold text-white"
+            style={{ backgroundColor: team?.color ?? "#94a3b8" }}
+          >
+            {initials}
+          </div>
+        )}
         <div>
-          <p className="text-sm font-medium">{member.name}</p>
-          <p className="text-xs text-muted-foreground">{member.role}</p>
+          <p className="text-sm font-medium">
+            {member.name}
+            {placeholder && (
+              <Badge
+                variant="outline"
+                className="ml-2 text-[10px] font-normal border-dashed"
+              >
+                Open role
+              </Badge>
+            )}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {member.role}
+            {hasCustomCapacity(member) && (
+              <Badge variant="outline" className="ml-2 text-[10px] font-normal">
+                {formatCapacity(member)}
+              </Badge>
+            )}
+          </p>
+          {member.skills?.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-1">
+              {member.skills.map((s) => (
+                <Badge
+                  key={s.name}
+                  variant="secondary"
+                  className="text-[10px] font-normal"
+                  title={SKILL_LEVEL_LABELS[s.level]}
+                >
+                  {s.name}
+                  {s.level !== DEFAULT_SKILL_LEVEL &&
+                    ` · ${SKILL_LEVEL_LABELS[s.level]}`}
+                </Badge>
+              ))}
+            </div>
+          )}
         </div>
       </div>
-      <div className="flex gap-1">
-        <Button
-          variant="ghost"
-          size="icon"
-          className="h-7 w-7"
-          onClick={onEdit}
-        >
-          <Pencil className="h-3.5 w-3.5" />
-        </Button>
-        <Button
-          variant="ghost"
-          size="icon"
-          className="h-7 w-7 text-destructive"
-          onClick={onDelete}
-        >
-          <Trash2 className="h-3.5 w-3.5" />
-        </Button>
-      </div>
+      {!readOnly && (
+        <div className="flex gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={onEdit}
+          >
+            <Pencil className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 text-destructive"
+            onClick={onDelete}
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
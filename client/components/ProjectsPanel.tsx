@@ -1,9 +1,50 @@
-import { useState, useRef, useCallback } from "react";
-import { Project } from "@/lib/types";
-import { parseProjectCsv, escapeCsv } from "@/lib/csvImport";
+import { useState, useRef, useCallback, useMemo } from "react";
+import { format } from "date-fns";
+import {
+  Assignment,
+  Member,
+  Milestone,
+  Project,
+  ProjectPriority,
+  ProjectStatus,
+  TimeOff,
+} from "@/lib/types";
+import { CsvProjectRow, parseProjectCsv, escapeCsv } from "@/lib/csvImport";
+import { dateToString, parseDate } from "@/lib/dateUtils";
+import { generateId } from "@/lib/store";
+import {
+  formatMilestone,
+  nextMilestone,
+  sortMilestones,
+} from "@/lib/milestones";
+import {
+  PROJECT_PRIORITY_LABELS,
+  PROJECT_STATUS_COLORS,
+  PROJECT_STATUS_LABELS,
+  getProjectPriority,
+  getProjectStatus,
+  listClients,
+  parseProjectPriority,
+  parseProjectStatus,
+} from "@/lib/projects";
+import { isPlaceholder } from "@/lib/capacity";
+import {
+  BudgetBurn,
+  ProjectCost,
+  budgetBurn,
+  formatMoney,
+  projectCost,
+} from "@/lib/costs";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+} from "@/components/ui/select";
 import {
   Dialog,
   DialogContent,
@@ -19,13 +60,27 @@ import {
   FolderKanban,
   Upload,
   Download,
+  Building2,
+  CalendarRange,
+  UserRound,
+  Diamond,
+  X,
+  AlertTriangle,
 } from "lucide-react";
 
 interface Props {
   projects: Project[];
+  members: Member[];
+  assignments: Assignment[];
+  timeOff: TimeOff[];
   addProject: (p: Omit<Project, "id">) => Project;
   updateProject: (id: string, data: Partial<Project>) => void;
-  deleteProject: (id: string) => void;
+  deleteProject?: (id: string) => void; // admins only
+  batch: <T>(label: string, run: () => T) => T;
+  /** Browse only: no adding, editing or deleting (viewers) */
+  readOnly: boolean;
+  /** Offer the CSV import (admins) */
+  canImport: boolean;
 }
 
 const PROJECT_COLORS = [
@@ -41,50 +96,113 @@ const PROJECT_COLORS = [
   "#84cc16",
 ];
 
+const ALL = "all";
+const NO_OWNER = "none";
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const MILESTONE_SUGGESTIONS = ["Kickoff", "Beta", "Launch", "Review gate"];
+
 export default function ProjectsPanel({
   projects,
+  members,
+  assignments,
+  timeOff,
   addProject,
   updateProject,
   deleteProject,
+  batch,
+  readOnly,
+  canImport,
 }: Props) {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editing, setEditing] = useState<Project | null>(null);
   const [csvDialog, setCsvDialog] = useState(false);
-  const [csvPreview, setCsvPreview] = useState<
-    { name: string; description: string; color: string }[]
-  >([]);
+  const [csvPreview, setCsvPreview] = useState<CsvProjectRow[]>([]);
   const [csvFileName, setCsvFileName] = useState("");
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
   const [color, setColor] = useState(PROJECT_COLORS[0]);
+  const [status, setStatus] = useState<ProjectStatus>("active");
+  const [priority, setPriority] = useState<ProjectPriority>("medium");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [ownerId, setOwnerId] = useState(NO_OWNER);
+  const [client, setClient] = useState("");
+  const [milestones, setMilestones] = useState<Milestone[]>([]);
+  const [budget, setBudget] = useState("");
+  const [statusFilter, setStatusFilter] = useState(ALL);
+
+  const clients = useMemo(() => listClients(projects), [projects]);
+  const costs = useMemo(
+    () =>
+      new Map(
+        projects.map((p) => {
+          const cost = projectCost(p.id, assignments, members, timeOff);
+          return [p.id, { cost, burn: budgetBurn(cost.cost, p.budget) }];
+        }),
+      ),
+    [projects, assignments, members, timeOff],
+  );
+  const overBudget = projects.filter((p) => costs.get(p.id)?.burn?.over);
+  const visibleProjects =
+    statusFilter === ALL
+      ? projects
+      : projects.filter((p) => getProjectStatus(p) === statusFilter);
+  const datesInvalid = Boolean(startDate && endDate && startDate > endDate);
+  const milestonesInvalid = milestones.some((m) => !m.name.trim() || !m.date);
 
   const openDialog = (project?: Project) => {
-    if (project) {
-      setEditing(project);
-      setName(project.name);
-      setDescription(project.description);
-      setColor(project.color);
-    } else {
-      setEditing(null);
-      setName("");
-      setDescription("");
-      setColor(PROJECT_COLORS[projects.length % PROJECT_COLORS.length]);
-    }
+    setEditing(project ?? null);
+    setName(project?.name ?? "");
+    setDescription(project?.description ?? "");
+    setColor(
+      project?.color ?? PROJECT_COLORS[projects.length % PROJECT_COLORS.length],
+    );
+    setStatus(getProjectStatus(project));
+    setPriority(getProjectPriority(project));
+    setStartDate(project?.startDate ?? "");
+    setEndDate(project?.endDate ?? "");
+    setOwnerId(project?.ownerId ?? NO_OWNER);
+    setClient(project?.client ?? "");
+    setMilestones(sortMilestones(project?.milestones));
+    setBudget(project?.budget?.toString() ?? "");
     setDialogOpen(true);
   };
 
   const handleSave = () => {
-    if (!name.trim()) return;
+    if (!name.trim() || datesInvalid || milestonesInvalid) return;
+    const budgetValue = parseFloat(budget);
+    // Cleared optional fields are sent as undefined so they are removed
+    const data = {
+      name,
+      description,
+      color,
+      status,
+      priority,
+      startDate: startDate || undefined,
+      endDate: endDate || undefined,
+      ownerId: ownerId === NO_OWNER ? undefined : ownerId,
+      client: client.trim() || undefined,
+      budget:
+        Number.isFinite(budgetValue) && budgetValue > 0
+          ? budgetValue
+          : undefined,
+      milestones: milestones.length
+        ? sortMilestones(milestones.map((m) => ({ ...m, name: m.name.trim() })))
+        : undefined,
+    };
     if (editing) {
-      updateProject(editing.id, { name, description, color });
+      updateProject(editing.id, data);
     } else {
-      addProject({ name, description, color });
+      addProject(data);
     }
     setDialogOpen(false);
   };
 
+  const findOwner = (ownerName: string) =>
+    members.find((m) => m.name.toLowerCase() === ownerName.toLowerCase());
+
   // --- CSV Import ---
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -102,30 +220,51 @@ export default function ProjectsPanel({
   };
 
   const handleCsvImport = () => {
-    for (const row of csvPreview) {
-      const projectColor =
-        row.color && /^#[0-9a-fA-F]{6}$/.test(row.color)
-          ? row.color
-          : PROJECT_COLORS[
-              (projects.length + csvPreview.indexOf(row)) %
-                PROJECT_COLORS.length
-            ];
-      addProject({
-        name: row.name,
-        description: row.description,
-        color: projectColor,
-      });
-    }
+    if (!canImport) return;
+    batch("Import projects CSV", () => {
+      for (const row of csvPreview) {
+        const projectColor =
+          row.color && /^#[0-9a-fA-F]{6}$/.test(row.color)
+            ? row.color
+            : PROJECT_COLORS[
+                (projects.length + csvPreview.indexOf(row)) %
+                  PROJECT_COLORS.length
+              ];
+        addProject({
+          name: row.name,
+          description: row.description,
+          color: projectColor,
+          status: parseProjectStatus(row.status),
+          priority: parseProjectPriority(row.priority),
+          client: row.client || undefined,
+          ownerId: findOwner(row.owner)?.id,
+          startDate: ISO_DATE.test(row.startDate) ? row.startDate : undefined,
+          endDate: ISO_DATE.test(row.endDate) ? row.endDate : undefined,
+        });
+      }
+    });
     setCsvDialog(false);
     setCsvPreview([]);
   };
 
   // --- CSV Export ---
   const handleExportCsv = useCallback(() => {
-    const header = "Name,Description,Color";
-    const rows = projects.map(
-      (p) =>
-        `${escapeCsv(p.name)},${escapeCsv(p.description)},${escapeCsv(p.color)}`,
+    const header =
+      "Name,Description,Color,Status,Priority,Client,Owner,Start,End";
+    const rows = projects.map((p) =>
+      [
+        p.name,
+        p.description,
+        p.color,
+        PROJECT_STATUS_LABELS[getProjectStatus(p)],
+        PROJECT_PRIORITY_LABELS[getProjectPriority(p)],
+        p.client ?? "",
+        members.find((m) => m.id === p.ownerId)?.name ?? "",
+        p.startDate ?? "",
+        p.endDate ?? "",
+      ]
+        .map(escapeCsv)
+        .join(","),
     );
     const csv = [header, ...rows].join("\n");
     const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
@@ -135,7 +274,7 @@ export default function ProjectsPanel({
     a.download = "projects-export.csv";
     a.click();
     URL.revokeObjectURL(url);
-  }, [projects]);
+  }, [projects, members]);
 
   return (
     <div className="space-y-6">
@@ -147,6 +286,21 @@ export default function ProjectsPanel({
           </p>
         </div>
         <div className="flex gap-2 flex-wrap">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="h-9 w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All statuses</SelectItem>
+              {(Object.keys(PROJECT_STATUS_LABELS) as ProjectStatus[]).map(
+                (s) => (
+                  <SelectItem key={s} value={s}>
+                    {PROJECT_STATUS_LABELS[s]}
+                  </SelectItem>
+                ),
+              )}
+            </SelectContent>
+          </Select>
           <input
             ref={fileInputRef}
             type="file"
@@ -157,36 +311,71 @@ export default function ProjectsPanel({
           <Button variant="outline" size="sm" onClick={handleExportCsv}>
             <Download className="h-4 w-4 mr-1" /> Export CSV
           </Button>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={() => fileInputRef.current?.click()}
-          >
-            <Upload className="h-4 w-4 mr-1" /> Import CSV
-          </Button>
-          <Button size="sm" onClick={() => openDialog()}>
-            <Plus className="h-4 w-4 mr-1" /> Add Project
-          </Button>
+          {canImport && !readOnly && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <Upload className="h-4 w-4 mr-1" /> Import CSV
+            </Button>
+          )}
+          {!readOnly && (
+            <Button size="sm" onClick={() => openDialog()}>
+              <Plus className="h-4 w-4 mr-1" /> Add Project
+            </Button>
+          )}
         </div>
       </div>
 
+      {overBudget.length > 0 && (
+        <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm flex items-start gap-2">
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+          <div>
+            <p className="font-medium">
+              {overBudget.length} project{overBudget.length !== 1 ? "s" : ""}{" "}
+              planned over budget
+            </p>
+            <p className="text-xs mt-0.5">
+              {overBudget
+                .map((p) => {
+                  const { burn } = costs.get(p.id);
+                  return `${p.name} (${formatMoney(-burn.remaining)} over)`;
+                })
+                .join(", ")}
+            </p>
+          </div>
+        </div>
+      )}
+
       {projects.length === 0 ? (
         <div className="flex flex-col items-center justify-center py-16 text-center">
           <div className="w-12 h-12 rounded-full bg-muted flex items-center justify-center mb-3">
             <FolderKanban className="h-6 w-6 text-muted-foreground" />
           </div>
           <p className="text-sm text-muted-foreground">
-            No projects yet. Create one to get started.
+            No projects yet.{!readOnly && " Create one to get started."}
           </p>
         </div>
       ) : (
         <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
-          {projects.map((project) => (
+          {visibleProjects.length === 0 && (
+            <p className="text-sm text-muted-foreground col-span-full text-center py-8">
+              No {PROJECT_STATUS_LABELS[statusFilter as ProjectStatus]}{" "}
+              projects.
+            </p>
+          )}
+          {visibleProjects.map((project) => (
             <ProjectCard
               key={project.id}
               project={project}
-              onEdit={() => openDialog(project)}
-              onDelete={() => deleteProject(project.id)}
+              owner={members.find((m) => m.id === project.ownerId)}
+              cost={costs.get(project.id)?.cost}
+              burn={costs.get(project.id)?.burn}
+              onEdit={readOnly ? undefined : () => openDialog(project)}
+              onDelete={
+                deleteProject && !readOnly && (() => deleteProject(project.id))
+              }
             />
           ))}
         </div>
@@ -194,7 +383,7 @@ export default function ProjectsPanel({
 
       {/* Project CRUD Dialog */}
       <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-        <DialogContent>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>
               {editing ? "Edit Project" : "New Project"}
@@ -224,6 +413,136 @@ export default function ProjectsPanel({
                 placeholder="Short description"
               />
             </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-sm font-medium mb-1.5 block">
+                  Status
+                </label>
+                <Select
+                  value={status}
+                  onValueChange={(v) => setStatus(v as ProjectStatus)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(
+                      Object.keys(PROJECT_STATUS_LABELS) as ProjectStatus[]
+                    ).map((s) => (
+                      <SelectItem key={s} value={s}>
+                        {PROJECT_STATUS_LABELS[s]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="text-sm font-medium mb-1.5 block">
+                  Priority
+                </label>
+                <Select
+                  value={priority}
+                  onValueChange={(v) => setPriority(v as ProjectPriority)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(
+                      Object.keys(PROJECT_PRIORITY_LABELS) as ProjectPriority[]
+                    ).map((p) => (
+                      <SelectItem key={p} value={p}>
+                        {PROJECT_PRIORITY_LABELS[p]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-sm font-medium mb-1.5 block">
+                  Target Start
+                </label>
+                <Input
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium mb-1.5 block">
+                  Target End
+                </label>
+                <Input
+                  type="date"
+                  value={endDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                />
+              </div>
+              {datesInvalid && (
+                <p className="col-span-2 text-xs text-destructive">
+                  Target end must not be before target start.
+                </p>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-sm font-medium mb-1.5 block">
+                  Owner
+                </label>
+                <Select value={ownerId} onValueChange={setOwnerId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_OWNER}>No owner</SelectItem>
+                    {members
+                      .filter((m) => !isPlaceholder(m))
+                      .map((m) => (
+                        <SelectItem key={m.id} value={m.id}>
+                          {m.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="text-sm font-medium mb-1.5 block">
+                  Client
+                </label>
+                <Input
+                  value={client}
+                  onChange={(e) => setClient(e.target.value)}
+                  placeholder="Customer name"
+                  list="project-clients"
+                />
+                <datalist id="project-clients">
+                  {clients.map((c) => (
+                    <option key={c} value={c} />
+                  ))}
+                </datalist>
+              </div>
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-1.5 block">Budget</label>
+              <Input
+                type="number"
+                min={0}
+                step={1000}
+                value={budget}
+                onChange={(e) => setBudget(e.target.value)}
+                placeholder="No budget"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Planned spend is priced from the booked members' cost rates.
+              </p>
+            </div>
+            <MilestoneEditor
+              milestones={milestones}
+              onChange={setMilestones}
+              invalid={milestonesInvalid}
+            />
             <div>
               <label className="text-sm font-medium mb-1.5 block">Color</label>
               <div className="flex gap-2 flex-wrap">
@@ -242,7 +561,10 @@ export default function ProjectsPanel({
             <Button variant="outline" onClick={() => setDialogOpen(false)}>
               Cancel
             </Button>
-            <Button onClick={handleSave}>
+            <Button
+              onClick={handleSave}
+              disabled={datesInvalid || milestonesInvalid}
+            >
               {editing ? "Update" : "Create"}
             </Button>
           </DialogFooter>
@@ -269,6 +591,9 @@ export default function ProjectsPanel({
                   <th className="text-left px-3 py-2 font-medium text-muted-foreground">
                     Description
                   </th>
+                  <th className="text-left px-3 py-2 font-medium text-muted-foreground">
+                    Status
+                  </th>
                   <th className="text-left px-3 py-2 font-medium text-muted-foreground">
                     Color
                   </th>
@@ -281,6 +606,13 @@ export default function ProjectsPanel({
                     <td className="px-3 py-2 text-muted-foreground">
                       {row.description || "—"}
                     </td>
+                    <td className="px-3 py-2 text-muted-foreground">
+                      {
+                        PROJECT_STATUS_LABELS[
+                          parseProjectStatus(row.status) ?? "active"
+                        ]
+                      }
+                    </td>
                     <td className="px-3 py-2">
                       {row.color && /^#[0-9a-fA-F]{6}$/.test(row.color) ? (
                         <div className="flex items-center gap-1.5">
@@ -327,15 +659,109 @@ export default function ProjectsPanel({
   );
 }
 
+function MilestoneEditor({
+  milestones,
+  onChange,
+  invalid,
+}: {
+  milestones: Milestone[];
+  onChange: (milestones: Milestone[]) => void;
+  invalid: boolean;
+}) {
+  const edit = (id: string, data: Partial<Milestone>) =>
+    onChange(milestones.map((m) => (m.id === id ? { ...m, ...data } : m)));
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1.5">
+        <label className="text-sm font-medium">Milestones</label>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-7 text-xs"
+          onClick={() =>
+            onChange([
+              ...milestones,
+              { id: generateId(), name: "", date: dateToString(new Date()) },
+            ])
+          }
+        >
+          <Plus className="h-3.5 w-3.5 mr-1" /> Add
+        </Button>
+      </div>
+      {milestones.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Kickoffs, betas, launches and review gates show on the schedule.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {milestones.map((m) => (
+            <div key={m.id} className="flex items-center gap-2">
+              <Input
+                value={m.name}
+                onChange={(e) => edit(m.id, { name: e.target.value })}
+                placeholder="e.g. Launch"
+                list="milestone-names"
+                className="flex-1"
+              />
+              <Input
+                type="date"
+                value={m.date}
+                onChange={(e) => edit(m.id, { date: e.target.value })}
+                className="w-40"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                onClick={() =>
+                  onChange(milestones.filter((other) => other.id !== m.id))
+                }
+              >
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          ))}
+          <datalist id="milestone-names">
+            {MILESTONE_SUGGESTIONS.map((n) => (
+              <option key={n} value={n} />
+            ))}
+          </datalist>
+          {invalid && (
+            <p className="text-xs text-destructive">
+              Every milestone needs a name and a date.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 function ProjectCard({
   project,
+  owner,
+  cost,
+  burn,
   onEdit,
   onDelete,
 }: {
   project: Project;
-  onEdit: () => void;
-  onDelete: () => void;
+  owner?: Member;
+  cost?: ProjectCost;
+  burn?: BudgetBurn | null;
+  onEdit?: () => void;
+  onDelete?: () => void;
 }) {
+  const status = getProjectStatus(project);
+  const priority = getProjectPriority(project);
+  const target = [project.startDate, project.endDate]
+    .map((d) => (d ? format(parseDate(d), "MMM d, yyyy") : "?"))
+    .join(" – ");
+  const upcoming = nextMilestone(project, dateToString(new Date()));
+  const milestoneCount = project.milestones?.length ?? 0;
   return (
     <div className="bg-card border rounded-lg p-4 hover:shadow-md transition-shadow group">
       <div className="flex items-start justify-between mb-2">
@@ -347,22 +773,26 @@ function ProjectCard({
           <h3 className="font-medium text-sm">{project.name}</h3>
         </div>
         <div className="flex gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
-          <Button
-            variant="ghost"
-            size="icon"
-            className="h-7 w-7"
-            onClick={onEdit}
-          >
-            <Pencil className="h-3.5 w-3.5" />
-          </Button>
-          <Button
-            variant="ghost"
-            size="icon"
-            className="h-7 w-7 text-destructive"
-            onClick={onDelete}
-          >
-            <Trash2 className="h-3.5 w-3.5" />
-          </Button>
+          {onEdit && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={onEdit}
+            >
+              <Pencil className="h-3.5 w-3.5" />
+            </Button>
+          )}
+          {onDelete && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 text-destructive"
+              onClick={onDelete}
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          )}
         </div>
       </div>
       {project.description && (
@@ -370,6 +800,102 @@ function ProjectCard({
           {project.description}
         </p>
       )}
+      <div className="flex items-center gap-1.5 flex-wrap mt-2">
+        <Badge
+          variant="outline"
+          className={`text-[10px] ${PROJECT_STATUS_COLORS[status]}`}
+        >
+          {PROJECT_STATUS_LABELS[status]}
+        </Badge>
+        {priority !== "medium" && (
+          <Badge
+            variant={priority === "high" ? "destructive" : "secondary"}
+            className="text-[10px]"
+          >
+            {PROJECT_PRIORITY_LABELS[priority]} priority
+          </Badge>
+        )}
+      </div>
+      <div className="mt-2 space-y-0.5 text-xs text-muted-foreground">
+        {project.client && (
+          <p className="flex items-center gap-1.5">
+            <Building2 className="h-3 w-3 shrink-0" /> {project.client}
+          </p>
+        )}
+        {owner && (
+          <p className="flex items-center gap-1.5">
+            <UserRound className="h-3 w-3 shrink-0" /> {owner.name}
+          </p>
+        )}
+        {(project.startDate || project.endDate) && (
+          <p className="flex items-center gap-1.5">
+            <CalendarRange className="h-3 w-3 shrink-0" /> {target}
+          </p>
+        )}
+        {milestoneCount > 0 && (
+          <p className="flex items-center gap-1.5">
+            <Diamond className="h-3 w-3 shrink-0" />
+            {upcoming
+              ? `Next: ${formatMilestone(upcoming)}`
+              : "All milestones passed"}
+            {milestoneCount > 1 && ` · ${milestoneCount} total`}
+          </p>
+        )}
+      </div>
+      {cost && (burn || cost.cost > 0) && (
+        <BudgetLine cost={cost} budget={project.budget} burn={burn} />
+      )}
+    </div>
+  );
+}
+
+function BudgetLine({
+  cost,
+  budget,
+  burn,
+}: {
+  cost: ProjectCost;
+  budget?: number;
+  burn?: BudgetBurn | null;
+}) {
+  const details = [
+    cost.tentativeCost > 0 &&
+      `${formatMoney(cost.tentativeCost)} not yet confirmed`,
+    cost.unpricedHours > 0 &&
+      `${Math.round(cost.unpricedHours)}h without a rate`,
+  ].filter(Boolean);
+  return (
+    <div className="mt-3 space-y-1">
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-muted-foreground">
+          Planned {formatMoney(cost.cost)}
+          {burn && ` of ${formatMoney(budget)}`}
+        </span>
+        {burn && (
+          <span
+            className={
+              burn.over
+                ? "font-medium text-destructive"
+                : "text-muted-foreground"
+            }
+          >
+            {burn.percent}%
+          </span>
+        )}
+      </div>
+      {burn && (
+        <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+          <div
+            className={`h-full rounded-full ${burn.over ? "bg-destructive" : burn.percent >= 90 ? "bg-amber-500" : "bg-primary"}`}
+            style={{ width: `${Math.min(burn.percent, 100)}%` }}
+          />
+        </div>
+      )}
+      {details.length > 0 && (
+        <p className="text-[11px] text-muted-foreground">
+          {details.join(" · ")}
+        </p>
+      )}
     </div>
   );
 }
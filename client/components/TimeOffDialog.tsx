@@ -0,0 +1,310 @@
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { Team, Member, TimeOff, TimeOffType } from "@/lib/types";
+import { dateToString, parseDate } from "@/lib/dateUtils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+} from "@/components/ui/select";
+import { Pencil, Trash2, AlertTriangle } from "lucide-react";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  teams: Team[];
+  members: Member[];
+  timeOff: TimeOff[];
+  addTimeOff: (t: Omit<TimeOff, "id">) => TimeOff;
+  updateTimeOff: (id: string, data: Partial<TimeOff>) => void;
+  deleteTimeOff: (id: string) => void;
+}
+
+export const TIME_OFF_LABELS: Record<TimeOffType, string> = {
+  vacation: "Vacation",
+  sick: "Sick leave",
+  holiday: "Public holiday",
+};
+
+const COMPANY_SCOPE = "company";
+
+/** Encode who an entry applies to as a single select value */
+function scopeOf(entry: Pick<TimeOff, "memberId" | "teamId">): string {
+  if (entry.memberId) return `member:${entry.memberId}`;
+  if (entry.teamId) return `team:${entry.teamId}`;
+  return COMPANY_SCOPE;
+}
+
+function scopeToFields(scope: string): Pick<TimeOff, "memberId" | "teamId"> {
+  if (scope.startsWith("member:"))
+    return { memberId: scope.slice(7), teamId: undefined };
+  if (scope.startsWith("team:"))
+    return { memberId: undefined, teamId: scope.slice(5) };
+  return { memberId: undefined, teamId: undefined };
+}
+
+export default function TimeOffDialog({
+  open,
+  onOpenChange,
+  teams,
+  members,
+  timeOff,
+  addTimeOff,
+  updateTimeOff,
+  deleteTimeOff,
+}: Props) {
+  const [editing, setEditing] = useState<TimeOff | null>(null);
+  const [type, setType] = useState<TimeOffType>("vacation");
+  const [label, setLabel] = useState("");
+  const [scope, setScope] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [error, setError] = useState("");
+
+  const resetForm = () => {
+    const today = dateToString(new Date());
+    setEditing(null);
+    setType("vacation");
+    setLabel("");
+    setScope(members[0] ? `member:${members[0].id}` : COMPANY_SCOPE);
+    setStartDate(today);
+    setEndDate(today);
+    setError("");
+  };
+
+  useEffect(() => {
+    if (open) resetForm();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const startEdit = (entry: TimeOff) => {
+    setEditing(entry);
+    setType(entry.type);
+    setLabel(entry.label);
+    setScope(scopeOf(entry));
+    setStartDate(entry.startDate);
+    setEndDate(entry.endDate);
+    setError("");
+  };
+
+  const handleTypeChange = (value: string) => {
+    const t = value as TimeOffType;
+    setType(t);
+    // Holidays usually apply to everyone
+    if (t === "holiday" && scope.startsWith("member:")) setScope(COMPANY_SCOPE);
+  };
+
+  const handleSave = () => {
+    if (!startDate || !endDate) {
+      setError("Please pick a start and end date.");
+      return;
+    }
+    if (startDate > endDate) {
+      setError("End date must be after start date.");
+      return;
+    }
+    const data = {
+      type,
+      label: label.trim() || TIME_OFF_LABELS[type],
+      startDate,
+      endDate,
+      ...scopeToFields(scope),
+    };
+    if (editing) {
+      updateTimeOff(editing.id, data);
+    } else {
+      addTimeOff(data);
+    }
+    resetForm();
+  };
+
+  const describeScope = (entry: TimeOff) => {
+    if (entry.memberId)
+      return members.find((m) => m.id === entry.memberId)?.name ?? "Unknown";
+    if (entry.teamId)
+      return `${teams.find((t) => t.id === entry.teamId)?.name ?? "Unknown"} team`;
+    return "Everyone";
+  };
+
+  const sorted = [...timeOff].sort((a, b) =>
+    a.startDate < b.startDate ? -1 : a.startDate > b.startDate ? 1 : 0,
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Time Off & Holidays</DialogTitle>
+          <DialogDescription>
+            Leave and holidays are excluded from capacity and working-day
+            counts, and shown as hatched blocks on the schedule.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-56 overflow-y-auto border rounded-md">
+          {sorted.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No time off recorded yet.
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <tbody className="divide-y">
+                {sorted.map((entry) => (
+                  <tr
+                    key={entry.id}
+                    className={`hover:bg-muted/20 ${editing?.id === entry.id ? "bg-primary/5" : ""}`}
+                  >
+                    <td className="px-3 py-2">
+                      <p className="font-medium">{entry.label}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {describeScope(entry)}
+                      </p>
+                    </td>
+                    <td className="px-3 py-2">
+                      <Badge variant="outline" className="text-[10px]">
+                        {TIME_OFF_LABELS[entry.type]}
+                      </Badge>
+                    </td>
+                    <td className="px-3 py-2 text-xs text-muted-foreground whitespace-nowrap">
+                      {format(parseDate(entry.startDate), "MMM d")} –{" "}
+                      {format(parseDate(entry.endDate), "MMM d, yyyy")}
+                    </td>
+                    <td className="px-2 py-2 text-right whitespace-nowrap">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => startEdit(entry)}
+                      >
+                        <Pencil className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 text-destructive"
+                        onClick={() => {
+                          deleteTimeOff(entry.id);
+                          if (editing?.id === entry.id) resetForm();
+                        }}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <p className="text-sm font-medium">
+            {editing ? "Edit entry" : "Add entry"}
+          </p>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-xs font-medium mb-1 block">Type</label>
+              <Select value={type} onValueChange={handleTypeChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(TIME_OFF_LABELS) as TimeOffType[]).map((t) => (
+                    <SelectItem key={t} value={t}>
+                      {TIME_OFF_LABELS[t]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="text-xs font-medium mb-1 block">
+                Applies to
+              </label>
+              <Select value={scope} onValueChange={setScope}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select who is away" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={COMPANY_SCOPE}>
+                    Everyone (company-wide)
+                  </SelectItem>
+                  {teams.length > 0 && <SelectSeparator />}
+                  {teams.map((t) => (
+                    <SelectItem key={t.id} value={`team:${t.id}`}>
+                      {t.name} team
+                    </SelectItem>
+                  ))}
+                  {members.length > 0 && <SelectSeparator />}
+                  {members.map((m) => (
+                    <SelectItem key={m.id} value={`member:${m.id}`}>
+                      {m.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="text-xs font-medium mb-1 block">Label</label>
+              <Input
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder={TIME_OFF_LABELS[type]}
+              />
+            </div>
+            <div>
+              <label className="text-xs font-medium mb-1 block">Start</label>
+              <Input
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className="text-xs font-medium mb-1 block">End</label>
+              <Input
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+              />
+            </div>
+          </div>
+          {error && (
+            <div className="flex items-start gap-2 p-3 rounded-md bg-destructive/10 text-destructive text-sm">
+              <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          {editing && (
+            <Button variant="ghost" onClick={resetForm}>
+              Cancel edit
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button onClick={handleSave}>{editing ? "Update" : "Add"}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
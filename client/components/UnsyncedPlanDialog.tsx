@@ -0,0 +1,48 @@
+import { WorkspaceData } from "@/lib/types";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface Props {
+  // The plan this browser kept before it first synced; null hides the dialog
+  plan: WorkspaceData | null;
+  onResolve: (upload: boolean) => void;
+}
+
+/** Asks before a plan kept in this browser is uploaded to an empty server */
+export default function UnsyncedPlanDialog({ plan, onResolve }: Props) {
+  return (
+    <AlertDialog open={plan !== null}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            Upload the plan saved in this browser?
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            The shared plan is empty, but this browser still holds one from
+            before it was connected
+            {plan &&
+              ` (${plan.members.length} members, ${plan.projects.length} projects, ${plan.assignments.length} assignments)`}
+            . Uploading makes it the plan everyone sees; otherwise it is
+            discarded and you start from the empty shared plan.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={() => onResolve(false)}>
+            Discard
+          </AlertDialogCancel>
+          <AlertDialogAction onClick={() => onResolve(true)}>
+            Upload
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,105 @@
+import { format, formatDistanceToNow } from "date-fns";
+import { AuditAction, AuditEntry } from "@/lib/types";
+import { Badge } from "@/components/ui/badge";
+import {
+  Tooltip,
+  TooltipTrigger,
+  TooltipContent,
+} from "@/components/ui/tooltip";
+import {
+  ArrowRightLeft,
+  CalendarRange,
+  History,
+  Pencil,
+  Plus,
+  Redo2,
+  Trash2,
+  Undo2,
+} from "lucide-react";
+
+interface Props {
+  entries: AuditEntry[]; // newest first
+  emptyText?: string;
+}
+
+const ACTION_ICONS: Record<AuditAction, React.ElementType> = {
+  create: Plus,
+  update: Pencil,
+  move: CalendarRange,
+  reassign: ArrowRightLeft,
+  delete: Trash2,
+  restore: History,
+  undo: Undo2,
+  redo: Redo2,
+};
+
+const ACTION_COLORS: Partial<Record<AuditAction, string>> = {
+  create: "text-emerald-600 bg-emerald-500/10",
+  delete: "text-destructive bg-destructive/10",
+  move: "text-sky-600 bg-sky-500/10",
+  reassign: "text-violet-600 bg-violet-500/10",
+};
+
+export default function AuditTimeline({
+  entries,
+  emptyText = "No changes recorded yet.",
+}: Props) {
+  if (entries.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-6">
+        {emptyText}
+      </p>
+    );
+  }
+
+  return (
+    <ol className="relative space-y-3">
+      {entries.map((entry) => {
+        const Icon = ACTION_ICONS[entry.action];
+        const at = new Date(entry.at);
+        return (
+          <li key={entry.id} className="flex gap-3">
+            <span
+              className={`mt-0.5 h-6 w-6 shrink-0 rounded-full flex items-center justify-center ${ACTION_COLORS[entry.action] ?? "text-muted-foreground bg-muted"}`}
+            >
+              <Icon className="h-3.5 w-3.5" />
+            </span>
+            <div className="min-w-0 flex-1">
+              <p className="text-sm font-medium">{entry.summary}</p>
+              {entry.changes?.map((change) => (
+                <p
+                  key={change.field}
+                  className="text-xs text-muted-foreground truncate"
+                >
+                  <span className="capitalize">{change.field}</span>:{" "}
+                  <span className="line-through">{change.from || "—"}</span> →{" "}
+                  <span className="text-foreground">{change.to || "—"}</span>
+                </p>
+              ))}
+              {entry.note && (
+                <p className="text-xs italic mt-0.5">“{entry.note}”</p>
+              )}
+              <p className="text-[11px] text-muted-foreground mt-0.5 flex items-center gap-1.5">
+                <span>{entry.actor}</span>
+                <span>&middot;</span>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <span>{formatDistanceToNow(at, { addSuffix: true })}</span>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    {format(at, "MMM d, yyyy HH:mm:ss")}
+                  </TooltipContent>
+                </Tooltip>
+                {entry.source && (
+                  <Badge variant="outline" className="text-[10px] py-0 h-4">
+                    {entry.source}
+                  </Badge>
+                )}
+              </p>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
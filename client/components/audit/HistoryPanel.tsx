@@ -0,0 +1,129 @@
+import { useState, useMemo } from "react";
+import { AuditAction, AuditEntityType, AuditEntry, Project } from "@/lib/types";
+import { ACTION_LABELS, ENTITY_LABELS, filterAuditLog } from "@/lib/audit";
+import AuditTimeline from "./AuditTimeline";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+} from "@/components/ui/select";
+import { Search } from "lucide-react";
+
+interface Props {
+  auditLog: AuditEntry[];
+  projects: Project[];
+}
+
+const ALL = "all";
+const PAGE_SIZE = 100;
+
+export default function HistoryPanel({ auditLog, projects }: Props) {
+  const [search, setSearch] = useState("");
+  const [entityType, setEntityType] = useState(ALL);
+  const [action, setAction] = useState(ALL);
+  const [projectId, setProjectId] = useState(ALL);
+  const [visible, setVisible] = useState(PAGE_SIZE);
+
+  const filtered = useMemo(
+    () =>
+      filterAuditLog(auditLog, {
+        search,
+        entityType:
+          entityType === ALL ? undefined : (entityType as AuditEntityType),
+        action: action === ALL ? undefined : (action as AuditAction),
+        projectId: projectId === ALL ? undefined : projectId,
+      }),
+    [auditLog, search, entityType, action, projectId],
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold text-foreground">History</h2>
+        <p className="text-sm text-muted-foreground mt-0.5">
+          Who changed what, and when
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <div className="relative flex-1 min-w-[200px]">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setVisible(PAGE_SIZE);
+            }}
+            placeholder="Search changes, people, notes…"
+            className="pl-8"
+          />
+        </div>
+        <Select value={entityType} onValueChange={setEntityType}>
+          <SelectTrigger className="w-[150px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All items</SelectItem>
+            {(Object.keys(ENTITY_LABELS) as AuditEntityType[]).map((t) => (
+              <SelectItem key={t} value={t} className="capitalize">
+                {ENTITY_LABELS[t]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={action} onValueChange={setAction}>
+          <SelectTrigger className="w-[150px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All changes</SelectItem>
+            {(Object.keys(ACTION_LABELS) as AuditAction[]).map((a) => (
+              <SelectItem key={a} value={a}>
+                {ACTION_LABELS[a]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={projectId} onValueChange={setProjectId}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All projects</SelectItem>
+            {projects.map((p) => (
+              <SelectItem key={p.id} value={p.id}>
+                {p.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="border rounded-lg bg-card p-4">
+        <AuditTimeline
+          entries={filtered.slice(0, visible)}
+          emptyText={
+            auditLog.length === 0
+              ? "No changes recorded yet."
+              : "No changes match these filters."
+          }
+        />
+        {filtered.length > visible && (
+          <div className="text-center mt-4">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setVisible((v) => v + PAGE_SIZE)}
+            >
+              Show more ({filtered.length - visible} older)
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { SessionResponse } from "@shared/api";
+import { ApiError, login, setupAdmin } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { LayoutGrid } from "lucide-react";
+
+interface Props {
+  /** No accounts exist yet: create the first admin instead of signing in */
+  needsSetup: boolean;
+  onSignedIn: (session: SessionResponse) => void;
+}
+
+export default function LoginScreen({ needsSetup, onSignedIn }: Props) {
+  const [name, setName] = useState("");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    try {
+      onSignedIn(
+        needsSetup
+          ? await setupAdmin({ name, username, password })
+          : await login({ username, password }),
+      );
+    } catch (err) {
+      setError(
+        err instanceof ApiError
+          ? [err.message, ...(err.body?.issues ?? [])]
+          : ["The server can't be reached"],
+      );
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center px-4">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm bg-card border rounded-lg p-6 space-y-4 shadow-sm"
+      >
+        <div className="flex items-center gap-2.5">
+          <div className="w-8 h-8 rounded-lg bg-primary flex items-center justify-center">
+            <LayoutGrid className="h-4 w-4 text-primary-foreground" />
+          </div>
+          <span className="font-semibold text-base tracking-tight">
+            ResourceHub
+          </span>
+        </div>
+        <div>
+          <h1 className="text-lg font-semibold">
+            {needsSetup ? "Create the admin account" : "Sign in"}
+          </h1>
+          {needsSetup && (
+            <p className="text-sm text-muted-foreground mt-0.5">
+              No accounts exist yet. The first one manages everyone else's.
+            </p>
+          )}
+        </div>
+        {needsSetup && (
+          <div className="space-y-1.5">
+            <Label htmlFor="login-name">Your name</Label>
+            <Input
+              id="login-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Shown in the change history"
+              autoFocus
+            />
+          </div>
+        )}
+        <div className="space-y-1.5">
+          <Label htmlFor="login-username">Username</Label>
+          <Input
+            id="login-username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            autoComplete="username"
+            autoFocus={!needsSetup}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="login-password">Password</Label>
+          <Input
+            id="login-password"
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete={needsSetup ? "new-password" : "current-password"}
+          />
+        </div>
+        {error.length > 0 && (
+          <div className="text-sm text-destructive space-y-0.5">
+            {error.map((line) => (
+              <p key={line}>{line}</p>
+            ))}
+          </div>
+        )}
+        <Button
+          type="submit"
+          className="w-full"
+          disabled={
+            busy ||
+            !username.trim() ||
+            !password ||
+            (needsSetup && !name.trim())
+          }
+        >
+          {needsSetup ? "Create account" : "Sign in"}
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { ReactNode, useMemo } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { SessionResponse } from "@shared/api";
+import { SESSION_QUERY_KEY, fetchSession, logout } from "@/lib/api";
+import { AuthContext, AuthState } from "@/lib/auth";
+import { clearLocalData } from "@/lib/store";
+import LoginScreen from "./LoginScreen";
+import { Button } from "@/components/ui/button";
+import { CloudOff } from "lucide-react";
+
+/** Render `children` for a signed-in user, the sign-in screen otherwise */
+export default function RequireAuth({ children }: { children: ReactNode }) {
+  const queryClient = useQueryClient();
+  const session = useQuery({
+    queryKey: SESSION_QUERY_KEY,
+    queryFn: fetchSession,
+  });
+  const user = session.data?.user;
+
+  const auth = useMemo<AuthState | null>(
+    () =>
+      user && {
+        user,
+        signOut: () => {
+          logout()
+            .catch(() => undefined)
+            .finally(() => {
+              // Drop everything fetched as this user
+              queryClient.clear();
+              clearLocalData();
+              queryClient.setQueryData<SessionResponse>(SESSION_QUERY_KEY, {
+                user: null,
+                needsSetup: false,
+              });
+            });
+        },
+      },
+    [user, queryClient],
+  );
+
+  if (session.isPending) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-sm text-muted-foreground">
+        Loading…
+      </div>
+    );
+  }
+  if (session.isError) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-3 text-sm text-muted-foreground">
+        <CloudOff className="h-6 w-6" />
+        The server can't be reached, so you can't sign in.
+        <Button variant="outline" size="sm" onClick={() => session.refetch()}>
+          Try again
+        </Button>
+      </div>
+    );
+  }
+  if (!auth) {
+    return (
+      <LoginScreen
+        needsSetup={session.data.needsSetup}
+        onSignedIn={(response) =>
+          queryClient.setQueryData(SESSION_QUERY_KEY, response)
+        }
+      />
+    );
+  }
+  return <AuthContext.Provider value={auth}>{children}</AuthContext.Provider>;
+}
@@ -0,0 +1,57 @@
+import { useState } from "react";
+import { hasRole } from "@shared/api";
+import { ROLE_DESCRIPTIONS, ROLE_LABELS, useAuth } from "@/lib/auth";
+import UsersDialog from "./UsersDialog";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { LogOut, UserRound, Users } from "lucide-react";
+
+/** The signed-in user, with sign-out and, for admins, user management */
+export default function UserMenu() {
+  const { user, signOut } = useAuth();
+  const [managing, setManaging] = useState(false);
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 text-xs max-w-[180px]"
+          >
+            <UserRound className="h-3.5 w-3.5 mr-1 shrink-0" />
+            <span className="truncate">{user.name}</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-60">
+          <DropdownMenuLabel className="font-normal">
+            <p className="text-sm font-medium">{user.name}</p>
+            <p className="text-xs text-muted-foreground">
+              {ROLE_LABELS[user.role]} · {ROLE_DESCRIPTIONS[user.role]}
+            </p>
+          </DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {hasRole(user, "admin") && (
+            <DropdownMenuItem onSelect={() => setManaging(true)}>
+              <Users className="h-3.5 w-3.5 mr-2" /> Manage users
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onSelect={signOut}>
+            <LogOut className="h-3.5 w-3.5 mr-2" /> Sign out
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {hasRole(user, "admin") && (
+        <UsersDialog open={managing} onOpenChange={setManaging} />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,256 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { User, UserRole } from "@shared/api";
+import { ApiError, USERS_QUERY_KEY, usersApi } from "@/lib/api";
+import { ROLE_DESCRIPTIONS, ROLE_LABELS, useAuth } from "@/lib/auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { KeyRound, Trash2, UserPlus } from "lucide-react";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ROLES = Object.keys(ROLE_LABELS) as UserRole[];
+
+function RoleSelect({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: UserRole;
+  onChange: (role: UserRole) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <Select
+      value={value}
+      onValueChange={(v) => onChange(v as UserRole)}
+      disabled={disabled}
+    >
+      <SelectTrigger className="h-8 w-[110px] text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {ROLES.map((role) => (
+          <SelectItem key={role} value={role} className="text-xs">
+            <span className="font-medium">{ROLE_LABELS[role]}</span>
+            <span className="block text-[11px] text-muted-foreground">
+              {ROLE_DESCRIPTIONS[role]}
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+/** Admins add accounts, change roles, reset passwords and remove people */
+export default function UsersDialog({ open, onOpenChange }: Props) {
+  const { user: me } = useAuth();
+  const queryClient = useQueryClient();
+  const users = useQuery({
+    queryKey: USERS_QUERY_KEY,
+    queryFn: usersApi.list,
+    enabled: open,
+  });
+  const [name, setName] = useState("");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [role, setRole] = useState<UserRole>("planner");
+  // User whose password is being reset, and the new one
+  const [resetting, setResetting] = useState<string | null>(null);
+  const [newPassword, setNewPassword] = useState("");
+
+  const run = async (action: () => Promise<unknown>, done: string) => {
+    try {
+      await action();
+      toast(done);
+      return true;
+    } catch (err) {
+      toast.error(
+        err instanceof ApiError
+          ? [err.message, ...(err.body?.issues ?? [])].join(". ")
+          : "The server can't be reached",
+      );
+      return false;
+    } finally {
+      queryClient.invalidateQueries({ queryKey: USERS_QUERY_KEY });
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const added = await run(
+      () => usersApi.create({ name, username, password, role }),
+      `Added ${name.trim()}`,
+    );
+    if (!added) return;
+    setName("");
+    setUsername("");
+    setPassword("");
+  };
+
+  const handleReset = async (u: User) => {
+    const saved = await run(
+      () => usersApi.update(u.id, { password: newPassword }),
+      `Password changed for ${u.name}`,
+    );
+    if (!saved) return;
+    setResetting(null);
+    setNewPassword("");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Users</DialogTitle>
+          <DialogDescription>
+            Viewers browse, planners edit the plan, admins also delete teams and
+            projects, run imports and manage users.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="divide-y border rounded-md max-h-72 overflow-y-auto">
+          {users.isPending && (
+            <li className="px-3 py-4 text-sm text-muted-foreground">
+              Loading…
+            </li>
+          )}
+          {users.data?.map((u) => (
+            <li key={u.id} className="px-3 py-2 space-y-2">
+              <div className="flex items-center gap-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    {u.name}
+                    {u.id === me.id && (
+                      <span className="font-normal text-muted-foreground">
+                        {" "}
+                        (you)
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {u.username}
+                  </p>
+                </div>
+                <RoleSelect
+                  value={u.role}
+                  disabled={u.id === me.id}
+                  onChange={(next) =>
+                    run(
+                      () => usersApi.update(u.id, { role: next }),
+                      `${u.name} is now ${ROLE_LABELS[next].toLowerCase()}`,
+                    )
+                  }
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  title="Reset password"
+                  onClick={() => {
+                    setResetting(resetting === u.id ? null : u.id);
+                    setNewPassword("");
+                  }}
+                >
+                  <KeyRound className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-destructive"
+                  title="Delete user"
+                  disabled={u.id === me.id}
+                  onClick={() =>
+                    run(() => usersApi.remove(u.id), `Removed ${u.name}`)
+                  }
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+              {resetting === u.id && (
+                <div className="flex gap-2">
+                  <Input
+                    type="password"
+                    className="h-8 text-sm"
+                    placeholder="New password (8+ characters)"
+                    autoComplete="new-password"
+                    value={newPassword}
+                    onChange={(e) => setNewPassword(e.target.value)}
+                    autoFocus
+                  />
+                  <Button
+                    size="sm"
+                    className="h-8"
+                    disabled={newPassword.length < 8}
+                    onClick={() => handleReset(u)}
+                  >
+                    Save
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        <form onSubmit={handleAdd} className="space-y-2">
+          <p className="text-sm font-medium">Add a user</p>
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              className="h-8 text-sm"
+              placeholder="Name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <Input
+              className="h-8 text-sm"
+              placeholder="Username"
+              autoComplete="off"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+            />
+            <Input
+              type="password"
+              className="h-8 text-sm"
+              placeholder="Password (8+ characters)"
+              autoComplete="new-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+            <div className="flex gap-2">
+              <RoleSelect value={role} onChange={setRole} />
+              <Button
+                type="submit"
+                size="sm"
+                className="h-8 flex-1"
+                disabled={
+                  !name.trim() || !username.trim() || password.length < 8
+                }
+              >
+                <UserPlus className="h-3.5 w-3.5 mr-1" /> Add
+              </Button>
+            </div>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
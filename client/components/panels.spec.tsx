@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import { renderToStaticMarkup } from "react-dom/server";
+import MembersPanel from "./MembersPanel";
+import ProjectsPanel from "./ProjectsPanel";
+import { Member, Project, Team } from "@/lib/types";
+
+const teams: Team[] = [{ id: "t-1", name: "Web", color: "#6366f1" }];
+const members: Member[] = [
+  { id: "m-1", name: "Ana Lee", role: "Developer", teamId: "t-1" },
+];
+const projects: Project[] = [
+  {
+    id: "p-1",
+    name: "Atlas",
+    description: "",
+    color: "#8b5cf6",
+    startDate: "2025-03-03",
+    endDate: "2025-06-27",
+  },
+];
+
+const ignore = () => undefined as never;
+
+function membersPanel(readOnly: boolean, canImport: boolean) {
+  return renderToStaticMarkup(
+    <MembersPanel
+      teams={teams}
+      members={members}
+      addTeam={ignore}
+      updateTeam={ignore}
+      deleteTeam={ignore}
+      reorderTeams={ignore}
+      addMember={ignore}
+      updateMember={ignore}
+      deleteMember={ignore}
+      timeOff={[]}
+      addTimeOff={ignore}
+      updateTimeOff={ignore}
+      deleteTimeOff={ignore}
+      batch={(_label, run) => run()}
+      readOnly={readOnly}
+      canImport={canImport}
+    />,
+  );
+}
+
+function projectsPanel(readOnly: boolean, canImport: boolean) {
+  return renderToStaticMarkup(
+    <ProjectsPanel
+      projects={projects}
+      members={members}
+      assignments={[]}
+      timeOff={[]}
+      addProject={ignore}
+      updateProject={ignore}
+      deleteProject={ignore}
+      batch={(_label, run) => run()}
+      readOnly={readOnly}
+      canImport={canImport}
+    />,
+  );
+}
+
+describe("panels for viewers", () => {
+  it("lists members without any way to change them", () => {
+    const html = membersPanel(true, false);
+    expect(html).toContain("Ana Lee");
+    expect(html).toContain("Export CSV");
+    for (const control of ["Import CSV", "Add Member", "Add Team", "Time Off"])
+      expect(html).not.toContain(control);
+    expect(html).not.toContain('draggable="true"');
+  });
+
+  it("lists projects without any way to change them", () => {
+    const html = projectsPanel(true, false);
+    expect(html).toContain("Atlas");
+    expect(html).not.toContain("Import CSV");
+    expect(html).not.toContain("Add Project");
+  });
+
+  it("offers the CSV imports to admins only", () => {
+    const planner = membersPanel(false, false);
+    expect(planner).toContain("Add Member");
+    expect(planner).toContain('draggable="true"');
+    expect(planner).not.toContain("Import CSV");
+    expect(membersPanel(false, true)).toContain("Import CSV");
+    expect(projectsPanel(false, false)).not.toContain("Import CSV");
+    expect(projectsPanel(false, true)).toContain("Import CSV");
+  });
+});
@@ -0,0 +1,262 @@
+import { useState, useMemo } from "react";
+import { Team, Member, Assignment, TimeOff } from "@/lib/types";
+import { getTimelineColumns, parseDate } from "@/lib/dateUtils";
+import { blockingAssignments } from "@/lib/bookings";
+import {
+  FORECAST_GRANULARITY_LABELS,
+  ForecastCell,
+  ForecastGranularity,
+  ForecastGroupBy,
+  forecast,
+  forecastBalance,
+  forecastBuckets,
+  forecastGap,
+  forecastTotals,
+  formatFte,
+} from "@/lib/forecast";
+import { toCsv } from "@/lib/reports";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+} from "@/components/ui/select";
+import { Download } from "lucide-react";
+
+interface Props {
+  teams: Team[];
+  members: Member[];
+  assignments: Assignment[];
+  timeOff: TimeOff[];
+  /** Whether requested and tentative bookings count, as on the schedule */
+  tentativeBlocks: boolean;
+}
+
+const BALANCE_CLASSES = {
+  shortfall: "bg-destructive/10 text-destructive",
+  balanced: "text-muted-foreground",
+  surplus: "bg-emerald-500/10 text-emerald-700 dark:text-emerald-400",
+};
+
+const signed = (gap: number) =>
+  gap > 0 ? `+${formatFte(gap)}` : formatFte(gap);
+
+export default function ForecastPanel({
+  teams,
+  members,
+  assignments,
+  timeOff,
+  tentativeBlocks,
+}: Props) {
+  const [granularity, setGranularity] = useState<ForecastGranularity>("month");
+  const [groupBy, setGroupBy] = useState<ForecastGroupBy>("team");
+
+  const counted = useMemo(
+    () => blockingAssignments(assignments, tentativeBlocks),
+    [assignments, tentativeBlocks],
+  );
+  // Same buckets as the schedule, stretched to the last booking
+  const buckets = useMemo(() => {
+    const lastEnd = counted.reduce(
+      (max, a) => (a.endDate > max ? a.endDate : max),
+      "",
+    );
+    const columns = getTimelineColumns(
+      granularity,
+      0,
+      null,
+      lastEnd ? parseDate(lastEnd) : null,
+    );
+    return forecastBuckets(columns, granularity);
+  }, [counted, granularity]);
+  const rows = useMemo(
+    () => forecast(groupBy, teams, members, counted, timeOff, buckets),
+    [groupBy, teams, members, counted, timeOff, buckets],
+  );
+  const totals = useMemo(
+    () => forecastTotals(rows, buckets.length),
+    [rows, buckets.length],
+  );
+
+  // The single worst shortfall is the headline for hiring
+  const worst = rows
+    .flatMap((row) =>
+      row.cells.map((cell, i) => ({
+        row,
+        bucket: buckets[i],
+        gap: forecastGap(cell),
+      })),
+    )
+    .reduce((min, c) => (!min || c.gap < min.gap ? c : min), null);
+
+  const exportCsv = () => {
+    const blob = new Blob(
+      [
+        toCsv(
+          [
+            groupBy === "team" ? "Team" : "Role",
+            "Period",
+            "Available FTE",
+            "Booked FTE",
+            "Gap FTE",
+          ],
+          rows.flatMap((row) =>
+            row.cells.map((cell, i) => [
+              row.label,
+              buckets[i].label,
+              formatFte(cell.available),
+              formatFte(cell.booked),
+              formatFte(forecastGap(cell)),
+            ]),
+          ),
+        ),
+      ],
+      { type: "text/csv;charset=utf-8;" },
+    );
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `forecast-${groupBy}-${granularity}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <div>
+          <h2 className="text-xl font-semibold text-foreground">Forecast</h2>
+          <p className="text-sm text-muted-foreground mt-0.5">
+            Available vs booked full-time equivalents (FTE) from today on
+            {tentativeBlocks ? "" : " (confirmed bookings only)"}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 flex-wrap">
+          <Select
+            value={groupBy}
+            onValueChange={(v) => setGroupBy(v as ForecastGroupBy)}
+          >
+            <SelectTrigger className="h-8 w-[110px] text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="team">By team</SelectItem>
+              <SelectItem value="role">By role</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select
+            value={granularity}
+            onValueChange={(v) => setGranularity(v as ForecastGranularity)}
+          >
+            <SelectTrigger className="h-8 w-[120px] text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(
+                Object.keys(
+                  FORECAST_GRANULARITY_LABELS,
+                ) as ForecastGranularity[]
+              ).map((g) => (
+                <SelectItem key={g} value={g}>
+                  {FORECAST_GRANULARITY_LABELS[g]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={exportCsv}>
+            <Download className="h-4 w-4 mr-1" /> Export CSV
+          </Button>
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-16 text-center">
+          Add members to see a forecast.
+        </p>
+      ) : (
+        <>
+          {worst && worst.gap < 0 && (
+            <p className="text-sm">
+              Largest shortfall:{" "}
+              <span className="font-medium">{worst.row.label}</span> needs{" "}
+              <span className="font-medium text-destructive">
+                {formatFte(-worst.gap)} FTE
+              </span>{" "}
+              more in {worst.bucket.label}.
+            </p>
+          )}
+          <div className="bg-card rounded-lg border overflow-x-auto">
+            <table className="text-sm border-collapse">
+              <thead>
+                <tr className="text-xs text-muted-foreground border-b">
+                  <th className="sticky left-0 bg-card text-left font-medium px-3 py-2 min-w-[160px]">
+                    {groupBy === "team" ? "Team" : "Role"}
+                  </th>
+                  {buckets.map((b) => (
+                    <th
+                      key={b.label}
+                      className="font-medium px-2 py-2 text-center min-w-[84px]"
+                    >
+                      {b.label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {rows.map((row) => (
+                  <tr key={row.key}>
+                    <td className="sticky left-0 bg-card px-3 py-2">
+                      <span className="flex items-center gap-2">
+                        {row.color && (
+                          <span
+                            className="w-2 h-2 rounded-full shrink-0"
+                            style={{ backgroundColor: row.color }}
+                          />
+                        )}
+                        <span className="truncate">{row.label}</span>
+                        <span className="text-xs text-muted-foreground">
+                          {row.headcount}
+                        </span>
+                      </span>
+                    </td>
+                    {row.cells.map((cell, i) => (
+                      <ForecastTd key={buckets[i].label} cell={cell} />
+                    ))}
+                  </tr>
+                ))}
+                <tr className="font-medium bg-muted/30">
+                  <td className="sticky left-0 bg-muted px-3 py-2">Total</td>
+                  {totals.map((cell, i) => (
+                    <ForecastTd key={buckets[i].label} cell={cell} />
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Each cell shows the spare FTE (red for a shortfall, green for a
+            surplus) over booked / available FTE. Open roles count as demand
+            without capacity.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
+function ForecastTd({ cell }: { cell: ForecastCell }) {
+  const gap = forecastGap(cell);
+  return (
+    <td
+      className={`px-2 py-1.5 text-center ${BALANCE_CLASSES[forecastBalance(cell)]}`}
+      title={`${formatFte(cell.available)} FTE available, ${formatFte(cell.booked)} booked`}
+    >
+      <div className="font-mono text-xs font-semibold">{signed(gap)}</div>
+      <div className="font-mono text-[10px] opacity-70">
+        {formatFte(cell.booked)} / {formatFte(cell.available)}
+      </div>
+    </td>
+  );
+}
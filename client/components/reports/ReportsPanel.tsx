@@ -0,0 +1,502 @@
+import { useState, useMemo } from "react";
+import {
+  addDays,
+  addWeeks,
+  endOfMonth,
+  endOfQuarter,
+  startOfMonth,
+  startOfQuarter,
+  startOfWeek,
+} from "date-fns";
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  ReferenceLine,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Team, Member, Project, Assignment, TimeOff } from "@/lib/types";
+import { dateToString, parseDate } from "@/lib/dateUtils";
+import { blockingAssignments } from "@/lib/bookings";
+import {
+  memberReports,
+  projectHeadcount,
+  reportPeriods,
+  teamReports,
+  toCsv,
+  topOverAllocated,
+} from "@/lib/reports";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import {
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+} from "@/components/ui/select";
+import { Download } from "lucide-react";
+
+interface Props {
+  teams: Team[];
+  members: Member[];
+  projects: Project[];
+  assignments: Assignment[];
+  timeOff: TimeOff[];
+  /** Whether requested and tentative bookings count, as on the schedule */
+  tentativeBlocks: boolean;
+}
+
+type Preset = "four_weeks" | "month" | "quarter" | "custom";
+
+const PRESET_LABELS: Record<Preset, string> = {
+  four_weeks: "Next 4 weeks",
+  month: "This month",
+  quarter: "This quarter",
+  custom: "Custom range",
+};
+
+function presetRange(preset: Preset): { start: string; end: string } {
+  const today = new Date();
+  if (preset === "month") {
+    return {
+      start: dateToString(startOfMonth(today)),
+      end: dateToString(endOfMonth(today)),
+    };
+  }
+  if (preset === "quarter") {
+    return {
+      start: dateToString(startOfQuarter(today)),
+      end: dateToString(endOfQuarter(today)),
+    };
+  }
+  const monday = startOfWeek(today, { weekStartsOn: 1 });
+  return {
+    start: dateToString(monday),
+    end: dateToString(addDays(addWeeks(monday, 4), -1)),
+  };
+}
+
+function downloadCsv(
+  filename: string,
+  header: string[],
+  rows: (string | number)[][],
+) {
+  const blob = new Blob([toCsv(header, rows)], {
+    type: "text/csv;charset=utf-8;",
+  });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+const percentLabel = (value: number | null) =>
+  value === null ? "—" : `${value}%`;
+
+export default function ReportsPanel({
+  teams,
+  members,
+  projects,
+  assignments,
+  timeOff,
+  tentativeBlocks,
+}: Props) {
+  const [preset, setPreset] = useState<Preset>("four_weeks");
+  const [range, setRange] = useState(() => presetRange("four_weeks"));
+  const [utilizationBy, setUtilizationBy] = useState<"member" | "team">(
+    "member",
+  );
+
+  const validRange = range.start && range.end && range.start <= range.end;
+  const { start, end } = useMemo(
+    () =>
+      validRange
+        ? { start: parseDate(range.start), end: parseDate(range.end) }
+        : { start: null, end: null },
+    [validRange, range.start, range.end],
+  );
+  const counted = useMemo(
+    () => blockingAssignments(assignments, tentativeBlocks),
+    [assignments, tentativeBlocks],
+  );
+
+  const people = useMemo(
+    () =>
+      start && end ? memberReports(members, counted, timeOff, start, end) : [],
+    [members, counted, timeOff, start, end],
+  );
+  const byTeam = useMemo(() => teamReports(teams, people), [teams, people]);
+  const overAllocated = useMemo(() => topOverAllocated(people), [people]);
+
+  const periods = useMemo(
+    () => (start && end ? reportPeriods(start, end) : []),
+    [start, end],
+  );
+  // Only projects with someone on them in the range get a series
+  const headcount = useMemo(() => {
+    const points = projectHeadcount(projects, members, counted, periods);
+    const staffed = projects.filter((p) =>
+      points.some((point) => point.counts[p.id] > 0),
+    );
+    return { points, staffed };
+  }, [projects, members, counted, periods]);
+
+  const teamColor = (teamId: string) =>
+    teams.find((t) => t.id === teamId)?.color ?? "#94a3b8";
+
+  const utilizationData =
+    utilizationBy === "member"
+      ? people.map((r) => ({
+          name: r.member.name,
+          utilization: r.utilization ?? 0,
+          color: teamColor(r.member.teamId),
+        }))
+      : byTeam.map((r) => ({
+          name: r.team.name,
+          utilization: r.utilization ?? 0,
+          color: r.team.color,
+        }));
+  const benchReports = [...people].sort((a, b) => b.benchDays - a.benchDays);
+  const benchData = benchReports.map((r) => ({
+    name: r.member.name,
+    benchDays: r.benchDays,
+    color: teamColor(r.member.teamId),
+  }));
+  const headcountData = headcount.points.map((point) => ({
+    period: point.period,
+    ...point.counts,
+  }));
+  const headcountConfig: ChartConfig = Object.fromEntries(
+    headcount.staffed.map((p) => [p.id, { label: p.name, color: p.color }]),
+  );
+  // Leave room for one bar per row in the horizontal charts
+  const barChartHeight = (rows: number) => Math.max(160, rows * 28 + 40);
+
+  const rangeSuffix = `${range.start}_${range.end}`;
+
+  const exportUtilization = () =>
+    utilizationBy === "member"
+      ? downloadCsv(
+          `utilization-members-${rangeSuffix}.csv`,
+          ["Member", "Team", "Capacity (h)", "Booked (h)", "Utilization %"],
+          people.map((r) => [
+            r.member.name,
+            teams.find((t) => t.id === r.member.teamId)?.name ?? "",
+            r.load.capacity.toFixed(1),
+            r.load.booked.toFixed(1),
+            r.utilization ?? "",
+          ]),
+        )
+      : downloadCsv(
+          `utilization-teams-${rangeSuffix}.csv`,
+          ["Team", "Members", "Capacity (h)", "Booked (h)", "Utilization %"],
+          byTeam.map((r) => [
+            r.team.name,
+            r.headcount,
+            r.load.capacity.toFixed(1),
+            r.load.booked.toFixed(1),
+            r.utilization ?? "",
+          ]),
+        );
+
+  const exportBench = () =>
+    downloadCsv(
+      `bench-${rangeSuffix}.csv`,
+      ["Member", "Available days", "Bench days"],
+      benchReports.map((r) => [r.member.name, r.availableDays, r.benchDays]),
+    );
+
+  const exportHeadcount = () =>
+    downloadCsv(
+      `headcount-${rangeSuffix}.csv`,
+      ["Period", ...headcount.staffed.map((p) => p.name)],
+      headcount.points.map((point) => [
+        point.period,
+        ...headcount.staffed.map((p) => point.counts[p.id] ?? 0),
+      ]),
+    );
+
+  const exportOverAllocated = () =>
+    downloadCsv(
+      `over-allocated-${rangeSuffix}.csv`,
+      ["Member", "Peak load %", "Over-booked days", "Utilization %"],
+      overAllocated.map((r) => [
+        r.member.name,
+        r.peak,
+        r.overDays,
+        r.utilization ?? "",
+      ]),
+    );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <div>
+          <h2 className="text-xl font-semibold text-foreground">Reports</h2>
+          <p className="text-sm text-muted-foreground mt-0.5">
+            Utilization, bench time and staffing over a date range
+            {tentativeBlocks ? "" : " (confirmed bookings only)"}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 flex-wrap">
+          <Select
+            value={preset}
+            onValueChange={(v) => {
+              setPreset(v as Preset);
+              if (v !== "custom") setRange(presetRange(v as Preset));
+            }}
+          >
+            <SelectTrigger className="h-8 w-[140px] text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(PRESET_LABELS) as Preset[]).map((p) => (
+                <SelectItem key={p} value={p}>
+                  {PRESET_LABELS[p]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="date"
+            className="h-8 w-[140px] text-xs"
+            value={range.start}
+            onChange={(e) => {
+              setPreset("custom");
+              setRange((r) => ({ ...r, start: e.target.value }));
+            }}
+            aria-label="Report start"
+          />
+          <span className="text-xs text-muted-foreground">to</span>
+          <Input
+            type="date"
+            className="h-8 w-[140px] text-xs"
+            value={range.end}
+            onChange={(e) => {
+              setPreset("custom");
+              setRange((r) => ({ ...r, end: e.target.value }));
+            }}
+            aria-label="Report end"
+          />
+        </div>
+      </div>
+
+      {!validRange ? (
+        <p className="text-sm text-destructive">
+          Pick an end date on or after the start date.
+        </p>
+      ) : (
+        <div className="grid gap-4 lg:grid-cols-2">
+          <ReportCard
+            title="Utilization"
+            description="Booked share of available hours"
+            onExport={exportUtilization}
+            actions={
+              <Select
+                value={utilizationBy}
+                onValueChange={(v) => setUtilizationBy(v as "member" | "team")}
+              >
+                <SelectTrigger className="h-7 w-[110px] text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="member">By member</SelectItem>
+                  <SelectItem value="team">By team</SelectItem>
+                </SelectContent>
+              </Select>
+            }
+          >
+            <ChartContainer
+              config={{ utilization: { label: "Utilization %" } }}
+              className="aspect-auto w-full"
+              style={{ height: barChartHeight(utilizationData.length) }}
+            >
+              <BarChart data={utilizationData} layout="vertical">
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" unit="%" />
+                <YAxis
+                  type="category"
+                  dataKey="name"
+                  width={100}
+                  tickLine={false}
+                />
+                <ReferenceLine x={100} strokeDasharray="4 4" />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="utilization" radius={3}>
+                  {utilizationData.map((row) => (
+                    <Cell key={row.name} fill={row.color} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ChartContainer>
+          </ReportCard>
+
+          <ReportCard
+            title="Bench time"
+            description="Available days without any booking"
+            onExport={exportBench}
+          >
+            <ChartContainer
+              config={{ benchDays: { label: "Bench days" } }}
+              className="aspect-auto w-full"
+              style={{ height: barChartHeight(benchData.length) }}
+            >
+              <BarChart data={benchData} layout="vertical">
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" allowDecimals={false} />
+                <YAxis
+                  type="category"
+                  dataKey="name"
+                  width={100}
+                  tickLine={false}
+                />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="benchDays" radius={3}>
+                  {benchData.map((row) => (
+                    <Cell key={row.name} fill={row.color} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ChartContainer>
+          </ReportCard>
+
+          <ReportCard
+            title="Headcount per project"
+            description="People booked on each project per period"
+            onExport={exportHeadcount}
+          >
+            {headcount.staffed.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-8 text-center">
+                Nobody is booked in this range.
+              </p>
+            ) : (
+              <ChartContainer
+                config={headcountConfig}
+                className="aspect-auto h-64 w-full"
+              >
+                <AreaChart data={headcountData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="period" tickLine={false} />
+                  <YAxis allowDecimals={false} width={30} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  {headcount.staffed.map((p) => (
+                    <Area
+                      key={p.id}
+                      dataKey={p.id}
+                      type="monotone"
+                      stackId="headcount"
+                      stroke={p.color}
+                      fill={p.color}
+                      fillOpacity={0.3}
+                    />
+                  ))}
+                </AreaChart>
+              </ChartContainer>
+            )}
+          </ReportCard>
+
+          <ReportCard
+            title="Top over-allocated"
+            description="People booked above capacity on some day"
+            onExport={exportOverAllocated}
+          >
+            {overAllocated.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-8 text-center">
+                No one is over-allocated in this range.
+              </p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-muted-foreground border-b">
+                    <th className="text-left font-medium py-2">Member</th>
+                    <th className="text-right font-medium py-2">Peak</th>
+                    <th className="text-right font-medium py-2">
+                      Over-booked days
+                    </th>
+                    <th className="text-right font-medium py-2">Utilization</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {overAllocated.map((r) => (
+                    <tr key={r.member.id}>
+                      <td className="py-2">
+                        <span className="flex items-center gap-2">
+                          <span
+                            className="w-2 h-2 rounded-full shrink-0"
+                            style={{
+                              backgroundColor: teamColor(r.member.teamId),
+                            }}
+                          />
+                          {r.member.name}
+                        </span>
+                      </td>
+                      <td className="py-2 text-right font-mono text-xs text-destructive">
+                        {r.peak}%
+                      </td>
+                      <td className="py-2 text-right font-mono text-xs">
+                        {r.overDays}
+                      </td>
+                      <td className="py-2 text-right font-mono text-xs">
+                        {percentLabel(r.utilization)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </ReportCard>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ReportCard({
+  title,
+  description,
+  actions,
+  onExport,
+  children,
+}: {
+  title: string;
+  description: string;
+  actions?: React.ReactNode;
+  onExport: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <section className="bg-card rounded-lg border p-4 space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <h3 className="text-sm font-semibold">{title}</h3>
+          <p className="text-xs text-muted-foreground">{description}</p>
+        </div>
+        <div className="flex items-center gap-1">
+          {actions}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={onExport}
+          >
+            <Download className="h-3.5 w-3.5 mr-1" /> CSV
+          </Button>
+        </div>
+      </div>
+      {children}
+    </section>
+  );
+}
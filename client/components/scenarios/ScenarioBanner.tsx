@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { ScenarioSummary, WorkspaceData } from "@/lib/types";
+import ScenarioCompareDialog from "./ScenarioCompareDialog";
+import ScenarioNameDialog from "./ScenarioNameDialog";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  ArrowLeft,
+  FlaskConical,
+  GitCompareArrows,
+  Pencil,
+  Trash2,
+  Upload,
+} from "lucide-react";
+
+interface Props {
+  scenario: ScenarioSummary;
+  workspace: WorkspaceData;
+  onRename: (name: string) => void;
+  onPromote: () => void;
+  onDiscard: () => void;
+  onExit: () => void;
+}
+
+type Confirm = "promote" | "discard" | null;
+
+export default function ScenarioBanner({
+  scenario,
+  workspace,
+  onRename,
+  onPromote,
+  onDiscard,
+  onExit,
+}: Props) {
+  const [comparing, setComparing] = useState(false);
+  const [renaming, setRenaming] = useState(false);
+  const [confirm, setConfirm] = useState<Confirm>(null);
+
+  return (
+    <div className="border-b bg-amber-500/10">
+      <div className="max-w-[1440px] mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center justify-between flex-wrap gap-2">
+        <p className="text-sm text-amber-700 flex items-center gap-2 min-w-0">
+          <FlaskConical className="h-4 w-4 shrink-0" />
+          <span className="truncate">
+            Scenario <span className="font-medium">{scenario.name}</span>{" "}
+            &middot; edits here don't change the live plan
+          </span>
+        </p>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => setComparing(true)}
+          >
+            <GitCompareArrows className="h-3.5 w-3.5 mr-1" /> Compare
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => setRenaming(true)}
+          >
+            <Pencil className="h-3.5 w-3.5 mr-1" /> Rename
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs text-destructive hover:text-destructive"
+            onClick={() => setConfirm("discard")}
+          >
+            <Trash2 className="h-3.5 w-3.5 mr-1" /> Discard
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => setConfirm("promote")}
+          >
+            <Upload className="h-3.5 w-3.5 mr-1" /> Promote
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={onExit}
+          >
+            <ArrowLeft className="h-3.5 w-3.5 mr-1" /> Back to live
+          </Button>
+        </div>
+      </div>
+
+      <ScenarioCompareDialog
+        open={comparing}
+        onOpenChange={setComparing}
+        scenarioName={scenario.name}
+        scenario={workspace}
+      />
+      <ScenarioNameDialog
+        open={renaming}
+        onOpenChange={setRenaming}
+        title="Rename scenario"
+        initialName={scenario.name}
+        submitLabel="Save"
+        onSubmit={onRename}
+      />
+
+      <AlertDialog
+        open={confirm !== null}
+        onOpenChange={(open) => !open && setConfirm(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {confirm === "promote"
+                ? `Promote "${scenario.name}"?`
+                : `Discard "${scenario.name}"?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirm === "promote"
+                ? "The live plan will be replaced with this scenario for everyone, and the scenario will be closed. You can undo this afterwards."
+                : "The scenario and all changes made in it will be deleted. The live plan is not affected."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className={
+                confirm === "discard"
+                  ? "bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                  : undefined
+              }
+              onClick={confirm === "promote" ? onPromote : onDiscard}
+            >
+              {confirm === "promote" ? "Promote" : "Discard"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
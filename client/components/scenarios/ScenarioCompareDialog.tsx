@@ -0,0 +1,217 @@
+import { useMemo, useState } from "react";
+import { addWeeks, format, startOfDay } from "date-fns";
+import { WorkspaceData } from "@/lib/types";
+import { getLiveWorkspace } from "@/lib/store";
+import { compareProjectEnds, compareUtilization } from "@/lib/scenarios";
+import { formatSlip } from "@/lib/baselines";
+import { parseDate } from "@/lib/dateUtils";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+} from "@/components/ui/select";
+import { GitCompareArrows } from "lucide-react";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  scenarioName: string;
+  scenario: WorkspaceData;
+}
+
+const WINDOWS = [4, 12, 26];
+
+function formatEnd(date?: string) {
+  return date ? format(parseDate(date), "MMM d, yyyy") : "—";
+}
+
+function formatPercent(value: number | null) {
+  return value === null ? "—" : `${value}%`;
+}
+
+function deltaClass(delta: number) {
+  if (delta > 0) return "text-destructive";
+  if (delta < 0) return "text-emerald-600";
+  return "text-muted-foreground";
+}
+
+export default function ScenarioCompareDialog({
+  open,
+  onOpenChange,
+  scenarioName,
+  scenario,
+}: Props) {
+  const [weeks, setWeeks] = useState(12);
+
+  const comparison = useMemo(() => {
+    if (!open) return null;
+    const live = getLiveWorkspace();
+    const start = startOfDay(new Date());
+    return {
+      ends: compareProjectEnds(live, scenario),
+      utilization: compareUtilization(
+        live,
+        scenario,
+        start,
+        addWeeks(start, weeks),
+      ),
+    };
+  }, [open, scenario, weeks]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitCompareArrows className="h-5 w-5" /> Compare with live plan
+          </DialogTitle>
+          <DialogDescription>
+            How "{scenarioName}" differs from the plan everyone else sees.
+          </DialogDescription>
+        </DialogHeader>
+
+        {comparison && (
+          <div className="space-y-6">
+            <section className="space-y-2">
+              <h3 className="text-sm font-medium">Project end dates</h3>
+              <div className="border rounded-md overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted/50">
+                    <tr>
+                      <th className="text-left px-3 py-2 font-medium text-muted-foreground">
+                        Project
+                      </th>
+                      <th className="text-right px-3 py-2 font-medium text-muted-foreground">
+                        Live
+                      </th>
+                      <th className="text-right px-3 py-2 font-medium text-muted-foreground">
+                        Scenario
+                      </th>
+                      <th className="text-right px-3 py-2 font-medium text-muted-foreground">
+                        Slip
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {comparison.ends.map((row) => (
+                      <tr key={row.projectId}>
+                        <td className="px-3 py-2">
+                          <span className="flex items-center gap-2">
+                            <span
+                              className="h-2.5 w-2.5 rounded-full shrink-0"
+                              style={{ backgroundColor: row.color }}
+                            />
+                            {row.name}
+                          </span>
+                        </td>
+                        <td className="px-3 py-2 text-right">
+                          {formatEnd(row.liveEnd)}
+                        </td>
+                        <td className="px-3 py-2 text-right">
+                          {formatEnd(row.scenarioEnd)}
+                        </td>
+                        <td
+                          className={`px-3 py-2 text-right ${deltaClass(row.slipDays ?? 0)}`}
+                        >
+                          {row.slipDays === null
+                            ? "—"
+                            : formatSlip(row.slipDays)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+
+            <section className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-medium">Team utilization</h3>
+                <Select
+                  value={String(weeks)}
+                  onValueChange={(v) => setWeeks(Number(v))}
+                >
+                  <SelectTrigger className="h-8 w-[150px] text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WINDOWS.map((w) => (
+                      <SelectItem key={w} value={String(w)}>
+                        Next {w} weeks
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="border rounded-md overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted/50">
+                    <tr>
+                      <th className="text-left px-3 py-2 font-medium text-muted-foreground">
+                        Team
+                      </th>
+                      <th className="text-right px-3 py-2 font-medium text-muted-foreground">
+                        Live
+                      </th>
+                      <th className="text-right px-3 py-2 font-medium text-muted-foreground">
+                        Scenario
+                      </th>
+                      <th className="text-right px-3 py-2 font-medium text-muted-foreground">
+                        Change
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {comparison.utilization.map((row) => {
+                      const delta =
+                        row.live !== null && row.scenario !== null
+                          ? row.scenario - row.live
+                          : null;
+                      return (
+                        <tr key={row.teamId}>
+                          <td className="px-3 py-2">
+                            <span className="flex items-center gap-2">
+                              <span
+                                className="h-2.5 w-2.5 rounded-full shrink-0"
+                                style={{ backgroundColor: row.color }}
+                              />
+                              {row.name}
+                            </span>
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            {formatPercent(row.live)}
+                          </td>
+                          <td
+                            className={`px-3 py-2 text-right ${(row.scenario ?? 0) > 100 ? "text-destructive font-medium" : ""}`}
+                          >
+                            {formatPercent(row.scenario)}
+                          </td>
+                          <td
+                            className={`px-3 py-2 text-right ${deltaClass(delta ?? 0)}`}
+                          >
+                            {delta === null || delta === 0
+                              ? "—"
+                              : `${delta > 0 ? "+" : ""}${delta} pts`}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { ScenarioSummary } from "@/lib/types";
+import ScenarioNameDialog from "./ScenarioNameDialog";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Check, ChevronDown, GitBranch, Plus } from "lucide-react";
+
+interface Props {
+  scenarios: ScenarioSummary[];
+  activeScenario: ScenarioSummary | null;
+  onSwitch: (id: string | null) => void;
+  onCreate: (name: string) => void;
+}
+
+export default function ScenarioSwitcher({
+  scenarios,
+  activeScenario,
+  onSwitch,
+  onCreate,
+}: Props) {
+  const [creating, setCreating] = useState(false);
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            className={`h-8 text-xs max-w-[200px] ${activeScenario ? "text-amber-600" : ""}`}
+          >
+            <GitBranch className="h-3.5 w-3.5 mr-1 shrink-0" />
+            <span className="truncate">
+              {activeScenario?.name ?? "Live plan"}
+            </span>
+            <ChevronDown className="h-3 w-3 ml-1 shrink-0" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuItem onSelect={() => onSwitch(null)}>
+            <Check
+              className={`h-3.5 w-3.5 mr-2 ${activeScenario ? "invisible" : ""}`}
+            />
+            Live plan
+          </DropdownMenuItem>
+          {scenarios.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-xs text-muted-foreground font-normal">
+                Scenarios
+              </DropdownMenuLabel>
+              {scenarios.map((s) => (
+                <DropdownMenuItem key={s.id} onSelect={() => onSwitch(s.id)}>
+                  <Check
+                    className={`h-3.5 w-3.5 mr-2 shrink-0 ${activeScenario?.id === s.id ? "" : "invisible"}`}
+                  />
+                  <span className="truncate">{s.name}</span>
+                </DropdownMenuItem>
+              ))}
+            </>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setCreating(true)}>
+            <Plus className="h-3.5 w-3.5 mr-2" /> New scenario…
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <ScenarioNameDialog
+        open={creating}
+        onOpenChange={setCreating}
+        title="New scenario"
+        description={`Copies ${activeScenario ? `"${activeScenario.name}"` : "the live plan"} so you can try changes without affecting it.`}
+        submitLabel="Create"
+        onSubmit={onCreate}
+      />
+    </>
+  );
+}
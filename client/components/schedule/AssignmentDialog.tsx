@@ -1,6 +1,43 @@
 import { useState, useEffect, useMemo } from "react";
-import { Team, Member, Project, Assignment } from "@/lib/types";
-import { findConflicts } from "@/lib/store";
+import {
+  Team,
+  Member,
+  Project,
+  Assignment,
+  BookingStatus,
+  TimeOff,
+  AuditEntry,
+  Dependency,
+} from "@/lib/types";
+import { findBookingConflicts } from "@/lib/store";
+import {
+  FULL_ALLOCATION,
+  countWorkingDays,
+  findTimeOffOverlaps,
+  formatCapacity,
+  getHoursPerWeek,
+  getMemberTimeOff,
+  isPlaceholder,
+  normalizeAllocation,
+} from "@/lib/capacity";
+import { finalMilestone, formatMilestone } from "@/lib/milestones";
+import { Slot } from "@/lib/slots";
+import {
+  BOOKING_STATUSES,
+  BOOKING_STATUS_LABELS,
+  getBookingStatus,
+} from "@/lib/bookings";
+import {
+  SkillRequirement,
+  formatSkill,
+  listSkills,
+  meetsRequirements,
+  missingSkills,
+} from "@/lib/skills";
+import AuditTimeline from "@/components/audit/AuditTimeline";
+import DependencyEditor from "./DependencyEditor";
+import SkillRequirementPicker from "./SkillRequirementPicker";
+import SlotFinder from "./SlotFinder";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -24,9 +61,23 @@ import {
 import {
   Command, CommandInput, CommandList, CommandEmpty, CommandGroup, CommandItem,
 } from "@/components/ui/command";
-import { AlertTriangle, Check, ChevronsUpDown, Plus } from "lucide-react";
+import {
+  Collapsible,
+  CollapsibleTrigger,
+  CollapsibleContent,
+} from "@/components/ui/collapsible";
+import {
+  AlertTriangle,
+  Check,
+  ChevronDown,
+  ChevronsUpDown,
+  History,
+  Plus,
+  Search,
+} from "lucide-react";
 import { cn } from "@/lib/utils";
-import { dateToString } from "@/lib/dateUtils";
+import { dateToString, parseDate } from "@/lib/dateUtils";
+import { format } from "date-fns";
 
 const PROJECT_COLORS = [
   "#8b5cf6", "#f59e0b", "#10b981", "#ef4444", "#3b82f6",
@@ -39,12 +90,29 @@ interface Props {
   members: Member[];
   projects: Project[];
   teams: Team[];
+  timeOff: TimeOff[];
   defaults: { memberId?: string; date?: string; endDate?: string };
+  /** When set, the dialog edits this assignment instead of creating one */
+  assignment?: Assignment | null;
+  /** Change history of the edited assignment, newest first */
+  history?: AuditEntry[];
   onSave: (a: Omit<Assignment, "id">) => {
     success: boolean;
     conflicts: Assignment[];
   };
+  onUpdate: (
+    id: string,
+    data: Partial<Assignment>,
+    note?: string,
+  ) => { success: boolean; conflicts: Assignment[] };
   onCreateProject: (p: Omit<Project, "id">) => Project;
+  /** Every assignment, to pick predecessors from */
+  assignments: Assignment[];
+  dependencies: Dependency[];
+  onAddDependency: (d: Omit<Dependency, "id">) => void;
+  onDeleteDependency: (id: string) => void;
+  /** Whether requested and tentative bookings count against capacity */
+  tentativeBlocks: boolean;
 }
 
 export default function AssignmentDialog({
@@ -53,20 +121,45 @@ export default function AssignmentDialog({
   members,
   projects,
   teams,
+  timeOff,
   defaults,
+  assignment,
+  history = [],
   onSave,
+  onUpdate,
   onCreateProject,
+  assignments,
+  dependencies,
+  onAddDependency,
+  onDeleteDependency,
+  tentativeBlocks,
 }: Props) {
   const [memberId, setMemberId] = useState("");
   const [projectId, setProjectId] = useState("");
   const [startDate, setStartDate] = useState("");
   const [endDate, setEndDate] = useState("");
+  const [allocation, setAllocation] = useState(FULL_ALLOCATION);
+  const [status, setStatus] = useState<BookingStatus>("confirmed");
+  const [note, setNote] = useState("");
   const [error, setError] = useState("");
   const [projectPopoverOpen, setProjectPopoverOpen] = useState(false);
   const [projectSearch, setProjectSearch] = useState("");
+  const [requiredSkills, setRequiredSkills] = useState<SkillRequirement[]>([]);
+  const skillCatalog = useMemo(() => listSkills(members), [members]);
 
   useEffect(() => {
-    if (open) {
+    if (open && assignment) {
+      setMemberId(assignment.memberId);
+      setProjectId(assignment.projectId);
+      setStartDate(assignment.startDate);
+      setEndDate(assignment.endDate);
+      setAllocation(assignment.allocation);
+      setStatus(getBookingStatus(assignment));
+      setNote("");
+      setError("");
+      setProjectSearch("");
+      setRequiredSkills([]);
+    } else if (open) {
       setMemberId(defaults.memberId ?? "");
       setProjectId(projects[0]?.id ?? "");
       const today = dateToString(new Date());
@@ -78,17 +171,43 @@ export default function AssignmentDialog({
         end.setDate(end.getDate() + 6);
         setEndDate(dateToString(end));
       }
+      setAllocation(FULL_ALLOCATION);
+      setStatus("confirmed");
       setError("");
       setProjectSearch("");
+      setRequiredSkills([]);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [open, defaults]);
+  }, [open, defaults, assignment]);
+
+  // Members lacking a required skill are set aside before the capacity check
+  const { qualifiedMembers, unqualifiedMembers, missingMap } = useMemo(() => {
+    const qualified: Member[] = [];
+    const unqualified: Member[] = [];
+    const mMap = new Map<string, string>();
+    for (const m of members) {
+      if (meetsRequirements(m, requiredSkills)) {
+        qualified.push(m);
+      } else {
+        unqualified.push(m);
+        mMap.set(
+          m.id,
+          missingSkills(m, requiredSkills).map(formatSkill).join(", "),
+        );
+      }
+    }
+    return {
+      qualifiedMembers: qualified,
+      unqualifiedMembers: unqualified,
+      missingMap: mMap,
+    };
+  }, [members, requiredSkills]);
 
   // Compute which members have conflicts for the current date range
   const { availableMembers, conflictedMembers, conflictMap } = useMemo(() => {
     if (!startDate || !endDate || startDate > endDate) {
       return {
-        availableMembers: members,
+        availableMembers: qualifiedMembers,
         conflictedMembers: [] as Member[],
         conflictMap: new Map<string, string>(),
       };
@@ -97,8 +216,18 @@ export default function AssignmentDialog({
     const conflicted: Member[] = [];
     const cMap = new Map<string, string>();
 
-    for (const m of members) {
-      const conflicts = findConflicts(m.id, startDate, endDate);
+    for (const m of qualifiedMembers) {
+      const conflicts = findBookingConflicts(
+        {
+          id: assignment?.id,
+          memberId: m.id,
+          startDate,
+          endDate,
+          allocation,
+          status,
+        },
+        tentativeBlocks,
+      );
       if (conflicts.length > 0) {
         conflicted.push(m);
         const projectNames = conflicts.map((c) => {
@@ -115,14 +244,24 @@ export default function AssignmentDialog({
       conflictedMembers: conflicted,
       conflictMap: cMap,
     };
-  }, [members, projects, startDate, endDate]);
+  }, [
+    qualifiedMembers,
+    projects,
+    startDate,
+    endDate,
+    allocation,
+    status,
+    assignment,
+    tentativeBlocks,
+  ]);
 
-  // If selected member becomes conflicted after date change, clear selection
+  // If selected member becomes conflicted after date change, or lacks a newly
+  // required skill, clear selection
   useEffect(() => {
-    if (memberId && conflictMap.has(memberId)) {
+    if (memberId && (conflictMap.has(memberId) || missingMap.has(memberId))) {
       setMemberId("");
     }
-  }, [conflictMap, memberId]);
+  }, [conflictMap, missingMap, memberId]);
 
   const handleSave = () => {
     if (!memberId || !projectId || !startDate || !endDate) {
@@ -134,20 +273,64 @@ export default function AssignmentDialog({
       return;
     }
 
-    const result = onSave({ memberId, projectId, startDate, endDate });
+    commit({ memberId, projectId, startDate, endDate, allocation, status });
+  };
+
+  // One click on a proposed slot books it with the current project and
+  // allocation
+  const handleBookSlot = (slot: Slot) => {
+    commit({
+      memberId: slot.memberId,
+      projectId,
+      startDate: slot.startDate,
+      endDate: slot.endDate,
+      allocation,
+      status,
+    });
+  };
+
+  const commit = (data: Omit<Assignment, "id">) => {
+    const result = assignment
+      ? onUpdate(assignment.id, data, note)
+      : onSave(data);
     if (!result.success) {
       const conflictProjects = result.conflicts.map((c) => {
         const p = projects.find((pr) => pr.id === c.projectId);
         return p?.name ?? "Unknown";
       });
       setError(
-        `Schedule conflict! This member is already assigned to: ${conflictProjects.join(", ")} during this period.`,
+        `Over capacity! This member is already booked on: ${conflictProjects.join(", ")} during this period.`,
       );
       return;
     }
     onOpenChange(false);
   };
 
+  const selectedMember = members.find((m) => m.id === memberId);
+  const validRange = startDate && endDate && startDate <= endDate;
+  const memberTimeOff = selectedMember
+    ? getMemberTimeOff(selectedMember, timeOff)
+    : [];
+  const leaveOverlaps = validRange
+    ? findTimeOffOverlaps(memberTimeOff, startDate, endDate)
+    : [];
+  const selectedProject = projects.find((p) => p.id === projectId);
+  const projectFinal = selectedProject
+    ? finalMilestone(selectedProject)
+    : undefined;
+  const endsAfterFinal = Boolean(
+    validRange && projectFinal && endDate > projectFinal.date,
+  );
+  const workingDays =
+    selectedMember && validRange
+      ? countWorkingDays(
+          selectedMember,
+          parseDate(startDate),
+          parseDate(endDate),
+          memberTimeOff,
+        )
+      : null;
+
   const getTeamForMember = (mId: string) => {
     const member = members.find((m) => m.id === mId);
     if (!member) return null;
@@ -156,12 +339,15 @@ export default function AssignmentDialog({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Assign to Project</DialogTitle>
+          <DialogTitle>
+            {assignment ? "Edit Assignment" : "Assign to Project"}
+          </DialogTitle>
           <DialogDescription>
-            Schedule a team member to work on a project. Each person can only
-            work on one project at a time.
+            Schedule a team member to work on a project. A person can split
+            their time across projects as long as the total stays within
+            100%.
           </DialogDescription>
         </DialogHeader>
         <div className="space-y-4">
@@ -188,8 +374,89 @@ export default function AssignmentDialog({
               />
             </div>
           </div>
+          <div>
+            <label className="text-sm font-medium mb-1.5 block">
+              Allocation
+            </label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={1}
+                max={100}
+                step={5}
+                className="w-24"
+                value={allocation}
+                onChange={(e) =>
+                  setAllocation(normalizeAllocation(Number(e.target.value)))
+                }
+              />
+              <span className="text-sm text-muted-foreground">%</span>
+              <div className="flex gap-1 ml-auto">
+                {[25, 50, 75, 100].map((pct) => (
+                  <Button
+                    key={pct}
+                    type="button"
+                    variant={allocation === pct ? "secondary" : "outline"}
+                    size="sm"
+                    className="h-8 px-2 text-xs"
+                    onClick={() => setAllocation(pct)}
+                  >
+                    {pct}%
+                  </Button>
+                ))}
+              </div>
+            </div>
+            {selectedMember && (
+              <p className="text-xs text-muted-foreground mt-1.5">
+                ≈{" "}
+                {Math.round(
+                  (getHoursPerWeek(selectedMember) * allocation) /
+                    FULL_ALLOCATION,
+                )}
+                h/wk of {selectedMember.name}'s{" "}
+                {formatCapacity(selectedMember)}
+              </p>
+            )}
+          </div>
+          <div>
+            <label className="text-sm font-medium mb-1.5 block">Status</label>
+            <div className="flex gap-1">
+              {BOOKING_STATUSES.map((s) => (
+                <Button
+                  key={s}
+                  type="button"
+                  variant={status === s ? "secondary" : "outline"}
+                  size="sm"
+                  className="h-8 px-3 text-xs"
+                  onClick={() => setStatus(s)}
+                >
+                  {BOOKING_STATUS_LABELS[s]}
+                </Button>
+              ))}
+            </div>
+            {status !== "confirmed" && !tentativeBlocks && (
+              <p className="text-xs text-muted-foreground mt-1.5">
+                Penciled in: it shows on the schedule but does not block
+                other bookings.
+              </p>
+            )}
+          </div>
           <div>
             <label className="text-sm font-medium mb-1.5 block">Member</label>
+            <div className="mb-2">
+              <SkillRequirementPicker
+                requirements={requiredSkills}
+                onChange={setRequiredSkills}
+                catalog={skillCatalog}
+              />
+              {requiredSkills.length > 0 && (
+                <p className="text-xs text-muted-foreground mt-1.5">
+                  {availableMembers.length} of {qualifiedMembers.length}{" "}
+                  qualified member{qualifiedMembers.length !== 1 ? "s" : ""}{" "}
+                  free in this range.
+                </p>
+              )}
+            </div>
             <Select value={memberId} onValueChange={setMemberId}>
               <SelectTrigger>
                 <SelectValue placeholder="Select a member" />
@@ -200,6 +467,9 @@ export default function AssignmentDialog({
                   return (
                     <SelectItem key={m.id} value={m.id}>
                       {m.name} {team ? `(${team.name})` : ""}
+                      {isPlaceholder(m) && (
+                        <span className="text-muted-foreground"> · open role</span>
+                      )}
                     </SelectItem>
                   );
                 })}
@@ -223,9 +493,50 @@ export default function AssignmentDialog({
                     </SelectItem>
                   );
                 })}
+                {unqualifiedMembers.length > 0 &&
+                  availableMembers.length + conflictedMembers.length > 0 && (
+                    <div className="mx-1 my-1 h-px bg-border" />
+                  )}
+                {unqualifiedMembers.map((m) => {
+                  const team = getTeamForMember(m.id);
+                  return (
+                    <SelectItem key={m.id} value={m.id} disabled>
+                      <span className="flex flex-col">
+                        <span className="text-muted-foreground">
+                          {m.name} {team ? `(${team.name})` : ""}
+                        </span>
+                        <span className="text-[10px] text-muted-foreground">
+                          Missing: {missingMap.get(m.id)}
+                        </span>
+                      </span>
+                    </SelectItem>
+                  );
+                })}
               </SelectContent>
             </Select>
           </div>
+          {!assignment && (
+            <Collapsible>
+              <CollapsibleTrigger className="group flex items-center gap-1.5 text-sm font-medium text-muted-foreground hover:text-foreground">
+                <Search className="h-4 w-4" />
+                Find the earliest slot
+                <ChevronDown className="h-3.5 w-3.5 transition-transform group-data-[state=open]:rotate-180" />
+              </CollapsibleTrigger>
+              <CollapsibleContent className="mt-2">
+                <SlotFinder
+                  candidates={qualifiedMembers}
+                  teams={teams}
+                  assignments={assignments}
+                  timeOff={timeOff}
+                  allocation={allocation}
+                  tentativeBlocks={tentativeBlocks}
+                  defaultStart={defaults.date ?? dateToString(new Date())}
+                  blocked={projectId ? undefined : "Pick a project to book a slot."}
+                  onBook={handleBookSlot}
+                />
+              </CollapsibleContent>
+            </Collapsible>
+          )}
           <div>
             <label className="text-sm font-medium mb-1.5 block">Project</label>
             <Popover open={projectPopoverOpen} onOpenChange={setProjectPopoverOpen}>
@@ -311,18 +622,97 @@ export default function AssignmentDialog({
             </Popover>
           </div>
 
+          {leaveOverlaps.length > 0 && (
+            <div className="flex items-start gap-2 p-3 rounded-md bg-amber-500/10 text-amber-700 dark:text-amber-400 text-sm">
+              <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+              <span>
+                {selectedMember.name} is away during this period:{" "}
+                {leaveOverlaps
+                  .map(
+                    (t) =>
+                      `${t.label} (${format(parseDate(t.startDate), "MMM d")}–${format(parseDate(t.endDate), "MMM d")})`,
+                  )
+                  .join(", ")}
+                . Those days are not counted as working time.
+              </span>
+            </div>
+          )}
+
+          {endsAfterFinal && (
+            <div className="flex items-start gap-2 p-3 rounded-md bg-amber-500/10 text-amber-700 dark:text-amber-400 text-sm">
+              <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+              <span>
+                This ends after {selectedProject.name}'s final milestone,{" "}
+                {formatMilestone(projectFinal)}.
+              </span>
+            </div>
+          )}
+
+          {workingDays !== null && (
+            <p className="text-xs text-muted-foreground">
+              {workingDays} working day{workingDays !== 1 ? "s" : ""} for{" "}
+              {selectedMember.name} in this range.
+            </p>
+          )}
+
+          {assignment && (
+            <DependencyEditor
+              assignment={assignment}
+              assignments={assignments}
+              dependencies={dependencies}
+              members={members}
+              projects={projects}
+              onAdd={onAddDependency}
+              onDelete={onDeleteDependency}
+            />
+          )}
+
+          {assignment && (
+            <div>
+              <label className="text-sm font-medium mb-1.5 block">
+                Reason for change{" "}
+                <span className="font-normal text-muted-foreground">
+                  (optional)
+                </span>
+              </label>
+              <Input
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="e.g. Client pushed the kickoff by a week"
+              />
+            </div>
+          )}
+
           {error && (
             <div className="flex items-start gap-2 p-3 rounded-md bg-destructive/10 text-destructive text-sm">
               <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
               <span>{error}</span>
             </div>
           )}
+
+          {assignment && (
+            <Collapsible>
+              <CollapsibleTrigger className="group flex items-center gap-1.5 text-sm font-medium text-muted-foreground hover:text-foreground">
+                <History className="h-4 w-4" />
+                History ({history.length})
+                <ChevronDown className="h-3.5 w-3.5 transition-transform group-data-[state=open]:rotate-180" />
+              </CollapsibleTrigger>
+              <CollapsibleContent className="mt-3 max-h-56 overflow-y-auto pr-1">
+                <AuditTimeline
+                  entries={history}
+                  emptyText="No changes recorded for this assignment."
+                />
+              </CollapsibleContent>
+            </Collapsible>
+          )}
         </div>
         <DialogFooter>
           <Button variant="outline" onClick={() => onOpenChange(false)}>
             Cancel
           </Button>
-          <Button onClick={handleSave}>Assign</Button>
+          <Button onClick={handleSave}>
+            {assignment ? "Save" : "Assign"}
+          </Button>
         </DialogFooter>
       </DialogContent>
     </Dialog>
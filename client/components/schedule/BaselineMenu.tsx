@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Baseline } from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ChevronDown, Flag, Save, Trash2 } from "lucide-react";
+
+interface Props {
+  baselines: Baseline[];
+  shown: Baseline | undefined;
+  onShow: (id: string | null) => void;
+  onSave: (name: string) => Baseline;
+  onDelete: (id: string) => void;
+  // Pick among saved baselines only
+  readOnly?: boolean;
+}
+
+/** Toolbar toggle for the baseline overlay, plus saving and picking baselines */
+export default function BaselineMenu({
+  baselines,
+  shown,
+  onShow,
+  onSave,
+  onDelete,
+  readOnly,
+}: Props) {
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState("");
+
+  const openSaveDialog = () => {
+    setName(`Plan of ${format(new Date(), "MMM d, yyyy")}`);
+    setSaving(true);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onShow(onSave(name).id);
+    setSaving(false);
+  };
+
+  const sorted = [...baselines].sort((a, b) =>
+    b.createdAt.localeCompare(a.createdAt),
+  );
+
+  // Turning the overlay on shows the newest baseline, or offers to save one
+  const toggle = () => {
+    if (shown) onShow(null);
+    else if (sorted.length) onShow(sorted[0].id);
+    else if (!readOnly) openSaveDialog();
+  };
+
+  return (
+    <>
+      <div className="flex items-center border rounded-md">
+        <Button
+          variant={shown ? "secondary" : "ghost"}
+          size="sm"
+          className="h-8 text-xs rounded-r-none max-w-[180px]"
+          aria-pressed={!!shown}
+          onClick={toggle}
+        >
+          <Flag className="h-3.5 w-3.5 mr-1 shrink-0" />
+          <span className="truncate">{shown ? shown.name : "Baseline"}</span>
+        </Button>
+        <div className="h-8 w-px bg-border" />
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-7 rounded-l-none"
+              aria-label="Baseline options"
+            >
+              <ChevronDown className="h-3.5 w-3.5" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-60">
+            {sorted.length > 0 && (
+              <>
+                <DropdownMenuLabel className="text-xs text-muted-foreground font-normal">
+                  Compare against
+                </DropdownMenuLabel>
+                <DropdownMenuRadioGroup
+                  value={shown?.id ?? ""}
+                  onValueChange={(id) => onShow(id)}
+                >
+                  {sorted.map((b) => (
+                    <DropdownMenuRadioItem key={b.id} value={b.id}>
+                      <span className="truncate">{b.name}</span>
+                      <span className="ml-auto pl-2 text-[10px] text-muted-foreground shrink-0">
+                        {format(new Date(b.createdAt), "MMM d")}
+                      </span>
+                    </DropdownMenuRadioItem>
+                  ))}
+                </DropdownMenuRadioGroup>
+                {!readOnly && <DropdownMenuSeparator />}
+              </>
+            )}
+            {!readOnly && (
+              <DropdownMenuItem onSelect={openSaveDialog}>
+                <Save className="h-3.5 w-3.5 mr-2" /> Save baseline…
+              </DropdownMenuItem>
+            )}
+            {shown && !readOnly && (
+              <DropdownMenuItem
+                className="text-destructive focus:text-destructive"
+                onSelect={() => {
+                  onDelete(shown.id);
+                  onShow(null);
+                }}
+              >
+                <Trash2 className="h-3.5 w-3.5 mr-2" /> Delete "{shown.name}"
+              </DropdownMenuItem>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      <Dialog open={saving} onOpenChange={setSaving}>
+        <DialogContent className="max-w-sm">
+          <form onSubmit={handleSave}>
+            <DialogHeader>
+              <DialogTitle>Save baseline</DialogTitle>
+              <DialogDescription>
+                Freezes the current dates of every assignment so later changes
+                show up as slip against them.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2 py-4">
+              <Label htmlFor="baseline-name">Name</Label>
+              <Input
+                id="baseline-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                autoFocus
+              />
+            </div>
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setSaving(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!name.trim()}>
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
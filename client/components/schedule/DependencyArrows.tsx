@@ -0,0 +1,77 @@
+import { DependencyType } from "@/lib/types";
+
+export interface DependencyArrow {
+  id: string;
+  type: DependencyType;
+  from: { x: number; y: number };
+  to: { x: number; y: number };
+  /** The successor starts earlier than the link allows */
+  violated: boolean;
+}
+
+interface Props {
+  arrows: DependencyArrow[];
+  width: number;
+  height: number;
+}
+
+// How far connectors run out sideways before curving toward the other bar
+const LEAD = 14;
+
+function connectorPath({ type, from, to }: DependencyArrow): string {
+  // Start-to-start links leave the predecessor's left edge and curve out to
+  // the left; finish-to-start ones run right, then back into the successor
+  const reach = Math.max(Math.abs(to.x - from.x) / 2, LEAD);
+  const c1 = type === "start_to_start" ? from.x - LEAD : from.x + reach;
+  return `M ${from.x} ${from.y} C ${c1} ${from.y}, ${to.x - reach} ${to.y}, ${to.x} ${to.y}`;
+}
+
+/** Connector arrows from predecessor bars to their dependent bars */
+export default function DependencyArrows({ arrows, width, height }: Props) {
+  if (arrows.length === 0) return null;
+  return (
+    <svg
+      className="absolute left-0 top-0 z-[5] pointer-events-none overflow-visible"
+      width={width}
+      height={height}
+    >
+      <defs>
+        <marker
+          id="dependency-arrowhead"
+          viewBox="0 0 6 6"
+          refX="5"
+          refY="3"
+          markerWidth="6"
+          markerHeight="6"
+          orient="auto-start-reverse"
+        >
+          <path d="M 0 0 L 6 3 L 0 6 z" className="fill-muted-foreground" />
+        </marker>
+        <marker
+          id="dependency-arrowhead-violated"
+          viewBox="0 0 6 6"
+          refX="5"
+          refY="3"
+          markerWidth="6"
+          markerHeight="6"
+          orient="auto-start-reverse"
+        >
+          <path d="M 0 0 L 6 3 L 0 6 z" className="fill-destructive" />
+        </marker>
+      </defs>
+      {arrows.map((arrow) => (
+        <path
+          key={arrow.id}
+          d={connectorPath(arrow)}
+          fill="none"
+          strokeWidth={1.5}
+          className={
+            arrow.violated ? "stroke-destructive" : "stroke-muted-foreground/70"
+          }
+          strokeDasharray={arrow.violated ? "4 3" : undefined}
+          markerEnd={`url(#dependency-arrowhead${arrow.violated ? "-violated" : ""})`}
+        />
+      ))}
+    </svg>
+  );
+}
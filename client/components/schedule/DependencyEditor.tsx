@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import {
+  Assignment,
+  Dependency,
+  DependencyType,
+  Member,
+  Project,
+} from "@/lib/types";
+import { parseDate } from "@/lib/dateUtils";
+import {
+  DEPENDENCY_TYPE_LABELS,
+  earliestStart,
+  wouldCreateCycle,
+} from "@/lib/dependencies";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+} from "@/components/ui/select";
+import { AlertTriangle, Link2, X } from "lucide-react";
+
+interface Props {
+  assignment: Assignment;
+  assignments: Assignment[];
+  dependencies: Dependency[];
+  members: Member[];
+  projects: Project[];
+  onAdd: (dependency: Omit<Dependency, "id">) => void;
+  onDelete: (id: string) => void;
+}
+
+/**
+ * Links of one assignment to the work before and after it. Changes apply
+ * immediately; linking to a predecessor that ends later pushes this
+ * assignment (and anything after it) out.
+ */
+export default function DependencyEditor({
+  assignment,
+  assignments,
+  dependencies,
+  members,
+  projects,
+  onAdd,
+  onDelete,
+}: Props) {
+  const [predecessorId, setPredecessorId] = useState("");
+  const [type, setType] = useState<DependencyType>("finish_to_start");
+
+  const byId = new Map(assignments.map((a) => [a.id, a]));
+  const describe = (a: Assignment) => {
+    const member = members.find((m) => m.id === a.memberId)?.name ?? "Unknown";
+    const project =
+      projects.find((p) => p.id === a.projectId)?.name ?? "Unknown";
+    const dates = [a.startDate, a.endDate]
+      .map((d) => format(parseDate(d), "MMM d"))
+      .join("–");
+    return `${member} · ${project} (${dates})`;
+  };
+
+  const before = dependencies.filter((d) => d.successorId === assignment.id);
+  const after = dependencies.filter((d) => d.predecessorId === assignment.id);
+  const linked = new Set([
+    ...before.map((d) => d.predecessorId),
+    ...after.map((d) => d.successorId),
+  ]);
+  const candidates = assignments.filter(
+    (a) =>
+      a.id !== assignment.id &&
+      !linked.has(a.id) &&
+      !wouldCreateCycle(dependencies, a.id, assignment.id),
+  );
+
+  const handleAdd = () => {
+    if (!predecessorId) return;
+    onAdd({ predecessorId, successorId: assignment.id, type });
+    setPredecessorId("");
+  };
+
+  const row = (link: Dependency, other: Assignment, text: string) => {
+    const predecessor = byId.get(link.predecessorId);
+    const successor = byId.get(link.successorId);
+    const violated =
+      predecessor &&
+      successor &&
+      successor.startDate < earliestStart(link, predecessor);
+    return (
+      <li key={link.id} className="flex items-center gap-2 text-xs">
+        {violated ? (
+          <AlertTriangle className="h-3.5 w-3.5 shrink-0 text-destructive" />
+        ) : (
+          <Link2 className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+        )}
+        <span className="flex-1 truncate">
+          <span className="text-muted-foreground">{text}</span>{" "}
+          {describe(other)}
+        </span>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 shrink-0"
+          onClick={() => onDelete(link.id)}
+        >
+          <X className="h-3 w-3" />
+        </Button>
+      </li>
+    );
+  };
+
+  return (
+    <div>
+      <label className="text-sm font-medium mb-1.5 block">Dependencies</label>
+      {(before.length > 0 || after.length > 0) && (
+        <ul className="space-y-1 mb-2">
+          {before.map(
+            (d) =>
+              byId.has(d.predecessorId) &&
+              row(
+                d,
+                byId.get(d.predecessorId),
+                d.type === "start_to_start" ? "Starts with" : "After",
+              ),
+          )}
+          {after.map(
+            (d) =>
+              byId.has(d.successorId) &&
+              row(
+                d,
+                byId.get(d.successorId),
+                d.type === "start_to_start" ? "Starts" : "Before",
+              ),
+          )}
+        </ul>
+      )}
+      <div className="flex items-center gap-2">
+        <Select value={predecessorId} onValueChange={setPredecessorId}>
+          <SelectTrigger className="flex-1 min-w-0 h-8 text-xs">
+            <SelectValue placeholder="Depends on…" />
+          </SelectTrigger>
+          <SelectContent>
+            {candidates.map((a) => (
+              <SelectItem key={a.id} value={a.id} className="text-xs">
+                {describe(a)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={type}
+          onValueChange={(v) => setType(v as DependencyType)}
+        >
+          <SelectTrigger className="w-[130px] h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(DEPENDENCY_TYPE_LABELS) as DependencyType[]).map(
+              (t) => (
+                <SelectItem key={t} value={t} className="text-xs">
+                  {DEPENDENCY_TYPE_LABELS[t]}
+                </SelectItem>
+              ),
+            )}
+          </SelectContent>
+        </Select>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="h-8"
+          disabled={!predecessorId}
+          onClick={handleAdd}
+        >
+          Link
+        </Button>
+      </div>
+    </div>
+  );
+}
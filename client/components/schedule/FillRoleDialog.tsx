@@ -0,0 +1,191 @@
+import { useState, useEffect, useMemo } from "react";
+import { Team, Member, Project, Assignment } from "@/lib/types";
+import { findBookingConflicts } from "@/lib/store";
+import { isPlaceholder } from "@/lib/capacity";
+import { formatSkill, meetsRequirements, missingSkills } from "@/lib/skills";
+import { parseDate } from "@/lib/dateUtils";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { AlertTriangle } from "lucide-react";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  role: Member | null;
+  teams: Team[];
+  members: Member[];
+  projects: Project[];
+  assignments: Assignment[];
+  tentativeBlocks: boolean;
+  onFill: (
+    placeholderId: string,
+    memberId: string,
+  ) => { filled: number; failed: Assignment[] };
+}
+
+interface Candidate {
+  member: Member;
+  missing: string;
+  // Bookings of the role that would overbook this member
+  clashes: number;
+}
+
+export default function FillRoleDialog({
+  open,
+  onOpenChange,
+  role,
+  teams,
+  members,
+  projects,
+  assignments,
+  tentativeBlocks,
+  onFill,
+}: Props) {
+  const [memberId, setMemberId] = useState("");
+  const [failed, setFailed] = useState<Assignment[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      setMemberId("");
+      setFailed([]);
+    }
+  }, [open, role]);
+
+  const bookings = useMemo(
+    () => (role ? assignments.filter((a) => a.memberId === role.id) : []),
+    [role, assignments],
+  );
+
+  // Qualified and free members first, then by fewest clashes
+  const candidates = useMemo(() => {
+    if (!role) return [];
+    const required = role.skills ?? [];
+    const result: Candidate[] = members
+      .filter((m) => !isPlaceholder(m))
+      .map((m) => ({
+        member: m,
+        missing: meetsRequirements(m, required)
+          ? ""
+          : missingSkills(m, required).map(formatSkill).join(", "),
+        clashes: bookings.filter(
+          (b) =>
+            findBookingConflicts({ ...b, memberId: m.id }, tentativeBlocks)
+              .length > 0,
+        ).length,
+      }));
+    return result.sort(
+      (a, b) =>
+        Number(Boolean(a.missing)) - Number(Boolean(b.missing)) ||
+        a.clashes - b.clashes ||
+        a.member.name.localeCompare(b.member.name),
+    );
+  }, [role, members, bookings, tentativeBlocks]);
+
+  const projectName = (id: string) =>
+    projects.find((p) => p.id === id)?.name ?? "Unknown";
+  const teamName = (id: string) => teams.find((t) => t.id === id)?.name;
+
+  const handleFill = () => {
+    if (!role || !memberId) return;
+    const result = onFill(role.id, memberId);
+    if (result.failed.length === 0) onOpenChange(false);
+    else setFailed(result.failed);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Fill {role?.name ?? "open role"}</DialogTitle>
+          <DialogDescription>
+            Move its {bookings.length} booking{bookings.length !== 1 ? "s" : ""}{" "}
+            to a member. Bookings that would overbook them stay on the role.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-72 overflow-y-auto -mx-1 px-1 space-y-1">
+          {candidates.length === 0 && (
+            <p className="text-sm text-muted-foreground py-4 text-center">
+              No members to fill this role with yet.
+            </p>
+          )}
+          {candidates.map(({ member, missing, clashes }) => {
+            const team = teamName(member.teamId);
+            return (
+              <button
+                key={member.id}
+                type="button"
+                className={`w-full text-left rounded-md border px-3 py-2 text-sm transition-colors ${
+                  memberId === member.id
+                    ? "border-primary bg-primary/5"
+                    : "hover:bg-muted/40"
+                }`}
+                onClick={() => setMemberId(member.id)}
+              >
+                <span className="flex items-center justify-between gap-2">
+                  <span className="font-medium truncate">
+                    {member.name}
+                    {team && (
+                      <span className="font-normal text-muted-foreground">
+                        {" "}
+                        ({team})
+                      </span>
+                    )}
+                  </span>
+                  <span
+                    className={`text-xs shrink-0 ${clashes ? "text-destructive" : "text-muted-foreground"}`}
+                  >
+                    {clashes
+                      ? `${clashes} of ${bookings.length} clash`
+                      : "Free"}
+                  </span>
+                </span>
+                {missing && (
+                  <span className="block text-[11px] text-muted-foreground">
+                    Missing: {missing}
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+        {failed.length > 0 && (
+          <div className="rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-xs text-amber-800 space-y-1">
+            <p className="flex items-center gap-1.5 font-medium">
+              <AlertTriangle className="h-3.5 w-3.5" />
+              {failed.length} booking{failed.length !== 1 ? "s" : ""} would
+              overbook them and stayed on the role:
+            </p>
+            <ul className="list-disc pl-5">
+              {failed.map((a) => (
+                <li key={a.id}>
+                  {projectName(a.projectId)},{" "}
+                  {format(parseDate(a.startDate), "MMM d")} -{" "}
+                  {format(parseDate(a.endDate), "MMM d")}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {failed.length > 0 ? "Close" : "Cancel"}
+          </Button>
+          <Button
+            onClick={handleFill}
+            disabled={!memberId || bookings.length === 0}
+          >
+            Fill role
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
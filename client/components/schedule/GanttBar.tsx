@@ -1,5 +1,6 @@
-import { useRef, useState, useCallback } from "react";
-import { Assignment } from "@/lib/types";
+import { useRef, useState, useCallback, useEffect } from "react";
+import { Assignment, BaselineDates, Member, TimeOff } from "@/lib/types";
+import { Presence } from "@shared/api";
 import {
   parseDate,
   dateToString,
@@ -14,11 +15,22 @@ import {
   TooltipContent,
 } from "@/components/ui/tooltip";
 import { format } from "date-fns";
+import {
+  FULL_ALLOCATION,
+  countWorkingDays,
+  formatCapacity,
+  getHoursPerDay,
+} from "@/lib/capacity";
+import { formatSlip, slipDays } from "@/lib/baselines";
+import { BOOKING_STATUS_LABELS, getBookingStatus } from "@/lib/bookings";
+import { peerColor, peerName } from "@/lib/live";
 
 interface Props {
   assignment: Assignment;
   barColor: string;
   barLabel: string;
+  member?: Member;
+  timeOff?: TimeOff[];
   columns: Date[];
   colWidth: number;
   granularity: Granularity;
@@ -29,14 +41,37 @@ interface Props {
     data: Partial<Assignment>,
   ) => { success: boolean; conflicts: Assignment[] };
   onDelete: (id: string) => void;
+  onEdit?: (assignment: Assignment) => void;
   onReassign?: (assignmentId: string, targetRowId: string) => void;
   onDropTargetChange?: (rowId: string | null) => void;
+  // Bracket a drag so all its updates undo as one step
+  onDragStart?: (label: string) => void;
+  onDragEnd?: () => void;
+  // Baseline overlay: the frozen dates, or null if the assignment was added
+  // after the baseline. Leave undefined when the overlay is off.
+  baseline?: BaselineDates | null;
+  // What the ghost stands for in the tooltip, e.g. the current dates while a
+  // proposed change is previewed
+  ghostLabel?: string;
+  // Booked against an open role rather than a person
+  demand?: boolean;
+  // Shares a working day on which the member is booked past their capacity
+  overCapacity?: boolean;
+  // Another planner dragging or editing this bar right now
+  peer?: Presence;
+  // Shown but not movable, resizable or editable (viewers)
+  readOnly?: boolean;
+  // Picked out by the URL; scrolled into view when it becomes so
+  focused?: boolean;
+  // Clicked rather than dragged
+  onFocus?: (id: string) => void;
 }
 
 type DragMode = "move" | "resize-left" | "resize-right" | null;
 
 const LANE_HEIGHT = 28;
 const LANE_GAP = 2;
+const GHOST_HEIGHT = 4;
 
 function findRowIdAtPoint(x: number, y: number): string | null {
   const els = document.elementsFromPoint(x, y);
@@ -51,6 +86,8 @@ export default function GanttBar({
   assignment,
   barColor,
   barLabel,
+  member,
+  timeOff,
   columns,
   colWidth,
   granularity,
@@ -58,8 +95,19 @@ export default function GanttBar({
   laneCount,
   onUpdate,
   onDelete,
+  onEdit,
   onReassign,
   onDropTargetChange,
+  onDragStart,
+  onDragEnd,
+  baseline,
+  ghostLabel = "Baseline",
+  demand,
+  overCapacity,
+  peer,
+  readOnly,
+  focused,
+  onFocus,
 }: Props) {
   const barRef = useRef<HTMLDivElement>(null);
   const [dragMode, setDragMode] = useState<DragMode>(null);
@@ -70,8 +118,18 @@ export default function GanttBar({
     origStartDate: "",
     origEndDate: "",
     currentTargetRowId: null as string | null,
+    moved: false,
   });
 
+  useEffect(() => {
+    if (focused)
+      barRef.current?.scrollIntoView({
+        behavior: "smooth",
+        block: "nearest",
+        inline: "center",
+      });
+  }, [focused]);
+
   const startDate = parseDate(assignment.startDate);
   const endDate = parseDate(assignment.endDate);
   const { left, width } = getBarPosition(
@@ -87,6 +145,7 @@ export default function GanttBar({
       e.preventDefault();
       e.stopPropagation();
       setDragMode(mode);
+      onDragStart?.(mode === "move" ? "Move assignment" : "Resize assignment");
       setConflict(false);
       dragState.current = {
         startX: e.clientX,
@@ -94,10 +153,14 @@ export default function GanttBar({
         origStartDate: assignment.startDate,
         origEndDate: assignment.endDate,
         currentTargetRowId: null,
+        moved: false,
       };
 
       const handleMouseMove = (ev: MouseEvent) => {
         const dx = ev.clientX - dragState.current.startX;
+        const dy = ev.clientY - dragState.current.startY;
+        if (Math.abs(dx) > 2 || Math.abs(dy) > 2)
+          dragState.current.moved = true;
         const { width: barWidth } = getBarPosition(
           parseDate(dragState.current.origStartDate),
           parseDate(dragState.current.origEndDate),
@@ -177,6 +240,7 @@ export default function GanttBar({
           onReassign(assignment.id, dragState.current.currentTargetRowId);
         }
         onDropTargetChange?.(null);
+        onDragEnd?.();
         setDragMode(null);
         setTimeout(() => setConflict(false), 1500);
         document.removeEventListener("mousemove", handleMouseMove);
@@ -194,71 +258,198 @@ export default function GanttBar({
       onUpdate,
       onReassign,
       onDropTargetChange,
+      onDragStart,
+      onDragEnd,
     ],
   );
 
   const durationDays = differenceInDays(endDate, startDate) + 1;
 
-  // Count working days (Mon-Fri)
-  let workingDays = 0;
-  for (let d = new Date(startDate); d <= endDate; d.setDate(d.getDate() + 1)) {
-    const day = d.getDay();
-    if (day !== 0 && day !== 6) workingDays++;
-  }
+  // Count the member's working days, skipping days off, leave and holidays
+  const workingDays = countWorkingDays(member, startDate, endDate, timeOff);
+  const hoursPerDay = Number(
+    (
+      (getHoursPerDay(member) * assignment.allocation) /
+      FULL_ALLOCATION
+    ).toFixed(1),
+  );
+
+  const isPartial = assignment.allocation < FULL_ALLOCATION;
+
+  // Open roles and requested bookings are outlined, tentative ones striped
+  const status = getBookingStatus(assignment);
+  const outlined = demand || status === "requested";
+  const stripe = outlined ? `${barColor}40` : "rgba(255,255,255,0.3)";
+
+  // With the overlay on, the bar gives up the bottom of its lane to the ghost
+  const showBaseline = baseline !== undefined;
+  const barTop = lane * (LANE_HEIGHT + LANE_GAP) + LANE_GAP;
+  const barHeight = showBaseline ? LANE_HEIGHT - GHOST_HEIGHT - 1 : LANE_HEIGHT;
+  const ghost = baseline
+    ? getBarPosition(
+        parseDate(baseline.startDate),
+        parseDate(baseline.endDate),
+        columns,
+        colWidth,
+        granularity,
+      )
+    : null;
+  const slip = baseline ? slipDays(assignment, baseline) : 0;
+  const peerTint = peer ? peerColor(peer) : undefined;
+  const peerAction = peer?.dragging === assignment.id ? "moving" : "editing";
 
   return (
-    <Tooltip>
-      <TooltipTrigger asChild>
+    <>
+      {ghost && (
         <div
-          ref={barRef}
-          className={`gantt-bar absolute flex items-center group select-none
-            ${conflict ? "ring-2 ring-destructive animate-pulse" : ""}
-            ${dragMode ? "opacity-80 shadow-xl z-30" : "z-10"}
-          `}
+          className="absolute rounded-sm border border-dashed pointer-events-none opacity-50"
           style={{
-            left,
-            width: Math.max(width, 8),
-            top: lane * (LANE_HEIGHT + LANE_GAP) + LANE_GAP,
-            height: LANE_HEIGHT,
-            backgroundColor: barColor,
-          }}
-          onMouseDown={(e) => handleMouseDown(e, "move")}
-          onContextMenu={(e) => {
-            e.preventDefault();
-            onDelete(assignment.id);
+            left: ghost.left,
+            width: Math.max(ghost.width, 8),
+            top: barTop + barHeight + 1,
+            height: GHOST_HEIGHT,
+            borderColor: barColor,
+            backgroundColor: `${barColor}55`,
           }}
-        >
+        />
+      )}
+      <Tooltip>
+        <TooltipTrigger asChild>
           <div
-            className="absolute left-0 top-0 bottom-0 w-2 cursor-col-resize hover:bg-black/20 rounded-l-md"
-            onMouseDown={(e) => handleMouseDown(e, "resize-left")}
-          />
-          <span className="text-[11px] font-medium text-white truncate px-2 pointer-events-none">
-            {width > 40 ? barLabel : ""}
-          </span>
-          <div
-            className="absolute right-0 top-0 bottom-0 w-2 cursor-col-resize hover:bg-black/20 rounded-r-md"
-            onMouseDown={(e) => handleMouseDown(e, "resize-right")}
-          />
-        </div>
-      </TooltipTrigger>
-      <TooltipContent side="top" className="text-xs">
-        <p className="font-semibold">{barLabel}</p>
-        <p>
-          {format(startDate, "MMM d")} - {format(endDate, "MMM d, yyyy")}
-        </p>
-        <p className="text-muted-foreground">
-          {durationDays} day{durationDays !== 1 ? "s" : ""} ({workingDays}{" "}
-          working day{workingDays !== 1 ? "s" : ""})
-        </p>
-        {conflict && (
-          <p className="text-destructive font-medium mt-1">
-            Schedule conflict!
+            ref={barRef}
+            className={`gantt-bar absolute flex items-center group select-none
+            ${readOnly ? "!cursor-default" : ""}
+            ${conflict ? "ring-2 ring-destructive animate-pulse" : focused ? "ring-2 ring-primary ring-offset-1" : overCapacity ? "ring-1 ring-destructive" : ""}
+            ${dragMode ? "opacity-80 shadow-xl z-30" : "z-10"}
+          `}
+            style={{
+              left,
+              width: Math.max(width, 8),
+              top: barTop,
+              height: barHeight,
+              ...(outlined
+                ? {
+                    backgroundColor: `${barColor}26`,
+                    border: `1.5px ${demand ? "dashed" : "solid"} ${barColor}`,
+                    color: barColor,
+                  }
+                : { backgroundColor: barColor, color: "white" }),
+              ...(status === "tentative" && {
+                backgroundImage: `repeating-linear-gradient(135deg, ${stripe} 0 4px, transparent 4px 8px)`,
+              }),
+              ...(peer && { boxShadow: `0 0 0 2px ${peerTint}` }),
+            }}
+            onMouseDown={
+              readOnly ? undefined : (e) => handleMouseDown(e, "move")
+            }
+            onClick={() => {
+              if (!dragState.current.moved) onFocus?.(assignment.id);
+            }}
+            onDoubleClick={readOnly ? undefined : () => onEdit?.(assignment)}
+            onContextMenu={(e) => {
+              if (readOnly) return;
+              e.preventDefault();
+              onDelete(assignment.id);
+            }}
+          >
+            {!readOnly && (
+              <div
+                className="absolute left-0 top-0 bottom-0 w-2 cursor-col-resize hover:bg-black/20 rounded-l-md"
+                onMouseDown={(e) => handleMouseDown(e, "resize-left")}
+              />
+            )}
+            {peer && (
+              <span
+                className="absolute -top-2.5 right-1 z-20 max-w-24 truncate rounded px-1 text-[9px] font-semibold leading-[14px] text-white pointer-events-none"
+                style={{ backgroundColor: peerTint }}
+              >
+                {peerName(peer)}
+              </span>
+            )}
+            <span className="text-[11px] font-medium truncate px-2 pointer-events-none">
+              {width > 40 ? barLabel : ""}
+            </span>
+            {isPartial && width > 24 && (
+              <span className="ml-auto mr-2 shrink-0 rounded bg-black/20 px-1 text-[10px] font-semibold text-white pointer-events-none">
+                {assignment.allocation}%
+              </span>
+            )}
+            {slip !== 0 && width > 24 && (
+              <span
+                className={`${isPartial ? "" : "ml-auto "}mr-2 shrink-0 rounded px-1 text-[10px] font-semibold text-white pointer-events-none ${slip > 0 ? "bg-destructive/80" : "bg-emerald-600/80"}`}
+              >
+                {formatSlip(slip)}
+              </span>
+            )}
+            {!readOnly && (
+              <div
+                className="absolute right-0 top-0 bottom-0 w-2 cursor-col-resize hover:bg-black/20 rounded-r-md"
+                onMouseDown={(e) => handleMouseDown(e, "resize-right")}
+              />
+            )}
+          </div>
+        </TooltipTrigger>
+        <TooltipContent side="top" className="text-xs">
+          <p className="font-semibold">{barLabel}</p>
+          {status !== "confirmed" && (
+            <p className="text-muted-foreground">
+              {BOOKING_STATUS_LABELS[status]} · not yet confirmed
+            </p>
+          )}
+          {demand && (
+            <p className="text-muted-foreground">Open role · not yet staffed</p>
+          )}
+          <p>
+            {format(startDate, "MMM d")} - {format(endDate, "MMM d, yyyy")}
+          </p>
+          <p className="text-muted-foreground">
+            {durationDays} day{durationDays !== 1 ? "s" : ""} ({workingDays}{" "}
+            working day{workingDays !== 1 ? "s" : ""})
+          </p>
+          <p className="text-muted-foreground">
+            Allocation: {assignment.allocation}% ({hoursPerDay}h/day)
           </p>
-        )}
-        <p className="text-muted-foreground mt-1">
-          Drag up/down to reassign. Right-click to remove.
-        </p>
-      </TooltipContent>
-    </Tooltip>
+          {baseline && (
+            <p
+              className={
+                slip > 0 ? "text-destructive" : "text-muted-foreground"
+              }
+            >
+              {ghostLabel}: {format(parseDate(baseline.startDate), "MMM d")} -{" "}
+              {format(parseDate(baseline.endDate), "MMM d, yyyy")} (
+              {slip === 0
+                ? "on time"
+                : `${Math.abs(slip)} day${Math.abs(slip) !== 1 ? "s" : ""} ${slip > 0 ? "late" : "early"}`}
+              )
+            </p>
+          )}
+          {baseline === null && (
+            <p className="text-muted-foreground">Added after the baseline</p>
+          )}
+          {peer && (
+            <p className="font-medium mt-1" style={{ color: peerTint }}>
+              {peerName(peer)} is {peerAction} this right now
+            </p>
+          )}
+          {overCapacity && !conflict && (
+            <p className="text-destructive mt-1">
+              Over capacity for {member?.name ?? "this member"} (
+              {formatCapacity(member)})
+            </p>
+          )}
+          {conflict && (
+            <p className="text-destructive font-medium mt-1">
+              Schedule conflict!
+            </p>
+          )}
+          {!readOnly && (
+            <p className="text-muted-foreground mt-1">
+              Drag up/down to reassign. Double-click to edit. Right-click to
+              remove.
+            </p>
+          )}
+        </TooltipContent>
+      </Tooltip>
+    </>
   );
 }
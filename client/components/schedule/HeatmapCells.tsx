@@ -0,0 +1,70 @@
+import {
+  Load,
+  LoadLevel,
+  formatLoad,
+  loadLevel,
+  loadPercent,
+} from "@/lib/utilization";
+
+export const HEAT_CLASSES: Record<LoadLevel, string> = {
+  under: "bg-sky-200",
+  full: "bg-emerald-300",
+  over: "bg-red-400",
+};
+
+const TEXT_CLASSES: Record<LoadLevel, string> = {
+  under: "text-sky-900",
+  full: "text-emerald-950",
+  over: "text-white",
+};
+
+interface Props {
+  loads: Load[];
+  colWidth: number;
+  /** Team totals are drawn bolder than member rows */
+  rollup?: boolean;
+}
+
+/**
+ * One heat cell per timeline column. Under-booked cells fade with the load so
+ * a half-booked week reads lighter than a nearly full one.
+ */
+export default function HeatmapCells({ loads, colWidth, rollup }: Props) {
+  return (
+    // Member rows let clicks through to the cells below, to book by dragging
+    <div
+      className={`absolute inset-0 flex ${rollup ? "" : "pointer-events-none"}`}
+    >
+      {loads.map((load, i) => {
+        const percent = loadPercent(load);
+        const level = percent === null ? null : loadLevel(percent);
+        return (
+          <div
+            key={i}
+            className="p-0.5 shrink-0"
+            style={{ width: colWidth, minWidth: colWidth }}
+            title={rollup ? formatLoad(load) : undefined}
+          >
+            {level && (
+              <div
+                className={`relative h-full rounded-sm flex items-center justify-center text-[10px] tabular-nums ${rollup ? "font-semibold" : "font-medium"}`}
+              >
+                <div
+                  className={`absolute inset-0 rounded-sm ${HEAT_CLASSES[level]}`}
+                  style={{
+                    opacity: level === "under" ? 0.25 + percent / 133 : 1,
+                  }}
+                />
+                {colWidth >= 30 && (
+                  <span className={`relative ${TEXT_CLASSES[level]}`}>
+                    {percent}%
+                  </span>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
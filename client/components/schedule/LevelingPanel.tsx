@@ -0,0 +1,131 @@
+import { Member, Project } from "@/lib/types";
+import { LevelingProposal } from "@/lib/leveling";
+import { parseDate } from "@/lib/dateUtils";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { AlertTriangle, Scale } from "lucide-react";
+
+interface Props {
+  proposal: LevelingProposal;
+  /** Ids of the assignments whose move is accepted */
+  selected: Set<string>;
+  onSelectedChange: (selected: Set<string>) => void;
+  members: Member[];
+  projects: Project[];
+  onApply: () => void;
+  onDiscard: () => void;
+}
+
+const range = (startDate: string, endDate: string) =>
+  `${format(parseDate(startDate), "MMM d")}–${format(parseDate(endDate), "MMM d")}`;
+
+/** Review a leveling proposal while the schedule previews it */
+export default function LevelingPanel({
+  proposal,
+  selected,
+  onSelectedChange,
+  members,
+  projects,
+  onApply,
+  onDiscard,
+}: Props) {
+  const { moves, unresolved } = proposal;
+  const memberName = (id: string) =>
+    members.find((m) => m.id === id)?.name ?? "Unknown";
+  const project = (id: string) => projects.find((p) => p.id === id);
+  const toggle = (id: string, on: boolean) => {
+    const next = new Set(selected);
+    if (on) next.add(id);
+    else next.delete(id);
+    onSelectedChange(next);
+  };
+
+  return (
+    <div className="rounded-lg border border-primary/30 bg-primary/5 p-3 space-y-3">
+      <div className="flex items-start justify-between gap-2 flex-wrap">
+        <div>
+          <p className="text-sm font-semibold flex items-center gap-1.5">
+            <Scale className="h-4 w-4" /> Leveling proposal
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {moves.length} move{moves.length !== 1 ? "s" : ""} to clear
+            over-allocation. Accepted moves are previewed on the schedule, with
+            the current dates as a ghost.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() =>
+              onSelectedChange(
+                selected.size === moves.length
+                  ? new Set()
+                  : new Set(moves.map((m) => m.assignment.id)),
+              )
+            }
+          >
+            {selected.size === moves.length ? "Select none" : "Select all"}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={onDiscard}
+          >
+            Discard
+          </Button>
+          <Button
+            size="sm"
+            className="h-7 text-xs"
+            disabled={selected.size === 0}
+            onClick={onApply}
+          >
+            Apply {selected.size} move{selected.size !== 1 ? "s" : ""}
+          </Button>
+        </div>
+      </div>
+      {moves.length > 0 && (
+        <ul className="max-h-48 overflow-y-auto space-y-1">
+          {moves.map(({ assignment: a, kind, changes }) => {
+            const p = project(a.projectId);
+            return (
+              <li key={a.id}>
+                <label className="flex items-center gap-2 text-xs cursor-pointer">
+                  <Checkbox
+                    checked={selected.has(a.id)}
+                    onCheckedChange={(on) => toggle(a.id, on === true)}
+                  />
+                  <span
+                    className="w-2 h-2 rounded-full shrink-0"
+                    style={{ backgroundColor: p?.color }}
+                  />
+                  <span className="font-medium">{p?.name ?? "Unknown"}</span>
+                  <span className="text-muted-foreground">
+                    {kind === "shift"
+                      ? `${memberName(a.memberId)}: ${range(a.startDate, a.endDate)} → ${range(changes.startDate, changes.endDate)}`
+                      : `${memberName(a.memberId)} → ${memberName(changes.memberId)}, ${range(a.startDate, a.endDate)}`}
+                  </span>
+                </label>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {unresolved.length > 0 && (
+        <p className="flex items-start gap-1.5 text-xs text-amber-700 dark:text-amber-400">
+          <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+          No room within the project window or the team for:{" "}
+          {unresolved
+            .map(
+              (a) =>
+                `${project(a.projectId)?.name ?? "Unknown"} (${memberName(a.memberId)}, ${range(a.startDate, a.endDate)})`,
+            )
+            .join(", ")}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { format } from "date-fns";
+import { Milestone } from "@/lib/types";
+import { Granularity, getDatePosition, parseDate } from "@/lib/dateUtils";
+import {
+  Tooltip,
+  TooltipTrigger,
+  TooltipContent,
+} from "@/components/ui/tooltip";
+
+interface Props {
+  milestone: Milestone;
+  color: string;
+  columns: Date[];
+  colWidth: number;
+  granularity: Granularity;
+  /** Project name, shown in the tooltip when markers of several projects mix */
+  projectName?: string;
+  /** The project's last milestone, which its assignments should end by */
+  final?: boolean;
+  /** Draw only the diamond, for the timeline header */
+  compact?: boolean;
+}
+
+/** Diamond with a dashed vertical line marking a project milestone */
+export default function MilestoneMarker({
+  milestone,
+  color,
+  columns,
+  colWidth,
+  granularity,
+  projectName,
+  final,
+  compact,
+}: Props) {
+  const x = getDatePosition(
+    parseDate(milestone.date),
+    columns,
+    colWidth,
+    granularity,
+  );
+
+  return (
+    <>
+      {!compact && (
+        <div
+          className="absolute inset-y-0 border-l border-dashed pointer-events-none"
+          style={{ left: x, borderColor: color, opacity: final ? 0.9 : 0.5 }}
+        />
+      )}
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <div
+            className={`absolute z-[5] w-2.5 h-2.5 -ml-[5px] rotate-45 border border-background shadow-sm ${compact ? "bottom-0.5" : "top-0.5"}`}
+            style={{ left: x, backgroundColor: color }}
+          />
+        </TooltipTrigger>
+        <TooltipContent side="top" className="text-xs">
+          <p className="font-medium">
+            {projectName ? `${projectName} · ` : ""}
+            {milestone.name}
+          </p>
+          <p className="text-muted-foreground">
+            {format(parseDate(milestone.date), "EEE, MMM d, yyyy")}
+            {final ? " · final milestone" : ""}
+          </p>
+        </TooltipContent>
+      </Tooltip>
+    </>
+  );
+}
@@ -0,0 +1,64 @@
+import { Presence } from "@shared/api";
+import { Assignment, Member, Project } from "@/lib/types";
+import { peerColor, peerInitials, peerName } from "@/lib/live";
+import {
+  Tooltip,
+  TooltipTrigger,
+  TooltipContent,
+} from "@/components/ui/tooltip";
+
+interface Props {
+  /** Other planners with the schedule open */
+  peers: Presence[];
+  assignments: Assignment[];
+  members: Member[];
+  projects: Project[];
+}
+
+const MAX_SHOWN = 4;
+
+/** Who else has the schedule open, and which booking they have in hand */
+export default function PresenceAvatars({
+  peers,
+  assignments,
+  members,
+  projects,
+}: Props) {
+  if (peers.length === 0) return null;
+  const describe = (peer: Presence) => {
+    const id = peer.dragging ?? peer.editing;
+    const a = id && assignments.find((other) => other.id === id);
+    if (!a) return "Viewing the schedule";
+    const member = members.find((m) => m.id === a.memberId)?.name ?? "Unknown";
+    const project =
+      projects.find((p) => p.id === a.projectId)?.name ?? "Unknown";
+    return `${peer.dragging ? "Moving" : "Editing"} ${member} · ${project}`;
+  };
+  const hidden = peers.length - MAX_SHOWN;
+
+  return (
+    <div className="flex items-center -space-x-1.5">
+      {peers.slice(0, MAX_SHOWN).map((peer) => (
+        <Tooltip key={peer.clientId}>
+          <TooltipTrigger asChild>
+            <div
+              className="w-7 h-7 rounded-full border-2 border-background flex items-center justify-center text-[10px] font-semibold text-white"
+              style={{ backgroundColor: peerColor(peer) }}
+            >
+              {peerInitials(peer)}
+            </div>
+          </TooltipTrigger>
+          <TooltipContent side="bottom" className="text-xs">
+            <p className="font-semibold">{peerName(peer)}</p>
+            <p className="text-muted-foreground">{describe(peer)}</p>
+          </TooltipContent>
+        </Tooltip>
+      ))}
+      {hidden > 0 && (
+        <div className="w-7 h-7 rounded-full border-2 border-background bg-muted flex items-center justify-center text-[10px] font-semibold text-muted-foreground">
+          +{hidden}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { Member, ProjectPriority, ProjectStatus } from "@/lib/types";
+import {
+  PROJECT_PRIORITY_LABELS,
+  PROJECT_STATUS_LABELS,
+  ProjectFilters,
+  isProjectFilterActive,
+} from "@/lib/projects";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Popover,
+  PopoverTrigger,
+  PopoverContent,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+} from "@/components/ui/select";
+import { Filter } from "lucide-react";
+
+interface Props {
+  filters: ProjectFilters;
+  onChange: (filters: ProjectFilters) => void;
+  members: Member[];
+  clients: string[];
+}
+
+const ANY = "any";
+
+function toggle<T>(list: T[] = [], value: T): T[] {
+  return list.includes(value)
+    ? list.filter((v) => v !== value)
+    : [...list, value];
+}
+
+/** Narrow the schedule to projects by status, priority, owner or client */
+export default function ProjectFilterMenu({
+  filters,
+  onChange,
+  members,
+  clients,
+}: Props) {
+  const active = isProjectFilterActive(filters);
+  const count =
+    (filters.statuses?.length ?? 0) +
+    (filters.priorities?.length ?? 0) +
+    (filters.ownerId ? 1 : 0) +
+    (filters.client ? 1 : 0);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant={active ? "secondary" : "outline"}
+          size="sm"
+          className="h-8 text-xs"
+        >
+          <Filter className="h-3.5 w-3.5 mr-1" /> Filter
+          {active && (
+            <Badge variant="default" className="ml-1.5 h-4 px-1 text-[10px]">
+              {count}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-4">
+        <div>
+          <p className="text-xs font-medium text-muted-foreground mb-2">
+            Project status
+          </p>
+          <div className="grid grid-cols-2 gap-1.5">
+            {(Object.keys(PROJECT_STATUS_LABELS) as ProjectStatus[]).map(
+              (s) => (
+                <label
+                  key={s}
+                  className="flex items-center gap-2 text-sm cursor-pointer"
+                >
+                  <Checkbox
+                    checked={filters.statuses?.includes(s) ?? false}
+                    onCheckedChange={() =>
+                      onChange({
+                        ...filters,
+                        statuses: toggle(filters.statuses, s),
+                      })
+                    }
+                  />
+                  {PROJECT_STATUS_LABELS[s]}
+                </label>
+              ),
+            )}
+          </div>
+        </div>
+        <div>
+          <p className="text-xs font-medium text-muted-foreground mb-2">
+            Priority
+          </p>
+          <div className="flex gap-3">
+            {(Object.keys(PROJECT_PRIORITY_LABELS) as ProjectPriority[]).map(
+              (p) => (
+                <label
+                  key={p}
+                  className="flex items-center gap-2 text-sm cursor-pointer"
+                >
+                  <Checkbox
+                    checked={filters.priorities?.includes(p) ?? false}
+                    onCheckedChange={() =>
+                      onChange({
+                        ...filters,
+                        priorities: toggle(filters.priorities, p),
+                      })
+                    }
+                  />
+                  {PROJECT_PRIORITY_LABELS[p]}
+                </label>
+              ),
+            )}
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <p className="text-xs font-medium text-muted-foreground mb-1.5">
+              Owner
+            </p>
+            <Select
+              value={filters.ownerId ?? ANY}
+              onValueChange={(v) =>
+                onChange({ ...filters, ownerId: v === ANY ? undefined : v })
+              }
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Anyone</SelectItem>
+                {members.map((m) => (
+                  <SelectItem key={m.id} value={m.id}>
+                    {m.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <p className="text-xs font-medium text-muted-foreground mb-1.5">
+              Client
+            </p>
+            <Select
+              value={filters.client ?? ANY}
+              onValueChange={(v) =>
+                onChange({ ...filters, client: v === ANY ? undefined : v })
+              }
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any client</SelectItem>
+                {clients.map((c) => (
+                  <SelectItem key={c} value={c}>
+                    {c}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        {active && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-full h-8 text-xs"
+            onClick={() => onChange({})}
+          >
+            Clear filters
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
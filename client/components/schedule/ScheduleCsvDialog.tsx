@@ -1,6 +1,7 @@
 import { useState, useRef, useCallback } from "react";
 import { Team, Member, Project, Assignment } from "@/lib/types";
 import { parseScheduleCsv, CsvScheduleRow, escapeCsv } from "@/lib/csvImport";
+import { BOOKING_STATUS_LABELS, getBookingStatus } from "@/lib/bookings";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -25,6 +26,9 @@ interface Props {
     success: boolean;
     conflicts: Assignment[];
   };
+  batch: <T>(label: string, run: () => T) => T;
+  /** Bulk imports are for admins; everyone else only exports */
+  canImport: boolean;
 }
 
 const TEAM_COLORS = [
@@ -57,6 +61,8 @@ export default function ScheduleCsvDialog({
   addMember,
   addProject,
   addAssignment,
+  batch,
+  canImport,
 }: Props) {
   const [csvDialog, setCsvDialog] = useState(false);
   const [csvPreview, setCsvPreview] = useState<CsvScheduleRow[]>([]);
@@ -107,86 +113,92 @@ export default function ScheduleCsvDialog({
   };
 
   const handleCsvImport = () => {
-    // Track created entities by name for lookups
-    const teamMap = new Map<string, string>(); // lowercase name -> id
-    for (const t of teams) teamMap.set(t.name.toLowerCase(), t.id);
+    // One undo step for the whole import
+    batch("Import CSV", () => {
+      // Track created entities by name for lookups
+      const teamMap = new Map<string, string>(); // lowercase name -> id
+      for (const t of teams) teamMap.set(t.name.toLowerCase(), t.id);
 
-    const memberMap = new Map<string, string>();
-    for (const m of members) memberMap.set(m.name.toLowerCase(), m.id);
+      const memberMap = new Map<string, string>();
+      for (const m of members) memberMap.set(m.name.toLowerCase(), m.id);
 
-    const projectMap = new Map<string, string>();
-    for (const p of projects) projectMap.set(p.name.toLowerCase(), p.id);
+      const projectMap = new Map<string, string>();
+      for (const p of projects) projectMap.set(p.name.toLowerCase(), p.id);
 
-    let teamColorIdx = teams.length;
-    let projectColorIdx = projects.length;
+      let teamColorIdx = teams.length;
+      let projectColorIdx = projects.length;
 
-    for (const row of csvPreview) {
-      // Ensure team exists
-      let teamId = "";
-      if (row.team) {
-        const key = row.team.toLowerCase();
-        if (teamMap.has(key)) {
-          teamId = teamMap.get(key)!;
+      for (const row of csvPreview) {
+        // Ensure team exists
+        let teamId = "";
+        if (row.team) {
+          const key = row.team.toLowerCase();
+          if (teamMap.has(key)) {
+            teamId = teamMap.get(key)!;
+          } else {
+            const newTeam = addTeam({
+              name: row.team,
+              color: TEAM_COLORS[teamColorIdx % TEAM_COLORS.length],
+            });
+            teamId = newTeam.id;
+            teamMap.set(key, teamId);
+            teamColorIdx++;
+          }
+        }
+
+        // Ensure member exists
+        const memberKey = row.member.toLowerCase();
+        let memberId: string;
+        if (memberMap.has(memberKey)) {
+          memberId = memberMap.get(memberKey)!;
         } else {
-          const newTeam = addTeam({
-            name: row.team,
-            color: TEAM_COLORS[teamColorIdx % TEAM_COLORS.length],
+          if (!teamId && teams.length > 0) {
+            teamId = teamMap.values().next().value ?? "";
+          }
+          const newMember = addMember({
+            name: row.member,
+            role: row.role || "Engineer",
+            teamId,
           });
-          teamId = newTeam.id;
-          teamMap.set(key, teamId);
-          teamColorIdx++;
+          memberId = newMember.id;
+          memberMap.set(memberKey, memberId);
         }
-      }
 
-      // Ensure member exists
-      const memberKey = row.member.toLowerCase();
-      let memberId: string;
-      if (memberMap.has(memberKey)) {
-        memberId = memberMap.get(memberKey)!;
-      } else {
-        if (!teamId && teams.length > 0) {
-          teamId = teamMap.values().next().value ?? "";
+        // Ensure project exists
+        const projectKey = row.project.toLowerCase();
+        let projectId: string;
+        if (projectMap.has(projectKey)) {
+          projectId = projectMap.get(projectKey)!;
+        } else {
+          const newProject = addProject({
+            name: row.project,
+            description: "",
+            color: PROJECT_COLORS[projectColorIdx % PROJECT_COLORS.length],
+          });
+          projectId = newProject.id;
+          projectMap.set(projectKey, projectId);
+          projectColorIdx++;
         }
-        const newMember = addMember({
-          name: row.member,
-          role: row.role || "Engineer",
-          teamId,
-        });
-        memberId = newMember.id;
-        memberMap.set(memberKey, memberId);
-      }
 
-      // Ensure project exists
-      const projectKey = row.project.toLowerCase();
-      let projectId: string;
-      if (projectMap.has(projectKey)) {
-        projectId = projectMap.get(projectKey)!;
-      } else {
-        const newProject = addProject({
-          name: row.project,
-          description: "",
-          color: PROJECT_COLORS[projectColorIdx % PROJECT_COLORS.length],
+        // Create assignment (skip if conflict)
+        addAssignment({
+          memberId,
+          projectId,
+          startDate: row.startDate,
+          endDate: row.endDate,
+          allocation: row.allocation,
+          status: row.status,
         });
-        projectId = newProject.id;
-        projectMap.set(projectKey, projectId);
-        projectColorIdx++;
       }
-
-      // Create assignment (skip if conflict)
-      addAssignment({
-        memberId,
-        projectId,
-        startDate: row.startDate,
-        endDate: row.endDate,
-      });
-    }
+    });
 
     setCsvDialog(false);
     setCsvPreview([]);
   };
 
   const handleExportCsv = useCallback(() => {
-    const header = "Member,Team,Role,Project,Start Date,End Date";
+    const header =
+      "Member,Team,Role,Project,Start Date,End Date,Allocation,Status";
     const rows = assignments.map((a) => {
       const member = members.find((m) => m.id === a.memberId);
       const team = teams.find((t) => t.id === member?.teamId);
@@ -198,6 +210,8 @@ export default function ScheduleCsvDialog({
         escapeCsv(project?.name ?? "Unknown"),
         a.startDate,
         a.endDate,
+        a.allocation,
+        BOOKING_STATUS_LABELS[getBookingStatus(a)],
       ].join(",");
     });
     const csv = [header, ...rows].join("\n");
@@ -229,14 +243,16 @@ export default function ScheduleCsvDialog({
       >
         <Download className="h-3.5 w-3.5 mr-1" /> Export
       </Button>
-      <Button
-        variant="outline"
-        size="sm"
-        className="h-8"
-        onClick={() => fileInputRef.current?.click()}
-      >
-        <Upload className="h-3.5 w-3.5 mr-1" /> Import
-      </Button>
+      {canImport && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8"
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <Upload className="h-3.5 w-3.5 mr-1" /> Import
+        </Button>
+      )}
 
       <Dialog open={csvDialog} onOpenChange={setCsvDialog}>
         <DialogContent className="max-w-2xl">
@@ -322,6 +338,12 @@ export default function ScheduleCsvDialog({
                   <th className="text-left px-3 py-2 font-medium text-muted-foreground">
                     End
                   </th>
+                  <th className="text-right px-3 py-2 font-medium text-muted-foreground">
+                    %
+                  </th>
+                  <th className="text-left px-3 py-2 font-medium text-muted-foreground">
+                    Status
+                  </th>
                 </tr>
               </thead>
               <tbody className="divide-y">
@@ -359,6 +381,12 @@ export default function ScheduleCsvDialog({
                       <td className="px-3 py-2 text-muted-foreground font-mono text-xs">
                         {row.endDate}
                       </td>
+                      <td className="px-3 py-2 text-right text-muted-foreground font-mono text-xs">
+                        {row.allocation}
+                      </td>
+                      <td className="px-3 py-2 text-muted-foreground text-xs">
+                        {BOOKING_STATUS_LABELS[row.status ?? "confirmed"]}
+                      </td>
                     </tr>
                   );
                 })}
@@ -368,7 +396,7 @@ export default function ScheduleCsvDialog({
           {csvPreview.length === 0 && (
             <p className="text-sm text-muted-foreground text-center py-4">
               No valid rows found. Expected columns: Member, Team, Role,
-              Project, Start Date, End Date.
+              Project, Start Date, End Date, Allocation and Status (optional).
             </p>
           )}
           <DialogFooter>
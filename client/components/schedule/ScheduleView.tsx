@@ -1,22 +1,91 @@
 import { useState, useRef, useMemo, useCallback, useEffect } from "react";
-import { Team, Member, Project, Assignment } from "@/lib/types";
+import {
+  Team,
+  Member,
+  Project,
+  Assignment,
+  TimeOff,
+  AuditEntry,
+  Baseline,
+  Dependency,
+} from "@/lib/types";
+import { Presence, ShareView } from "@shared/api";
 import {
   Granularity,
   getTimelineColumns,
+  getColumnsBetween,
+  getColumnEnd,
+  stepTimeline,
   isWeekend,
   isTodayInColumn,
   dateToString,
   columnWidthInDays,
   addDays,
   parseDate,
+  getBarPosition,
 } from "@/lib/dateUtils";
+import { format } from "date-fns";
+import { useSearchParams } from "react-router-dom";
 import { assignLanes } from "@/lib/laneUtils";
-import TimelineHeader from "./TimelineHeader";
+import {
+  findOverCapacity,
+  formatCapacity,
+  getMemberTimeOff,
+  hasCustomCapacity,
+  isMemberWorkingDay,
+  isPlaceholder,
+} from "@/lib/capacity";
+import { filterAuditLog } from "@/lib/audit";
+import {
+  isProjectFilterActive,
+  listClients,
+  matchesProjectFilters,
+} from "@/lib/projects";
+import { ViewState, readViewParams, writeViewParams } from "@/lib/viewState";
+import {
+  finalMilestone,
+  findLateAssignments,
+  formatMilestone,
+} from "@/lib/milestones";
+import { earliestStart } from "@/lib/dependencies";
+import { blockingAssignments, isConfirmed } from "@/lib/bookings";
+import {
+  LevelingMove,
+  LevelingProposal,
+  applyMoves,
+  levelResources,
+} from "@/lib/leveling";
+import { PresenceState, peersByAssignment } from "@/lib/live";
+import {
+  LOAD_LEVEL_LABELS,
+  Load,
+  LoadLevel,
+  columnLoads,
+  formatLoad,
+  sumLoads,
+} from "@/lib/utilization";
+import TimelineHeader, { HeaderMilestone } from "./TimelineHeader";
 import GanttBar from "./GanttBar";
+import TimeOffBlock from "./TimeOffBlock";
+import MilestoneMarker from "./MilestoneMarker";
+import DependencyArrows, { DependencyArrow } from "./DependencyArrows";
+import HeatmapCells, { HEAT_CLASSES } from "./HeatmapCells";
 import AssignmentDialog from "./AssignmentDialog";
+import FillRoleDialog from "./FillRoleDialog";
 import ScheduleCsvDialog from "./ScheduleCsvDialog";
+import BaselineMenu from "./BaselineMenu";
+import ProjectFilterMenu from "./ProjectFilterMenu";
+import LevelingPanel from "./LevelingPanel";
+import PresenceAvatars from "./PresenceAvatars";
+import ShareDialog from "./ShareDialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Tooltip,
+  TooltipTrigger,
+  TooltipContent,
+} from "@/components/ui/tooltip";
 import {
   Select,
   SelectTrigger,
@@ -31,13 +100,19 @@ import {
   CalendarDays,
   ZoomIn,
   ZoomOut,
+  AlertTriangle,
+  CircleDashed,
+  UserCheck,
+  Scale,
 } from "lucide-react";
+import { toast } from "sonner";
 
 interface Props {
   teams: Team[];
   members: Member[];
   projects: Project[];
   assignments: Assignment[];
+  timeOff: TimeOff[];
   addTeam: (t: Omit<Team, "id">) => Team;
   addMember: (m: Omit<Member, "id">) => Member;
   addProject: (p: Omit<Project, "id">) => Project;
@@ -48,15 +123,45 @@ interface Props {
   updateAssignment: (
     id: string,
     data: Partial<Assignment>,
+    note?: string,
   ) => { success: boolean; conflicts: Assignment[] };
   deleteAssignment: (id: string) => void;
+  auditLog: AuditEntry[];
+  batch: <T>(label: string, run: () => T) => T;
+  beginBatch: (label: string) => void;
+  endBatch: () => void;
+  baselines: Baseline[];
+  saveBaseline: (name: string) => Baseline;
+  deleteBaseline: (id: string) => void;
+  dependencies: Dependency[];
+  addDependency: (d: Omit<Dependency, "id">) => Dependency | null;
+  deleteDependency: (id: string) => void;
+  fillPlaceholder: (
+    placeholderId: string,
+    memberId: string,
+  ) => { filled: number; failed: Assignment[] };
+  /** Applies the moves as previewed; returns those it had to skip */
+  applyLeveling: (moves: LevelingMove[]) => LevelingMove[];
+  tentativeBlocks: boolean;
+  setTentativeBlocks: (blocks: boolean) => void;
+  /** Other planners connected right now */
+  peers: Presence[];
+  setPresence: (state: PresenceState) => void;
+  /** Browse only: no dragging, creating, editing or leveling (viewers) */
+  readOnly: boolean;
+  /** Offer the CSV import (admins) */
+  canImport: boolean;
+  /** A share link's fixed view: no view controls, nothing remembered */
+  locked?: ShareView;
 }
 
-type GroupBy = "team" | "member" | "project";
+type GroupBy = "team" | "member" | "project" | "utilization";
 
 const LANE_HEIGHT = 28;
 const LANE_GAP = 2;
 const MIN_ROW_HEIGHT = 40;
+// Team header rows: 1rem label, 0.5rem padding above and below, 1px border
+const GROUP_HEADER_HEIGHT = 33;
 
 function getRowHeight(laneCount: number): number {
   return Math.max(
@@ -86,6 +191,7 @@ const GROUP_BY_LABELS: Record<GroupBy, string> = {
   team: "By Team",
   member: "By Member",
   project: "By Project",
+  utilization: "Utilization",
 };
 
 interface SwimlaneRow {
@@ -106,32 +212,107 @@ export default function ScheduleView({
   members,
   projects,
   assignments,
+  timeOff,
   addTeam,
   addMember,
   addProject,
   addAssignment,
   updateAssignment,
   deleteAssignment,
+  auditLog,
+  batch,
+  beginBatch,
+  endBatch,
+  baselines,
+  saveBaseline,
+  deleteBaseline,
+  dependencies,
+  addDependency,
+  deleteDependency,
+  fillPlaceholder,
+  applyLeveling,
+  tentativeBlocks,
+  setTentativeBlocks,
+  peers,
+  setPresence,
+  readOnly,
+  canImport,
+  locked,
 }: Props) {
-  const [offset, setOffset] = useState(0);
-  const [granularity, setGranularity] = useState<Granularity>(() => {
-    const saved = localStorage.getItem("schedule-granularity");
-    return saved && saved in GRANULARITY_LABELS ? (saved as Granularity) : "day";
-  });
-  const [groupBy, setGroupBy] = useState<GroupBy>(() => {
-    const saved = localStorage.getItem("schedule-groupBy");
-    return saved && saved in GROUP_BY_LABELS ? (saved as GroupBy) : "team";
-  });
-  useEffect(() => { localStorage.setItem("schedule-granularity", granularity); }, [granularity]);
-  useEffect(() => { localStorage.setItem("schedule-groupBy", groupBy); }, [groupBy]);
-
-  const [colWidth, setColWidth] = useState(() => ZOOM_LEVELS[granularity].default);
+  // The view lives in the URL, so a copied link opens it as it is and
+  // back/forward step through changes. The last grouping and granularity are
+  // also remembered for visits without them.
+  const [searchParams, setSearchParams] = useSearchParams();
+  const view = useMemo(() => readViewParams(searchParams), [searchParams]);
+  const updateView = useCallback(
+    (change: Partial<ViewState>, replace = false) =>
+      setSearchParams((params) => writeViewParams(params, change), { replace }),
+    [setSearchParams],
+  );
+  const [saved] = useState(() => ({
+    granularity: localStorage.getItem("schedule-granularity"),
+    groupBy: localStorage.getItem("schedule-groupBy"),
+  }));
+  const granularity: Granularity =
+    locked?.granularity ??
+    view.granularity ??
+    (saved.granularity && saved.granularity in GRANULARITY_LABELS
+      ? (saved.granularity as Granularity)
+      : "day");
+  const groupBy: GroupBy =
+    locked?.groupBy ??
+    view.groupBy ??
+    (saved.groupBy && saved.groupBy in GROUP_BY_LABELS
+      ? (saved.groupBy as GroupBy)
+      : "team");
+  const zoomLevels = ZOOM_LEVELS[granularity];
+  const colWidth = Math.min(
+    Math.max(view.zoom ?? zoomLevels.default, zoomLevels.min),
+    zoomLevels.max,
+  );
+  const focusedId = view.focus;
+  useEffect(() => {
+    if (!locked && (!view.groupBy || !view.granularity))
+      updateView({ groupBy, granularity }, true);
+  }, [
+    locked,
+    view.groupBy,
+    view.granularity,
+    groupBy,
+    granularity,
+    updateView,
+  ]);
+  // A shared view must not overwrite the visitor's own preferences
+  useEffect(() => {
+    if (!locked) localStorage.setItem("schedule-granularity", granularity);
+  }, [granularity, locked]);
+  useEffect(() => {
+    if (!locked) localStorage.setItem("schedule-groupBy", groupBy);
+  }, [groupBy, locked]);
+  // Id of the baseline drawn under the bars, empty when the overlay is off
+  const [baselineId, setBaselineId] = useState(() =>
+    locked ? "" : (localStorage.getItem("schedule-baseline") ?? ""),
+  );
+  useEffect(() => {
+    if (!locked) localStorage.setItem("schedule-baseline", baselineId);
+  }, [baselineId, locked]);
+  const shownBaseline = baselines.find((b) => b.id === baselineId);
+
   const [dialogOpen, setDialogOpen] = useState(false);
   const [dialogDefaults, setDialogDefaults] = useState<{
     memberId?: string;
     date?: string;
     endDate?: string;
   }>({});
+  const [editingAssignment, setEditingAssignment] = useState<Assignment | null>(
+    null,
+  );
+  // Open role being staffed through the fill dialog
+  const [fillingRole, setFillingRole] = useState<Member | null>(null);
+  // Leveling proposal under review; its accepted moves are previewed on the
+  // Gantt until applied or discarded
+  const [leveling, setLeveling] = useState<LevelingProposal | null>(null);
+  const [acceptedMoves, setAcceptedMoves] = useState<Set<string>>(new Set());
   const scrollRef = useRef<HTMLDivElement>(null);
   const headerScrollRef = useRef<HTMLDivElement>(null);
   const toolbarRef = useRef<HTMLDivElement>(null);
@@ -193,6 +374,27 @@ export default function ScheduleView({
     [groupBy, updateAssignment],
   );
 
+  const handleEditAssignment = useCallback((assignment: Assignment) => {
+    setEditingAssignment(assignment);
+    setDialogOpen(true);
+  }, []);
+
+  // Other planners on the schedule, and the bars they have in hand
+  const schedulePeers = useMemo(
+    () => peers.filter((p) => p.view === "schedule"),
+    [peers],
+  );
+  const busyBars = useMemo(
+    () => peersByAssignment(schedulePeers),
+    [schedulePeers],
+  );
+  useEffect(() => {
+    setPresence({
+      editing:
+        dialogOpen && editingAssignment ? editingAssignment.id : undefined,
+    });
+  }, [dialogOpen, editingAssignment, setPresence]);
+
   const handleDropTargetChange = useCallback((rowId: string | null) => {
     setDropTargetRowId(rowId);
   }, []);
@@ -212,9 +414,26 @@ export default function ScheduleView({
     return { dataMinDate: min, dataMaxDate: max };
   }, [assignments]);
 
+  // A share link or a navigated view shows fixed dates; otherwise the range
+  // follows today and the data. `offset` comes from links made before dates
+  // were recorded.
+  const rangeStart = locked?.startDate ?? view.from;
+  const rangeEnd = locked?.endDate ?? view.to;
   const columns = useMemo(
-    () => getTimelineColumns(granularity, offset, dataMinDate, dataMaxDate),
-    [granularity, offset, dataMinDate, dataMaxDate],
+    () =>
+      rangeStart
+        ? getColumnsBetween(
+            granularity,
+            parseDate(rangeStart),
+            parseDate(rangeEnd),
+          )
+        : getTimelineColumns(
+            granularity,
+            view.offset ?? 0,
+            dataMinDate,
+            dataMaxDate,
+          ),
+    [granularity, rangeStart, rangeEnd, view.offset, dataMinDate, dataMaxDate],
   );
 
   const getProject = useCallback(
@@ -230,9 +449,122 @@ export default function ScheduleView({
     [teams],
   );
 
+  const previewMoves = useMemo(
+    () =>
+      leveling
+        ? leveling.moves.filter((m) => acceptedMoves.has(m.assignment.id))
+        : [],
+    [leveling, acceptedMoves],
+  );
+  const planned = useMemo(
+    () =>
+      previewMoves.length ? applyMoves(assignments, previewMoves) : assignments,
+    [assignments, previewMoves],
+  );
+  // Bars that overload their member on a day the member works, measured
+  // against each member's own week rather than a full-time one
+  const overCapacity = useMemo(() => {
+    const ids = new Set<string>();
+    for (const member of members) {
+      const booked = blockingAssignments(
+        planned.filter((a) => a.memberId === member.id),
+        tentativeBlocks,
+      );
+      const memberTimeOff = getMemberTimeOff(member, timeOff);
+      for (const a of findOverCapacity(member, booked, memberTimeOff))
+        ids.add(a.id);
+    }
+    return ids;
+  }, [members, planned, timeOff, tentativeBlocks]);
+
+  // Where previewed bars sit now, drawn as their ghost
+  const movedFrom = useMemo(
+    () => new Map(previewMoves.map((m) => [m.assignment.id, m.assignment])),
+    [previewMoves],
+  );
+
+  const handleLevel = () => {
+    const proposal = levelResources(
+      assignments,
+      members,
+      projects,
+      timeOff,
+      tentativeBlocks,
+    );
+    if (proposal.moves.length === 0 && proposal.unresolved.length === 0) {
+      toast("No over-allocation to resolve");
+      return;
+    }
+    setLeveling(proposal);
+    setAcceptedMoves(new Set(proposal.moves.map((m) => m.assignment.id)));
+  };
+
+  const handleApplyLeveling = () => {
+    const failed = applyLeveling(previewMoves);
+    setLeveling(null);
+    if (failed.length > 0) {
+      toast.warning(
+        `${failed.length} move${failed.length !== 1 ? "s" : ""} skipped: the booking changed or no longer fits`,
+      );
+    }
+  };
+
+  // Project filters hide bars of other projects; member rows stay so their
+  // remaining capacity is still visible
+  const projectFilters = view.filters;
+  const clients = useMemo(() => listClients(projects), [projects]);
+  const { shownProjects, shownAssignments } = useMemo(() => {
+    if (!isProjectFilterActive(projectFilters))
+      return { shownProjects: projects, shownAssignments: planned };
+    const matching = projects.filter((p) =>
+      matchesProjectFilters(p, projectFilters),
+    );
+    const ids = new Set(matching.map((p) => p.id));
+    return {
+      shownProjects: matching,
+      shownAssignments: planned.filter((a) => ids.has(a.projectId)),
+    };
+  }, [projects, planned, projectFilters]);
+
+  const headerMilestones = useMemo<HeaderMilestone[]>(
+    () =>
+      shownProjects.flatMap((p) =>
+        (p.milestones ?? []).map((milestone) => ({
+          milestone,
+          color: p.color,
+          projectName: p.name,
+        })),
+      ),
+    [shownProjects],
+  );
+
+  // Assignments running past their project's final milestone, by project
+  const lateByProject = useMemo(() => {
+    const map = new Map<string, Assignment[]>();
+    for (const p of shownProjects) {
+      const late = findLateAssignments(p, shownAssignments);
+      if (late.length > 0) map.set(p.id, late);
+    }
+    return map;
+  }, [shownProjects, shownAssignments]);
+  const lateCount = [...lateByProject.values()].reduce(
+    (sum, late) => sum + late.length,
+    0,
+  );
+
+  const demandCount = shownAssignments.filter((a) =>
+    isPlaceholder(getMember(a.memberId)),
+  ).length;
+  const unconfirmedCount = shownAssignments.filter(
+    (a) => !isConfirmed(a),
+  ).length;
+
+  // The utilization heatmap keeps the team grouping but shows load per column
+  const heatmap = groupBy === "utilization";
+
   // Build swimlane data based on groupBy mode
   const { groups, sidebarLabel } = useMemo(() => {
-    if (groupBy === "team") {
+    if (groupBy === "team" || groupBy === "utilization") {
       const teamIds = new Set(teams.map((t) => t.id));
       const g: SwimlaneGroup[] = teams
         .map((team) => {
@@ -244,7 +576,7 @@ export default function ScheduleView({
             count: teamMembers.length,
             rows: teamMembers.map((m) => ({
               id: m.id,
-              assignments: assignments.filter((a) => a.memberId === m.id),
+              assignments: shownAssignments.filter((a) => a.memberId === m.id),
             })),
           };
         })
@@ -262,7 +594,7 @@ export default function ScheduleView({
           count: unassigned.length,
           rows: unassigned.map((m) => ({
             id: m.id,
-            assignments: assignments.filter((a) => a.memberId === m.id),
+            assignments: shownAssignments.filter((a) => a.memberId === m.id),
           })),
         });
       }
@@ -273,7 +605,7 @@ export default function ScheduleView({
     if (groupBy === "member") {
       const rows: SwimlaneRow[] = members.map((m) => ({
         id: m.id,
-        assignments: assignments.filter((a) => a.memberId === m.id),
+        assignments: shownAssignments.filter((a) => a.memberId === m.id),
       }));
       const g: SwimlaneGroup[] = [
         {
@@ -288,9 +620,9 @@ export default function ScheduleView({
     }
 
     // groupBy === "project"
-    const rows: SwimlaneRow[] = projects.map((p) => ({
+    const rows: SwimlaneRow[] = shownProjects.map((p) => ({
       id: p.id,
-      assignments: assignments.filter((a) => a.projectId === p.id),
+      assignments: shownAssignments.filter((a) => a.projectId === p.id),
     }));
     const g: SwimlaneGroup[] = [
       {
@@ -302,7 +634,7 @@ export default function ScheduleView({
       },
     ];
     return { groups: g, sidebarLabel: "Project" };
-  }, [groupBy, teams, members, projects, assignments]);
+  }, [groupBy, teams, members, shownProjects, shownAssignments]);
 
   // Pre-compute lane info for every row
   const rowLaneData = useMemo(() => {
@@ -312,19 +644,120 @@ export default function ScheduleView({
     >();
     for (const group of groups) {
       for (const row of group.rows) {
-        map.set(row.id, assignLanes(row.assignments));
+        map.set(
+          row.id,
+          heatmap
+            ? { lanes: new Map(), laneCount: 1 }
+            : assignLanes(row.assignments),
+        );
       }
     }
     return map;
-  }, [groups]);
+  }, [groups, heatmap]);
+
+  // Load per column for the heatmap, with team totals for the group headers
+  const heat = useMemo(() => {
+    const rows = new Map<string, Load[]>();
+    const totals = new Map<string, Load[]>();
+    if (!heatmap) return { rows, totals };
+    for (const group of groups) {
+      const teamRows: Load[][] = [];
+      for (const row of group.rows) {
+        const member = getMember(row.id);
+        if (!member) continue;
+        const loads = columnLoads(
+          member,
+          blockingAssignments(row.assignments, tentativeBlocks),
+          getMemberTimeOff(member, timeOff),
+          columns,
+          granularity,
+        );
+        rows.set(row.id, loads);
+        // Open roles add demand to the team but no one to do it
+        teamRows.push(
+          isPlaceholder(member)
+            ? loads.map((l) => ({ capacity: 0, booked: l.booked }))
+            : loads,
+        );
+      }
+      totals.set(group.id, sumLoads(teamRows));
+    }
+    return { rows, totals };
+  }, [
+    heatmap,
+    groups,
+    getMember,
+    tentativeBlocks,
+    timeOff,
+    columns,
+    granularity,
+  ]);
+
+  // Connector arrows, from where each bar sits in the stacked rows
+  const { dependencyArrows, bodyHeight } = useMemo(() => {
+    const bars = new Map<string, { left: number; right: number; y: number }>();
+    const barCenter = (shownBaseline ? LANE_HEIGHT - 5 : LANE_HEIGHT) / 2;
+    let top = 0;
+    for (const group of groups) {
+      if (group.label) top += GROUP_HEADER_HEIGHT;
+      for (const row of group.rows) {
+        const laneData = rowLaneData.get(row.id);
+        for (const a of row.assignments) {
+          const { left, width } = getBarPosition(
+            parseDate(a.startDate),
+            parseDate(a.endDate),
+            columns,
+            colWidth,
+            granularity,
+          );
+          const lane = laneData?.lanes.get(a.id) ?? 0;
+          bars.set(a.id, {
+            left,
+            right: left + width,
+            y: top + lane * (LANE_HEIGHT + LANE_GAP) + LANE_GAP + barCenter,
+          });
+        }
+        top += getRowHeight(laneData?.laneCount ?? 1);
+      }
+    }
+    const byId = new Map(assignments.map((a) => [a.id, a]));
+    const arrows: DependencyArrow[] = [];
+    for (const d of dependencies) {
+      const from = bars.get(d.predecessorId);
+      const to = bars.get(d.successorId);
+      if (!from || !to) continue;
+      arrows.push({
+        id: d.id,
+        type: d.type,
+        from: {
+          x: d.type === "start_to_start" ? from.left : from.right,
+          y: from.y,
+        },
+        to: { x: to.left, y: to.y },
+        violated:
+          byId.get(d.successorId).startDate <
+          earliestStart(d, byId.get(d.predecessorId)),
+      });
+    }
+    return { dependencyArrows: arrows, bodyHeight: top };
+  }, [
+    groups,
+    rowLaneData,
+    assignments,
+    dependencies,
+    columns,
+    colWidth,
+    granularity,
+    shownBaseline,
+  ]);
 
   const handleCellMouseDown = useCallback(
     (rowId: string, colIdx: number, e: React.MouseEvent) => {
-      if (e.button !== 0) return; // only left click
+      if (e.button !== 0 || readOnly) return; // only left click, by editors
       isDraggingRef.current = false;
       setDragSelect({ rowId, startIdx: colIdx, endIdx: colIdx });
     },
-    [],
+    [readOnly],
   );
 
   const handleCellMouseEnter = useCallback((rowId: string, colIdx: number) => {
@@ -346,6 +779,7 @@ export default function ScheduleView({
       columnWidthInDays(granularity, columns[maxIdx]) - 1,
     );
 
+    setEditingAssignment(null);
     if (groupBy === "project") {
       setDialogDefaults({
         date: dateToString(startDay),
@@ -364,25 +798,60 @@ export default function ScheduleView({
   }, [dragSelect, columns, granularity, groupBy]);
 
   const handleGranularityChange = (value: string) => {
-    const g = value as Granularity;
-    setGranularity(g);
-    setColWidth(ZOOM_LEVELS[g].default);
-    setOffset(0);
+    updateView({
+      granularity: value as Granularity,
+      zoom: undefined,
+      from: undefined,
+      to: undefined,
+      offset: undefined,
+    });
   };
 
+  // Zooming replaces the history entry rather than adding one per click
   const zoomIn = () => {
-    setColWidth((w) =>
-      Math.min(w + ZOOM_LEVELS[granularity].step, ZOOM_LEVELS[granularity].max),
+    updateView(
+      { zoom: Math.min(colWidth + zoomLevels.step, zoomLevels.max) },
+      true,
     );
   };
   const zoomOut = () => {
-    setColWidth((w) =>
-      Math.max(w - ZOOM_LEVELS[granularity].step, ZOOM_LEVELS[granularity].min),
+    updateView(
+      { zoom: Math.max(colWidth - zoomLevels.step, zoomLevels.min) },
+      true,
     );
   };
 
+  // Clicking a bar highlights it in the URL; Escape lets go
+  const handleFocus = useCallback(
+    (id: string) => {
+      if (id !== focusedId) updateView({ focus: id });
+    },
+    [focusedId, updateView],
+  );
+  useEffect(() => {
+    if (!focusedId || dialogOpen) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") updateView({ focus: undefined });
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [focusedId, dialogOpen, updateView]);
+
   const totalWidth = columns.length * colWidth;
   const navStep = granularity === "day" ? 2 : 1;
+  // Back widens the range earlier, forward later, as absolute dates so a
+  // link opened on another day still shows the same weeks
+  const navigate = (steps: number) => {
+    const first = columns[0];
+    const end = getColumnEnd(columns[columns.length - 1], granularity);
+    updateView({
+      from: dateToString(
+        steps < 0 ? stepTimeline(granularity, first, steps) : first,
+      ),
+      to: dateToString(steps > 0 ? stepTimeline(granularity, end, steps) : end),
+      offset: undefined,
+    });
+  };
 
   const renderSidebarRow = (row: SwimlaneRow) => {
     const laneData = rowLaneData.get(row.id);
@@ -391,6 +860,7 @@ export default function ScheduleView({
     if (groupBy === "project") {
       const proj = getProject(row.id);
       if (!proj) return null;
+      const late = lateByProject.get(proj.id);
       return (
         <div
           className="flex items-center gap-2 px-3 border-b hover:bg-muted/20 transition-colors"
@@ -406,34 +876,71 @@ export default function ScheduleView({
               {proj.description}
             </p>
           </div>
+          {late && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <AlertTriangle className="h-3.5 w-3.5 ml-auto shrink-0 text-amber-500" />
+              </TooltipTrigger>
+              <TooltipContent side="right" className="text-xs max-w-60">
+                {late.length} assignment{late.length !== 1 ? "s" : ""} end
+                {late.length === 1 ? "s" : ""} after the final milestone,{" "}
+                {formatMilestone(finalMilestone(proj))}:{" "}
+                {late
+                  .map((a) => getMember(a.memberId)?.name ?? "Unknown")
+                  .join(", ")}
+              </TooltipContent>
+            </Tooltip>
+          )}
         </div>
       );
     }
     const member = getMember(row.id);
     if (!member) return null;
     const team = getTeam(member.teamId);
+    const placeholder = isPlaceholder(member);
     return (
       <div
         className="flex items-center gap-2 px-3 border-b hover:bg-muted/20 transition-colors"
         style={{ height: rowHeight }}
       >
-        <div
-          className="w-6 h-6 rounded-full flex items-center justify-center text-[10px] font-semibold text-white shrink-0"
-          style={{ backgroundColor: team?.color ?? "#94a3b8" }}
-        >
-          {member.name
-            .split(" ")
-            .map((n) => n[0])
-            .join("")
-            .slice(0, 2)}
-        </div>
+        {placeholder ? (
+          <div
+            className="w-6 h-6 rounded-full flex items-center justify-center border-2 border-dashed shrink-0"
+            style={{ borderColor: team?.color ?? "#94a3b8" }}
+          >
+            <CircleDashed className="h-3 w-3 text-muted-foreground" />
+          </div>
+        ) : (
+          <div
+            className="w-6 h-6 rounded-full flex items-center justify-center text-[10px] font-semibold text-white shrink-0"
+            style={{ backgroundColor: team?.color ?? "#94a3b8" }}
+          >
+            {member.name
+              .split(" ")
+              .map((n) => n[0])
+              .join("")
+              .slice(0, 2)}
+          </div>
+        )}
         <div className="min-w-0">
           <p className="text-xs font-medium truncate">{member.name}</p>
           <p className="text-[10px] text-muted-foreground truncate">
+            {placeholder ? "Open role · " : ""}
             {groupBy === "member" && team ? `${team.name} · ` : ""}
             {member.role}
+            {hasCustomCapacity(member) ? ` · ${formatCapacity(member)}` : ""}
           </p>
         </div>
+        {placeholder && !readOnly && row.assignments.length > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="ml-auto h-6 px-1.5 text-[10px] shrink-0"
+            onClick={() => setFillingRole(member)}
+          >
+            <UserCheck className="h-3 w-3 mr-1" /> Fill
+          </Button>
+        )}
       </div>
     );
   };
@@ -467,38 +974,49 @@ export default function ScheduleView({
         <div>
           <h2 className="text-xl font-semibold text-foreground">Schedule</h2>
           <p className="text-sm text-muted-foreground mt-0.5">
-            Drag to move or resize. Right-click to remove.
+            {locked
+              ? `${GROUP_BY_LABELS[groupBy]}, ${format(parseDate(locked.startDate), "MMM d, yyyy")} – ${format(parseDate(locked.endDate), "MMM d, yyyy")}`
+              : "Drag to move or resize. Double-click to edit. Right-click to remove."}
           </p>
         </div>
         <div className="flex items-center gap-2 flex-wrap">
-          <Select
-            value={groupBy}
-            onValueChange={(v) => setGroupBy(v as GroupBy)}
-          >
-            <SelectTrigger className="h-8 w-[120px] text-xs">
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              {(Object.keys(GROUP_BY_LABELS) as GroupBy[]).map((g) => (
-                <SelectItem key={g} value={g}>
-                  {GROUP_BY_LABELS[g]}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-
-          <Select value={granularity} onValueChange={handleGranularityChange}>
-            <SelectTrigger className="h-8 w-[110px] text-xs">
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              {(Object.keys(GRANULARITY_LABELS) as Granularity[]).map((g) => (
-                <SelectItem key={g} value={g}>
-                  {GRANULARITY_LABELS[g]}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
+          {!locked && (
+            <>
+              <Select
+                value={groupBy}
+                onValueChange={(v) => updateView({ groupBy: v as GroupBy })}
+              >
+                <SelectTrigger className="h-8 w-[120px] text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(GROUP_BY_LABELS) as GroupBy[]).map((g) => (
+                    <SelectItem key={g} value={g}>
+                      {GROUP_BY_LABELS[g]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select
+                value={granularity}
+                onValueChange={handleGranularityChange}
+              >
+                <SelectTrigger className="h-8 w-[110px] text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(GRANULARITY_LABELS) as Granularity[]).map(
+                    (g) => (
+                      <SelectItem key={g} value={g}>
+                        {GRANULARITY_LABELS[g]}
+                      </SelectItem>
+                    ),
+                  )}
+                </SelectContent>
+              </Select>
+            </>
+          )}
 
           <div className="flex items-center border rounded-md">
             <Button
@@ -522,57 +1040,139 @@ export default function ScheduleView({
             </Button>
           </div>
 
-          <div className="flex items-center gap-1">
-            <Button
-              variant="outline"
-              size="icon"
-              className="h-8 w-8"
-              onClick={() => setOffset((o) => o - navStep)}
-            >
-              <ChevronLeft className="h-4 w-4" />
-            </Button>
+          {!locked && (
+            <div className="flex items-center gap-1">
+              <Button
+                variant="outline"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => navigate(-navStep)}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 text-xs"
+                onClick={() =>
+                  updateView({
+                    from: undefined,
+                    to: undefined,
+                    offset: undefined,
+                  })
+                }
+              >
+                Today
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => navigate(navStep)}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+
+          <PresenceAvatars
+            peers={schedulePeers}
+            assignments={assignments}
+            members={members}
+            projects={projects}
+          />
+
+          {!locked && (
+            <ProjectFilterMenu
+              filters={projectFilters}
+              onChange={(filters) => updateView({ filters })}
+              members={members}
+              clients={clients}
+            />
+          )}
+
+          {(!readOnly || baselines.length > 0) && (
+            <BaselineMenu
+              baselines={baselines}
+              shown={shownBaseline}
+              onShow={(id) => setBaselineId(id ?? "")}
+              onSave={saveBaseline}
+              onDelete={deleteBaseline}
+              readOnly={readOnly}
+            />
+          )}
+
+          {!readOnly && (
             <Button
               variant="outline"
               size="sm"
               className="h-8 text-xs"
-              onClick={() => setOffset(0)}
+              onClick={handleLevel}
+              disabled={!!leveling}
             >
-              Today
+              <Scale className="h-3.5 w-3.5 mr-1" /> Level resources
             </Button>
+          )}
+
+          {!readOnly && (
+            <ShareDialog
+              teams={teams}
+              projects={projects}
+              view={{
+                groupBy,
+                granularity,
+                startDate: dateToString(columns[0]),
+                endDate: dateToString(
+                  getColumnEnd(columns[columns.length - 1], granularity),
+                ),
+              }}
+              viewLabel={`${GROUP_BY_LABELS[groupBy].toLowerCase()}, ${GRANULARITY_LABELS[granularity].toLowerCase()} columns`}
+            />
+          )}
+
+          {!locked && (
+            <ScheduleCsvDialog
+              teams={teams}
+              members={members}
+              projects={projects}
+              assignments={assignments}
+              addTeam={addTeam}
+              addMember={addMember}
+              addProject={addProject}
+              addAssignment={addAssignment}
+              batch={batch}
+              canImport={canImport}
+            />
+          )}
+
+          {!readOnly && (
             <Button
-              variant="outline"
-              size="icon"
-              className="h-8 w-8"
-              onClick={() => setOffset((o) => o + navStep)}
+              size="sm"
+              className="h-8"
+              onClick={() => {
+                setEditingAssignment(null);
+                setDialogDefaults({});
+                setDialogOpen(true);
+              }}
             >
-              <ChevronRight className="h-4 w-4" />
+              <Plus className="h-4 w-4 mr-1" /> Assign
             </Button>
-          </div>
-
-          <ScheduleCsvDialog
-            teams={teams}
-            members={members}
-            projects={projects}
-            assignments={assignments}
-            addTeam={addTeam}
-            addMember={addMember}
-            addProject={addProject}
-            addAssignment={addAssignment}
-          />
-
-          <Button
-            size="sm"
-            className="h-8"
-            onClick={() => {
-              setDialogDefaults({});
-              setDialogOpen(true);
-            }}
-          >
-            <Plus className="h-4 w-4 mr-1" /> Assign
-          </Button>
+          )}
         </div>
       </div>
 
+      {leveling && (
+        <LevelingPanel
+          proposal={leveling}
+          selected={acceptedMoves}
+          onSelectedChange={setAcceptedMoves}
+          members={members}
+          projects={projects}
+          onApply={handleApplyLeveling}
+          onDiscard={() => setLeveling(null)}
+        />
+      )}
+
       {/* Gantt Chart */}
       <div className="border rounded-lg bg-card">
         {/* Sticky date header */}
@@ -596,6 +1196,7 @@ export default function ScheduleView({
                   columns={columns}
                   colWidth={colWidth}
                   granularity={granularity}
+                  milestones={headerMilestones}
                 />
               </div>
             </div>
@@ -638,20 +1239,45 @@ export default function ScheduleView({
             className="overflow-x-auto flex-1"
             onScroll={handleBodyScroll}
           >
-            <div style={{ width: totalWidth, minWidth: totalWidth }}>
+            {/* Read-only while a leveling proposal is previewed */}
+            <div
+              className={`relative ${leveling ? "pointer-events-none" : ""}`}
+              style={{ width: totalWidth, minWidth: totalWidth }}
+            >
               {groups.map((group) => (
                 <div key={group.id}>
                   {group.label && (
                     <div
-                      className="bg-muted/40 border-b"
-                      style={{ height: "calc(1rem + 1px + (0.5rem * 2))" }}
-                    />
+                      className="relative bg-muted/40 border-b"
+                      style={{ height: GROUP_HEADER_HEIGHT }}
+                    >
+                      {heatmap && (
+                        <HeatmapCells
+                          loads={heat.totals.get(group.id) ?? []}
+                          colWidth={colWidth}
+                          rollup
+                        />
+                      )}
+                    </div>
                   )}
                   {group.rows.map((row) => {
                     const laneData = rowLaneData.get(row.id);
                     const laneMap = laneData?.lanes ?? new Map();
                     const laneCount = laneData?.laneCount ?? 1;
                     const rowHeight = getRowHeight(laneCount);
+                    // Member rows shade the member's own days off; project
+                    // rows fall back to weekends
+                    const rowMember =
+                      groupBy === "project" ? null : getMember(row.id);
+                    const rowTimeOff = rowMember
+                      ? getMemberTimeOff(rowMember, timeOff)
+                      : [];
+                    const rowProject =
+                      groupBy === "project" ? getProject(row.id) : null;
+                    const rowFinal = rowProject
+                      ? finalMilestone(rowProject)
+                      : undefined;
+                    const rowLoads = heat.rows.get(row.id);
 
                     return (
                       <div
@@ -664,7 +1290,10 @@ export default function ScheduleView({
                         <div className="absolute inset-0 flex">
                           {columns.map((col, i) => {
                             const weekend =
-                              granularity === "day" && isWeekend(col);
+                              granularity === "day" &&
+                              (rowMember
+                                ? !isMemberWorkingDay(rowMember, col)
+                                : isWeekend(col));
                             const today = isTodayInColumn(col, granularity);
                             const isSelected =
                               dragSelect &&
@@ -682,12 +1311,15 @@ export default function ScheduleView({
                             return (
                               <div
                                 key={i}
-                                className={`border-r last:border-r-0 cursor-crosshair select-none transition-colors
+                                className={`border-r last:border-r-0 ${readOnly ? "" : "cursor-crosshair"} select-none transition-colors
                                   ${weekend ? "bg-muted/30" : ""}
                                   ${today ? "bg-primary/10" : ""}
                                   ${isSelected ? "!bg-primary/20" : "hover:bg-primary/5"}
                                 `}
                                 style={{ width: colWidth, minWidth: colWidth }}
+                                title={
+                                  rowLoads ? formatLoad(rowLoads[i]) : undefined
+                                }
                                 onMouseDown={(e) =>
                                   handleCellMouseDown(row.id, i, e)
                                 }
@@ -699,33 +1331,95 @@ export default function ScheduleView({
                             );
                           })}
                         </div>
-                        {/* Assignment bars */}
-                        {row.assignments.map((assignment) => {
-                          const barInfo = getBarInfo(assignment);
-                          const lane = laneMap.get(assignment.id) ?? 0;
-                          return (
-                            <GanttBar
-                              key={assignment.id}
-                              assignment={assignment}
-                              barColor={barInfo.color}
-                              barLabel={barInfo.label}
+                        {rowLoads && (
+                          <HeatmapCells loads={rowLoads} colWidth={colWidth} />
+                        )}
+                        {/* Leave and holidays */}
+                        {!heatmap &&
+                          rowTimeOff.map((entry) => (
+                            <TimeOffBlock
+                              key={entry.id}
+                              entry={entry}
                               columns={columns}
                               colWidth={colWidth}
                               granularity={granularity}
-                              lane={lane}
-                              laneCount={laneCount}
-                              onUpdate={updateAssignment}
-                              onDelete={deleteAssignment}
-                              onReassign={handleReassign}
-                              onDropTargetChange={handleDropTargetChange}
                             />
-                          );
-                        })}
+                          ))}
+                        {/* Project milestones */}
+                        {rowProject?.milestones?.map((milestone) => (
+                          <MilestoneMarker
+                            key={milestone.id}
+                            milestone={milestone}
+                            color={rowProject.color}
+                            columns={columns}
+                            colWidth={colWidth}
+                            granularity={granularity}
+                            final={milestone.id === rowFinal?.id}
+                          />
+                        ))}
+                        {/* Assignment bars */}
+                        {!heatmap &&
+                          row.assignments.map((assignment) => {
+                            const barInfo = getBarInfo(assignment);
+                            const barMember = getMember(assignment.memberId);
+                            const lane = laneMap.get(assignment.id) ?? 0;
+                            return (
+                              <GanttBar
+                                key={assignment.id}
+                                assignment={assignment}
+                                barColor={barInfo.color}
+                                barLabel={barInfo.label}
+                                member={barMember}
+                                timeOff={getMemberTimeOff(barMember, timeOff)}
+                                columns={columns}
+                                colWidth={colWidth}
+                                granularity={granularity}
+                                lane={lane}
+                                laneCount={laneCount}
+                                onUpdate={updateAssignment}
+                                onDelete={deleteAssignment}
+                                onEdit={handleEditAssignment}
+                                onReassign={handleReassign}
+                                onDropTargetChange={handleDropTargetChange}
+                                onDragStart={(label) => {
+                                  beginBatch(label);
+                                  setPresence({ dragging: assignment.id });
+                                }}
+                                onDragEnd={() => {
+                                  endBatch();
+                                  setPresence({ dragging: undefined });
+                                }}
+                                demand={isPlaceholder(barMember)}
+                                overCapacity={overCapacity.has(assignment.id)}
+                                peer={busyBars.get(assignment.id)}
+                                focused={assignment.id === focusedId}
+                                onFocus={handleFocus}
+                                readOnly={readOnly}
+                                baseline={
+                                  leveling
+                                    ? movedFrom.get(assignment.id)
+                                    : shownBaseline
+                                      ? (shownBaseline.assignments[
+                                          assignment.id
+                                        ] ?? null)
+                                      : undefined
+                                }
+                                ghostLabel={leveling ? "Now" : undefined}
+                              />
+                            );
+                          })}
                       </div>
                     );
                   })}
                 </div>
               ))}
+              {!heatmap && (
+                <DependencyArrows
+                  arrows={dependencyArrows}
+                  width={totalWidth}
+                  height={bodyHeight}
+                />
+              )}
             </div>
           </div>
         </div>
@@ -733,13 +1427,88 @@ export default function ScheduleView({
 
       {/* Legend */}
       <div className="flex items-center gap-4 text-xs text-muted-foreground flex-wrap">
+        {heatmap &&
+          (Object.keys(LOAD_LEVEL_LABELS) as LoadLevel[]).map((level) => (
+            <span key={level} className="flex items-center gap-1.5">
+              <span className={`w-3 h-3 rounded-sm ${HEAT_CLASSES[level]}`} />{" "}
+              {LOAD_LEVEL_LABELS[level]}
+            </span>
+          ))}
         <span className="flex items-center gap-1.5">
           <span className="w-3 h-3 rounded-sm bg-primary/10 border border-primary/30" />{" "}
           Today
         </span>
         {granularity === "day" && (
           <span className="flex items-center gap-1.5">
-            <span className="w-3 h-3 rounded-sm bg-muted/30 border" /> Weekend
+            <span className="w-3 h-3 rounded-sm bg-muted/30 border" />{" "}
+            Non-working day
+          </span>
+        )}
+        <span className="flex items-center gap-1.5">
+          <span className="w-3 h-3 rounded-sm time-off-hatch border" /> Time off
+          / holiday
+        </span>
+        {shownBaseline && !leveling && (
+          <span className="flex items-center gap-1.5">
+            <span className="w-3 h-1 rounded-sm border border-dashed border-muted-foreground bg-muted-foreground/30" />{" "}
+            Baseline: {shownBaseline.name}
+          </span>
+        )}
+        {leveling && (
+          <span className="flex items-center gap-1.5">
+            <span className="w-3 h-1 rounded-sm border border-dashed border-muted-foreground bg-muted-foreground/30" />{" "}
+            Current dates of a proposed move
+          </span>
+        )}
+        {dependencyArrows.length > 0 && (
+          <span className="flex items-center gap-1.5">
+            <span className="w-3 h-px bg-muted-foreground" /> Dependency
+            {dependencyArrows.some((a) => a.violated) && (
+              <span className="text-destructive">
+                (dashed red: starts before its predecessor allows)
+              </span>
+            )}
+          </span>
+        )}
+        {demandCount > 0 && (
+          <span className="flex items-center gap-1.5">
+            <span className="w-3 h-3 rounded-sm border border-dashed border-muted-foreground bg-muted-foreground/15" />{" "}
+            Open role ({demandCount} unstaffed booking
+            {demandCount !== 1 ? "s" : ""})
+          </span>
+        )}
+        <span className="flex items-center gap-1.5">
+          <span
+            className="w-3 h-3 rounded-sm border border-muted-foreground/60"
+            style={{
+              backgroundImage:
+                "repeating-linear-gradient(135deg, rgb(148 163 184 / 0.5) 0 2px, transparent 2px 4px)",
+            }}
+          />{" "}
+          Tentative
+          <span className="w-3 h-3 rounded-sm border border-muted-foreground/60 bg-muted-foreground/10 ml-1" />{" "}
+          Requested
+          {unconfirmedCount > 0 && ` (${unconfirmedCount} unconfirmed)`}
+        </span>
+        {!locked && (
+          <label className="flex items-center gap-1.5 cursor-pointer">
+            <Switch
+              className="scale-75"
+              checked={tentativeBlocks}
+              onCheckedChange={setTentativeBlocks}
+            />
+            Tentative bookings block others
+          </label>
+        )}
+        {headerMilestones.length > 0 && (
+          <span className="flex items-center gap-1.5">
+            <span className="w-2 h-2 rotate-45 bg-muted-foreground" /> Milestone
+          </span>
+        )}
+        {lateCount > 0 && (
+          <span className="flex items-center gap-1.5 text-amber-600">
+            <AlertTriangle className="h-3 w-3" /> {lateCount} assignment
+            {lateCount !== 1 ? "s" : ""} past the final milestone
           </span>
         )}
         <span className="flex items-center gap-1.5">
@@ -762,9 +1531,34 @@ export default function ScheduleView({
         members={members}
         projects={projects}
         teams={teams}
+        timeOff={timeOff}
         defaults={dialogDefaults}
+        assignment={editingAssignment}
+        history={
+          editingAssignment
+            ? filterAuditLog(auditLog, { entityId: editingAssignment.id })
+            : []
+        }
         onSave={addAssignment}
+        onUpdate={updateAssignment}
         onCreateProject={addProject}
+        assignments={assignments}
+        dependencies={dependencies}
+        onAddDependency={addDependency}
+        onDeleteDependency={deleteDependency}
+        tentativeBlocks={tentativeBlocks}
+      />
+
+      <FillRoleDialog
+        open={!!fillingRole}
+        onOpenChange={(open) => !open && setFillingRole(null)}
+        role={fillingRole}
+        teams={teams}
+        members={members}
+        projects={projects}
+        assignments={assignments}
+        tentativeBlocks={tentativeBlocks}
+        onFill={fillPlaceholder}
       />
     </div>
   );
@@ -0,0 +1,330 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { ShareLink, ShareView, isShareExpired } from "@shared/api";
+import { Project, Team } from "@/lib/types";
+import { ApiError, SHARES_QUERY_KEY, sharesApi } from "@/lib/api";
+import {
+  SHARE_EXPIRY_OPTIONS,
+  describeExpiry,
+  describeScope,
+  shareExpiry,
+  shareUrl,
+} from "@/lib/shares";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Copy, Link2, Share2, Trash2 } from "lucide-react";
+
+interface Props {
+  teams: Team[];
+  projects: Project[];
+  /** The schedule as it is shown now; new links start from it */
+  view: ShareView;
+  /** e.g. "By Team, week columns" */
+  viewLabel: string;
+}
+
+function copy(url: string) {
+  navigator.clipboard
+    .writeText(url)
+    .then(() => toast("Link copied"))
+    .catch(() => toast.error("Copy the link from the address field instead"));
+}
+
+/** Create, copy and revoke read-only links to part of the schedule (planners) */
+export default function ShareDialog({
+  teams,
+  projects,
+  view,
+  viewLabel,
+}: Props) {
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const shares = useQuery({
+    queryKey: SHARES_QUERY_KEY,
+    queryFn: sharesApi.list,
+    enabled: open,
+  });
+  const [name, setName] = useState("");
+  const [startDate, setStartDate] = useState(view.startDate);
+  const [endDate, setEndDate] = useState(view.endDate);
+  // Empty means all of them
+  const [projectIds, setProjectIds] = useState<string[]>([]);
+  const [teamIds, setTeamIds] = useState<string[]>([]);
+  const [expiry, setExpiry] = useState("30");
+  const [created, setCreated] = useState<ShareLink | null>(null);
+
+  const openDialog = () => {
+    setName("");
+    setStartDate(view.startDate);
+    setEndDate(view.endDate);
+    setProjectIds([]);
+    setTeamIds([]);
+    setCreated(null);
+    setOpen(true);
+  };
+
+  const run = async <T,>(action: () => Promise<T>, done: string) => {
+    try {
+      const result = await action();
+      toast(done);
+      return result;
+    } catch (err) {
+      toast.error(
+        err instanceof ApiError
+          ? [err.message, ...(err.body?.issues ?? [])].join(". ")
+          : "The server can't be reached",
+      );
+      return null;
+    } finally {
+      queryClient.invalidateQueries({ queryKey: SHARES_QUERY_KEY });
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const days = expiry === "never" ? null : Number(expiry);
+    const link = await run(
+      () =>
+        sharesApi.create({
+          name: name.trim(),
+          view: {
+            groupBy: view.groupBy,
+            granularity: view.granularity,
+            startDate,
+            endDate,
+            ...(projectIds.length ? { projectIds } : {}),
+            ...(teamIds.length ? { teamIds } : {}),
+          },
+          expiresAt: shareExpiry(days, new Date()),
+        }),
+      `Created "${name.trim()}"`,
+    );
+    if (link) setCreated(link);
+  };
+
+  const toggle = (ids: string[], id: string) =>
+    ids.includes(id) ? ids.filter((other) => other !== id) : [...ids, id];
+  const now = new Date();
+  const links = [...(shares.data ?? [])].sort((a, b) =>
+    b.createdAt.localeCompare(a.createdAt),
+  );
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-8 text-xs"
+        onClick={openDialog}
+      >
+        <Share2 className="h-3.5 w-3.5 mr-1" /> Share
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>Share a read-only link</DialogTitle>
+            <DialogDescription>
+              Anyone with the link sees this part of the schedule, {viewLabel},
+              without signing in. Rates and budgets are never shown.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleCreate} className="space-y-3">
+            <div>
+              <Label htmlFor="share-name" className="text-xs">
+                Name
+              </Label>
+              <Input
+                id="share-name"
+                className="h-8 text-sm"
+                placeholder="e.g. Atlas plan for the client"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                autoFocus
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <Label htmlFor="share-start" className="text-xs">
+                  From
+                </Label>
+                <Input
+                  id="share-start"
+                  type="date"
+                  className="h-8 text-sm"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="share-end" className="text-xs">
+                  To
+                </Label>
+                <Input
+                  id="share-end"
+                  type="date"
+                  className="h-8 text-sm"
+                  value={endDate}
+                  min={startDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label className="text-xs">Expires after</Label>
+                <Select value={expiry} onValueChange={setExpiry}>
+                  <SelectTrigger className="h-8 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SHARE_EXPIRY_OPTIONS.map((o) => (
+                      <SelectItem
+                        key={o.label}
+                        value={o.days === null ? "never" : String(o.days)}
+                      >
+                        {o.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div>
+              <p className="text-xs font-medium mb-1">
+                Projects{" "}
+                <span className="font-normal text-muted-foreground">
+                  ({projectIds.length ? `${projectIds.length} picked` : "all"})
+                </span>
+              </p>
+              <div className="flex flex-wrap gap-1 max-h-24 overflow-y-auto">
+                {projects.map((p) => (
+                  <Badge
+                    key={p.id}
+                    variant={projectIds.includes(p.id) ? "default" : "outline"}
+                    className="cursor-pointer text-[11px] font-normal"
+                    onClick={() => setProjectIds((ids) => toggle(ids, p.id))}
+                  >
+                    {p.name}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+            <div>
+              <p className="text-xs font-medium mb-1">
+                Teams{" "}
+                <span className="font-normal text-muted-foreground">
+                  ({teamIds.length ? `${teamIds.length} picked` : "all"})
+                </span>
+              </p>
+              <div className="flex flex-wrap gap-1">
+                {teams.map((t) => (
+                  <Badge
+                    key={t.id}
+                    variant={teamIds.includes(t.id) ? "default" : "outline"}
+                    className="cursor-pointer text-[11px] font-normal"
+                    onClick={() => setTeamIds((ids) => toggle(ids, t.id))}
+                  >
+                    {t.name}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+            <Button
+              type="submit"
+              size="sm"
+              className="h-8"
+              disabled={!name.trim() || !startDate || endDate < startDate}
+            >
+              <Link2 className="h-3.5 w-3.5 mr-1" /> Create link
+            </Button>
+          </form>
+
+          {created && (
+            <div className="flex gap-2">
+              <Input
+                readOnly
+                className="h-8 text-xs font-mono"
+                value={shareUrl(created.id, window.location.origin)}
+                onFocus={(e) => e.target.select()}
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8"
+                onClick={() =>
+                  copy(shareUrl(created.id, window.location.origin))
+                }
+              >
+                <Copy className="h-3.5 w-3.5 mr-1" /> Copy
+              </Button>
+            </div>
+          )}
+
+          {links.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-sm font-medium">Links</p>
+              <ul className="divide-y border rounded-md max-h-48 overflow-y-auto">
+                {links.map((s) => (
+                  <li key={s.id} className="flex items-center gap-2 px-3 py-2">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">{s.name}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {describeScope(s.view)} ·{" "}
+                        {format(new Date(s.createdAt), "MMM d")} by{" "}
+                        {s.createdBy} · {describeExpiry(s, now)}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      title="Copy link"
+                      disabled={isShareExpired(s, now)}
+                      onClick={() =>
+                        copy(shareUrl(s.id, window.location.origin))
+                      }
+                    >
+                      <Copy className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive"
+                      title="Revoke link"
+                      onClick={() => {
+                        if (created?.id === s.id) setCreated(null);
+                        run(
+                          () => sharesApi.revoke(s.id),
+                          `Revoked "${s.name}"`,
+                        );
+                      }}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,99 @@
+import { useState } from "react";
+import { SkillLevel } from "@/lib/types";
+import {
+  SKILL_LEVELS,
+  SKILL_LEVEL_LABELS,
+  SkillRequirement,
+  formatSkill,
+} from "@/lib/skills";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectTrigger,
+  SelectValue,
+  SelectContent,
+  SelectItem,
+} from "@/components/ui/select";
+import { X } from "lucide-react";
+
+interface Props {
+  requirements: SkillRequirement[];
+  onChange: (requirements: SkillRequirement[]) => void;
+  /** Skills held by at least one member */
+  catalog: string[];
+}
+
+/** Pick the skills (and minimum levels) a booking needs */
+export default function SkillRequirementPicker({
+  requirements,
+  onChange,
+  catalog,
+}: Props) {
+  const [level, setLevel] = useState<SkillLevel>("beginner");
+  const remaining = catalog.filter(
+    (name) => !requirements.some((r) => r.name === name),
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Select
+          value=""
+          onValueChange={(name) => onChange([...requirements, { name, level }])}
+          disabled={remaining.length === 0}
+        >
+          <SelectTrigger className="flex-1 h-8 text-xs">
+            <SelectValue
+              placeholder={
+                catalog.length === 0
+                  ? "No member skills recorded yet"
+                  : "Require a skill…"
+              }
+            />
+          </SelectTrigger>
+          <SelectContent>
+            {remaining.map((name) => (
+              <SelectItem key={name} value={name} className="text-xs">
+                {name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={level} onValueChange={(v) => setLevel(v as SkillLevel)}>
+          <SelectTrigger className="w-[130px] h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SKILL_LEVELS.map((l) => (
+              <SelectItem key={l} value={l} className="text-xs">
+                {SKILL_LEVEL_LABELS[l]}+
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {requirements.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {requirements.map((r) => (
+            <Badge
+              key={r.name}
+              variant="secondary"
+              className="text-[10px] font-normal gap-1 pr-1"
+            >
+              {formatSkill(r)}
+              <button
+                type="button"
+                className="rounded-sm hover:bg-muted-foreground/20"
+                onClick={() =>
+                  onChange(requirements.filter((other) => other !== r))
+                }
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
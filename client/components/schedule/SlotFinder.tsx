@@ -0,0 +1,207 @@
+import { useState, useMemo } from "react";
+import { Team, Member, Assignment, TimeOff } from "@/lib/types";
+import { findEarliestSlot } from "@/lib/store";
+import { isPlaceholder } from "@/lib/capacity";
+import { Slot, SLOT_HORIZON_DAYS, rankSlots } from "@/lib/slots";
+import { differenceInDays, parseDate } from "@/lib/dateUtils";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+
+interface Props {
+  /** Members qualified for the booking */
+  candidates: Member[];
+  teams: Team[];
+  /** Every assignment and leave; slots are recomputed when these change */
+  assignments: Assignment[];
+  timeOff: TimeOff[];
+  allocation: number;
+  tentativeBlocks: boolean;
+  defaultStart: string;
+  /** Why booking is not possible yet, e.g. no project picked */
+  blocked?: string;
+  onBook: (slot: Slot) => void;
+}
+
+const MAX_OPTIONS = 8;
+
+/** Propose the earliest conflict-free start for a booking of N working days */
+export default function SlotFinder({
+  candidates,
+  teams,
+  assignments,
+  timeOff,
+  allocation,
+  tentativeBlocks,
+  defaultStart,
+  blocked,
+  onBook,
+}: Props) {
+  const [days, setDays] = useState(10);
+  const [notBefore, setNotBefore] = useState(defaultStart);
+  // Empty means every candidate
+  const [picked, setPicked] = useState<string[]>([]);
+
+  const pool = useMemo(
+    () =>
+      picked.length
+        ? candidates.filter((m) => picked.includes(m.id))
+        : candidates,
+    [candidates, picked],
+  );
+
+  const { options, unavailable } = useMemo(() => {
+    if (!notBefore || days < 1) return { options: [], unavailable: [] };
+    const found: Slot[] = [];
+    const none: Member[] = [];
+    for (const m of pool) {
+      const slot = findEarliestSlot(
+        m.id,
+        days,
+        notBefore,
+        allocation,
+        tentativeBlocks,
+      );
+      if (slot) found.push(slot);
+      else none.push(m);
+    }
+    return { options: rankSlots(found), unavailable: none };
+    // findEarliestSlot reads the store; `assignments` and `timeOff` mark when
+    // it changed
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [
+    pool,
+    days,
+    notBefore,
+    allocation,
+    tentativeBlocks,
+    assignments,
+    timeOff,
+  ]);
+
+  const toggle = (id: string) =>
+    setPicked((ids) =>
+      ids.includes(id) ? ids.filter((other) => other !== id) : [...ids, id],
+    );
+  const memberName = (id: string) => candidates.find((m) => m.id === id)?.name;
+  const teamName = (id: string) => {
+    const member = candidates.find((m) => m.id === id);
+    return teams.find((t) => t.id === member?.teamId)?.name;
+  };
+  const formatDay = (day: string) => format(parseDate(day), "EEE MMM d");
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="text-xs font-medium mb-1 block">
+            Working days needed
+          </label>
+          <Input
+            type="number"
+            min={1}
+            max={250}
+            className="h-8"
+            value={days}
+            onChange={(e) =>
+              setDays(Math.max(1, Math.round(Number(e.target.value) || 1)))
+            }
+          />
+        </div>
+        <div>
+          <label className="text-xs font-medium mb-1 block">Not before</label>
+          <Input
+            type="date"
+            className="h-8"
+            value={notBefore}
+            onChange={(e) => setNotBefore(e.target.value)}
+          />
+        </div>
+      </div>
+      <div>
+        <p className="text-xs font-medium mb-1">
+          Any of{" "}
+          <span className="font-normal text-muted-foreground">
+            ({picked.length ? `${picked.length} picked` : "everyone qualified"})
+          </span>
+        </p>
+        <div className="flex flex-wrap gap-1">
+          {candidates.map((m) => (
+            <Badge
+              key={m.id}
+              variant={picked.includes(m.id) ? "default" : "outline"}
+              className="cursor-pointer text-[11px] font-normal"
+              onClick={() => toggle(m.id)}
+            >
+              {m.name}
+              {isPlaceholder(m) && " · open role"}
+            </Badge>
+          ))}
+        </div>
+      </div>
+      {options.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          {pool.length === 0
+            ? "No qualified members to choose from."
+            : `Nobody has ${days} free working days in the next ${SLOT_HORIZON_DAYS / 365} years.`}
+        </p>
+      ) : (
+        <ol className="space-y-1">
+          {options.slice(0, MAX_OPTIONS).map((slot, i) => {
+            const wait = differenceInDays(
+              parseDate(slot.startDate),
+              parseDate(notBefore),
+            );
+            return (
+              <li
+                key={slot.memberId}
+                className="flex items-center gap-2 rounded-md border px-2.5 py-1.5 text-sm"
+              >
+                <span className="w-4 text-xs text-muted-foreground">
+                  {i + 1}.
+                </span>
+                <span className="flex-1 min-w-0">
+                  <span className="block truncate font-medium">
+                    {memberName(slot.memberId)}
+                    {teamName(slot.memberId) && (
+                      <span className="font-normal text-muted-foreground">
+                        {" "}
+                        ({teamName(slot.memberId)})
+                      </span>
+                    )}
+                  </span>
+                  <span className="block text-[11px] text-muted-foreground">
+                    {formatDay(slot.startDate)} – {formatDay(slot.endDate)}
+                    {wait > 0
+                      ? ` · starts ${wait}d later`
+                      : " · starts on time"}
+                  </span>
+                </span>
+                <Button
+                  type="button"
+                  size="sm"
+                  className="h-7 px-2.5 text-xs"
+                  disabled={Boolean(blocked)}
+                  title={blocked}
+                  onClick={() => onBook(slot)}
+                >
+                  Book
+                </Button>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+      {unavailable.length > 0 && options.length > 0 && (
+        <p className="text-[11px] text-muted-foreground">
+          No slot in the next {SLOT_HORIZON_DAYS / 365} years for{" "}
+          {unavailable.map((m) => m.name).join(", ")}.
+        </p>
+      )}
+      {blocked && (
+        <p className="text-[11px] text-muted-foreground">{blocked}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { TimeOff } from "@/lib/types";
+import { Granularity, getBarPosition, parseDate } from "@/lib/dateUtils";
+import { TIME_OFF_LABELS } from "@/components/TimeOffDialog";
+
+interface Props {
+  entry: TimeOff;
+  columns: Date[];
+  colWidth: number;
+  granularity: Granularity;
+}
+
+/** Hatched background block marking leave or a holiday in a member row */
+export default function TimeOffBlock({
+  entry,
+  columns,
+  colWidth,
+  granularity,
+}: Props) {
+  const { left, width } = getBarPosition(
+    parseDate(entry.startDate),
+    parseDate(entry.endDate),
+    columns,
+    colWidth,
+    granularity,
+  );
+
+  return (
+    <div
+      className="time-off-hatch absolute inset-y-0 border-x border-muted-foreground/20 pointer-events-none flex items-end overflow-hidden"
+      style={{ left, width }}
+    >
+      {width > 48 && (
+        <span className="text-[9px] font-medium text-muted-foreground truncate px-1 pb-0.5">
+          {entry.label === TIME_OFF_LABELS[entry.type]
+            ? entry.label
+            : `${entry.label} · ${TIME_OFF_LABELS[entry.type]}`}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -7,17 +7,28 @@ import {
   isTodayInColumn,
   columnWidthInDays,
 } from "@/lib/dateUtils";
+import { Milestone } from "@/lib/types";
+import MilestoneMarker from "./MilestoneMarker";
+
+export interface HeaderMilestone {
+  milestone: Milestone;
+  color: string;
+  projectName: string;
+}
 
 interface Props {
   columns: Date[];
   colWidth: number;
   granularity: Granularity;
+  /** Project milestones marked along the bottom edge */
+  milestones?: HeaderMilestone[];
 }
 
 export default function TimelineHeader({
   columns,
   colWidth,
   granularity,
+  milestones = [],
 }: Props) {
   // Group columns by their group label (month for day/week, year for month/quarter)
   const groups = useMemo(() => {
@@ -51,7 +62,7 @@ export default function TimelineHeader({
         ))}
       </div>
       {/* Column labels row */}
-      <div className="flex h-[30px]">
+      <div className="relative flex h-[30px]">
         {columns.map((col, i) => {
           const weekend = granularity === "day" && isWeekend(col);
           const today = isTodayInColumn(col, granularity);
@@ -68,6 +79,18 @@ export default function TimelineHeader({
             </div>
           );
         })}
+        {milestones.map(({ milestone, color, projectName }) => (
+          <MilestoneMarker
+            key={milestone.id}
+            milestone={milestone}
+            color={color}
+            projectName={projectName}
+            columns={columns}
+            colWidth={colWidth}
+            granularity={granularity}
+            compact
+          />
+        ))}
       </div>
     </div>
   );
@@ -0,0 +1,334 @@
+import {
+  ApiErrorResponse,
+  Assignment,
+  AuditEntry,
+  CLIENT_ID_HEADER,
+  EXPECT_HEADER,
+  Presence,
+  Member,
+  Project,
+  Scenario,
+  Team,
+  TimeOff,
+  Baseline,
+  Dependency,
+  WorkspaceCollection,
+  WorkspaceData,
+  LoginRequest,
+  NewUser,
+  SessionResponse,
+  User,
+  ShareLink,
+  SharedSchedule,
+} from "@shared/api";
+import { QueuedWrite, getOutbox, saveOutbox } from "./store";
+
+export const WORKSPACE_QUERY_KEY = ["workspace"] as const;
+export const AUDIT_QUERY_KEY = ["audit"] as const;
+export const SCENARIOS_QUERY_KEY = ["scenarios"] as const;
+export const SESSION_QUERY_KEY = ["session"] as const;
+export const USERS_QUERY_KEY = ["users"] as const;
+export const SHARES_QUERY_KEY = ["shares"] as const;
+
+/** This tab, as seen by the server's live channel */
+export const CLIENT_ID: string = crypto.randomUUID();
+
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    public body: ApiErrorResponse | null,
+  ) {
+    super(body?.error ?? `Request failed with status ${status}`);
+    this.name = "ApiError";
+  }
+}
+
+async function request<T>(
+  method: string,
+  path: string,
+  body?: unknown,
+  headers: Record<string, string> = {},
+): Promise<T> {
+  const res = await fetch(path, {
+    method,
+    headers: {
+      [CLIENT_ID_HEADER]: CLIENT_ID,
+      ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+      ...headers,
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+  if (!res.ok) {
+    const errorBody = (await res.json().catch(() => null)) as ApiErrorResponse;
+    throw new ApiError(res.status, errorBody);
+  }
+  if (res.status === 204) return undefined as T;
+  return (await res.json()) as T;
+}
+
+// Requests run one at a time so the server sees writes in the order they were
+// made, and a workspace refresh never overtakes a write still in flight
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const run = writeQueue.then(task, task);
+  writeQueue = run.catch(() => undefined);
+  return run;
+}
+
+// Workspace writes made so far. One made while a workspace read waits in the
+// queue is missing from what that read returns.
+let workspaceWrites = 0;
+
+function enqueueWrite<T>(task: () => Promise<T>): Promise<T> {
+  workspaceWrites++;
+  return enqueue(task);
+}
+
+// Writes that cannot reach the server wait in an outbox, kept across reloads,
+// and are replayed in order before the next write or workspace read. A
+// refetch after reconnecting therefore never overwrites edits made offline.
+let onRefused: ((count: number) => void) | null = null;
+
+/** Be told how many replayed offline writes the server refused */
+export function onOutboxRefused(listener: (count: number) => void) {
+  onRefused = listener;
+  return () => {
+    if (onRefused === listener) onRefused = null;
+  };
+}
+
+async function replayOutbox() {
+  let refused = 0;
+  try {
+    for (let next = getOutbox()[0]; next; next = getOutbox()[0]) {
+      try {
+        await request(next.method, next.path, next.body, next.headers);
+      } catch (error) {
+        // Still offline, or signed out: keep the rest for later
+        if (!(error instanceof ApiError) || error.status === 401) throw error;
+        refused++;
+      }
+      saveOutbox(getOutbox().slice(1));
+    }
+  } finally {
+    if (refused > 0) onRefused?.(refused);
+  }
+}
+
+/** A write, queued in the outbox if the server can't be reached */
+async function send<T>(
+  method: string,
+  path: string,
+  body?: unknown,
+  headers: Record<string, string> = {},
+): Promise<T> {
+  try {
+    await replayOutbox();
+    return await request<T>(method, path, body, headers);
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    const write: QueuedWrite = { method, path, body, headers };
+    saveOutbox([...getOutbox(), write]);
+    return undefined as T;
+  }
+}
+
+/**
+ * Reads again, behind the new writes, whenever a write was made while the
+ * read was waiting: applying the older copy would wipe the local edits.
+ */
+export async function fetchWorkspace(): Promise<WorkspaceData> {
+  for (;;) {
+    const writes = workspaceWrites;
+    const data = await enqueue(async () => {
+      await replayOutbox();
+      return request<WorkspaceData>("GET", "/api/workspace");
+    });
+    if (workspaceWrites === writes) return data;
+  }
+}
+
+export function replaceWorkspace(data: WorkspaceData): Promise<WorkspaceData> {
+  return enqueueWrite(() => send<WorkspaceData>("PUT", "/api/workspace", data));
+}
+
+export function fetchAuditLog(): Promise<AuditEntry[]> {
+  return enqueue(() => request<AuditEntry[]>("GET", "/api/audit"));
+}
+
+export function appendAuditLog(entries: AuditEntry[]): Promise<AuditEntry[]> {
+  return enqueue(() => send<AuditEntry[]>("POST", "/api/audit", entries));
+}
+
+export function fetchScenarios(): Promise<Scenario[]> {
+  return enqueue(() => request<Scenario[]>("GET", "/api/scenarios"));
+}
+
+// Every edit inside a scenario resends the whole copy, so only the latest
+// version of each scenario still waiting in the queue is sent
+const pendingScenarios = new Map<
+  string,
+  { scenario: Scenario; promise: Promise<Scenario> }
+>();
+
+export function saveScenario(scenario: Scenario): Promise<Scenario> {
+  const pending = pendingScenarios.get(scenario.id);
+  if (pending) {
+    pending.scenario = scenario;
+    return pending.promise;
+  }
+  const entry = { scenario, promise: null as Promise<Scenario> };
+  entry.promise = enqueue(() => {
+    pendingScenarios.delete(scenario.id);
+    return send<Scenario>(
+      "PUT",
+      `/api/scenarios/${scenario.id}`,
+      entry.scenario,
+    );
+  });
+  pendingScenarios.set(scenario.id, entry);
+  return entry.promise;
+}
+
+export function deleteScenario(id: string): Promise<void> {
+  return enqueue(() => send<void>("DELETE", `/api/scenarios/${id}`));
+}
+
+// Accounts. Not queued: signing in never races a workspace write.
+
+export function fetchSession(): Promise<SessionResponse> {
+  return request<SessionResponse>("GET", "/api/auth/session");
+}
+
+export function login(credentials: LoginRequest): Promise<SessionResponse> {
+  return request<SessionResponse>("POST", "/api/auth/login", credentials);
+}
+
+export function logout(): Promise<void> {
+  return request<void>("POST", "/api/auth/logout");
+}
+
+/** Create the first admin account and sign in as it */
+export function setupAdmin(
+  account: Omit<NewUser, "role">,
+): Promise<SessionResponse> {
+  return request<SessionResponse>("POST", "/api/auth/setup", account);
+}
+
+export const usersApi = {
+  list: () => request<User[]>("GET", "/api/users"),
+  create: (user: NewUser) => request<User>("POST", "/api/users", user),
+  update: (id: string, data: Partial<Omit<NewUser, "username">>) =>
+    request<User>("PATCH", `/api/users/${id}`, data),
+  remove: (id: string) => request<void>("DELETE", `/api/users/${id}`),
+};
+
+export const sharesApi = {
+  list: () => request<ShareLink[]>("GET", "/api/shares"),
+  create: (share: Pick<ShareLink, "name" | "view" | "expiresAt">) =>
+    request<ShareLink>("POST", "/api/shares", share),
+  revoke: (id: string) => request<void>("DELETE", `/api/shares/${id}`),
+};
+
+/** What a share link shows; needs no account */
+export function fetchSharedSchedule(id: string): Promise<SharedSchedule> {
+  return request<SharedSchedule>(
+    "GET",
+    `/api/public/shares/${encodeURIComponent(id)}`,
+  );
+}
+
+/** Not queued: presence is fire-and-forget and must not wait behind writes */
+export function sendPresence(presence: Presence): Promise<void> {
+  return request<void>("POST", "/api/live/presence", presence);
+}
+
+/** Fields set to undefined are sent as null so the server clears them */
+function toPatch(data: object): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(data).map(([key, value]) => [key, value ?? null]),
+  );
+}
+
+/**
+ * CRUD calls for one collection. Updates to the same item that are still
+ * waiting in the queue are merged, so dragging a bar across many days sends
+ * one request per settled position rather than one per mouse move.
+ *
+ * `expected` holds the values the caller last saw for the fields it changes;
+ * the server refuses the write with 409 if another planner changed them.
+ */
+function collectionApi<T extends { id: string }>(path: string) {
+  const pendingUpdates = new Map<
+    string,
+    { data: Partial<T>; expected?: Partial<T>; promise: Promise<T> }
+  >();
+
+  return {
+    create: (item: T) => enqueueWrite(() => send<T>("POST", path, item)),
+    update: (
+      id: string,
+      data: Partial<T>,
+      expected?: Partial<T>,
+    ): Promise<T> => {
+      const pending = pendingUpdates.get(id);
+      if (pending) {
+        workspaceWrites++;
+        Object.assign(pending.data, data);
+        // The first expectation per field is what the server still holds.
+        // One taken after an unguarded change describes values the server
+        // has never seen, so a merge with any unguarded update stays unguarded.
+        pending.expected =
+          expected && pending.expected
+            ? { ...expected, ...pending.expected }
+            : undefined;
+        return pending.promise;
+      }
+      const entry = {
+        data: { ...data },
+        expected: expected && { ...expected },
+        promise: null as Promise<T>,
+      };
+      entry.promise = enqueueWrite(() => {
+        pendingUpdates.delete(id);
+        const headers: Record<string, string> = entry.expected
+          ? {
+              [EXPECT_HEADER]: encodeURIComponent(
+                JSON.stringify(toPatch(entry.expected)),
+              ),
+            }
+          : {};
+        return send<T>("PATCH", `${path}/${id}`, toPatch(entry.data), headers);
+      });
+      pendingUpdates.set(id, entry);
+      return entry.promise;
+    },
+    remove: (id: string) =>
+      enqueueWrite(() => send<void>("DELETE", `${path}/${id}`)),
+    replaceAll: (items: T[]) =>
+      enqueueWrite(() => send<T[]>("PUT", path, items)),
+  };
+}
+
+export const teamsApi = collectionApi<Team>("/api/teams");
+export const membersApi = collectionApi<Member>("/api/members");
+export const projectsApi = collectionApi<Project>("/api/projects");
+export const assignmentsApi = collectionApi<Assignment>("/api/assignments");
+export const timeOffApi = collectionApi<TimeOff>("/api/time-off");
+export const baselinesApi = collectionApi<Baseline>("/api/baselines");
+export const dependenciesApi = collectionApi<Dependency>("/api/dependencies");
+
+/** The CRUD calls of each collection, for writes that span the workspace */
+export const collectionApis: Record<
+  WorkspaceCollection,
+  ReturnType<typeof collectionApi<{ id: string }>>
+> = {
+  teams: teamsApi,
+  members: membersApi,
+  projects: projectsApi,
+  assignments: assignmentsApi,
+  timeOff: timeOffApi,
+  baselines: baselinesApi,
+  dependencies: dependenciesApi,
+};
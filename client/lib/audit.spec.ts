@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import {
+  AuditDraft,
+  diffRecord,
+  filterAuditLog,
+  mergeDrafts,
+  stampDrafts,
+} from "./audit";
+import { AuditEntry } from "./types";
+
+function move(from: string, to: string): AuditDraft {
+  return {
+    action: "move",
+    entityType: "assignment",
+    entityId: "a-1",
+    entityName: "Alice · Website",
+    changes: [{ field: "start", from, to }],
+  };
+}
+
+describe("diffRecord", () => {
+  it("lists changed fields with display values", () => {
+    const before = { id: "m-1", name: "Alice", teamId: "t-1" };
+    const after = { id: "m-1", name: "Alice", teamId: "t-2" };
+    const teamNames: Record<string, string> = { "t-1": "Design", "t-2": "Web" };
+    expect(
+      diffRecord(before, after, { teamId: (v) => teamNames[v as string] }),
+    ).toEqual([{ field: "team", from: "Design", to: "Web" }]);
+  });
+});
+
+describe("mergeDrafts", () => {
+  it("collapses the steps of a drag into one change", () => {
+    const merged = mergeDrafts([
+      move("Mar 3", "Mar 4"),
+      move("Mar 4", "Mar 5"),
+      move("Mar 5", "Mar 6"),
+    ]);
+    expect(merged).toHaveLength(1);
+    expect(merged[0].changes).toEqual([
+      { field: "start", from: "Mar 3", to: "Mar 6" },
+    ]);
+  });
+
+  it("drops edits that end where they started", () => {
+    expect(
+      mergeDrafts([move("Mar 3", "Mar 4"), move("Mar 4", "Mar 3")]),
+    ).toEqual([]);
+  });
+
+  it("classifies a drag that also changed rows as a reassignment", () => {
+    const merged = mergeDrafts([
+      move("Mar 3", "Mar 4"),
+      {
+        ...move("Mar 4", "Mar 4"),
+        action: "reassign",
+        changes: [{ field: "member", from: "Alice", to: "Bob" }],
+      },
+    ]);
+    expect(merged[0].action).toBe("reassign");
+  });
+
+  it("keeps creates and deletes as they are", () => {
+    const create: AuditDraft = {
+      action: "create",
+      entityType: "member",
+      entityId: "m-1",
+      entityName: "Alice",
+    };
+    expect(mergeDrafts([create])).toEqual([create]);
+  });
+});
+
+describe("stampDrafts / filterAuditLog", () => {
+  it("stamps the author and generates a summary", () => {
+    const [entry] = stampDrafts([move("Mar 3", "Mar 4")], "  ", "Import CSV");
+    expect(entry.actor).toBe("Someone");
+    expect(entry.summary).toBe("Moved assignment Alice · Website");
+    expect(entry.source).toBe("Import CSV");
+  });
+
+  it("filters by entity and search text, newest first", () => {
+    const entries: AuditEntry[] = [
+      ...stampDrafts([move("Mar 3", "Mar 4")], "Dana"),
+      ...stampDrafts(
+        [
+          {
+            action: "delete",
+            entityType: "project",
+            entityId: "p-1",
+            entityName: "Website",
+          },
+        ],
+        "Lee",
+      ),
+    ];
+    entries[1].at = "2999-01-01T00:00:00.000Z";
+    expect(filterAuditLog(entries, { entityId: "a-1" })).toHaveLength(1);
+    expect(filterAuditLog(entries, { search: "lee" })[0].entityId).toBe("p-1");
+    expect(filterAuditLog(entries, {})[0].actor).toBe("Lee");
+  });
+});
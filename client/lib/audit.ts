@@ -0,0 +1,209 @@
+import { format } from "date-fns";
+import { AuditAction, AuditChange, AuditEntityType, AuditEntry } from "./types";
+import { parseDate } from "./dateUtils";
+import { generateId } from "./store";
+
+/** Shown as the author when the user has not set a name */
+export const UNKNOWN_ACTOR = "Someone";
+
+export const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  team: "team",
+  member: "member",
+  project: "project",
+  assignment: "assignment",
+  timeOff: "time off",
+  baseline: "baseline",
+  dependency: "dependency",
+  workspace: "workspace",
+};
+
+export const ACTION_LABELS: Record<AuditAction, string> = {
+  create: "Created",
+  update: "Edited",
+  move: "Moved",
+  reassign: "Reassigned",
+  delete: "Deleted",
+  restore: "Restored",
+  undo: "Undid",
+  redo: "Redid",
+};
+
+/** An audit entry before it is stamped with an id, time and author */
+export interface AuditDraft {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId?: string;
+  projectId?: string;
+  entityName: string;
+  changes?: AuditChange[];
+  note?: string;
+  summary?: string; // overrides the generated "<Action> <type> <name>"
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  memberId: "member",
+  projectId: "project",
+  teamId: "team",
+  ownerId: "owner",
+  startDate: "start",
+  endDate: "end",
+  hoursPerWeek: "hours/week",
+  workingDays: "working days",
+  placeholder: "open role",
+  costRate: "cost rate",
+  billRate: "bill rate",
+};
+
+const EDIT_ACTIONS: AuditAction[] = ["update", "move", "reassign"];
+
+function displayValue(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (Array.isArray(value)) return value.join(", ");
+  return String(value);
+}
+
+export function displayDate(value: unknown): string {
+  return value ? format(parseDate(String(value)), "MMM d, yyyy") : "";
+}
+
+/**
+ * Field-by-field changes between two versions of a record. `resolve` turns
+ * raw values into display text, e.g. a member id into the member's name.
+ */
+export function diffRecord<T extends object>(
+  before: T,
+  after: T,
+  resolve: Partial<Record<keyof T, (value: unknown) => string>> = {},
+): AuditChange[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  keys.delete("id");
+  const changes: AuditChange[] = [];
+  for (const key of keys) {
+    const show = resolve[key as keyof T] ?? displayValue;
+    const from = show(before[key as keyof T]);
+    const to = show(after[key as keyof T]);
+    if (from !== to)
+      changes.push({ field: FIELD_LABELS[key] ?? key, from, to });
+  }
+  return changes;
+}
+
+/** Classify an assignment edit by what it changed */
+export function assignmentAction(changes: AuditChange[]): AuditAction {
+  const fields = new Set(changes.map((c) => c.field));
+  if (fields.has("member") || fields.has("project")) return "reassign";
+  if (fields.has("start") || fields.has("end")) return "move";
+  return "update";
+}
+
+/**
+ * Collapse repeated edits of the same item (every step of a bar drag) into
+ * one draft spanning the first "from" to the last "to". Edits that end up
+ * where they started are dropped.
+ */
+export function mergeDrafts(drafts: AuditDraft[]): AuditDraft[] {
+  const merged: AuditDraft[] = [];
+  for (const draft of drafts) {
+    const previous = EDIT_ACTIONS.includes(draft.action)
+      ? merged.find(
+          (d) =>
+            EDIT_ACTIONS.includes(d.action) &&
+            d.entityType === draft.entityType &&
+            d.entityId === draft.entityId,
+        )
+      : undefined;
+    if (!previous) {
+      merged.push({ ...draft, changes: draft.changes?.map((c) => ({ ...c })) });
+      continue;
+    }
+    for (const change of draft.changes ?? []) {
+      const existing = previous.changes.find((c) => c.field === change.field);
+      if (existing) existing.to = change.to;
+      else previous.changes.push({ ...change });
+    }
+    previous.entityName = draft.entityName;
+    previous.projectId = draft.projectId;
+    previous.note = draft.note || previous.note;
+  }
+  return merged
+    .map((draft) => {
+      if (!EDIT_ACTIONS.includes(draft.action)) return draft;
+      const changes = draft.changes.filter((c) => c.from !== c.to);
+      const action =
+        draft.entityType === "assignment"
+          ? assignmentAction(changes)
+          : draft.action;
+      return { ...draft, action, changes };
+    })
+    .filter(
+      (draft) => !EDIT_ACTIONS.includes(draft.action) || draft.changes.length,
+    );
+}
+
+export function summarizeDraft(draft: AuditDraft): string {
+  if (draft.summary) return draft.summary;
+  return `${ACTION_LABELS[draft.action]} ${ENTITY_LABELS[draft.entityType]} ${draft.entityName}`;
+}
+
+/** Turn drafts into entries ready to store */
+export function stampDrafts(
+  drafts: AuditDraft[],
+  actor: string,
+  source?: string,
+): AuditEntry[] {
+  const at = new Date().toISOString();
+  return mergeDrafts(drafts).map((draft) => ({
+    id: generateId(),
+    at,
+    actor: actor.trim() || UNKNOWN_ACTOR,
+    action: draft.action,
+    entityType: draft.entityType,
+    entityId: draft.entityId,
+    projectId: draft.projectId,
+    summary: summarizeDraft(draft),
+    changes: draft.changes?.length ? draft.changes : undefined,
+    note: draft.note?.trim() || undefined,
+    source,
+  }));
+}
+
+export interface AuditFilters {
+  search?: string;
+  entityId?: string;
+  entityType?: AuditEntityType;
+  action?: AuditAction;
+  projectId?: string;
+}
+
+/** Newest first, narrowed by the history panel's filters */
+export function filterAuditLog(
+  entries: AuditEntry[],
+  { search, entityId, entityType, action, projectId }: AuditFilters,
+): AuditEntry[] {
+  const needle = search?.trim().toLowerCase();
+  return entries
+    .filter(
+      (e) =>
+        (!entityId || e.entityId === entityId) &&
+        (!entityType || e.entityType === entityType) &&
+        (!action || e.action === action) &&
+        (!projectId || e.projectId === projectId) &&
+        (!needle ||
+          [e.summary, e.actor, e.note, e.source]
+            .concat((e.changes ?? []).flatMap((c) => [c.from, c.to]))
+            .some((text) => text?.toLowerCase().includes(needle))),
+    )
+    .sort((a, b) => (a.at < b.at ? 1 : a.at > b.at ? -1 : 0));
+}
+
+/** Union of two copies of the log by id, oldest first */
+export function mergeAuditLogs(
+  local: AuditEntry[],
+  remote: AuditEntry[],
+): AuditEntry[] {
+  const byId = new Map(local.map((entry) => [entry.id, entry]));
+  for (const entry of remote) byId.set(entry.id, entry);
+  return [...byId.values()].sort((a, b) =>
+    a.at < b.at ? -1 : a.at > b.at ? 1 : 0,
+  );
+}
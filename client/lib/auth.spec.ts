@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import { hasRole, removedIds } from "@shared/api";
+
+describe("hasRole", () => {
+  it("lets stronger roles do what weaker ones can", () => {
+    expect(hasRole({ role: "admin" }, "planner")).toBe(true);
+    expect(hasRole({ role: "planner" }, "planner")).toBe(true);
+    expect(hasRole({ role: "viewer" }, "planner")).toBe(false);
+    expect(hasRole({ role: "planner" }, "admin")).toBe(false);
+  });
+
+  it("refuses when nobody is signed in", () => {
+    expect(hasRole(null, "viewer")).toBe(false);
+  });
+});
+
+describe("removedIds", () => {
+  it("lists what a replacement would drop", () => {
+    const before = [{ id: "a" }, { id: "b" }, { id: "c" }];
+    expect(removedIds(before, [{ id: "c" }, { id: "a" }])).toEqual(["b"]);
+    expect(removedIds(before, [...before, { id: "d" }])).toEqual([]);
+  });
+});
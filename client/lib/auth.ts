@@ -0,0 +1,28 @@
+import { createContext, useContext } from "react";
+import { User, UserRole } from "@shared/api";
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  viewer: "Viewer",
+  planner: "Planner",
+  admin: "Admin",
+};
+
+export const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  viewer: "Browses the plan and reports",
+  planner: "Also edits bookings, people and projects",
+  admin: "Also deletes teams and projects, imports and manages users",
+};
+
+export interface AuthState {
+  user: User;
+  signOut: () => void;
+}
+
+export const AuthContext = createContext<AuthState | null>(null);
+
+/** The signed-in user; only available below RequireAuth */
+export function useAuth(): AuthState {
+  const auth = useContext(AuthContext);
+  if (!auth) throw new Error("useAuth must be used inside RequireAuth");
+  return auth;
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import {
+  BACKUP_VERSION,
+  createBackup,
+  diffWorkspace,
+  mergeWorkspace,
+  parseBackup,
+} from "./backup";
+import { WorkspaceData } from "./types";
+
+const workspace: WorkspaceData = {
+  teams: [{ id: "t-1", name: "Design", color: "#000000" }],
+  members: [{ id: "m-1", name: "Alice", role: "Designer", teamId: "t-1" }],
+  projects: [
+    { id: "p-1", name: "Website", color: "#ff0000", description: "" },
+    { id: "p-2", name: "App", color: "#00ff00", description: "" },
+  ],
+  assignments: [],
+  timeOff: [],
+  baselines: [],
+  dependencies: [],
+};
+
+describe("parseBackup", () => {
+  it("round-trips a backup created by the app", () => {
+    const file = createBackup(workspace, { "schedule-granularity": "week" });
+    const result = parseBackup(JSON.stringify(file));
+    expect(result.ok).toBe(true);
+    expect("backup" in result && result.backup.data).toEqual(workspace);
+  });
+
+  it("rejects invalid JSON", () => {
+    expect(parseBackup("{nope").ok).toBe(false);
+  });
+
+  it("lists validation issues for malformed data", () => {
+    const file = createBackup(workspace, {});
+    const broken = {
+      ...file,
+      data: { ...workspace, projects: [{ id: "p-1" }] },
+    };
+    const result = parseBackup(JSON.stringify(broken));
+    expect(result.ok).toBe(false);
+    expect("issues" in result && result.issues.length).toBeGreaterThan(0);
+  });
+
+  it("refuses backups from a newer format version", () => {
+    const file = {
+      ...createBackup(workspace, {}),
+      version: BACKUP_VERSION + 1,
+    };
+    expect(parseBackup(JSON.stringify(file)).ok).toBe(false);
+  });
+});
+
+describe("diffWorkspace / mergeWorkspace", () => {
+  const incoming: WorkspaceData = {
+    ...workspace,
+    projects: [
+      { id: "p-1", name: "Website v2", color: "#ff0000", description: "" },
+      { id: "p-3", name: "Docs", color: "#0000ff", description: "" },
+    ],
+  };
+
+  it("counts added, changed, removed and unchanged items by id", () => {
+    const diff = diffWorkspace(workspace, incoming);
+    expect(diff.projects).toEqual({
+      added: 1,
+      changed: 1,
+      removed: 1,
+      unchanged: 0,
+    });
+    expect(diff.teams.unchanged).toBe(1);
+  });
+
+  it("merges without dropping items missing from the backup", () => {
+    const merged = mergeWorkspace(workspace, incoming);
+    expect(merged.projects.map((p) => p.name)).toEqual([
+      "Website v2",
+      "App",
+      "Docs",
+    ]);
+  });
+});
@@ -0,0 +1,165 @@
+import { z } from "zod";
+import { workspaceSchema, formatIssues } from "@shared/schemas";
+import { WorkspaceCollection, WorkspaceData } from "./types";
+
+/**
+ * Whole-workspace backups: a versioned JSON file holding every collection
+ * plus the schedule view preferences. Bump BACKUP_VERSION whenever the file
+ * layout changes in a way older readers cannot handle.
+ */
+export const BACKUP_VERSION = 1;
+const BACKUP_APP = "resourcehub";
+
+/** localStorage keys of view preferences carried along in backups */
+export const VIEW_PREFERENCE_KEYS = [
+  "schedule-granularity",
+  "schedule-groupBy",
+  "schedule-baseline",
+] as const;
+
+export const COLLECTION_LABELS: Record<WorkspaceCollection, string> = {
+  teams: "Teams",
+  members: "Members",
+  projects: "Projects",
+  assignments: "Assignments",
+  timeOff: "Time off",
+  baselines: "Baselines",
+  dependencies: "Dependencies",
+};
+
+export interface WorkspaceBackup {
+  app: typeof BACKUP_APP;
+  version: number;
+  exportedAt: string; // ISO timestamp
+  data: WorkspaceData;
+  preferences: Record<string, string>;
+}
+
+const backupSchema = z.object({
+  app: z.literal(BACKUP_APP),
+  version: z.number().int().positive(),
+  exportedAt: z.string(),
+  data: workspaceSchema,
+  preferences: z.record(z.string()).default({}),
+});
+
+export type ParseBackupResult =
+  | { ok: true; backup: WorkspaceBackup }
+  | { ok: false; error: string; issues: string[] };
+
+export function createBackup(
+  data: WorkspaceData,
+  preferences: Record<string, string>,
+): WorkspaceBackup {
+  return {
+    app: BACKUP_APP,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    data,
+    preferences,
+  };
+}
+
+export function readViewPreferences(): Record<string, string> {
+  const prefs: Record<string, string> = {};
+  for (const key of VIEW_PREFERENCE_KEYS) {
+    const value = localStorage.getItem(key);
+    if (value !== null) prefs[key] = value;
+  }
+  return prefs;
+}
+
+export function writeViewPreferences(prefs: Record<string, string>) {
+  for (const key of VIEW_PREFERENCE_KEYS) {
+    if (prefs[key] !== undefined) localStorage.setItem(key, prefs[key]);
+  }
+}
+
+/** Parse and validate the contents of a backup file */
+export function parseBackup(text: string): ParseBackupResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "The file is not valid JSON.", issues: [] };
+  }
+  const parsed = backupSchema.safeParse(raw);
+  if (!parsed.success) {
+    return {
+      ok: false,
+      error: "The file is not a ResourceHub workspace backup.",
+      issues: formatIssues(parsed.error),
+    };
+  }
+  if (parsed.data.version > BACKUP_VERSION) {
+    return {
+      ok: false,
+      error: `This backup was made by a newer version (v${parsed.data.version}) of the app.`,
+      issues: [],
+    };
+  }
+  return { ok: true, backup: parsed.data as WorkspaceBackup };
+}
+
+export interface CollectionDiff {
+  added: number;
+  changed: number;
+  removed: number;
+  unchanged: number;
+}
+
+/** Compare collections item by item, matching on id */
+export function diffWorkspace(
+  current: WorkspaceData,
+  incoming: WorkspaceData,
+): Record<WorkspaceCollection, CollectionDiff> {
+  const result = {} as Record<WorkspaceCollection, CollectionDiff>;
+  for (const key of Object.keys(COLLECTION_LABELS) as WorkspaceCollection[]) {
+    const mine: { id: string }[] = current[key];
+    const theirs: { id: string }[] = incoming[key];
+    const before = new Map(mine.map((item) => [item.id, item]));
+    const diff: CollectionDiff = {
+      added: 0,
+      changed: 0,
+      removed: 0,
+      unchanged: 0,
+    };
+    const seen = new Set<string>();
+    for (const item of theirs) {
+      seen.add(item.id);
+      const existing = before.get(item.id);
+      if (!existing) diff.added++;
+      else if (JSON.stringify(existing) !== JSON.stringify(item))
+        diff.changed++;
+      else diff.unchanged++;
+    }
+    diff.removed = mine.filter((item) => !seen.has(item.id)).length;
+    result[key] = diff;
+  }
+  return result;
+}
+
+/**
+ * Merge a backup into the current workspace: items with the same id are
+ * overwritten by the backup, new items are appended and nothing is removed.
+ */
+export function mergeWorkspace(
+  current: WorkspaceData,
+  incoming: WorkspaceData,
+): WorkspaceData {
+  const merge = <T extends { id: string }>(mine: T[], theirs: T[]): T[] => {
+    const byId = new Map(theirs.map((item) => [item.id, item]));
+    const kept = mine.map((item) => byId.get(item.id) ?? item);
+    const mineIds = new Set(mine.map((item) => item.id));
+    return [...kept, ...theirs.filter((item) => !mineIds.has(item.id))];
+  };
+  return {
+    teams: merge(current.teams, incoming.teams),
+    members: merge(current.members, incoming.members),
+    projects: merge(current.projects, incoming.projects),
+    assignments: merge(current.assignments, incoming.assignments),
+    timeOff: merge(current.timeOff, incoming.timeOff),
+    baselines: merge(current.baselines, incoming.baselines),
+    dependencies: merge(current.dependencies, incoming.dependencies),
+  };
+}
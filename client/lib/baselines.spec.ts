@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import {
+  captureBaseline,
+  formatSlip,
+  latestBaseline,
+  slipDays,
+} from "./baselines";
+import { Assignment, Baseline } from "./types";
+
+const assignment: Assignment = {
+  id: "a-1",
+  memberId: "m-1",
+  projectId: "p-1",
+  startDate: "2025-03-03",
+  endDate: "2025-03-14",
+  allocation: 100,
+};
+
+describe("captureBaseline", () => {
+  it("freezes each assignment's dates by id", () => {
+    const baseline = captureBaseline(" Q2 start ", [assignment]);
+    expect(baseline.name).toBe("Q2 start");
+    expect(baseline.assignments).toEqual({
+      "a-1": { startDate: "2025-03-03", endDate: "2025-03-14" },
+    });
+  });
+});
+
+describe("slipDays", () => {
+  const frozen = { startDate: "2025-03-03", endDate: "2025-03-14" };
+
+  it("counts days finished after the baseline as positive", () => {
+    expect(slipDays({ endDate: "2025-03-19" }, frozen)).toBe(5);
+    expect(formatSlip(5)).toBe("+5d");
+  });
+
+  it("counts an early finish as negative", () => {
+    expect(slipDays({ endDate: "2025-03-12" }, frozen)).toBe(-2);
+    expect(formatSlip(-2)).toBe("-2d");
+    expect(formatSlip(0)).toBe("On time");
+  });
+});
+
+describe("latestBaseline", () => {
+  it("picks the most recently saved baseline", () => {
+    const older: Baseline = {
+      id: "b-1",
+      name: "Q1",
+      createdAt: "2025-01-01T00:00:00.000Z",
+      assignments: {},
+    };
+    const newer = {
+      ...older,
+      id: "b-2",
+      createdAt: "2025-04-01T00:00:00.000Z",
+    };
+    expect(latestBaseline([newer, older])?.id).toBe("b-2");
+    expect(latestBaseline([])).toBeUndefined();
+  });
+});
@@ -0,0 +1,47 @@
+import { Assignment, Baseline, BaselineDates } from "./types";
+import { differenceInDays, parseDate } from "./dateUtils";
+
+/** Freeze the current dates of every assignment */
+export function captureBaseline(
+  name: string,
+  assignments: Assignment[],
+): Omit<Baseline, "id"> {
+  return {
+    name: name.trim(),
+    createdAt: new Date().toISOString(),
+    assignments: Object.fromEntries(
+      assignments.map((a) => [
+        a.id,
+        { startDate: a.startDate, endDate: a.endDate },
+      ]),
+    ),
+  };
+}
+
+/** The most recently saved baseline, if any */
+export function latestBaseline(baselines: Baseline[]): Baseline | undefined {
+  return baselines.reduce<Baseline | undefined>(
+    (latest, b) => (!latest || b.createdAt > latest.createdAt ? b : latest),
+    undefined,
+  );
+}
+
+/**
+ * Days the assignment now finishes after its baseline finish: positive when
+ * late, negative when early
+ */
+export function slipDays(
+  assignment: Pick<Assignment, "endDate">,
+  baseline: BaselineDates,
+): number {
+  return differenceInDays(
+    parseDate(assignment.endDate),
+    parseDate(baseline.endDate),
+  );
+}
+
+/** "+3d", "-2d" or "On time" */
+export function formatSlip(days: number): string {
+  if (days === 0) return "On time";
+  return `${days > 0 ? "+" : ""}${days}d`;
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  blockingAssignments,
+  getBookingStatus,
+  needsCapacity,
+  parseBookingStatus,
+} from "./bookings";
+import { findOverbooked } from "./capacity";
+import { parseScheduleCsv } from "./csvImport";
+import { findBookingConflicts, saveAssignments } from "./store";
+import { Assignment, BookingStatus } from "./types";
+
+function booking(id: string, status?: BookingStatus): Assignment {
+  return {
+    id,
+    memberId: "m-1",
+    projectId: "p-1",
+    startDate: "2025-03-03",
+    endDate: "2025-03-07",
+    allocation: 100,
+    status,
+  };
+}
+
+describe("booking status", () => {
+  it("treats bookings without a status as confirmed", () => {
+    expect(getBookingStatus(booking("a"))).toBe("confirmed");
+  });
+
+  it("lets tentative bookings overlap unless they are set to block", () => {
+    const existing = [booking("a", "tentative"), booking("b", "requested")];
+    const open = blockingAssignments(existing, false);
+    expect(findOverbooked(open, "2025-03-03", "2025-03-07", 100)).toEqual([]);
+    const blocking = blockingAssignments(existing, true);
+    expect(
+      findOverbooked(blocking, "2025-03-03", "2025-03-07", 100).map(
+        (a) => a.id,
+      ),
+    ).toEqual(["a", "b"]);
+  });
+
+  it("always counts confirmed bookings", () => {
+    const existing = [booking("a"), booking("b", "confirmed")];
+    expect(blockingAssignments(existing, false)).toEqual(existing);
+  });
+
+  it("parses labels and keys", () => {
+    expect(parseBookingStatus("Tentative")).toBe("tentative");
+    expect(parseBookingStatus(" requested ")).toBe("requested");
+    expect(parseBookingStatus("")).toBeUndefined();
+    expect(parseBookingStatus("maybe")).toBeUndefined();
+  });
+
+  it("reads a Status column from schedule CSV", () => {
+    const rows = parseScheduleCsv(
+      [
+        "Member,Team,Role,Project,Start Date,End Date,Allocation,Status",
+        "Ann,Web,Dev,Atlas,2025-03-03,2025-03-07,50,Tentative",
+        "Bo,Web,Dev,Atlas,2025-03-03,2025-03-07,100,",
+      ].join("\n"),
+    );
+    expect(rows.map((r) => r.status)).toEqual(["tentative", undefined]);
+  });
+});
+
+describe("saving a booking", () => {
+  beforeEach(() => {
+    const items = new Map<string, string>();
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => items.set(key, value),
+      removeItem: (key: string) => items.delete(key),
+    });
+    saveAssignments([booking("a", "confirmed")]);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("lets an unconfirmed booking onto a fully booked member", () => {
+    expect(findBookingConflicts(booking("b", "tentative"), false)).toEqual([]);
+    expect(findBookingConflicts(booking("b", "requested"), false)).toEqual([]);
+  });
+
+  it("checks capacity once the booking is confirmed", () => {
+    const tentative = booking("b", "tentative");
+    expect(findBookingConflicts(tentative, false)).toEqual([]);
+    const confirmed: Assignment = { ...tentative, status: "confirmed" };
+    expect(findBookingConflicts(confirmed, false).map((a) => a.id)).toEqual([
+      "a",
+    ]);
+  });
+
+  it("checks unconfirmed bookings when tentative ones block", () => {
+    expect(needsCapacity(booking("b", "tentative"), true)).toBe(true);
+    expect(
+      findBookingConflicts(booking("b", "tentative"), true).map((a) => a.id),
+    ).toEqual(["a"]);
+  });
+});
@@ -0,0 +1,56 @@
+import { Assignment, BookingStatus } from "./types";
+
+export const BOOKING_STATUS_LABELS: Record<BookingStatus, string> = {
+  requested: "Requested",
+  tentative: "Tentative",
+  confirmed: "Confirmed",
+};
+
+/** Least to most certain, the order pickers list them in */
+export const BOOKING_STATUSES: BookingStatus[] = [
+  "requested",
+  "tentative",
+  "confirmed",
+];
+
+export function getBookingStatus(
+  assignment?: Pick<Assignment, "status"> | null,
+): BookingStatus {
+  return assignment?.status ?? "confirmed";
+}
+
+export function isConfirmed(
+  assignment?: Pick<Assignment, "status"> | null,
+): boolean {
+  return getBookingStatus(assignment) === "confirmed";
+}
+
+/**
+ * The bookings that count against capacity. Requested and tentative ones only
+ * do when `tentativeBlocks` is on; otherwise they may overlap anything.
+ */
+export function blockingAssignments(
+  assignments: Assignment[],
+  tentativeBlocks: boolean,
+): Assignment[] {
+  return tentativeBlocks ? assignments : assignments.filter(isConfirmed);
+}
+
+/**
+ * Whether a booking being saved has to fit in the member's capacity.
+ * Confirmed ones always do, including one just changed to confirmed.
+ */
+export function needsCapacity(
+  booking: Pick<Assignment, "status">,
+  tentativeBlocks: boolean,
+): boolean {
+  return tentativeBlocks || isConfirmed(booking);
+}
+
+/** Read a status typed as a label or key; blank means confirmed */
+export function parseBookingStatus(text: string): BookingStatus | undefined {
+  const needle = text.trim().toLowerCase();
+  return BOOKING_STATUSES.find(
+    (s) => s === needle || BOOKING_STATUS_LABELS[s].toLowerCase() === needle,
+  );
+}
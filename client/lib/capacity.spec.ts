@@ -0,0 +1,163 @@
+import { describe, it, expect } from "vitest";
+import {
+  countWorkingDays,
+  findOverCapacity,
+  findOverbooked,
+  isAvailableDay,
+  isMemberWorkingDay,
+  normalizeAllocation,
+} from "./capacity";
+import { parseDate } from "./dateUtils";
+import { Assignment, Member, TimeOff } from "./types";
+
+function booking(
+  id: string,
+  startDate: string,
+  endDate: string,
+  allocation: number,
+): Assignment {
+  return {
+    id,
+    memberId: "m-1",
+    projectId: "p-1",
+    startDate,
+    endDate,
+    allocation,
+  };
+}
+
+describe("findOverbooked", () => {
+  it("allows two half-time bookings on the same days", () => {
+    const existing = [booking("a", "2025-03-03", "2025-03-14", 50)];
+    expect(findOverbooked(existing, "2025-03-03", "2025-03-14", 50)).toEqual(
+      [],
+    );
+  });
+
+  it("flags bookings that push the summed load over 100%", () => {
+    const existing = [
+      booking("a", "2025-03-03", "2025-03-07", 50),
+      booking("b", "2025-03-06", "2025-03-14", 50),
+    ];
+    const result = findOverbooked(existing, "2025-03-10", "2025-03-12", 60);
+    expect(result.map((a) => a.id)).toEqual(["b"]);
+  });
+
+  it("ignores bookings outside the requested range", () => {
+    const existing = [booking("a", "2025-03-03", "2025-03-07", 100)];
+    expect(findOverbooked(existing, "2025-03-08", "2025-03-09", 100)).toEqual(
+      [],
+    );
+  });
+});
+
+describe("member capacity", () => {
+  const contractor: Member = {
+    id: "m-1",
+    name: "Dana",
+    role: "Contractor",
+    teamId: "t-1",
+    hoursPerWeek: 24,
+    workingDays: [1, 2, 3],
+  };
+
+  it("counts only the member's working days", () => {
+    // 2025-03-03 is a Monday
+    expect(
+      countWorkingDays(
+        contractor,
+        parseDate("2025-03-03"),
+        parseDate("2025-03-09"),
+      ),
+    ).toBe(3);
+    expect(
+      countWorkingDays(null, parseDate("2025-03-03"), parseDate("2025-03-09")),
+    ).toBe(5);
+  });
+
+  it("does not flag overlaps that fall on days off", () => {
+    const existing = [booking("a", "2025-03-06", "2025-03-07", 100)];
+    const result = findOverbooked(
+      existing,
+      "2025-03-03",
+      "2025-03-07",
+      100,
+      (date) => isMemberWorkingDay(contractor, date),
+    );
+    expect(result).toEqual([]);
+  });
+
+  it("loads each bar against the member's own days", () => {
+    // Overlapping Thursday and Friday, which the contractor doesn't work
+    const late = [
+      booking("a", "2025-03-03", "2025-03-07", 100),
+      booking("b", "2025-03-06", "2025-03-07", 100),
+    ];
+    expect(findOverCapacity(contractor, late)).toEqual([]);
+    expect(findOverCapacity(null, late).map((a) => a.id)).toEqual(["a", "b"]);
+    const early = [...late, booking("c", "2025-03-05", "2025-03-05", 50)];
+    expect(findOverCapacity(contractor, early).map((a) => a.id)).toEqual([
+      "a",
+      "c",
+    ]);
+  });
+});
+
+describe("time off", () => {
+  const member: Member = { id: "m-1", name: "Ana", role: "", teamId: "t-1" };
+  const timeOff: TimeOff[] = [
+    {
+      id: "h",
+      type: "holiday",
+      label: "New Year",
+      startDate: "2025-01-01",
+      endDate: "2025-01-01",
+    },
+    {
+      id: "v",
+      type: "vacation",
+      label: "Trip",
+      startDate: "2025-01-06",
+      endDate: "2025-01-07",
+      memberId: "m-2",
+    },
+    {
+      id: "t",
+      type: "holiday",
+      label: "Offsite",
+      startDate: "2025-01-08",
+      endDate: "2025-01-08",
+      teamId: "t-1",
+    },
+  ];
+
+  it("applies company and team holidays but not other members' leave", () => {
+    expect(isAvailableDay(member, parseDate("2025-01-01"), timeOff)).toBe(
+      false,
+    );
+    expect(isAvailableDay(member, parseDate("2025-01-06"), timeOff)).toBe(true);
+    expect(isAvailableDay(member, parseDate("2025-01-08"), timeOff)).toBe(
+      false,
+    );
+  });
+
+  it("skips leave when counting working days", () => {
+    // Wed 2025-01-01 .. Fri 2025-01-10: 8 weekdays, minus two holidays
+    expect(
+      countWorkingDays(
+        member,
+        parseDate("2025-01-01"),
+        parseDate("2025-01-10"),
+        timeOff,
+      ),
+    ).toBe(6);
+  });
+});
+
+describe("normalizeAllocation", () => {
+  it("clamps to the 1-100 range", () => {
+    expect(normalizeAllocation(0)).toBe(1);
+    expect(normalizeAllocation(150)).toBe(100);
+    expect(normalizeAllocation(NaN)).toBe(100);
+  });
+});
@@ -0,0 +1,208 @@
+import { Assignment, Member, TimeOff } from "./types";
+import { parseDate, dateToString, addDays } from "./dateUtils";
+
+/** Allocation (in percent) of a full-time booking */
+export const FULL_ALLOCATION = 100;
+
+export const DEFAULT_HOURS_PER_WEEK = 40;
+export const DEFAULT_WORKING_DAYS = [1, 2, 3, 4, 5];
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/** Weekdays (0 = Sunday) on which a member works, sorted Monday first */
+export function getWorkingDays(member?: Member | null): number[] {
+  const days = member?.workingDays?.length
+    ? member.workingDays
+    : DEFAULT_WORKING_DAYS;
+  return [...days].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7));
+}
+
+/** Open roles are booked like members but stand for unstaffed demand */
+export function isPlaceholder(member?: Member | null): boolean {
+  return Boolean(member?.placeholder);
+}
+
+export function getHoursPerWeek(member?: Member | null): number {
+  return member?.hoursPerWeek ?? DEFAULT_HOURS_PER_WEEK;
+}
+
+/** Hours available on one working day, spreading the week evenly */
+export function getHoursPerDay(member?: Member | null): number {
+  return getHoursPerWeek(member) / getWorkingDays(member).length;
+}
+
+export function isMemberWorkingDay(
+  member: Member | null | undefined,
+  date: Date,
+): boolean {
+  return getWorkingDays(member).includes(date.getDay());
+}
+
+/** Whether a time-off entry covers the given member (or everyone, if company-wide) */
+export function timeOffAppliesTo(
+  entry: TimeOff,
+  member: Member | null | undefined,
+): boolean {
+  if (entry.memberId) return entry.memberId === member?.id;
+  if (entry.teamId) return entry.teamId === member?.teamId;
+  return true;
+}
+
+/** Time-off entries relevant to a member, including team and company holidays */
+export function getMemberTimeOff(
+  member: Member | null | undefined,
+  timeOff: TimeOff[],
+): TimeOff[] {
+  return timeOff.filter((t) => timeOffAppliesTo(t, member));
+}
+
+/** Entries from `timeOff` that overlap [startDate..endDate] */
+export function findTimeOffOverlaps(
+  timeOff: TimeOff[],
+  startDate: string,
+  endDate: string,
+): TimeOff[] {
+  return timeOff.filter(
+    (t) => t.startDate <= endDate && startDate <= t.endDate,
+  );
+}
+
+/** A working day for the member that is not covered by leave or a holiday */
+export function isAvailableDay(
+  member: Member | null | undefined,
+  date: Date,
+  timeOff: TimeOff[] = [],
+): boolean {
+  if (!isMemberWorkingDay(member, date)) return false;
+  const day = dateToString(date);
+  return !timeOff.some(
+    (t) =>
+      t.startDate <= day && day <= t.endDate && timeOffAppliesTo(t, member),
+  );
+}
+
+/**
+ * Number of the member's working days in [start..end] (inclusive), skipping
+ * any leave or holidays in `timeOff`
+ */
+export function countWorkingDays(
+  member: Member | null | undefined,
+  start: Date,
+  end: Date,
+  timeOff: TimeOff[] = [],
+): number {
+  let count = 0;
+  for (let d = start; d <= end; d = addDays(d, 1)) {
+    if (isAvailableDay(member, d, timeOff)) count++;
+  }
+  return count;
+}
+
+/** True when the member works something other than a standard 40h Mon-Fri week */
+export function hasCustomCapacity(member?: Member | null): boolean {
+  const days = getWorkingDays(member);
+  return (
+    getHoursPerWeek(member) !== DEFAULT_HOURS_PER_WEEK ||
+    days.join() !== DEFAULT_WORKING_DAYS.join()
+  );
+}
+
+/** Short label such as "24h/wk · Mon, Tue, Wed" */
+export function formatCapacity(member?: Member | null): string {
+  const days = getWorkingDays(member);
+  const dayLabel =
+    days.join() === DEFAULT_WORKING_DAYS.join()
+      ? "Mon–Fri"
+      : days.map((d) => WEEKDAY_LABELS[d]).join(", ");
+  return `${getHoursPerWeek(member)}h/wk · ${dayLabel}`;
+}
+
+/** Clamp a user-entered allocation into the 1-100 percent range */
+export function normalizeAllocation(value: number): number {
+  if (!Number.isFinite(value)) return FULL_ALLOCATION;
+  return Math.min(FULL_ALLOCATION, Math.max(1, Math.round(value)));
+}
+
+/**
+ * Given the existing assignments of one member, return those that would push
+ * the member's summed load above capacity if a new booking of `allocation`
+ * percent were added for [startDate..endDate]. Only assignments covering an
+ * over-booked working day are returned; days the member does not work are
+ * never counted.
+ */
+export function findOverbooked(
+  existing: Assignment[],
+  startDate: string,
+  endDate: string,
+  allocation: number,
+  isWorkingDay: (date: Date) => boolean = () => true,
+): Assignment[] {
+  const overlapping = existing.filter(
+    (a) => a.startDate <= endDate && startDate <= a.endDate,
+  );
+  if (overlapping.length === 0) return [];
+
+  const conflicting = new Set<string>();
+  const last = parseDate(endDate);
+  for (let d = parseDate(startDate); d <= last; d = addDays(d, 1)) {
+    if (!isWorkingDay(d)) continue;
+    const day = dateToString(d);
+    const covering = overlapping.filter(
+      (a) => a.startDate <= day && day <= a.endDate,
+    );
+    const load = covering.reduce((sum, a) => sum + a.allocation, allocation);
+    if (load > FULL_ALLOCATION) {
+      for (const a of covering) conflicting.add(a.id);
+    }
+  }
+  return overlapping.filter((a) => conflicting.has(a.id));
+}
+
+/**
+ * The member's bookings that are over capacity on some day they are available
+ * to work. Allocations are shares of the member's own hours, so a part-timer
+ * is full at 100% of their week; overlaps on their days off don't count.
+ */
+export function findOverCapacity(
+  member: Member | null | undefined,
+  assignments: Assignment[],
+  timeOff: TimeOff[] = [],
+): Assignment[] {
+  if (assignments.length === 0) return [];
+  const start = assignments.reduce(
+    (min, a) => (a.startDate < min ? a.startDate : min),
+    assignments[0].startDate,
+  );
+  const end = assignments.reduce(
+    (max, a) => (a.endDate > max ? a.endDate : max),
+    assignments[0].endDate,
+  );
+  return findOverbooked(assignments, start, end, 0, (date) =>
+    isAvailableDay(member, date, timeOff),
+  );
+}
+
+/**
+ * Hours the member is booked in [start..end]: each assignment contributes its
+ * allocation of the member's daily hours on every available day it covers
+ */
+export function bookedHours(
+  member: Member | null | undefined,
+  assignments: Assignment[],
+  start: Date,
+  end: Date,
+  timeOff: TimeOff[] = [],
+): number {
+  const perDay = getHoursPerDay(member);
+  let hours = 0;
+  for (const a of assignments) {
+    const from =
+      parseDate(a.startDate) > start ? parseDate(a.startDate) : start;
+    const to = parseDate(a.endDate) < end ? parseDate(a.endDate) : end;
+    if (from > to) continue;
+    hours +=
+      (countWorkingDays(member, from, to, timeOff) * perDay * a.allocation) /
+      FULL_ALLOCATION;
+  }
+  return hours;
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { budgetBurn, projectCost } from "./costs";
+import { Assignment, Member } from "./types";
+
+const members: Member[] = [
+  {
+    id: "ann",
+    name: "Ann",
+    role: "Dev",
+    teamId: "t-1",
+    costRate: 50,
+    billRate: 120,
+  },
+  { id: "bo", name: "Bo", role: "QA", teamId: "t-1" },
+];
+
+function booking(
+  memberId: string,
+  allocation: number,
+  status?: Assignment["status"],
+): Assignment {
+  return {
+    id: `${memberId}-${allocation}`,
+    memberId,
+    projectId: "p-1",
+    // Monday to Friday: five working days of 8h
+    startDate: "2025-03-03",
+    endDate: "2025-03-07",
+    allocation,
+    status,
+  };
+}
+
+describe("projectCost", () => {
+  it("prices booked hours at each member's rates", () => {
+    const cost = projectCost("p-1", [booking("ann", 50)], members);
+    expect(cost).toMatchObject({ hours: 20, cost: 1000, billable: 2400 });
+  });
+
+  it("tracks tentative spend and hours without a rate", () => {
+    const cost = projectCost(
+      "p-1",
+      [booking("ann", 100, "tentative"), booking("bo", 100)],
+      members,
+    );
+    expect(cost).toMatchObject({
+      hours: 80,
+      cost: 2000,
+      tentativeCost: 2000,
+      unpricedHours: 40,
+    });
+  });
+
+  it("skips leave", () => {
+    const cost = projectCost("p-1", [booking("ann", 100)], members, [
+      {
+        id: "off",
+        memberId: "ann",
+        startDate: "2025-03-07",
+        endDate: "2025-03-07",
+        type: "vacation",
+        label: "Day off",
+      },
+    ]);
+    expect(cost.hours).toBe(32);
+  });
+});
+
+describe("budgetBurn", () => {
+  it("flags planned cost above the budget", () => {
+    expect(budgetBurn(1200, 1000)).toEqual({
+      percent: 120,
+      remaining: -200,
+      over: true,
+    });
+    expect(budgetBurn(500, undefined)).toBeNull();
+  });
+});
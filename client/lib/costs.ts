@@ -0,0 +1,84 @@
+import { Assignment, Member, TimeOff } from "./types";
+import { bookedHours } from "./capacity";
+import { isConfirmed } from "./bookings";
+import { parseDate } from "./dateUtils";
+
+/** Rates and budgets carry no currency of their own; this is how they show */
+export const CURRENCY = "USD";
+
+const moneyFormat = new Intl.NumberFormat(undefined, {
+  style: "currency",
+  currency: CURRENCY,
+  maximumFractionDigits: 0,
+});
+
+export function formatMoney(amount: number): string {
+  return moneyFormat.format(amount);
+}
+
+/** Hours the booking takes on the member's available days */
+export function assignmentHours(
+  assignment: Assignment,
+  member: Member | undefined,
+  timeOff: TimeOff[] = [],
+): number {
+  return bookedHours(
+    member,
+    [assignment],
+    parseDate(assignment.startDate),
+    parseDate(assignment.endDate),
+    timeOff,
+  );
+}
+
+export interface ProjectCost {
+  hours: number;
+  cost: number; // at the members' cost rates
+  billable: number; // at the members' bill rates
+  tentativeCost: number; // part of `cost` from unconfirmed bookings
+  unpricedHours: number; // booked by members without a cost rate
+}
+
+/** Planned cost of everything booked on a project */
+export function projectCost(
+  projectId: string,
+  assignments: Assignment[],
+  members: Member[],
+  timeOff: TimeOff[] = [],
+): ProjectCost {
+  const total: ProjectCost = {
+    hours: 0,
+    cost: 0,
+    billable: 0,
+    tentativeCost: 0,
+    unpricedHours: 0,
+  };
+  for (const a of assignments) {
+    if (a.projectId !== projectId) continue;
+    const member = members.find((m) => m.id === a.memberId);
+    const hours = assignmentHours(a, member, timeOff);
+    const cost = hours * (member?.costRate ?? 0);
+    total.hours += hours;
+    total.cost += cost;
+    total.billable += hours * (member?.billRate ?? 0);
+    if (!isConfirmed(a)) total.tentativeCost += cost;
+    if (member?.costRate === undefined) total.unpricedHours += hours;
+  }
+  return total;
+}
+
+export interface BudgetBurn {
+  percent: number; // planned cost as a share of the budget
+  remaining: number; // negative once over budget
+  over: boolean;
+}
+
+/** How much of the budget the planned cost uses, or null without a budget */
+export function budgetBurn(cost: number, budget?: number): BudgetBurn | null {
+  if (!budget) return null;
+  return {
+    percent: Math.round((cost / budget) * 100),
+    remaining: budget - cost,
+    over: cost > budget,
+  };
+}
@@ -1,11 +1,18 @@
+import { FULL_ALLOCATION, normalizeAllocation } from "./capacity";
+import { parseSkills } from "./skills";
+import { parseBookingStatus } from "./bookings";
+import { BookingStatus, MemberSkill } from "./types";
+
 export interface CsvMemberRow {
   name: string;
   role: string;
   team: string; // may be empty
+  skills: MemberSkill[]; // empty when the file has no Skills column
 }
 
 /**
- * Parse a CSV string with columns: Name, Role, Team (optional).
+ * Parse a CSV string with columns: Name, Role, Team (optional) and Skills
+ * (optional, matched by header name, e.g. "React:expert; Kafka:beginner").
  * Handles quoted fields and trims whitespace.
  */
 export function parseMemberCsv(text: string): CsvMemberRow[] {
@@ -24,12 +31,14 @@ export function parseMemberCsv(text: string): CsvMemberRow[] {
   let nameIdx = 0;
   let roleIdx = 1;
   let teamIdx = 2;
+  let skillsIdx = -1;
 
   if (hasHeader) {
     const headers = splitCsvLine(lines[0]).map((h) => h.toLowerCase().trim());
     nameIdx = headers.findIndex((h) => h === "name");
     roleIdx = headers.findIndex((h) => h === "role");
     teamIdx = headers.findIndex((h) => h === "team");
+    skillsIdx = headers.findIndex((h) => h === "skills");
     if (nameIdx === -1) nameIdx = 0;
     if (roleIdx === -1) roleIdx = 1;
   }
@@ -41,7 +50,8 @@ export function parseMemberCsv(text: string): CsvMemberRow[] {
     if (!name) continue; // skip empty name rows
     const role = (cols[roleIdx] ?? "").trim();
     const team = teamIdx >= 0 ? (cols[teamIdx] ?? "").trim() : "";
-    rows.push({ name, role, team });
+    const skills = skillsIdx >= 0 ? parseSkills(cols[skillsIdx] ?? "") : [];
+    rows.push({ name, role, team, skills });
   }
 
   return rows;
@@ -53,8 +63,19 @@ export interface CsvProjectRow {
   name: string;
   description: string;
   color: string;
+  // Lifecycle columns, empty when the file does not have them
+  status: string;
+  priority: string;
+  client: string;
+  owner: string; // member name
+  startDate: string;
+  endDate: string;
 }
 
+/**
+ * Parse a CSV string with columns: Name, Description, Color, and optionally
+ * Status, Priority, Client, Owner, Start, End (matched by header name).
+ */
 export function parseProjectCsv(text: string): CsvProjectRow[] {
   const lines = text.split(/\r?\n/).filter((l) => l.trim().length > 0);
   if (lines.length === 0) return [];
@@ -69,6 +90,14 @@ export function parseProjectCsv(text: string): CsvProjectRow[] {
   let nameIdx = 0;
   let descIdx = 1;
   let colorIdx = 2;
+  const optional = {
+    status: -1,
+    priority: -1,
+    client: -1,
+    owner: -1,
+    startDate: -1,
+    endDate: -1,
+  };
 
   if (hasHeader) {
     const headers = splitCsvLine(lines[0]).map((h) => h.toLowerCase().trim());
@@ -76,16 +105,39 @@ export function parseProjectCsv(text: string): CsvProjectRow[] {
     descIdx = headers.findIndex((h) => h === "description");
     colorIdx = headers.findIndex((h) => h === "color");
     if (nameIdx === -1) nameIdx = 0;
+    optional.status = headers.indexOf("status");
+    optional.priority = headers.indexOf("priority");
+    optional.client = headers.findIndex(
+      (h) => h === "client" || h === "customer",
+    );
+    optional.owner = headers.indexOf("owner");
+    optional.startDate = headers.findIndex(
+      (h) => h === "start" || h === "start date",
+    );
+    optional.endDate = headers.findIndex(
+      (h) => h === "end" || h === "end date",
+    );
   }
 
+  const cell = (cols: string[], idx: number) =>
+    idx >= 0 ? (cols[idx] ?? "").trim() : "";
+
   const rows: CsvProjectRow[] = [];
   for (const line of dataLines) {
     const cols = splitCsvLine(line);
     const name = (cols[nameIdx] ?? "").trim();
     if (!name) continue;
-    const description = descIdx >= 0 ? (cols[descIdx] ?? "").trim() : "";
-    const color = colorIdx >= 0 ? (cols[colorIdx] ?? "").trim() : "";
-    rows.push({ name, description, color });
+    rows.push({
+      name,
+      description: cell(cols, descIdx),
+      color: cell(cols, colorIdx),
+      status: cell(cols, optional.status),
+      priority: cell(cols, optional.priority),
+      client: cell(cols, optional.client),
+      owner: cell(cols, optional.owner),
+      startDate: cell(cols, optional.startDate),
+      endDate: cell(cols, optional.endDate),
+    });
   }
   return rows;
 }
@@ -99,6 +151,8 @@ export interface CsvScheduleRow {
   project: string;
   startDate: string;
   endDate: string;
+  allocation: number;
+  status?: BookingStatus;
 }
 
 export function parseScheduleCsv(text: string): CsvScheduleRow[] {
@@ -117,7 +171,9 @@ export function parseScheduleCsv(text: string): CsvScheduleRow[] {
     roleIdx = 2,
     projectIdx = 3,
     startIdx = 4,
-    endIdx = 5;
+    endIdx = 5,
+    allocationIdx = 6,
+    statusIdx = 7;
 
   if (hasHeader) {
     const headers = splitCsvLine(lines[0]).map((h) => h.toLowerCase().trim());
@@ -131,6 +187,10 @@ export function parseScheduleCsv(text: string): CsvScheduleRow[] {
     endIdx = headers.findIndex(
       (h) => h === "end date" || h === "enddate" || h === "end",
     );
+    allocationIdx = headers.findIndex(
+      (h) => h === "allocation" || h === "allocation %" || h === "%",
+    );
+    statusIdx = headers.findIndex((h) => h === "status");
     if (memberIdx === -1) memberIdx = 0;
     if (projectIdx === -1) projectIdx = 3;
     if (startIdx === -1) startIdx = 4;
@@ -147,7 +207,25 @@ export function parseScheduleCsv(text: string): CsvScheduleRow[] {
     if (!member || !project || !startDate || !endDate) continue;
     const team = teamIdx >= 0 ? (cols[teamIdx] ?? "").trim() : "";
     const role = roleIdx >= 0 ? (cols[roleIdx] ?? "").trim() : "";
-    rows.push({ member, team, role, project, startDate, endDate });
+    // Allocation is optional; blank or unparsable values mean full-time
+    const rawAllocation =
+      allocationIdx >= 0 ? (cols[allocationIdx] ?? "").trim() : "";
+    const parsedAllocation = parseFloat(rawAllocation.replace("%", ""));
+    const allocation = Number.isFinite(parsedAllocation)
+      ? normalizeAllocation(parsedAllocation)
+      : FULL_ALLOCATION;
+    const status =
+      statusIdx >= 0 ? parseBookingStatus(cols[statusIdx] ?? "") : undefined;
+    rows.push({
+      member,
+      team,
+      role,
+      project,
+      startDate,
+      endDate,
+      allocation,
+      status,
+    });
   }
   return rows;
 }
@@ -129,6 +129,41 @@ export function getTimelineColumns(
   return columns;
 }
 
+/**
+ * Move a date by `steps` presses of the schedule's back/forward buttons:
+ * a week per step by day, four weeks by week, a quarter by month and half a
+ * year by quarter, as getTimelineColumns does for its offset
+ */
+export function stepTimeline(
+  granularity: Granularity,
+  date: Date,
+  steps: number,
+): Date {
+  if (granularity === "day") return addDays(date, steps * 7);
+  if (granularity === "week") return addWeeks(date, steps * 4);
+  if (granularity === "month") return addMonths(date, steps * 3);
+  return addQuarters(date, steps * 2);
+}
+
+/** Columns covering exactly [start .. end], for a fixed view such as a share link */
+export function getColumnsBetween(
+  granularity: Granularity,
+  start: Date,
+  end: Date,
+): Date[] {
+  const [first, step] =
+    granularity === "day"
+      ? [start, addDays]
+      : granularity === "week"
+        ? [startOfWeek(start, { weekStartsOn: 1 }), addWeeks]
+        : granularity === "month"
+          ? [startOfMonth(start), addMonths]
+          : [startOfQuarter(start), addQuarters];
+  const columns: Date[] = [];
+  for (let d = first; d <= end; d = step(d, 1)) columns.push(d);
+  return columns;
+}
+
 /** Get the width of one column in days, for positioning bars */
 export function columnWidthInDays(
   granularity: Granularity,
@@ -145,6 +180,11 @@ export function columnWidthInDays(
   return differenceInDays(next, colDate);
 }
 
+/** Last day covered by a column */
+export function getColumnEnd(colDate: Date, granularity: Granularity): Date {
+  return addDays(colDate, columnWidthInDays(granularity, colDate) - 1);
+}
+
 /** Format column label based on granularity */
 export function formatColumnLabel(
   date: Date,
@@ -165,13 +205,11 @@ export function formatGroupLabel(date: Date, granularity: Granularity): string {
 }
 
 /** Calculate pixel position and width of an assignment bar across any granularity */
-export function getBarPosition(
-  startDate: Date,
-  endDate: Date,
+function pixelsPerDay(
   columns: Date[],
   colWidth: number,
   granularity: Granularity,
-): { left: number; width: number } {
+): number {
   const timelineStart = columns[0];
   // Total days the timeline spans
   const lastCol = columns[columns.length - 1];
@@ -181,17 +219,37 @@ export function getBarPosition(
   );
   const totalTimelineDays = differenceInDays(timelineEndDate, timelineStart);
   const totalTimelineWidth = columns.length * colWidth;
-  const pixelsPerDay = totalTimelineWidth / totalTimelineDays;
+  return totalTimelineWidth / totalTimelineDays;
+}
 
-  const offsetDays = differenceInDays(startDate, timelineStart);
+export function getBarPosition(
+  startDate: Date,
+  endDate: Date,
+  columns: Date[],
+  colWidth: number,
+  granularity: Granularity,
+): { left: number; width: number } {
+  const perDay = pixelsPerDay(columns, colWidth, granularity);
+  const offsetDays = differenceInDays(startDate, columns[0]);
   const durationDays = differenceInDays(endDate, startDate) + 1;
 
   return {
-    left: offsetDays * pixelsPerDay,
-    width: Math.max(durationDays * pixelsPerDay, 8),
+    left: offsetDays * perDay,
+    width: Math.max(durationDays * perDay, 8),
   };
 }
 
+/** Horizontal position of the middle of a single day, for point markers */
+export function getDatePosition(
+  date: Date,
+  columns: Date[],
+  colWidth: number,
+  granularity: Granularity,
+): number {
+  const perDay = pixelsPerDay(columns, colWidth, granularity);
+  return (differenceInDays(date, columns[0]) + 0.5) * perDay;
+}
+
 export function dayOffset(start: Date, date: Date): number {
   return differenceInDays(date, start);
 }
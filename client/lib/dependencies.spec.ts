@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import {
+  cascadeShifts,
+  earliestStart,
+  shiftAssignment,
+  wouldCreateCycle,
+} from "./dependencies";
+import { Assignment, Dependency } from "./types";
+
+const booking = (
+  id: string,
+  startDate: string,
+  endDate: string,
+): Assignment => ({
+  id,
+  memberId: "m-1",
+  projectId: "p-1",
+  startDate,
+  endDate,
+  allocation: 100,
+});
+
+const link = (
+  predecessorId: string,
+  successorId: string,
+  type: Dependency["type"] = "finish_to_start",
+): Dependency => ({
+  id: `${predecessorId}-${successorId}`,
+  predecessorId,
+  successorId,
+  type,
+});
+
+const design = booking("design", "2025-03-03", "2025-03-07");
+const build = booking("build", "2025-03-10", "2025-03-21");
+const test = booking("test", "2025-03-24", "2025-03-28");
+
+describe("earliestStart", () => {
+  it("waits for the predecessor to finish, or to start for start-to-start", () => {
+    expect(earliestStart(link("design", "build"), design)).toBe("2025-03-08");
+    expect(
+      earliestStart(link("design", "build", "start_to_start"), design),
+    ).toBe("2025-03-03");
+  });
+});
+
+describe("shiftAssignment", () => {
+  it("keeps the length of the assignment", () => {
+    expect(shiftAssignment(build, "2025-03-12")).toMatchObject({
+      startDate: "2025-03-12",
+      endDate: "2025-03-23",
+    });
+  });
+});
+
+describe("wouldCreateCycle", () => {
+  const links = [link("design", "build"), link("build", "test")];
+
+  it("rejects links that loop back", () => {
+    expect(wouldCreateCycle(links, "test", "design")).toBe(true);
+    expect(wouldCreateCycle(links, "design", "design")).toBe(true);
+    expect(wouldCreateCycle(links, "design", "test")).toBe(false);
+  });
+});
+
+describe("cascadeShifts", () => {
+  const links = [link("design", "build"), link("build", "test")];
+  const all = [design, build, test];
+
+  it("pushes the whole chain when a predecessor slips", () => {
+    const slipped = { ...design, endDate: "2025-03-12" };
+    const moved = cascadeShifts(design, slipped, all, links);
+    expect(moved).toEqual([
+      { ...build, startDate: "2025-03-15", endDate: "2025-03-26" },
+      { ...test, startDate: "2025-03-29", endDate: "2025-04-02" },
+    ]);
+  });
+
+  it("pulls successors in when a predecessor finishes early", () => {
+    const early = { ...design, endDate: "2025-03-05" };
+    const moved = cascadeShifts(design, early, all, links);
+    expect(moved.map((a) => a.startDate)).toEqual(["2025-03-08", "2025-03-22"]);
+  });
+
+  it("leaves finish-to-start successors alone when only the start moves", () => {
+    const later = { ...design, startDate: "2025-03-04" };
+    expect(cascadeShifts(design, later, all, links)).toEqual([]);
+  });
+
+  it("does not pull a successor before another predecessor allows", () => {
+    const review = booking("review", "2025-03-03", "2025-03-09");
+    const early = { ...design, endDate: "2025-03-05" };
+    const moved = cascadeShifts(
+      design,
+      early,
+      [...all, review],
+      [link("design", "build"), link("review", "build")],
+    );
+    expect(moved).toEqual([]);
+  });
+});
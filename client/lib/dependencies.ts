@@ -0,0 +1,124 @@
+import { Assignment, Dependency, DependencyType } from "./types";
+import {
+  addDays,
+  dateToString,
+  differenceInDays,
+  parseDate,
+} from "./dateUtils";
+
+export const DEPENDENCY_TYPE_LABELS: Record<DependencyType, string> = {
+  finish_to_start: "Finish → start",
+  start_to_start: "Start → start",
+};
+
+function shiftDate(date: string, days: number): string {
+  return dateToString(addDays(parseDate(date), days));
+}
+
+/** The predecessor date a link hangs off: its end, or its start for SS */
+function anchorDate(dependency: Dependency, predecessor: Assignment): string {
+  return dependency.type === "start_to_start"
+    ? predecessor.startDate
+    : predecessor.endDate;
+}
+
+/** Days between the anchor and the successor's start the link requires */
+function minimumGap(dependency: Dependency): number {
+  return dependency.type === "start_to_start" ? 0 : 1;
+}
+
+/** Earliest start the link allows its successor */
+export function earliestStart(
+  dependency: Dependency,
+  predecessor: Assignment,
+): string {
+  return shiftDate(anchorDate(dependency, predecessor), minimumGap(dependency));
+}
+
+/** Move an assignment to begin on `startDate`, keeping its length */
+export function shiftAssignment(
+  assignment: Assignment,
+  startDate: string,
+): Assignment {
+  const days = differenceInDays(
+    parseDate(startDate),
+    parseDate(assignment.startDate),
+  );
+  return {
+    ...assignment,
+    startDate,
+    endDate: shiftDate(assignment.endDate, days),
+  };
+}
+
+/** Whether linking predecessor → successor would close a loop */
+export function wouldCreateCycle(
+  dependencies: Dependency[],
+  predecessorId: string,
+  successorId: string,
+): boolean {
+  const seen = new Set<string>();
+  const stack = [successorId];
+  while (stack.length > 0) {
+    const id = stack.pop();
+    if (id === predecessorId) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    for (const d of dependencies)
+      if (d.predecessorId === id) stack.push(d.successorId);
+  }
+  return false;
+}
+
+/**
+ * Reschedule everything downstream of an assignment that moved from `before`
+ * to `after`. Each successor keeps the gap it had to its predecessor (never
+ * less than the link allows) and still respects its other predecessors.
+ * Returns the successors that moved, with their new dates.
+ */
+export function cascadeShifts(
+  before: Assignment,
+  after: Assignment,
+  assignments: Assignment[],
+  dependencies: Dependency[],
+): Assignment[] {
+  const original = new Map(assignments.map((a) => [a.id, a]));
+  original.set(before.id, before);
+  const current = new Map(original);
+  current.set(after.id, after);
+  const moved = new Map<string, Assignment>();
+
+  const queue = [after.id];
+  // Links are kept acyclic, but stored data might not be
+  let budget = dependencies.length * Math.max(assignments.length, 1);
+  while (queue.length > 0 && budget-- > 0) {
+    const predecessorId = queue.shift();
+    for (const link of dependencies) {
+      if (link.predecessorId !== predecessorId) continue;
+      const successor = current.get(link.successorId);
+      if (!successor || successor.id === after.id) continue;
+
+      const gap = Math.max(
+        differenceInDays(
+          parseDate(original.get(successor.id).startDate),
+          parseDate(anchorDate(link, original.get(predecessorId))),
+        ),
+        minimumGap(link),
+      );
+      let start = shiftDate(anchorDate(link, current.get(predecessorId)), gap);
+      for (const other of dependencies) {
+        const otherPredecessor = current.get(other.predecessorId);
+        if (other.successorId !== successor.id || !otherPredecessor) continue;
+        const earliest = earliestStart(other, otherPredecessor);
+        if (earliest > start) start = earliest;
+      }
+      if (start === successor.startDate) continue;
+
+      const shifted = shiftAssignment(successor, start);
+      current.set(shifted.id, shifted);
+      moved.set(shifted.id, shifted);
+      queue.push(shifted.id);
+    }
+  }
+  return [...moved.values()];
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import {
+  forecast,
+  forecastBalance,
+  forecastBuckets,
+  forecastGap,
+  forecastTotals,
+} from "./forecast";
+import { parseDate } from "./dateUtils";
+import { Assignment, Member, Team } from "./types";
+
+const teams: Team[] = [
+  { id: "web", name: "Web", color: "#6366f1" },
+  { id: "ops", name: "Ops", color: "#10b981" },
+];
+const members: Member[] = [
+  { id: "ann", name: "Ann", role: "Dev", teamId: "web" },
+  { id: "bo", name: "Bo", role: "Dev", teamId: "web", hoursPerWeek: 20 },
+  { id: "cy", name: "Cy", role: "SRE", teamId: "ops" },
+  { id: "hire", name: "Hire", role: "Dev", teamId: "web", placeholder: true },
+];
+
+function booking(memberId: string, allocation = 100): Assignment {
+  return {
+    id: `${memberId}-${allocation}`,
+    memberId,
+    projectId: "p-1",
+    startDate: "2025-03-03",
+    endDate: "2025-03-09",
+    allocation,
+  };
+}
+
+// Weeks of 3 and 10 March 2025
+const columns = [parseDate("2025-03-03"), parseDate("2025-03-10")];
+
+describe("forecastBuckets", () => {
+  it("starts at the bucket holding today", () => {
+    const buckets = forecastBuckets(columns, "week", parseDate("2025-03-12"));
+    expect(buckets.map((b) => b.label)).toEqual(["Mar 10"]);
+    expect(buckets[0].end).toEqual(parseDate("2025-03-16"));
+  });
+});
+
+describe("forecast", () => {
+  const buckets = forecastBuckets(columns, "week", parseDate("2025-03-01"));
+  const assignments = [booking("ann"), booking("bo"), booking("hire", 50)];
+
+  it("counts available and booked FTE per team", () => {
+    const [web, ops] = forecast(
+      "team",
+      teams,
+      members,
+      assignments,
+      [],
+      buckets,
+    );
+    expect(web).toMatchObject({ label: "Web", headcount: 2 });
+    expect(web.cells[0]).toEqual({ available: 1.5, booked: 2 });
+    expect(forecastBalance(web.cells[0])).toBe("shortfall");
+    expect(forecastGap(web.cells[1])).toBe(1.5);
+    expect(forecastBalance(ops.cells[0])).toBe("surplus");
+  });
+
+  it("groups by role and adds up the totals", () => {
+    const rows = forecast("role", teams, members, assignments, [], buckets);
+    expect(rows.map((r) => r.label)).toEqual(["Dev", "SRE"]);
+    expect(forecastTotals(rows, buckets.length)[0]).toEqual({
+      available: 2.5,
+      booked: 2,
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { format } from "date-fns";
+import { Assignment, Member, Team, TimeOff } from "./types";
+import { countWorkingDays, getHoursPerDay, isPlaceholder } from "./capacity";
+import { Granularity, dateToString, getColumnEnd } from "./dateUtils";
+import { memberLoad } from "./utilization";
+
+export type ForecastGroupBy = "team" | "role";
+export type ForecastGranularity = Exclude<Granularity, "day">;
+
+export const FORECAST_GRANULARITY_LABELS: Record<ForecastGranularity, string> =
+  {
+    week: "Weekly",
+    month: "Monthly",
+    quarter: "Quarterly",
+  };
+
+export interface ForecastBucket {
+  start: Date;
+  end: Date;
+  label: string;
+}
+
+function bucketLabel(start: Date, granularity: ForecastGranularity): string {
+  if (granularity === "week") return format(start, "MMM d");
+  if (granularity === "month") return format(start, "MMM yyyy");
+  return `Q${Math.ceil((start.getMonth() + 1) / 3)} ${format(start, "yyyy")}`;
+}
+
+/** Timeline columns from the one holding `today` onwards */
+export function forecastBuckets(
+  columns: Date[],
+  granularity: ForecastGranularity,
+  today = new Date(),
+): ForecastBucket[] {
+  const from = dateToString(today);
+  return columns
+    .map((start) => ({
+      start,
+      end: getColumnEnd(start, granularity),
+      label: bucketLabel(start, granularity),
+    }))
+    .filter((b) => dateToString(b.end) >= from);
+}
+
+/** Hours a standard full-time person works in [start..end] */
+export function fullTimeHours(start: Date, end: Date): number {
+  return countWorkingDays(null, start, end) * getHoursPerDay(null);
+}
+
+export interface ForecastCell {
+  available: number; // FTE of members, after leave
+  booked: number; // FTE of bookings, open roles included
+}
+
+export interface ForecastRow {
+  key: string;
+  label: string;
+  color?: string;
+  headcount: number; // real members, open roles left out
+  cells: ForecastCell[];
+}
+
+export type ForecastBalance = "shortfall" | "balanced" | "surplus";
+
+export const NO_ROLE = "No role";
+
+/**
+ * Available vs booked FTE of each team or role in each bucket. Open roles
+ * bring demand without capacity, so unstaffed work shows up as a shortfall.
+ */
+export function forecast(
+  groupBy: ForecastGroupBy,
+  teams: Team[],
+  members: Member[],
+  assignments: Assignment[],
+  timeOff: TimeOff[],
+  buckets: ForecastBucket[],
+): ForecastRow[] {
+  const groups =
+    groupBy === "team"
+      ? teams.map((t) => ({
+          key: t.id,
+          label: t.name,
+          color: t.color,
+          members: members.filter((m) => m.teamId === t.id),
+        }))
+      : [...new Set(members.map((m) => m.role.trim() || NO_ROLE))]
+          .sort((a, b) => a.localeCompare(b))
+          .map((role) => ({
+            key: role,
+            label: role,
+            color: undefined,
+            members: members.filter((m) => (m.role.trim() || NO_ROLE) === role),
+          }));
+
+  return groups
+    .filter((g) => g.members.length > 0)
+    .map((g) => ({
+      key: g.key,
+      label: g.label,
+      color: g.color,
+      headcount: g.members.filter((m) => !isPlaceholder(m)).length,
+      cells: buckets.map((b) => {
+        const fte = fullTimeHours(b.start, b.end);
+        const cell = { available: 0, booked: 0 };
+        if (!fte) return cell;
+        for (const m of g.members) {
+          const load = memberLoad(m, assignments, timeOff, b.start, b.end);
+          if (!isPlaceholder(m)) cell.available += load.capacity / fte;
+          cell.booked += load.booked / fte;
+        }
+        return cell;
+      }),
+    }));
+}
+
+/** All rows added up per bucket */
+export function forecastTotals(
+  rows: ForecastRow[],
+  bucketCount: number,
+): ForecastCell[] {
+  return Array.from({ length: bucketCount }, (_, i) => ({
+    available: rows.reduce((sum, r) => sum + r.cells[i].available, 0),
+    booked: rows.reduce((sum, r) => sum + r.cells[i].booked, 0),
+  }));
+}
+
+/** Spare FTE in the cell, rounded to a tenth; negative means a shortfall */
+export function forecastGap(cell: ForecastCell): number {
+  return Math.round((cell.available - cell.booked) * 10) / 10;
+}
+
+export function forecastBalance(cell: ForecastCell): ForecastBalance {
+  const gap = forecastGap(cell);
+  if (gap < 0) return "shortfall";
+  return gap > 0 ? "surplus" : "balanced";
+}
+
+export function formatFte(value: number): string {
+  return Number(value.toFixed(1)).toString();
+}
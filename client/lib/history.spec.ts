@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import {
+  EMPTY_HISTORY,
+  HISTORY_LIMIT,
+  changedFields,
+  pushHistory,
+  rebaseHistory,
+  redoHistory,
+  undoHistory,
+  workspaceChanges,
+} from "./history";
+import { WorkspaceData } from "./types";
+
+function workspaceWith(teamName: string): WorkspaceData {
+  return {
+    teams: [{ id: "t-1", name: teamName, color: "#000000" }],
+    members: [],
+    projects: [],
+    assignments: [],
+    timeOff: [],
+    baselines: [],
+    dependencies: [],
+  };
+}
+
+describe("history", () => {
+  it("undoes to the recorded snapshot and redoes back", () => {
+    const before = workspaceWith("Design");
+    const after = workspaceWith("Product");
+    const history = pushHistory(EMPTY_HISTORY, {
+      label: "Edit team",
+      snapshot: before,
+    });
+
+    const undone = undoHistory(history, after);
+    expect(undone.snapshot).toBe(before);
+    expect(undone.history.past).toHaveLength(0);
+    expect(undone.history.future[0].label).toBe("Edit team");
+
+    const redone = redoHistory(undone.history, before);
+    expect(redone.snapshot).toBe(after);
+    expect(redone.history.past).toHaveLength(1);
+    expect(redone.history.future).toHaveLength(0);
+  });
+
+  it("returns null when there is nothing to undo or redo", () => {
+    expect(undoHistory(EMPTY_HISTORY, workspaceWith("A"))).toBeNull();
+    expect(redoHistory(EMPTY_HISTORY, workspaceWith("A"))).toBeNull();
+  });
+
+  it("drops the redo stack on a new edit and caps the undo stack", () => {
+    let history = EMPTY_HISTORY;
+    for (let i = 0; i <= HISTORY_LIMIT; i++) {
+      history = pushHistory(history, {
+        label: `Step ${i}`,
+        snapshot: workspaceWith(`${i}`),
+      });
+    }
+    expect(history.past).toHaveLength(HISTORY_LIMIT);
+    expect(history.past[0].label).toBe("Step 1");
+
+    const undone = undoHistory(history, workspaceWith("latest")).history;
+    const next = pushHistory(undone, {
+      label: "Other",
+      snapshot: workspaceWith("x"),
+    });
+    expect(next.future).toHaveLength(0);
+  });
+});
+
+describe("undo after someone else's edit", () => {
+  const member = { id: "m-1", name: "Ana", role: "Dev", teamId: "t-1" };
+  const before = workspaceWith("Design");
+  const mine = { ...before, members: [member] };
+  // Meanwhile another planner adds a team
+  const remote: WorkspaceData = {
+    ...mine,
+    teams: [...mine.teams, { id: "t-2", name: "Ops", color: "#111111" }],
+  };
+
+  it("undoes only the local step and keeps the remote change", () => {
+    const history = pushHistory(EMPTY_HISTORY, {
+      label: "Add member",
+      snapshot: before,
+    });
+    const rebased = rebaseHistory(history, mine, remote);
+    const undone = undoHistory(rebased, remote);
+    expect(undone.snapshot.teams.map((t) => t.id)).toEqual(["t-1", "t-2"]);
+    expect(undone.snapshot.members).toEqual([]);
+    expect(workspaceChanges(remote, undone.snapshot)).toEqual([
+      { collection: "members", id: "m-1", before: member, after: undefined },
+    ]);
+  });
+
+  it("drops steps that touched what the other planner changed", () => {
+    const renamed = workspaceWith("Product");
+    let history = pushHistory(EMPTY_HISTORY, {
+      label: "Add member",
+      snapshot: before,
+    });
+    history = pushHistory(history, { label: "Rename team", snapshot: mine });
+    const current = { ...renamed, members: [member] };
+    const theirs = {
+      ...current,
+      teams: [{ ...current.teams[0], name: "R&D" }],
+    };
+    const rebased = rebaseHistory(history, current, theirs);
+    expect(rebased.past).toEqual([]);
+    expect(undoHistory(rebased, theirs)).toBeNull();
+  });
+
+  it("keeps the history when nothing changed remotely", () => {
+    const history = pushHistory(EMPTY_HISTORY, {
+      label: "Add member",
+      snapshot: before,
+    });
+    expect(rebaseHistory(history, mine, mine)).toBe(history);
+  });
+
+  it("lists only the fields a step changed", () => {
+    expect(
+      changedFields(
+        { id: "a", startDate: "2025-03-03", note: "x" },
+        { id: "a", startDate: "2025-03-10" },
+      ),
+    ).toEqual(["startDate", "note"]);
+  });
+});
@@ -0,0 +1,182 @@
+import { WorkspaceCollection, WorkspaceData } from "./types";
+
+/** Oldest steps are dropped once the undo stack grows past this */
+export const HISTORY_LIMIT = 50;
+
+export interface HistoryEntry {
+  label: string; // e.g. "Delete member"
+  snapshot: WorkspaceData; // workspace as it was before the step
+}
+
+export interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+
+/** Record a new step; anything that could be redone is discarded */
+export function pushHistory(
+  history: HistoryState,
+  entry: HistoryEntry,
+): HistoryState {
+  return {
+    past: [...history.past, entry].slice(-HISTORY_LIMIT),
+    future: [],
+  };
+}
+
+/**
+ * Step back one entry. `current` is kept on the redo stack under the same
+ * label so redo can bring it back.
+ */
+export function undoHistory(
+  history: HistoryState,
+  current: WorkspaceData,
+): { history: HistoryState; snapshot: WorkspaceData } | null {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    history: {
+      past: history.past.slice(0, -1),
+      future: [...history.future, { label: entry.label, snapshot: current }],
+    },
+    snapshot: entry.snapshot,
+  };
+}
+
+export function redoHistory(
+  history: HistoryState,
+  current: WorkspaceData,
+): { history: HistoryState; snapshot: WorkspaceData } | null {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+  return {
+    history: {
+      past: [...history.past, { label: entry.label, snapshot: current }],
+      future: history.future.slice(0, -1),
+    },
+    snapshot: entry.snapshot,
+  };
+}
+
+type Entity = { id: string };
+
+/** One record that differs between two versions of the workspace */
+export interface WorkspaceChange {
+  collection: WorkspaceCollection;
+  id: string;
+  before?: Entity; // missing when the record was added
+  after?: Entity; // missing when the record was removed
+}
+
+// Parents before the records that point at them
+const COLLECTIONS: WorkspaceCollection[] = [
+  "teams",
+  "members",
+  "projects",
+  "assignments",
+  "timeOff",
+  "baselines",
+  "dependencies",
+];
+
+const byId = (items: Entity[]) => new Map(items.map((item) => [item.id, item]));
+
+/** Records added, changed or removed going from `from` to `to`, parents first */
+export function workspaceChanges(
+  from: WorkspaceData,
+  to: WorkspaceData,
+): WorkspaceChange[] {
+  const changes: WorkspaceChange[] = [];
+  for (const collection of COLLECTIONS) {
+    const before = byId(from[collection]);
+    const after = byId(to[collection]);
+    for (const [id, item] of before) {
+      const next = after.get(id);
+      if (!next || JSON.stringify(item) !== JSON.stringify(next))
+        changes.push({ collection, id, before: item, after: next });
+    }
+    for (const [id, item] of after) {
+      if (!before.has(id)) changes.push({ collection, id, after: item });
+    }
+  }
+  return changes;
+}
+
+/** Fields whose value differs between two versions of a record */
+export function changedFields(before: object, after: object): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...keys].filter(
+    (key) =>
+      JSON.stringify(before[key] ?? null) !==
+      JSON.stringify(after[key] ?? null),
+  );
+}
+
+/** Whether the records both lists share come in a different order */
+export function isReordered(from: Entity[], to: Entity[]): boolean {
+  const order = (items: Entity[], others: Entity[]) => {
+    const ids = new Set(others.map((item) => item.id));
+    return items
+      .filter((item) => ids.has(item.id))
+      .map((item) => item.id)
+      .join();
+  };
+  return order(from, to) !== order(to, from);
+}
+
+function applyChanges(
+  data: WorkspaceData,
+  changes: WorkspaceChange[],
+): WorkspaceData {
+  let result = data;
+  for (const { collection, id, after } of changes) {
+    const items: Entity[] = result[collection];
+    const exists = items.some((item) => item.id === id);
+    const next = !after
+      ? items.filter((item) => item.id !== id)
+      : exists
+        ? items.map((item) => (item.id === id ? after : item))
+        : [...items, after];
+    result = { ...result, [collection]: next };
+  }
+  return result;
+}
+
+/**
+ * Bring the undo and redo stacks up to date with a newer copy of the plan
+ * from the server. `local` is the workspace the stacks were recorded
+ * against. Snapshots take on every record that changed remotely, so
+ * stepping back or forward never reverts someone else's edit. A step that
+ * itself changed one of those records can no longer be replayed, so it is
+ * dropped along with every step behind it.
+ */
+export function rebaseHistory(
+  history: HistoryState,
+  local: WorkspaceData,
+  remote: WorkspaceData,
+): HistoryState {
+  const remoteChanges = workspaceChanges(local, remote);
+  if (remoteChanges.length === 0) return history;
+  const key = (c: WorkspaceChange) => `${c.collection}/${c.id}`;
+  const changed = new Set(remoteChanges.map(key));
+
+  // Each entry's step leads from its snapshot to the next one up the stack,
+  // or to `local` for the top entry
+  const rebase = (stack: HistoryEntry[]) => {
+    let keepFrom = 0;
+    stack.forEach((entry, i) => {
+      const next = stack[i + 1]?.snapshot ?? local;
+      if (
+        workspaceChanges(entry.snapshot, next).some((c) => changed.has(key(c)))
+      )
+        keepFrom = i + 1;
+    });
+    return stack.slice(keepFrom).map((entry) => ({
+      ...entry,
+      snapshot: applyChanges(entry.snapshot, remoteChanges),
+    }));
+  };
+  return { past: rebase(history.past), future: rebase(history.future) };
+}
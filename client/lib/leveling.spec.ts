@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { LevelingMove, applyMoves, fitMoves, levelResources } from "./leveling";
+import { findBookingConflicts } from "./store";
+import { Assignment, Member, Project } from "./types";
+
+const members: Member[] = [
+  {
+    id: "ann",
+    name: "Ann",
+    role: "Dev",
+    teamId: "web",
+    skills: [{ name: "React", level: "expert" }],
+  },
+  {
+    id: "bo",
+    name: "Bo",
+    role: "Dev",
+    teamId: "web",
+    skills: [{ name: "React", level: "advanced" }],
+  },
+  {
+    id: "cy",
+    name: "Cy",
+    role: "Dev",
+    teamId: "web",
+    skills: [{ name: "React", level: "expert" }],
+  },
+];
+
+const projects: Project[] = [
+  { id: "big", name: "Big", color: "#000", description: "", priority: "high" },
+  {
+    id: "small",
+    name: "Small",
+    color: "#fff",
+    description: "",
+    startDate: "2025-03-01",
+    endDate: "2025-03-31",
+  },
+];
+
+function booking(
+  id: string,
+  projectId: string,
+  startDate: string,
+  endDate: string,
+  memberId = "ann",
+): Assignment {
+  return { id, memberId, projectId, startDate, endDate, allocation: 100 };
+}
+
+describe("levelResources", () => {
+  it("shifts the lower-priority booking later in its window", () => {
+    const assignments = [
+      booking("s", "small", "2025-03-03", "2025-03-07"),
+      booking("b", "big", "2025-03-03", "2025-03-07"),
+    ];
+    const { moves, unresolved } = levelResources(
+      assignments,
+      members,
+      projects,
+      [],
+      true,
+    );
+    expect(unresolved).toEqual([]);
+    expect(moves).toHaveLength(1);
+    expect(moves[0]).toMatchObject({
+      kind: "shift",
+      assignment: { id: "s" },
+      changes: { startDate: "2025-03-10", endDate: "2025-03-14" },
+    });
+    expect(applyMoves(assignments, moves)[0].startDate).toBe("2025-03-10");
+  });
+
+  it("hands the booking to an equally skilled teammate when the window is full", () => {
+    const { moves } = levelResources(
+      [
+        booking("b", "big", "2025-03-03", "2025-03-31"),
+        booking("s", "small", "2025-03-10", "2025-03-14"),
+      ],
+      members,
+      projects,
+      [],
+      true,
+    );
+    // Bo's React is a level below Ann's, so Cy takes it
+    expect(moves).toEqual([
+      expect.objectContaining({
+        kind: "reassign",
+        changes: {
+          memberId: "cy",
+          startDate: "2025-03-10",
+          endDate: "2025-03-14",
+        },
+      }),
+    ]);
+  });
+
+  it("reports clashes it cannot fix and leaves tentative work alone", () => {
+    const loner: Member[] = [members[0]];
+    const full = [
+      booking("b", "big", "2025-03-03", "2025-03-31"),
+      booking("s", "small", "2025-03-10", "2025-03-14"),
+    ];
+    expect(
+      levelResources(full, loner, projects, [], true).unresolved.map(
+        (a) => a.id,
+      ),
+    ).toEqual(["s"]);
+    const penciled = [full[0], { ...full[1], status: "tentative" as const }];
+    expect(levelResources(penciled, loner, projects, [], false)).toEqual({
+      moves: [],
+      unresolved: [],
+    });
+  });
+});
+
+describe("fitMoves", () => {
+  beforeEach(() => {
+    const items = new Map<string, string>();
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => items.set(key, value),
+      removeItem: (key: string) => items.delete(key),
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  // Shift X off Bo, then hand Y to Bo in the room that frees up
+  const x = booking("x", "small", "2025-03-03", "2025-03-07", "bo");
+  const y = {
+    ...booking("y", "big", "2025-03-03", "2025-03-07"),
+    allocation: 50,
+  };
+  const shiftX: LevelingMove = {
+    assignment: x,
+    kind: "shift",
+    changes: { memberId: "bo", startDate: "2025-03-10", endDate: "2025-03-14" },
+  };
+  const reassignY: LevelingMove = {
+    assignment: y,
+    kind: "reassign",
+    changes: { memberId: "bo", startDate: y.startDate, endDate: y.endDate },
+  };
+  const conflicts = (moved: Assignment, plan: Assignment[]) =>
+    findBookingConflicts(moved, false, plan);
+
+  it("applies a whole proposal", () => {
+    const { applied, clashing } = fitMoves(
+      [x, y],
+      [shiftX, reassignY],
+      conflicts,
+    );
+    expect(applied).toEqual([shiftX, reassignY]);
+    expect(clashing).toEqual([]);
+  });
+
+  it("leaves out moves that relied on a move turned down", () => {
+    const { applied, clashing } = fitMoves([x, y], [reassignY], conflicts);
+    expect(applied).toEqual([]);
+    expect(clashing).toEqual([reassignY]);
+  });
+});
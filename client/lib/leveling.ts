@@ -0,0 +1,197 @@
+import { Assignment, Member, Project, TimeOff } from "./types";
+import {
+  bookedHours,
+  countWorkingDays,
+  findOverbooked,
+  isAvailableDay,
+  isPlaceholder,
+} from "./capacity";
+import { blockingAssignments, isConfirmed } from "./bookings";
+import { PROJECT_PRIORITY_LABELS, getProjectPriority } from "./projects";
+import { meetsRequirements } from "./skills";
+import { SLOT_HORIZON_DAYS, earliestSlot } from "./slots";
+import { differenceInDays, parseDate } from "./dateUtils";
+
+export type LevelingMoveKind = "shift" | "reassign";
+
+export interface LevelingMove {
+  assignment: Assignment; // as it is now
+  kind: LevelingMoveKind;
+  changes: Pick<Assignment, "memberId" | "startDate" | "endDate">;
+}
+
+export interface LevelingProposal {
+  moves: LevelingMove[];
+  // Over-allocated bookings with nowhere to go; they stay where they are
+  unresolved: Assignment[];
+}
+
+const PRIORITY_ORDER = Object.keys(PROJECT_PRIORITY_LABELS);
+
+/**
+ * Propose moves that clear every over-allocation findConflicts would flag.
+ * Bookings are settled one by one, high-priority projects and confirmed work
+ * first; a booking that clashes with what is already settled is shifted later
+ * inside its project's window or, failing that, handed to a free teammate
+ * with the same skills. Moves are checked against the plan as it stands when
+ * they are applied in order, so each one passes findConflicts.
+ */
+export function levelResources(
+  assignments: Assignment[],
+  members: Member[],
+  projects: Project[],
+  timeOff: TimeOff[],
+  tentativeBlocks: boolean,
+): LevelingProposal {
+  const projectOf = (a: Assignment) =>
+    projects.find((p) => p.id === a.projectId);
+  const memberOf = (id: string) => members.find((m) => m.id === id);
+  const rank = (a: Assignment) =>
+    -PRIORITY_ORDER.indexOf(getProjectPriority(projectOf(a)));
+  const queue = [...blockingAssignments(assignments, tentativeBlocks)].sort(
+    (a, b) =>
+      rank(a) - rank(b) ||
+      Number(isConfirmed(b)) - Number(isConfirmed(a)) ||
+      a.startDate.localeCompare(b.startDate) ||
+      a.id.localeCompare(b.id),
+  );
+
+  // The plan as it will be when moves are applied in order
+  const current = new Map(queue.map((a) => [a.id, a]));
+  const settled = new Set<string>();
+  const bookingsOf = (memberId: string, except: string, onlySettled = false) =>
+    [...current.values()].filter(
+      (a) =>
+        a.memberId === memberId &&
+        a.id !== except &&
+        (!onlySettled || settled.has(a.id)),
+    );
+  const clashes = (
+    member: Member | undefined,
+    existing: Assignment[],
+    a: Pick<Assignment, "startDate" | "endDate" | "allocation">,
+  ) =>
+    findOverbooked(existing, a.startDate, a.endDate, a.allocation, (date) =>
+      isAvailableDay(member, date, timeOff),
+    ).length > 0;
+
+  // Later in the project's window, keeping the number of working days
+  const shiftInWindow = (
+    a: Assignment,
+    member: Member | undefined,
+  ): LevelingMove | null => {
+    if (!member) return null;
+    const project = projectOf(a);
+    const days = countWorkingDays(
+      member,
+      parseDate(a.startDate),
+      parseDate(a.endDate),
+      timeOff,
+    );
+    const notBefore =
+      project?.startDate && project.startDate > a.startDate
+        ? project.startDate
+        : a.startDate;
+    const horizon = project?.endDate
+      ? differenceInDays(parseDate(project.endDate), parseDate(notBefore))
+      : SLOT_HORIZON_DAYS;
+    if (days === 0 || horizon < 0) return null;
+    const slot = earliestSlot(
+      member,
+      bookingsOf(member.id, a.id),
+      timeOff,
+      days,
+      notBefore,
+      a.allocation,
+      horizon,
+    );
+    return slot ? { assignment: a, kind: "shift", changes: slot } : null;
+  };
+
+  // Same dates, given to the least booked free teammate with the same skills
+  const reassignToTeammate = (
+    a: Assignment,
+    member: Member | undefined,
+  ): LevelingMove | null => {
+    if (!member || isPlaceholder(member)) return null;
+    const start = parseDate(a.startDate);
+    const end = parseDate(a.endDate);
+    const load = (m: Member) =>
+      bookedHours(m, bookingsOf(m.id, a.id), start, end, timeOff);
+    const teammate = members
+      .filter(
+        (m) =>
+          m.id !== member.id &&
+          m.teamId === member.teamId &&
+          !isPlaceholder(m) &&
+          meetsRequirements(m, member.skills ?? []) &&
+          !clashes(m, bookingsOf(m.id, a.id), a),
+      )
+      .sort((x, y) => load(x) - load(y))[0];
+    if (!teammate) return null;
+    return {
+      assignment: a,
+      kind: "reassign",
+      changes: {
+        memberId: teammate.id,
+        startDate: a.startDate,
+        endDate: a.endDate,
+      },
+    };
+  };
+
+  const moves: LevelingMove[] = [];
+  const unresolved: Assignment[] = [];
+  for (const a of queue) {
+    const member = memberOf(a.memberId);
+    settled.add(a.id);
+    if (!clashes(member, bookingsOf(a.memberId, a.id, true), a)) continue;
+
+    const move = shiftInWindow(a, member) ?? reassignToTeammate(a, member);
+    if (move) {
+      moves.push(move);
+      current.set(a.id, { ...a, ...move.changes });
+    } else {
+      unresolved.push(a);
+    }
+  }
+  return { moves, unresolved };
+}
+
+/**
+ * Apply the moves a planner accepted, in proposal order, leaving out those
+ * that no longer fit. A proposal plans each move against the plan with all
+ * earlier moves made, so a later move may rely on an earlier one that was
+ * turned down. `conflicts` checks a moved booking against the plan built so
+ * far.
+ */
+export function fitMoves(
+  assignments: Assignment[],
+  moves: LevelingMove[],
+  conflicts: (moved: Assignment, plan: Assignment[]) => Assignment[],
+): { applied: LevelingMove[]; clashing: LevelingMove[] } {
+  let plan = assignments;
+  const applied: LevelingMove[] = [];
+  const clashing: LevelingMove[] = [];
+  for (const move of moves) {
+    const moved = { ...move.assignment, ...move.changes };
+    if (conflicts(moved, plan).length > 0) {
+      clashing.push(move);
+      continue;
+    }
+    applied.push(move);
+    plan = applyMoves(plan, [move]);
+  }
+  return { applied, clashing };
+}
+
+/** The assignments with the given moves applied, for previews */
+export function applyMoves(
+  assignments: Assignment[],
+  moves: LevelingMove[],
+): Assignment[] {
+  const changes = new Map(moves.map((m) => [m.assignment.id, m.changes]));
+  return assignments.map((a) =>
+    changes.has(a.id) ? { ...a, ...changes.get(a.id) } : a,
+  );
+}
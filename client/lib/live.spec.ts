@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { Presence, staleFields } from "@shared/api";
+import { otherPeers, peerColor, peerInitials, peersByAssignment } from "./live";
+
+const ann: Presence = { clientId: "a", name: "Ann Lee", view: "schedule" };
+const bo: Presence = { clientId: "b", name: "", dragging: "x", editing: "y" };
+const cy: Presence = { clientId: "c", name: "Cy", editing: "x" };
+
+describe("presence", () => {
+  it("leaves this tab out", () => {
+    expect(otherPeers([ann, bo], "a")).toEqual([bo]);
+  });
+
+  it("shows who is busy with each assignment, dragging first", () => {
+    const busy = peersByAssignment([bo, cy]);
+    expect(busy.get("x")).toBe(bo);
+    expect(busy.get("y")).toBe(bo);
+    expect(busy.has("z")).toBe(false);
+  });
+
+  it("labels peers", () => {
+    expect(peerInitials(ann)).toBe("AL");
+    expect(peerInitials(bo)).toBe("S");
+    expect(peerColor(ann)).toBe(peerColor({ ...ann, view: "teams" }));
+  });
+});
+
+describe("staleFields", () => {
+  it("names the fields someone else changed", () => {
+    const stored = { id: "1", startDate: "2025-03-10", allocation: 50 };
+    expect(
+      staleFields(stored, { startDate: "2025-03-03", allocation: 50 }),
+    ).toEqual(["startDate"]);
+  });
+
+  it("treats missing and null as the same", () => {
+    expect(staleFields({ id: "1" }, { status: null })).toEqual([]);
+    expect(
+      staleFields({ id: "1", status: "tentative" }, { status: null }),
+    ).toEqual(["status"]);
+  });
+});
@@ -0,0 +1,75 @@
+import { LiveChange, Presence } from "@shared/api";
+import { CLIENT_ID } from "./api";
+
+/** What this tab reports about itself, besides who it is */
+export type PresenceState = Omit<Presence, "clientId" | "name">;
+
+interface LiveHandlers {
+  /** The channel (re)connected; the server has forgotten this tab's presence */
+  onOpen: () => void;
+  /** Another tab wrote to the workspace */
+  onChange: (change: LiveChange) => void;
+  onPresence: (everyone: Presence[]) => void;
+}
+
+/**
+ * Open this tab's live channel. The browser reconnects on its own after a
+ * dropped connection. Returns a function that closes the channel.
+ */
+export function connectLive(handlers: LiveHandlers): () => void {
+  const params = new URLSearchParams({ clientId: CLIENT_ID });
+  const source = new EventSource(`/api/live?${params}`);
+  const data = (e: Event) => JSON.parse((e as MessageEvent<string>).data);
+  source.addEventListener("open", handlers.onOpen);
+  source.addEventListener("change", (e) => handlers.onChange(data(e)));
+  source.addEventListener("presence", (e) => handlers.onPresence(data(e)));
+  return () => source.close();
+}
+
+/** Everyone connected except this tab */
+export function otherPeers(
+  everyone: Presence[],
+  clientId = CLIENT_ID,
+): Presence[] {
+  return everyone.filter((p) => p.clientId !== clientId);
+}
+
+/**
+ * Who is dragging or editing each assignment, keyed by assignment id. Dragging
+ * wins over editing when two peers touch the same bar.
+ */
+export function peersByAssignment(peers: Presence[]): Map<string, Presence> {
+  const busy = new Map<string, Presence>();
+  for (const p of peers) if (p.editing) busy.set(p.editing, p);
+  for (const p of peers) if (p.dragging) busy.set(p.dragging, p);
+  return busy;
+}
+
+export function peerName(peer: Presence): string {
+  return peer.name.trim() || "Someone";
+}
+
+export function peerInitials(peer: Presence): string {
+  return peerName(peer)
+    .split(" ")
+    .map((n) => n[0])
+    .join("")
+    .toUpperCase()
+    .slice(0, 2);
+}
+
+const PEER_COLORS = [
+  "#e11d48",
+  "#d97706",
+  "#059669",
+  "#0284c7",
+  "#7c3aed",
+  "#db2777",
+];
+
+/** A colour per tab, stable for as long as it stays connected */
+export function peerColor(peer: Presence): string {
+  let hash = 0;
+  for (const ch of peer.clientId) hash = (hash * 31 + ch.charCodeAt(0)) | 0;
+  return PEER_COLORS[Math.abs(hash) % PEER_COLORS.length];
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import {
+  finalMilestone,
+  findLateAssignments,
+  formatMilestone,
+  nextMilestone,
+} from "./milestones";
+import { Assignment, Project } from "./types";
+
+const project: Project = {
+  id: "p-1",
+  name: "Mobile App v2",
+  color: "#f59e0b",
+  description: "",
+  milestones: [
+    { id: "ms-3", name: "Launch", date: "2025-06-02" },
+    { id: "ms-1", name: "Kickoff", date: "2025-03-03" },
+    { id: "ms-2", name: "Beta", date: "2025-05-05" },
+  ],
+};
+
+const booking = (
+  id: string,
+  projectId: string,
+  endDate: string,
+): Assignment => ({
+  id,
+  memberId: "m-1",
+  projectId,
+  startDate: "2025-03-03",
+  endDate,
+  allocation: 100,
+});
+
+describe("finalMilestone", () => {
+  it("picks the latest date regardless of entry order", () => {
+    expect(finalMilestone(project)?.name).toBe("Launch");
+    expect(
+      finalMilestone({ ...project, milestones: undefined }),
+    ).toBeUndefined();
+  });
+});
+
+describe("nextMilestone", () => {
+  it("finds the first milestone on or after today", () => {
+    expect(nextMilestone(project, "2025-04-01")?.name).toBe("Beta");
+    expect(nextMilestone(project, "2025-05-05")?.name).toBe("Beta");
+    expect(nextMilestone(project, "2025-07-01")).toBeUndefined();
+  });
+});
+
+describe("findLateAssignments", () => {
+  it("flags the project's assignments ending after its final milestone", () => {
+    const late = findLateAssignments(project, [
+      booking("a-1", "p-1", "2025-06-02"),
+      booking("a-2", "p-1", "2025-06-03"),
+      booking("a-3", "p-2", "2025-09-01"),
+    ]);
+    expect(late.map((a) => a.id)).toEqual(["a-2"]);
+  });
+
+  it("flags nothing when the project has no milestones", () => {
+    expect(
+      findLateAssignments({ ...project, milestones: [] }, [
+        booking("a-1", "p-1", "2030-01-01"),
+      ]),
+    ).toEqual([]);
+  });
+});
+
+describe("formatMilestone", () => {
+  it("shows the name with a short date", () => {
+    expect(formatMilestone(project.milestones[0])).toBe("Launch (Jun 2)");
+  });
+});
@@ -0,0 +1,39 @@
+import { format } from "date-fns";
+import { Assignment, Milestone, Project } from "./types";
+import { parseDate } from "./dateUtils";
+
+/** Milestones earliest first; ties keep their entered order */
+export function sortMilestones(milestones: Milestone[] = []): Milestone[] {
+  return [...milestones].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/** The last milestone of the project, which its work should finish by */
+export function finalMilestone(project: Project): Milestone | undefined {
+  const sorted = sortMilestones(project.milestones);
+  return sorted[sorted.length - 1];
+}
+
+/** The first milestone on or after `today`, for at-a-glance summaries */
+export function nextMilestone(
+  project: Project,
+  today: string,
+): Milestone | undefined {
+  return sortMilestones(project.milestones).find((m) => m.date >= today);
+}
+
+/** Assignments on the project that end after its final milestone */
+export function findLateAssignments(
+  project: Project,
+  assignments: Assignment[],
+): Assignment[] {
+  const final = finalMilestone(project);
+  if (!final) return [];
+  return assignments.filter(
+    (a) => a.projectId === project.id && a.endDate > final.date,
+  );
+}
+
+/** "Launch (Mar 3)" */
+export function formatMilestone(milestone: Milestone): string {
+  return `${milestone.name} (${format(parseDate(milestone.date), "MMM d")})`;
+}
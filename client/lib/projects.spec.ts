@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import {
+  getProjectStatus,
+  isProjectFilterActive,
+  listClients,
+  matchesProjectFilters,
+  parseProjectStatus,
+} from "./projects";
+import { Project } from "./types";
+
+function project(overrides: Partial<Project>): Project {
+  return {
+    id: "p-1",
+    name: "Website",
+    color: "#000000",
+    description: "",
+    ...overrides,
+  };
+}
+
+describe("project lifecycle defaults", () => {
+  it("treats projects saved without a status as active", () => {
+    expect(getProjectStatus(project({}))).toBe("active");
+    expect(matchesProjectFilters(project({}), { statuses: ["active"] })).toBe(
+      true,
+    );
+  });
+});
+
+describe("matchesProjectFilters", () => {
+  const acme = project({
+    status: "on_hold",
+    priority: "high",
+    ownerId: "m-1",
+    client: "Acme",
+  });
+
+  it("requires every set criterion to match", () => {
+    expect(
+      matchesProjectFilters(acme, {
+        statuses: ["on_hold", "proposed"],
+        priorities: ["high"],
+        ownerId: "m-1",
+        client: "Acme",
+      }),
+    ).toBe(true);
+    expect(matchesProjectFilters(acme, { ownerId: "m-2" })).toBe(false);
+    expect(matchesProjectFilters(acme, { statuses: ["active"] })).toBe(false);
+  });
+
+  it("matches everything when no criteria are set", () => {
+    expect(isProjectFilterActive({ statuses: [] })).toBe(false);
+    expect(matchesProjectFilters(acme, {})).toBe(true);
+  });
+});
+
+describe("parseProjectStatus", () => {
+  it("accepts labels and keys in any case", () => {
+    expect(parseProjectStatus("On Hold")).toBe("on_hold");
+    expect(parseProjectStatus("done")).toBe("done");
+    expect(parseProjectStatus("paused")).toBeUndefined();
+  });
+});
+
+describe("listClients", () => {
+  it("lists distinct client names alphabetically", () => {
+    expect(
+      listClients([
+        project({ client: "Globex" }),
+        project({ client: "Acme" }),
+        project({ client: "Globex" }),
+        project({}),
+      ]),
+    ).toEqual(["Acme", "Globex"]);
+  });
+});
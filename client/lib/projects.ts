@@ -0,0 +1,90 @@
+import { Project, ProjectPriority, ProjectStatus } from "./types";
+
+export const PROJECT_STATUS_LABELS: Record<ProjectStatus, string> = {
+  proposed: "Proposed",
+  active: "Active",
+  on_hold: "On hold",
+  done: "Done",
+  cancelled: "Cancelled",
+};
+
+export const PROJECT_STATUS_COLORS: Record<ProjectStatus, string> = {
+  proposed: "bg-sky-500/10 text-sky-700 border-sky-500/30",
+  active: "bg-emerald-500/10 text-emerald-700 border-emerald-500/30",
+  on_hold: "bg-amber-500/10 text-amber-700 border-amber-500/30",
+  done: "bg-muted text-muted-foreground",
+  cancelled: "bg-destructive/10 text-destructive border-destructive/30",
+};
+
+export const PROJECT_PRIORITY_LABELS: Record<ProjectPriority, string> = {
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+};
+
+export function getProjectStatus(project?: Project | null): ProjectStatus {
+  return project?.status ?? "active";
+}
+
+export function getProjectPriority(project?: Project | null): ProjectPriority {
+  return project?.priority ?? "medium";
+}
+
+/** Narrow the schedule or portfolio; empty criteria match everything */
+export interface ProjectFilters {
+  statuses?: ProjectStatus[];
+  priorities?: ProjectPriority[];
+  ownerId?: string;
+  client?: string;
+}
+
+export function isProjectFilterActive(filters: ProjectFilters): boolean {
+  return Boolean(
+    filters.statuses?.length ||
+      filters.priorities?.length ||
+      filters.ownerId ||
+      filters.client,
+  );
+}
+
+export function matchesProjectFilters(
+  project: Project,
+  { statuses, priorities, ownerId, client }: ProjectFilters,
+): boolean {
+  return (
+    (!statuses?.length || statuses.includes(getProjectStatus(project))) &&
+    (!priorities?.length || priorities.includes(getProjectPriority(project))) &&
+    (!ownerId || project.ownerId === ownerId) &&
+    (!client || project.client === client)
+  );
+}
+
+/** Distinct client names, sorted, for filter pickers */
+export function listClients(projects: Project[]): string[] {
+  const clients = new Set(
+    projects.map((p) => p.client?.trim()).filter(Boolean),
+  );
+  return [...clients].sort((a, b) => a.localeCompare(b));
+}
+
+function matchLabel<T extends string>(
+  labels: Record<T, string>,
+  text: string,
+): T | undefined {
+  const needle = text.trim().toLowerCase();
+  if (!needle) return undefined;
+  return (Object.keys(labels) as T[]).find(
+    (key) => key === needle || labels[key].toLowerCase() === needle,
+  );
+}
+
+/** Read a status typed as a label ("On hold") or a key ("on_hold") */
+export function parseProjectStatus(text: string): ProjectStatus | undefined {
+  return matchLabel(PROJECT_STATUS_LABELS, text);
+}
+
+export function parseProjectPriority(
+  text: string,
+): ProjectPriority | undefined {
+  return matchLabel(PROJECT_PRIORITY_LABELS, text);
+}
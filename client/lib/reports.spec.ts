@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import {
+  memberReports,
+  projectHeadcount,
+  reportPeriods,
+  teamReports,
+  toCsv,
+  topOverAllocated,
+} from "./reports";
+import { parseDate } from "./dateUtils";
+import { Assignment, Member, Project, Team } from "./types";
+
+const teams: Team[] = [{ id: "t-1", name: "Web", color: "#6366f1" }];
+const members: Member[] = [
+  { id: "ann", name: "Ann", role: "Dev", teamId: "t-1" },
+  { id: "bo", name: "Bo", role: "Dev", teamId: "t-1" },
+  { id: "hire", name: "Hire", role: "Dev", teamId: "t-1", placeholder: true },
+];
+const projects: Project[] = [
+  { id: "p-1", name: "Atlas", color: "#8b5cf6", description: "" },
+];
+
+function booking(
+  memberId: string,
+  startDate: string,
+  endDate: string,
+  allocation = 100,
+): Assignment {
+  return {
+    id: `${memberId}-${startDate}-${allocation}`,
+    memberId,
+    projectId: "p-1",
+    startDate,
+    endDate,
+    allocation,
+  };
+}
+
+// Monday 3 to Friday 14 March 2025: ten working days
+const start = parseDate("2025-03-03");
+const end = parseDate("2025-03-14");
+
+describe("memberReports", () => {
+  const assignments = [
+    booking("ann", "2025-03-03", "2025-03-14", 50),
+    booking("ann", "2025-03-10", "2025-03-11", 75),
+    booking("bo", "2025-03-03", "2025-03-07"),
+    booking("hire", "2025-03-03", "2025-03-14"),
+  ];
+  const reports = memberReports(members, assignments, [], start, end);
+
+  it("leaves open roles out", () => {
+    expect(reports.map((r) => r.member.id)).toEqual(["ann", "bo"]);
+  });
+
+  it("counts utilization, bench and over-booked days", () => {
+    const [ann, bo] = reports;
+    expect(ann).toMatchObject({
+      utilization: 65,
+      availableDays: 10,
+      benchDays: 0,
+      peak: 125,
+      overDays: 2,
+    });
+    expect(bo).toMatchObject({ utilization: 50, benchDays: 5, overDays: 0 });
+  });
+
+  it("sums members per team and ranks the over-allocated", () => {
+    const [web] = teamReports(teams, reports);
+    expect(web).toMatchObject({
+      headcount: 2,
+      load: { capacity: 160, booked: 92 },
+      benchDays: 5,
+    });
+    expect(topOverAllocated(reports).map((r) => r.member.id)).toEqual(["ann"]);
+  });
+});
+
+describe("projectHeadcount", () => {
+  it("counts distinct people per week", () => {
+    const periods = reportPeriods(start, end);
+    expect(periods.map((p) => p.label)).toEqual(["Mar 3", "Mar 10"]);
+    const points = projectHeadcount(
+      projects,
+      members,
+      [
+        booking("ann", "2025-03-03", "2025-03-14", 50),
+        booking("ann", "2025-03-10", "2025-03-11", 50),
+        booking("bo", "2025-03-03", "2025-03-04"),
+        booking("hire", "2025-03-10", "2025-03-14"),
+      ],
+      periods,
+    );
+    expect(points.map((p) => p.counts["p-1"])).toEqual([2, 1]);
+  });
+
+  it("switches to months for long ranges", () => {
+    const periods = reportPeriods(
+      parseDate("2025-01-15"),
+      parseDate("2025-06-10"),
+    );
+    expect(periods[0]).toMatchObject({ label: "Jan 2025" });
+    expect(periods[0].start).toEqual(parseDate("2025-01-15"));
+    expect(periods[periods.length - 1].end).toEqual(parseDate("2025-06-10"));
+  });
+});
+
+describe("toCsv", () => {
+  it("quotes fields that need it", () => {
+    expect(toCsv(["Name", "Hours"], [["Lee, Ann", 40]])).toBe(
+      'Name,Hours\n"Lee, Ann",40',
+    );
+  });
+});
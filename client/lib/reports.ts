@@ -0,0 +1,183 @@
+import {
+  addMonths,
+  addWeeks,
+  differenceInDays,
+  format,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { Assignment, Member, Project, Team, TimeOff } from "./types";
+import { FULL_ALLOCATION, isAvailableDay, isPlaceholder } from "./capacity";
+import { addDays, dateToString } from "./dateUtils";
+import { escapeCsv } from "./csvImport";
+import { Load, loadPercent, memberLoad } from "./utilization";
+
+export interface MemberReport {
+  member: Member;
+  load: Load;
+  utilization: number | null;
+  availableDays: number; // working days not lost to leave or holidays
+  benchDays: number; // available days without any booking
+  peak: number; // highest daily load, in percent
+  overDays: number; // available days booked above capacity
+}
+
+/**
+ * Per-person numbers over [start..end]. Open roles are demand rather than
+ * people, so they are left out.
+ */
+export function memberReports(
+  members: Member[],
+  assignments: Assignment[],
+  timeOff: TimeOff[],
+  start: Date,
+  end: Date,
+): MemberReport[] {
+  return members
+    .filter((m) => !isPlaceholder(m))
+    .map((member) => {
+      const own = assignments.filter((a) => a.memberId === member.id);
+      let availableDays = 0;
+      let benchDays = 0;
+      let peak = 0;
+      let overDays = 0;
+      for (let d = start; d <= end; d = addDays(d, 1)) {
+        if (!isAvailableDay(member, d, timeOff)) continue;
+        const day = dateToString(d);
+        const booked = own
+          .filter((a) => a.startDate <= day && day <= a.endDate)
+          .reduce((sum, a) => sum + a.allocation, 0);
+        availableDays++;
+        if (booked === 0) benchDays++;
+        if (booked > FULL_ALLOCATION) overDays++;
+        peak = Math.max(peak, booked);
+      }
+      const load = memberLoad(member, own, timeOff, start, end);
+      return {
+        member,
+        load,
+        utilization: loadPercent(load),
+        availableDays,
+        benchDays,
+        peak,
+        overDays,
+      };
+    });
+}
+
+export interface TeamReport {
+  team: Team;
+  headcount: number;
+  load: Load;
+  utilization: number | null;
+  benchDays: number;
+}
+
+/** Member numbers summed per team, skipping teams with nobody in them */
+export function teamReports(
+  teams: Team[],
+  reports: MemberReport[],
+): TeamReport[] {
+  return teams
+    .map((team) => {
+      const own = reports.filter((r) => r.member.teamId === team.id);
+      const load = own.reduce(
+        (sum, r) => ({
+          capacity: sum.capacity + r.load.capacity,
+          booked: sum.booked + r.load.booked,
+        }),
+        { capacity: 0, booked: 0 },
+      );
+      return {
+        team,
+        headcount: own.length,
+        load,
+        utilization: loadPercent(load),
+        benchDays: own.reduce((sum, r) => sum + r.benchDays, 0),
+      };
+    })
+    .filter((t) => t.headcount > 0);
+}
+
+/** People booked above capacity on some day, highest peak first */
+export function topOverAllocated(
+  reports: MemberReport[],
+  limit = 10,
+): MemberReport[] {
+  return reports
+    .filter((r) => r.overDays > 0)
+    .sort((a, b) => b.peak - a.peak || b.overDays - a.overDays)
+    .slice(0, limit);
+}
+
+export interface ReportPeriod {
+  start: Date;
+  end: Date;
+  label: string;
+}
+
+// Ranges longer than this are charted by month instead of by week
+const WEEKLY_LIMIT_DAYS = 16 * 7;
+
+/** Weeks (Monday first) or months covering [start..end], clipped to it */
+export function reportPeriods(start: Date, end: Date): ReportPeriod[] {
+  const monthly = differenceInDays(end, start) > WEEKLY_LIMIT_DAYS;
+  const periods: ReportPeriod[] = [];
+  let from = monthly
+    ? startOfMonth(start)
+    : startOfWeek(start, { weekStartsOn: 1 });
+  while (from <= end) {
+    const next = monthly ? addMonths(from, 1) : addWeeks(from, 1);
+    periods.push({
+      start: from < start ? start : from,
+      end: addDays(next, -1) > end ? end : addDays(next, -1),
+      label: format(from, monthly ? "MMM yyyy" : "MMM d"),
+    });
+    from = next;
+  }
+  return periods;
+}
+
+export interface HeadcountPoint {
+  period: string;
+  counts: Record<string, number>; // project id -> people booked
+}
+
+/** Distinct people booked on each project in each period */
+export function projectHeadcount(
+  projects: Project[],
+  members: Member[],
+  assignments: Assignment[],
+  periods: ReportPeriod[],
+): HeadcountPoint[] {
+  const people = new Set(
+    members.filter((m) => !isPlaceholder(m)).map((m) => m.id),
+  );
+  return periods.map((period) => {
+    const from = dateToString(period.start);
+    const to = dateToString(period.end);
+    const counts: Record<string, number> = {};
+    for (const project of projects) {
+      const booked = new Set(
+        assignments
+          .filter(
+            (a) =>
+              a.projectId === project.id &&
+              people.has(a.memberId) &&
+              a.startDate <= to &&
+              from <= a.endDate,
+          )
+          .map((a) => a.memberId),
+      );
+      counts[project.id] = booked.size;
+    }
+    return { period: period.label, counts };
+  });
+}
+
+/** A CSV document from a header row and data rows */
+export function toCsv(header: string[], rows: (string | number)[][]): string {
+  return [header, ...rows]
+    .map((row) => row.map((v) => escapeCsv(String(v))).join(","))
+    .join("\n");
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { compareProjectEnds, compareUtilization } from "./scenarios";
+import { parseDate } from "./dateUtils";
+import { Assignment, WorkspaceData } from "./types";
+
+function booking(
+  id: string,
+  projectId: string,
+  endDate: string,
+  allocation = 100,
+): Assignment {
+  return {
+    id,
+    memberId: "m-1",
+    projectId,
+    startDate: "2025-03-03",
+    endDate,
+    allocation,
+  };
+}
+
+function workspace(assignments: Assignment[]): WorkspaceData {
+  return {
+    teams: [{ id: "t-1", name: "Web", color: "#000" }],
+    members: [{ id: "m-1", name: "Alice", role: "Engineer", teamId: "t-1" }],
+    projects: [
+      { id: "p-1", name: "Website", color: "#111", description: "" },
+      { id: "p-2", name: "App", color: "#222", description: "" },
+    ],
+    assignments,
+    timeOff: [],
+    baselines: [],
+    dependencies: [],
+  };
+}
+
+describe("compareProjectEnds", () => {
+  it("reports how many days a project slips in the scenario", () => {
+    const live = workspace([booking("a", "p-1", "2025-03-14")]);
+    const scenario = workspace([
+      booking("a", "p-1", "2025-03-21"),
+      booking("b", "p-2", "2025-03-07"),
+    ]);
+    const [website, app] = compareProjectEnds(live, scenario);
+    expect(website.slipDays).toBe(7);
+    expect(app).toMatchObject({ scenarioEnd: "2025-03-07", slipDays: null });
+  });
+});
+
+describe("compareUtilization", () => {
+  it("compares booked share of team capacity over the window", () => {
+    const live = workspace([booking("a", "p-1", "2025-03-14", 25)]);
+    const scenario = workspace([booking("a", "p-1", "2025-03-07", 100)]);
+    const [web] = compareUtilization(
+      live,
+      scenario,
+      parseDate("2025-03-03"),
+      parseDate("2025-03-14"),
+    );
+    // Two working weeks: quarter-time throughout vs full-time for one week
+    expect(web).toMatchObject({ live: 25, scenario: 50 });
+  });
+
+  it("has no utilization for a team without members", () => {
+    const scenario = workspace([]);
+    scenario.teams.push({ id: "t-2", name: "Ops", color: "#333" });
+    const rows = compareUtilization(
+      workspace([]),
+      scenario,
+      parseDate("2025-03-03"),
+      parseDate("2025-03-14"),
+    );
+    expect(rows[1]).toMatchObject({ name: "Ops", live: null, scenario: null });
+  });
+});
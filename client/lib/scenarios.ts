@@ -0,0 +1,112 @@
+import { Assignment, WorkspaceData } from "./types";
+import { bookedHours, countWorkingDays, getHoursPerDay } from "./capacity";
+import { differenceInDays, parseDate } from "./dateUtils";
+
+/** Last day any assignment of the project is booked, if it has any */
+export function projectEndDate(
+  projectId: string,
+  assignments: Assignment[],
+): string | undefined {
+  let end: string | undefined;
+  for (const a of assignments) {
+    if (a.projectId === projectId && (!end || a.endDate > end)) end = a.endDate;
+  }
+  return end;
+}
+
+export interface ProjectEndComparison {
+  projectId: string;
+  name: string;
+  color: string;
+  liveEnd?: string;
+  scenarioEnd?: string;
+  slipDays: number | null; // positive when the scenario finishes later
+}
+
+/** End date of every project in either plan, scenario names winning */
+export function compareProjectEnds(
+  live: WorkspaceData,
+  scenario: WorkspaceData,
+): ProjectEndComparison[] {
+  const projects = new Map(live.projects.map((p) => [p.id, p]));
+  for (const p of scenario.projects) projects.set(p.id, p);
+  return [...projects.values()].map((p) => {
+    const liveEnd = projectEndDate(p.id, live.assignments);
+    const scenarioEnd = projectEndDate(p.id, scenario.assignments);
+    return {
+      projectId: p.id,
+      name: p.name,
+      color: p.color,
+      liveEnd,
+      scenarioEnd,
+      slipDays:
+        liveEnd && scenarioEnd
+          ? differenceInDays(parseDate(scenarioEnd), parseDate(liveEnd))
+          : null,
+    };
+  });
+}
+
+export interface TeamLoad {
+  teamId: string;
+  capacity: number; // hours available in the window
+  booked: number; // hours assigned in the window
+}
+
+/** Booked vs available hours per team over [start..end] */
+export function teamLoad(
+  data: WorkspaceData,
+  start: Date,
+  end: Date,
+): TeamLoad[] {
+  return data.teams.map((team) => {
+    let capacity = 0;
+    let booked = 0;
+    for (const member of data.members.filter((m) => m.teamId === team.id)) {
+      capacity +=
+        countWorkingDays(member, start, end, data.timeOff) *
+        getHoursPerDay(member);
+      booked += bookedHours(
+        member,
+        data.assignments.filter((a) => a.memberId === member.id),
+        start,
+        end,
+        data.timeOff,
+      );
+    }
+    return { teamId: team.id, capacity, booked };
+  });
+}
+
+/** Booked share of capacity in percent, or null for a team with no capacity */
+export function utilization(load?: TeamLoad): number | null {
+  if (!load?.capacity) return null;
+  return Math.round((load.booked / load.capacity) * 100);
+}
+
+export interface UtilizationComparison {
+  teamId: string;
+  name: string;
+  color: string;
+  live: number | null;
+  scenario: number | null;
+}
+
+export function compareUtilization(
+  live: WorkspaceData,
+  scenario: WorkspaceData,
+  start: Date,
+  end: Date,
+): UtilizationComparison[] {
+  const liveLoad = teamLoad(live, start, end);
+  const scenarioLoad = teamLoad(scenario, start, end);
+  const teams = new Map(live.teams.map((t) => [t.id, t]));
+  for (const t of scenario.teams) teams.set(t.id, t);
+  return [...teams.values()].map((t) => ({
+    teamId: t.id,
+    name: t.name,
+    color: t.color,
+    live: utilization(liveLoad.find((l) => l.teamId === t.id)),
+    scenario: utilization(scenarioLoad.find((l) => l.teamId === t.id)),
+  }));
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import { ShareView, WorkspaceData, shareWorkspace } from "@shared/api";
+import { describeExpiry, describeScope, shareExpiry } from "./shares";
+
+const data: WorkspaceData = {
+  teams: [
+    { id: "web", name: "Web", color: "#000000" },
+    { id: "ops", name: "Ops", color: "#ffffff" },
+  ],
+  members: [
+    { id: "ann", name: "Ann", role: "Dev", teamId: "web", costRate: 80 },
+    { id: "bo", name: "Bo", role: "Dev", teamId: "web" },
+    { id: "cy", name: "Cy", role: "SRE", teamId: "ops" },
+  ],
+  projects: [
+    {
+      id: "atlas",
+      name: "Atlas",
+      color: "#000000",
+      description: "",
+      budget: 9,
+    },
+    { id: "beta", name: "Beta", color: "#ffffff", description: "" },
+  ],
+  assignments: [
+    {
+      id: "a1",
+      memberId: "ann",
+      projectId: "atlas",
+      startDate: "2025-03-03",
+      endDate: "2025-03-07",
+      allocation: 100,
+    },
+    {
+      id: "a2",
+      memberId: "cy",
+      projectId: "beta",
+      startDate: "2025-03-03",
+      endDate: "2025-03-07",
+      allocation: 100,
+    },
+    {
+      id: "a3",
+      memberId: "ann",
+      projectId: "atlas",
+      startDate: "2025-06-02",
+      endDate: "2025-06-06",
+      allocation: 100,
+    },
+  ],
+  timeOff: [
+    {
+      id: "off",
+      memberId: "cy",
+      startDate: "2025-03-10",
+      endDate: "2025-03-10",
+      type: "vacation",
+      label: "Day off",
+    },
+  ],
+  baselines: [],
+  dependencies: [
+    {
+      id: "d1",
+      predecessorId: "a1",
+      successorId: "a3",
+      type: "finish_to_start",
+    },
+  ],
+};
+
+const march: ShareView = {
+  groupBy: "team",
+  granularity: "week",
+  startDate: "2025-03-01",
+  endDate: "2025-03-31",
+};
+
+describe("shareWorkspace", () => {
+  it("keeps bookings in the date range and drops rates and budgets", () => {
+    const shared = shareWorkspace(data, march);
+    expect(shared.assignments.map((a) => a.id)).toEqual(["a1", "a2"]);
+    expect(shared.members.map((m) => m.id)).toEqual(["ann", "bo", "cy"]);
+    expect(shared.members[0]).not.toHaveProperty("costRate");
+    expect(shared.projects[0]).not.toHaveProperty("budget");
+    // a3 falls outside the range, so its link goes too
+    expect(shared.dependencies).toEqual([]);
+  });
+
+  it("narrows to the picked projects and their people", () => {
+    const shared = shareWorkspace(data, { ...march, projectIds: ["atlas"] });
+    expect(shared.projects.map((p) => p.id)).toEqual(["atlas"]);
+    expect(shared.members.map((m) => m.id)).toEqual(["ann"]);
+    expect(shared.teams.map((t) => t.id)).toEqual(["web"]);
+    expect(shared.timeOff).toEqual([]);
+  });
+
+  it("shows whole teams when teams are picked", () => {
+    const shared = shareWorkspace(data, { ...march, teamIds: ["ops"] });
+    expect(shared.members.map((m) => m.id)).toEqual(["cy"]);
+    expect(shared.assignments.map((a) => a.id)).toEqual(["a2"]);
+    expect(shared.timeOff.map((t) => t.id)).toEqual(["off"]);
+  });
+});
+
+describe("share link labels", () => {
+  const now = new Date("2025-03-01T12:00:00Z");
+
+  it("describes expiry", () => {
+    expect(describeExpiry({}, now)).toBe("Never expires");
+    expect(describeExpiry({ expiresAt: shareExpiry(7, now) }, now)).toBe(
+      "Expires in 7 days",
+    );
+    expect(describeExpiry({ expiresAt: "2025-02-28T00:00:00Z" }, now)).toBe(
+      "Expired",
+    );
+  });
+
+  it("describes what is shared", () => {
+    expect(describeScope(march)).toBe("Everything");
+    expect(
+      describeScope({ ...march, projectIds: ["a", "b"], teamIds: ["t"] }),
+    ).toBe("2 projects, 1 team");
+  });
+});
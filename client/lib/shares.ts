@@ -0,0 +1,48 @@
+import { ShareLink, ShareView, isShareExpired } from "@shared/api";
+import { addDays } from "./dateUtils";
+
+/** Lifetimes offered when creating a link, in days; null never expires */
+export const SHARE_EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: "Never", days: null },
+  { label: "1 day", days: 1 },
+  { label: "7 days", days: 7 },
+  { label: "30 days", days: 30 },
+  { label: "90 days", days: 90 },
+];
+
+/** When a link created now with the given lifetime stops working */
+export function shareExpiry(
+  days: number | null,
+  now: Date,
+): string | undefined {
+  return days === null ? undefined : addDays(now, days).toISOString();
+}
+
+/** The address a share link is opened at */
+export function shareUrl(id: string, origin: string): string {
+  return `${origin}/share/${encodeURIComponent(id)}`;
+}
+
+/** "Expired", "Expires in 3 days" or "Never expires" */
+export function describeExpiry(
+  link: Pick<ShareLink, "expiresAt">,
+  now: Date,
+): string {
+  if (!link.expiresAt) return "Never expires";
+  if (isShareExpired(link, now)) return "Expired";
+  const hours = (new Date(link.expiresAt).getTime() - now.getTime()) / 3.6e6;
+  if (hours < 24) return "Expires today";
+  const days = Math.ceil(hours / 24);
+  return `Expires in ${days} day${days !== 1 ? "s" : ""}`;
+}
+
+/** "Everything", or what the link is narrowed to, e.g. "2 projects, 1 team" */
+export function describeScope(view: ShareView): string {
+  const count = (n: number, noun: string) =>
+    `${n} ${noun}${n !== 1 ? "s" : ""}`;
+  const parts = [
+    view.projectIds?.length && count(view.projectIds.length, "project"),
+    view.teamIds?.length && count(view.teamIds.length, "team"),
+  ].filter(Boolean);
+  return parts.length ? parts.join(", ") : "Everything";
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatSkillsCell,
+  listSkills,
+  meetsRequirements,
+  missingSkills,
+  parseSkills,
+} from "./skills";
+import { parseMemberCsv } from "./csvImport";
+import { Member } from "./types";
+
+const member = (name: string, skills: Member["skills"]): Member => ({
+  id: name,
+  name,
+  role: "Engineer",
+  teamId: "team-1",
+  skills,
+});
+
+const alice = member("Alice", [
+  { name: "React Native", level: "expert" },
+  { name: "Kafka", level: "beginner" },
+]);
+const bob = member("Bob", [{ name: "react native", level: "intermediate" }]);
+
+describe("meetsRequirements", () => {
+  it("accepts the required level or higher, ignoring case", () => {
+    const needs = [{ name: "React Native", level: "advanced" as const }];
+    expect(meetsRequirements(alice, needs)).toBe(true);
+    expect(meetsRequirements(bob, needs)).toBe(false);
+    expect(meetsRequirements(member("Carol", undefined), [])).toBe(true);
+  });
+
+  it("lists the requirements a member falls short on", () => {
+    const needs = [
+      { name: "React Native", level: "intermediate" as const },
+      { name: "Kafka", level: "advanced" as const },
+    ];
+    expect(missingSkills(alice, needs).map((s) => s.name)).toEqual(["Kafka"]);
+    expect(missingSkills(bob, needs).map((s) => s.name)).toEqual(["Kafka"]);
+  });
+});
+
+describe("listSkills", () => {
+  it("merges spellings of the same skill and sorts them", () => {
+    expect(listSkills([alice, bob])).toEqual(["Kafka", "React Native"]);
+  });
+});
+
+describe("parseSkills", () => {
+  it("reads levels as labels or ranks and defaults the rest", () => {
+    expect(parseSkills("React Native:Expert; Kafka:1; SQL; sql:4")).toEqual([
+      { name: "React Native", level: "expert" },
+      { name: "Kafka", level: "beginner" },
+      { name: "SQL", level: "intermediate" },
+    ]);
+  });
+
+  it("round-trips through the export format", () => {
+    expect(parseSkills(formatSkillsCell(alice.skills))).toEqual(alice.skills);
+  });
+});
+
+describe("parseMemberCsv", () => {
+  it("reads an optional Skills column by header name", () => {
+    const rows = parseMemberCsv(
+      'Name,Team,Role,Skills\nAlice,Mobile,Engineer,"React Native:expert; Kafka"\nBob,Mobile,Engineer,',
+    );
+    expect(rows[0].skills).toEqual([
+      { name: "React Native", level: "expert" },
+      { name: "Kafka", level: "intermediate" },
+    ]);
+    expect(rows[1].skills).toEqual([]);
+  });
+});
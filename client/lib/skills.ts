@@ -0,0 +1,97 @@
+import { Member, MemberSkill, SkillLevel } from "./types";
+
+export const SKILL_LEVEL_LABELS: Record<SkillLevel, string> = {
+  beginner: "Beginner",
+  intermediate: "Intermediate",
+  advanced: "Advanced",
+  expert: "Expert",
+};
+
+// Lowest to highest, so a level's index doubles as its rank
+export const SKILL_LEVELS = Object.keys(SKILL_LEVEL_LABELS) as SkillLevel[];
+
+export const DEFAULT_SKILL_LEVEL: SkillLevel = "intermediate";
+
+/** A skill the work needs, at this level or above */
+export type SkillRequirement = MemberSkill;
+
+function skillKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+export function findSkill(
+  member: Member,
+  name: string,
+): MemberSkill | undefined {
+  return member.skills?.find((s) => skillKey(s.name) === skillKey(name));
+}
+
+/** Whether the member has every required skill at the required level */
+export function meetsRequirements(
+  member: Member,
+  requirements: SkillRequirement[],
+): boolean {
+  return requirements.every((req) => {
+    const skill = findSkill(member, req.name);
+    return (
+      skill !== undefined &&
+      SKILL_LEVELS.indexOf(skill.level) >= SKILL_LEVELS.indexOf(req.level)
+    );
+  });
+}
+
+/** Requirements the member falls short on, for "missing ..." hints */
+export function missingSkills(
+  member: Member,
+  requirements: SkillRequirement[],
+): SkillRequirement[] {
+  return requirements.filter((req) => !meetsRequirements(member, [req]));
+}
+
+/**
+ * Every skill held by someone on the team, sorted. The first spelling seen
+ * wins when members typed the same skill differently.
+ */
+export function listSkills(members: Member[]): string[] {
+  const names = new Map<string, string>();
+  for (const m of members)
+    for (const s of m.skills ?? [])
+      if (!names.has(skillKey(s.name))) names.set(skillKey(s.name), s.name);
+  return [...names.values()].sort((a, b) => a.localeCompare(b));
+}
+
+/** "React Native (Expert)" */
+export function formatSkill(skill: MemberSkill): string {
+  return `${skill.name} (${SKILL_LEVEL_LABELS[skill.level]})`;
+}
+
+/** Read a level typed as a label, a key or a rank from 1 to 4 */
+export function parseSkillLevel(text: string): SkillLevel | undefined {
+  const needle = text.trim().toLowerCase();
+  const rank = Number(needle);
+  if (Number.isInteger(rank) && rank >= 1) return SKILL_LEVELS[rank - 1];
+  return SKILL_LEVELS.find((level) => level === needle);
+}
+
+/**
+ * Parse a CSV skills cell such as "React Native:expert; Kafka:2; SQL".
+ * A missing or unknown level counts as intermediate; repeats keep the first.
+ */
+export function parseSkills(text: string): MemberSkill[] {
+  const skills: MemberSkill[] = [];
+  for (const part of text.split(/[;|]/)) {
+    const [name, level = ""] = part.split(":");
+    if (!name.trim()) continue;
+    if (skills.some((s) => skillKey(s.name) === skillKey(name))) continue;
+    skills.push({
+      name: name.trim(),
+      level: parseSkillLevel(level) ?? DEFAULT_SKILL_LEVEL,
+    });
+  }
+  return skills;
+}
+
+/** The inverse of parseSkills, for CSV export */
+export function formatSkillsCell(skills: MemberSkill[] = []): string {
+  return skills.map((s) => `${s.name}:${s.level}`).join("; ");
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { earliestSlot, rankSlots } from "./slots";
+import { Assignment, Member, TimeOff } from "./types";
+
+const ann: Member = { id: "ann", name: "Ann", role: "Dev", teamId: "t-1" };
+
+function booking(
+  startDate: string,
+  endDate: string,
+  allocation = 100,
+): Assignment {
+  return {
+    id: `${startDate}-${allocation}`,
+    memberId: "ann",
+    projectId: "p-1",
+    startDate,
+    endDate,
+    allocation,
+  };
+}
+
+describe("earliestSlot", () => {
+  it("counts working days and starts on one", () => {
+    // Saturday 1 March 2025: the first working day is Monday 3rd
+    expect(earliestSlot(ann, [], [], 5, "2025-03-01", 100)).toEqual({
+      memberId: "ann",
+      startDate: "2025-03-03",
+      endDate: "2025-03-07",
+    });
+  });
+
+  it("waits until the member has room", () => {
+    const existing = [booking("2025-03-03", "2025-03-12")];
+    expect(earliestSlot(ann, existing, [], 3, "2025-03-03", 100)).toMatchObject(
+      { startDate: "2025-03-13", endDate: "2025-03-17" },
+    );
+    // A half-time booking fits next to another half-time one
+    expect(
+      earliestSlot(
+        ann,
+        [booking("2025-03-03", "2025-03-12", 50)],
+        [],
+        3,
+        "2025-03-03",
+        50,
+      ),
+    ).toMatchObject({ startDate: "2025-03-03" });
+  });
+
+  it("skips leave when counting days", () => {
+    const leave: TimeOff[] = [
+      {
+        id: "off",
+        memberId: "ann",
+        startDate: "2025-03-04",
+        endDate: "2025-03-04",
+        type: "vacation",
+        label: "Day off",
+      },
+    ];
+    expect(earliestSlot(ann, [], leave, 2, "2025-03-03", 100)).toMatchObject({
+      startDate: "2025-03-03",
+      endDate: "2025-03-05",
+    });
+  });
+
+  it("gives up past the horizon", () => {
+    const existing = [booking("2025-03-03", "2025-12-31")];
+    expect(
+      earliestSlot(ann, existing, [], 5, "2025-03-03", 100, 60),
+    ).toBeNull();
+  });
+});
+
+describe("rankSlots", () => {
+  it("puts the earliest start first", () => {
+    const ranked = rankSlots([
+      { memberId: "a", startDate: "2025-03-10", endDate: "2025-03-14" },
+      { memberId: "b", startDate: "2025-03-03", endDate: "2025-03-12" },
+      { memberId: "c", startDate: "2025-03-03", endDate: "2025-03-07" },
+    ]);
+    expect(ranked.map((s) => s.memberId)).toEqual(["c", "b", "a"]);
+  });
+});
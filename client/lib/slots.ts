@@ -0,0 +1,76 @@
+import { Assignment, Member, TimeOff } from "./types";
+import { findOverbooked, isAvailableDay } from "./capacity";
+import { addDays, dateToString, parseDate } from "./dateUtils";
+
+export interface Slot {
+  memberId: string;
+  startDate: string;
+  endDate: string;
+}
+
+// How far past the earliest start the search gives up
+export const SLOT_HORIZON_DAYS = 2 * 365;
+
+/**
+ * Day on which `workingDays` available days of the member, counted from
+ * `start`, are used up; null when they do not fit before `limit`
+ */
+export function workingSpanEnd(
+  member: Member | null | undefined,
+  start: Date,
+  workingDays: number,
+  timeOff: TimeOff[],
+  limit: Date,
+): Date | null {
+  let left = workingDays;
+  for (let d = start; d <= limit; d = addDays(d, 1)) {
+    if (isAvailableDay(member, d, timeOff) && --left === 0) return d;
+  }
+  return null;
+}
+
+/**
+ * Earliest booking of `workingDays` available days that starts on or after
+ * `notBefore` without pushing the member over capacity. `existing` are the
+ * member's bookings that count against capacity.
+ */
+export function earliestSlot(
+  member: Member,
+  existing: Assignment[],
+  timeOff: TimeOff[],
+  workingDays: number,
+  notBefore: string,
+  allocation: number,
+  horizonDays = SLOT_HORIZON_DAYS,
+): Slot | null {
+  if (workingDays < 1) return null;
+  const isFree = (date: Date) => isAvailableDay(member, date, timeOff);
+  const limit = addDays(parseDate(notBefore), horizonDays);
+  for (let d = parseDate(notBefore); d <= limit; d = addDays(d, 1)) {
+    // Bookings start on a day the member actually works
+    if (!isFree(d)) continue;
+    const end = workingSpanEnd(member, d, workingDays, timeOff, limit);
+    if (!end) return null;
+    const slot = {
+      memberId: member.id,
+      startDate: dateToString(d),
+      endDate: dateToString(end),
+    };
+    if (
+      findOverbooked(existing, slot.startDate, slot.endDate, allocation, isFree)
+        .length === 0
+    ) {
+      return slot;
+    }
+  }
+  return null;
+}
+
+/** Earliest start first, then the one that finishes soonest */
+export function rankSlots(slots: Slot[]): Slot[] {
+  return [...slots].sort(
+    (a, b) =>
+      a.startDate.localeCompare(b.startDate) ||
+      a.endDate.localeCompare(b.endDate),
+  );
+}
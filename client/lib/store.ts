@@ -1,12 +1,78 @@
-import { Team, Member, Project, Assignment } from "./types";
+import {
+  Team,
+  Member,
+  Project,
+  Assignment,
+  TimeOff,
+  Baseline,
+  Dependency,
+  WorkspaceData,
+  AuditEntry,
+  ScenarioSummary,
+} from "./types";
+import { isWorkspaceEmpty } from "@shared/api";
+import { FULL_ALLOCATION, findOverbooked, isAvailableDay } from "./capacity";
+import { blockingAssignments, needsCapacity } from "./bookings";
+import { Slot, earliestSlot } from "./slots";
 
 const KEYS = {
   teams: "erp_teams",
   members: "erp_members",
   projects: "erp_projects",
   assignments: "erp_assignments",
+  timeOff: "erp_time_off",
+  baselines: "erp_baselines",
+  dependencies: "erp_dependencies",
+  audit: "erp_audit",
+  scenarios: "erp_scenarios",
+  tentativeBlocks: "erp_tentative_blocks",
+  synced: "erp_synced",
+  outbox: "erp_outbox",
 } as const;
 
+type CollectionKey = Exclude<
+  keyof typeof KEYS,
+  "audit" | "scenarios" | "tentativeBlocks" | "synced" | "outbox"
+>;
+
+const COLLECTION_KEYS: CollectionKey[] = [
+  "teams",
+  "members",
+  "projects",
+  "assignments",
+  "timeOff",
+  "baselines",
+  "dependencies",
+];
+
+// While a scenario is open, the collection helpers below read and write that
+// scenario's copy (erp_scenario_<id>_teams, ...) instead of the live plan
+let activeScenarioId: string | null = null;
+
+export function setActiveScenario(id: string | null) {
+  activeScenarioId = id;
+}
+export function getActiveScenario(): string | null {
+  return activeScenarioId;
+}
+
+function scopedKey(collection: CollectionKey, scenarioId = activeScenarioId) {
+  return scenarioId
+    ? `erp_scenario_${scenarioId}_${collection}`
+    : KEYS[collection];
+}
+
+/** Run `fn` against another scope (null for the live plan) */
+export function inScope<T>(scenarioId: string | null, fn: () => T): T {
+  const previous = activeScenarioId;
+  activeScenarioId = scenarioId;
+  try {
+    return fn();
+  } finally {
+    activeScenarioId = previous;
+  }
+}
+
 function load<T>(key: string, fallback: T[]): T[] {
   try {
     const raw = localStorage.getItem(key);
@@ -32,7 +98,14 @@ const DEFAULT_MEMBERS: Member[] = [
   { id: "m-1", name: "Alice Chen", role: "Senior Engineer", teamId: "team-1" },
   { id: "m-2", name: "Bob Park", role: "Engineer", teamId: "team-1" },
   { id: "m-3", name: "Carol Liu", role: "Tech Lead", teamId: "team-2" },
-  { id: "m-4", name: "David Kim", role: "Engineer", teamId: "team-2" },
+  {
+    id: "m-4",
+    name: "David Kim",
+    role: "Contractor",
+    teamId: "team-2",
+    hoursPerWeek: 24,
+    workingDays: [1, 2, 3],
+  },
   { id: "m-5", name: "Eva Santos", role: "Designer", teamId: "team-3" },
   { id: "m-6", name: "Frank Wu", role: "UX Lead", teamId: "team-3" },
 ];
@@ -65,6 +138,7 @@ const DEFAULT_ASSIGNMENTS: Assignment[] = [
     projectId: "p-1",
     startDate: getRelativeDate(0),
     endDate: getRelativeDate(14),
+    allocation: 100,
   },
   {
     id: "a-2",
@@ -72,6 +146,7 @@ const DEFAULT_ASSIGNMENTS: Assignment[] = [
     projectId: "p-3",
     startDate: getRelativeDate(2),
     endDate: getRelativeDate(20),
+    allocation: 100,
   },
   {
     id: "a-3",
@@ -79,6 +154,7 @@ const DEFAULT_ASSIGNMENTS: Assignment[] = [
     projectId: "p-1",
     startDate: getRelativeDate(0),
     endDate: getRelativeDate(10),
+    allocation: 50,
   },
 ];
 
@@ -90,49 +166,254 @@ function getRelativeDate(daysFromNow: number): string {
 
 // --- CRUD helpers ---
 export function getTeams(): Team[] {
-  return load<Team>(KEYS.teams, DEFAULT_TEAMS);
+  return load<Team>(scopedKey("teams"), DEFAULT_TEAMS);
 }
 export function saveTeams(teams: Team[]) {
-  save(KEYS.teams, teams);
+  save(scopedKey("teams"), teams);
 }
 
 export function getMembers(): Member[] {
-  return load<Member>(KEYS.members, DEFAULT_MEMBERS);
+  return load<Member>(scopedKey("members"), DEFAULT_MEMBERS);
 }
 export function saveMembers(members: Member[]) {
-  save(KEYS.members, members);
+  save(scopedKey("members"), members);
 }
 
 export function getProjects(): Project[] {
-  return load<Project>(KEYS.projects, DEFAULT_PROJECTS);
+  return load<Project>(scopedKey("projects"), DEFAULT_PROJECTS);
 }
 export function saveProjects(projects: Project[]) {
-  save(KEYS.projects, projects);
+  save(scopedKey("projects"), projects);
 }
 
 export function getAssignments(): Assignment[] {
-  return load<Assignment>(KEYS.assignments, DEFAULT_ASSIGNMENTS);
+  // Assignments saved before allocations existed are full-time bookings
+  return load<Assignment>(scopedKey("assignments"), DEFAULT_ASSIGNMENTS).map(
+    (a) => ({
+      ...a,
+      allocation: a.allocation ?? FULL_ALLOCATION,
+    }),
+  );
 }
 export function saveAssignments(assignments: Assignment[]) {
-  save(KEYS.assignments, assignments);
+  save(scopedKey("assignments"), assignments);
+}
+
+export function getTimeOff(): TimeOff[] {
+  return load<TimeOff>(scopedKey("timeOff"), []);
+}
+export function saveTimeOff(timeOff: TimeOff[]) {
+  save(scopedKey("timeOff"), timeOff);
+}
+
+export function getBaselines(): Baseline[] {
+  return load<Baseline>(scopedKey("baselines"), []);
+}
+export function saveBaselines(baselines: Baseline[]) {
+  save(scopedKey("baselines"), baselines);
+}
+
+export function getDependencies(): Dependency[] {
+  return load<Dependency>(scopedKey("dependencies"), []);
+}
+export function saveDependencies(dependencies: Dependency[]) {
+  save(scopedKey("dependencies"), dependencies);
+}
+
+// --- Whole-workspace helpers (local copy of the server data) ---
+export function getWorkspace(): WorkspaceData {
+  return {
+    teams: getTeams(),
+    members: getMembers(),
+    projects: getProjects(),
+    assignments: getAssignments(),
+    timeOff: getTimeOff(),
+    baselines: getBaselines(),
+    dependencies: getDependencies(),
+  };
+}
+export function saveWorkspace(data: WorkspaceData) {
+  saveTeams(data.teams);
+  saveMembers(data.members);
+  saveProjects(data.projects);
+  saveAssignments(data.assignments);
+  saveTimeOff(data.timeOff);
+  saveBaselines(data.baselines);
+  saveDependencies(data.dependencies);
+}
+
+/** The live plan, whichever scope is active */
+export function getLiveWorkspace(): WorkspaceData {
+  return inScope(null, getWorkspace);
+}
+
+// --- Server sync ---
+
+/** Remember that this browser's plan has matched the server's */
+export function markSynced() {
+  localStorage.setItem(KEYS.synced, "true");
+}
+
+/**
+ * The plan this browser kept before it ever synced, to offer for upload to an
+ * empty server. Null when there is none: nothing was saved here (the demo
+ * data doesn't count), or the browser has synced before, in which case an
+ * empty server means the plan was cleared there on purpose.
+ */
+export function getUnsyncedWorkspace(): WorkspaceData | null {
+  if (localStorage.getItem(KEYS.synced) === "true") return null;
+  const saved = COLLECTION_KEYS.some(
+    (collection) => localStorage.getItem(KEYS[collection]) !== null,
+  );
+  if (!saved) return null;
+  const local = getLiveWorkspace();
+  return isWorkspaceEmpty(local) ? null : local;
+}
+
+/** A write the server could not be reached for, replayed once it can */
+export interface QueuedWrite {
+  method: string;
+  path: string;
+  body?: unknown;
+  headers: Record<string, string>;
+}
+
+export function getOutbox(): QueuedWrite[] {
+  return load<QueuedWrite>(KEYS.outbox, []);
+}
+export function saveOutbox(writes: QueuedWrite[]) {
+  save(KEYS.outbox, writes);
+}
+
+// --- Scenarios (names here, each scenario's data under its own keys) ---
+export function getScenarios(): ScenarioSummary[] {
+  return load<ScenarioSummary>(KEYS.scenarios, []);
+}
+export function saveScenarios(scenarios: ScenarioSummary[]) {
+  save(KEYS.scenarios, scenarios);
+}
+
+export function getScenarioData(id: string): WorkspaceData {
+  return inScope(id, getWorkspace);
+}
+export function saveScenarioData(id: string, data: WorkspaceData) {
+  inScope(id, () => saveWorkspace(data));
+}
+export function removeScenarioData(id: string) {
+  for (const collection of COLLECTION_KEYS)
+    localStorage.removeItem(scopedKey(collection, id));
+}
+
+/**
+ * Forget this browser's copy of the plan, scenarios, history and settings,
+ * so the next person to sign in on it sees nothing of the last one's data
+ */
+export function clearLocalData() {
+  for (const key of Object.keys(localStorage))
+    if (key.startsWith("erp_")) localStorage.removeItem(key);
+  activeScenarioId = null;
+}
+
+// --- Change history (kept outside the workspace so undo never rewrites it) ---
+export function getAuditLog(): AuditEntry[] {
+  return load<AuditEntry>(KEYS.audit, []);
+}
+export function saveAuditLog(entries: AuditEntry[]) {
+  save(KEYS.audit, entries);
+}
+
+/** Whether requested and tentative bookings take up capacity; off by default */
+export function getTentativeBlocks(): boolean {
+  return localStorage.getItem(KEYS.tentativeBlocks) === "true";
+}
+export function saveTentativeBlocks(blocks: boolean) {
+  localStorage.setItem(KEYS.tentativeBlocks, String(blocks));
 }
 
 export function generateId(): string {
   return crypto.randomUUID();
 }
 
-// Conflict detection: returns conflicting assignments for a member in a date range, excluding a given assignment id
+// Conflict detection: returns the assignments that would push a member over
+// capacity on one of their working days (leave and holidays excluded) if a
+// booking of `allocation` percent were added in a date range, excluding a
+// given assignment id. Unless `tentativeBlocks` is set, only confirmed
+// bookings are counted. `assignments` is the plan to check against, the
+// saved one unless a change is still being worked out.
 export function findConflicts(
   memberId: string,
   startDate: string,
   endDate: string,
   excludeAssignmentId?: string,
+  allocation = FULL_ALLOCATION,
+  tentativeBlocks = getTentativeBlocks(),
+  assignments = getAssignments(),
+): Assignment[] {
+  const memberAssignments = blockingAssignments(
+    assignments.filter(
+      (a) =>
+        a.memberId === memberId &&
+        !(excludeAssignmentId && a.id === excludeAssignmentId),
+    ),
+    tentativeBlocks,
+  );
+  const member = getMembers().find((m) => m.id === memberId);
+  const timeOff = getTimeOff();
+  return findOverbooked(
+    memberAssignments,
+    startDate,
+    endDate,
+    allocation,
+    (date) => isAvailableDay(member, date, timeOff),
+  );
+}
+
+/**
+ * The assignments a booking about to be saved would clash with. Requested and
+ * tentative bookings may overlap anything unless `tentativeBlocks` is on.
+ */
+export function findBookingConflicts(
+  booking: Pick<
+    Assignment,
+    "memberId" | "startDate" | "endDate" | "allocation" | "status"
+  > & { id?: string },
+  tentativeBlocks = getTentativeBlocks(),
+  assignments = getAssignments(),
 ): Assignment[] {
-  const assignments = getAssignments();
-  return assignments.filter((a) => {
-    if (a.memberId !== memberId) return false;
-    if (excludeAssignmentId && a.id === excludeAssignmentId) return false;
-    // Overlap check: two ranges overlap if start1 <= end2 AND start2 <= end1
-    return a.startDate <= endDate && startDate <= a.endDate;
-  });
+  if (!needsCapacity(booking, tentativeBlocks)) return [];
+  return findConflicts(
+    booking.memberId,
+    booking.startDate,
+    booking.endDate,
+    booking.id,
+    booking.allocation,
+    tentativeBlocks,
+    assignments,
+  );
+}
+
+// Slot finding: the earliest booking of `workingDays` available days, starting
+// on or after `notBefore`, that findConflicts would accept for the member.
+// Returns null when nothing fits within the search horizon.
+export function findEarliestSlot(
+  memberId: string,
+  workingDays: number,
+  notBefore: string,
+  allocation = FULL_ALLOCATION,
+  tentativeBlocks = getTentativeBlocks(),
+): Slot | null {
+  const member = getMembers().find((m) => m.id === memberId);
+  if (!member) return null;
+  const memberAssignments = blockingAssignments(
+    getAssignments().filter((a) => a.memberId === memberId),
+    tentativeBlocks,
+  );
+  return earliestSlot(
+    member,
+    memberAssignments,
+    getTimeOff(),
+    workingDays,
+    notBefore,
+    allocation,
+  );
 }
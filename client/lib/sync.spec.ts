@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { EXPECT_HEADER } from "@shared/api";
+import {
+  assignmentsApi,
+  fetchWorkspace,
+  onOutboxRefused,
+  teamsApi,
+} from "./api";
+import {
+  getOutbox,
+  getUnsyncedWorkspace,
+  markSynced,
+  saveTeams,
+  saveWorkspace,
+} from "./store";
+import { WorkspaceData } from "./types";
+
+const EMPTY: WorkspaceData = {
+  teams: [],
+  members: [],
+  projects: [],
+  assignments: [],
+  timeOff: [],
+  baselines: [],
+  dependencies: [],
+};
+
+const team = { id: "t-1", name: "Web", color: "#6366f1" };
+
+// What the fake server was asked, as "METHOD path"
+let calls: string[];
+let online: boolean;
+let refuse: string | null;
+
+function respond(status: number, body: unknown) {
+  return { ok: status < 400, status, json: async () => body };
+}
+
+beforeEach(() => {
+  const items = new Map<string, string>();
+  vi.stubGlobal("localStorage", {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key),
+  });
+  calls = [];
+  online = true;
+  refuse = null;
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (path: string, init: RequestInit) => {
+      if (!online) throw new TypeError("Failed to fetch");
+      const call = `${init.method} ${path}`;
+      calls.push(call);
+      if (call === refuse) return respond(409, { error: "changed" });
+      if (init.method === "GET") return respond(200, EMPTY);
+      return respond(200, init.body ? JSON.parse(String(init.body)) : null);
+    }),
+  );
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("offline writes", () => {
+  it("queues writes while the server is unreachable", async () => {
+    online = false;
+    await teamsApi.create(team);
+    await teamsApi.update("t-1", { name: "Web team" });
+    expect(getOutbox().map((w) => `${w.method} ${w.path}`)).toEqual([
+      "POST /api/teams",
+      "PATCH /api/teams/t-1",
+    ]);
+  });
+
+  it("replays them in order before the next workspace read", async () => {
+    online = false;
+    await teamsApi.create(team);
+    await assignmentsApi.remove("a-1");
+    await expect(fetchWorkspace()).rejects.toThrow();
+    online = true;
+    await fetchWorkspace();
+    expect(calls).toEqual([
+      "POST /api/teams",
+      "DELETE /api/assignments/a-1",
+      "GET /api/workspace",
+    ]);
+    expect(getOutbox()).toEqual([]);
+  });
+
+  it("drops and reports writes the server refuses on replay", async () => {
+    const refused = vi.fn();
+    const stop = onOutboxRefused(refused);
+    online = false;
+    await teamsApi.update("t-1", { name: "Web team" }, { name: "Web" });
+    await teamsApi.create({ ...team, id: "t-2" });
+    online = true;
+    refuse = "PATCH /api/teams/t-1";
+    await fetchWorkspace();
+    stop();
+    expect(refused).toHaveBeenCalledWith(1);
+    expect(calls).toContain("POST /api/teams");
+    expect(getOutbox()).toEqual([]);
+  });
+});
+
+describe("workspace reads", () => {
+  it("read again when a write overtakes them", async () => {
+    const read = fetchWorkspace();
+    await teamsApi.create(team);
+    await read;
+    expect(calls).toEqual([
+      "GET /api/workspace",
+      "POST /api/teams",
+      "GET /api/workspace",
+    ]);
+  });
+
+  it("read once when nothing was written meanwhile", async () => {
+    await teamsApi.create(team);
+    await fetchWorkspace();
+    expect(calls).toEqual(["POST /api/teams", "GET /api/workspace"]);
+  });
+});
+
+describe("merged updates", () => {
+  // The X-Expect header of the one PATCH sent
+  function expectation() {
+    const patch = vi
+      .mocked(fetch)
+      .mock.calls.find(([, init]) => init.method === "PATCH");
+    const header = (patch[1].headers as Record<string, string>)[EXPECT_HEADER];
+    return header && JSON.parse(decodeURIComponent(header));
+  }
+
+  it("keep the first expectation of each field", async () => {
+    void fetchWorkspace();
+    void teamsApi.update("t-1", { name: "B" }, { name: "A" });
+    await teamsApi.update("t-1", { name: "C" }, { name: "B" });
+    expect(expectation()).toEqual({ name: "A" });
+  });
+
+  it("drop the expectation once an unguarded update is merged in", async () => {
+    void fetchWorkspace();
+    void teamsApi.update("t-1", { name: "B" });
+    await teamsApi.update("t-1", { color: "#000" }, { name: "B" });
+    expect(expectation()).toBeUndefined();
+  });
+});
+
+describe("seeding an empty server", () => {
+  it("offers a plan this browser saved before it ever synced", () => {
+    saveWorkspace({ ...EMPTY, teams: [team] });
+    expect(getUnsyncedWorkspace()?.teams).toEqual([team]);
+  });
+
+  it("never offers the demo data", () => {
+    expect(getUnsyncedWorkspace()).toBeNull();
+  });
+
+  it("does not offer a plan once the browser has synced", () => {
+    saveTeams([team]);
+    markSynced();
+    expect(getUnsyncedWorkspace()).toBeNull();
+  });
+});
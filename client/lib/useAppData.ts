@@ -1,5 +1,23 @@
-import { useState, useCallback } from "react";
-import { Team, Member, Project, Assignment } from "./types";
+import { useState, useCallback, useEffect, useRef } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Presence, hasRole, isWorkspaceEmpty } from "@shared/api";
+import {
+  Team,
+  Member,
+  MemberSkill,
+  Project,
+  ProjectStatus,
+  ProjectPriority,
+  Milestone,
+  Assignment,
+  BookingStatus,
+  TimeOff,
+  Baseline,
+  Dependency,
+  WorkspaceData,
+  ScenarioSummary,
+} from "./types";
 import {
   getTeams,
   saveTeams,
@@ -9,171 +27,1392 @@ import {
   saveProjects,
   getAssignments,
   saveAssignments,
+  getTimeOff,
+  saveTimeOff,
+  getBaselines,
+  saveBaselines,
+  getDependencies,
+  saveDependencies,
+  getWorkspace,
+  saveWorkspace,
+  getUnsyncedWorkspace,
+  markSynced,
+  inScope,
+  setActiveScenario,
+  getActiveScenario,
+  getScenarios,
+  saveScenarios,
+  getScenarioData,
+  saveScenarioData,
+  removeScenarioData,
+  getAuditLog,
+  saveAuditLog,
+  getTentativeBlocks,
+  saveTentativeBlocks,
   generateId,
-  findConflicts,
+  findBookingConflicts,
 } from "./store";
+import {
+  EMPTY_HISTORY,
+  HistoryState,
+  changedFields,
+  isReordered,
+  pushHistory,
+  rebaseHistory,
+  undoHistory,
+  redoHistory,
+  workspaceChanges,
+} from "./history";
+import {
+  AuditDraft,
+  assignmentAction,
+  diffRecord,
+  displayDate,
+  mergeAuditLogs,
+  stampDrafts,
+} from "./audit";
+import { WEEKDAY_LABELS } from "./capacity";
+import {
+  ApiError,
+  WORKSPACE_QUERY_KEY,
+  AUDIT_QUERY_KEY,
+  SESSION_QUERY_KEY,
+  SCENARIOS_QUERY_KEY,
+  fetchWorkspace,
+  replaceWorkspace,
+  fetchAuditLog,
+  appendAuditLog,
+  fetchScenarios,
+  saveScenario,
+  deleteScenario,
+  teamsApi,
+  membersApi,
+  projectsApi,
+  assignmentsApi,
+  timeOffApi,
+  baselinesApi,
+  dependenciesApi,
+  collectionApis,
+  onOutboxRefused,
+  sendPresence,
+  CLIENT_ID,
+} from "./api";
+import { PresenceState, connectLive, otherPeers } from "./live";
+import { useAuth } from "./auth";
+import { captureBaseline } from "./baselines";
+import { cascadeShifts, earliestStart, shiftAssignment } from "./dependencies";
+import { PROJECT_PRIORITY_LABELS, PROJECT_STATUS_LABELS } from "./projects";
+import { formatMilestone, sortMilestones } from "./milestones";
+import { formatSkill } from "./skills";
+import { BOOKING_STATUS_LABELS } from "./bookings";
+import { LevelingMove, applyMoves, fitMoves } from "./leveling";
+import { formatMoney } from "./costs";
+
+function countLabel(count: number, noun: string) {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+// Names for audit entries, read from the local copy of the workspace
+const teamName = (id: unknown) =>
+  getTeams().find((t) => t.id === id)?.name ?? "none";
+const memberName = (id: unknown) =>
+  getMembers().find((m) => m.id === id)?.name ?? "Unknown";
+const projectName = (id: unknown) =>
+  getProjects().find((p) => p.id === id)?.name ?? "Unknown";
+const assignmentName = (a: Assignment) =>
+  `${memberName(a.memberId)} · ${projectName(a.projectId)}`;
+const displayRate = (v: unknown) =>
+  v === undefined || v === null ? "none" : `${formatMoney(v as number)}/h`;
+
+const projectFields = {
+  status: (v: unknown) =>
+    PROJECT_STATUS_LABELS[(v as ProjectStatus) ?? "active"],
+  priority: (v: unknown) =>
+    PROJECT_PRIORITY_LABELS[(v as ProjectPriority) ?? "medium"],
+  startDate: displayDate,
+  endDate: displayDate,
+  ownerId: (v: unknown) => (v ? memberName(v) : ""),
+  budget: (v: unknown) =>
+    v === undefined || v === null ? "none" : formatMoney(v as number),
+  milestones: (v: unknown) =>
+    sortMilestones(v as Milestone[])
+      .map(formatMilestone)
+      .join(", "),
+};
+const memberFields = {
+  teamId: teamName,
+  hoursPerWeek: (v: unknown) => (v ? `${v}h` : "default"),
+  workingDays: (v: unknown) =>
+    v ? (v as number[]).map((d) => WEEKDAY_LABELS[d]).join(", ") : "default",
+  skills: (v: unknown) =>
+    (v as MemberSkill[])?.length
+      ? (v as MemberSkill[]).map(formatSkill).join(", ")
+      : "none",
+  placeholder: (v: unknown) => (v ? "yes" : "no"),
+  costRate: displayRate,
+  billRate: displayRate,
+};
+const assignmentFields = {
+  memberId: memberName,
+  projectId: projectName,
+  startDate: displayDate,
+  endDate: displayDate,
+  allocation: (v: unknown) => `${v}%`,
+  status: (v: unknown) =>
+    BOOKING_STATUS_LABELS[(v as BookingStatus) ?? "confirmed"],
+};
+const timeOffFields = {
+  startDate: displayDate,
+  endDate: displayDate,
+  memberId: (v: unknown) => (v ? memberName(v) : ""),
+  teamId: (v: unknown) => (v ? teamName(v) : ""),
+};
+
+/**
+ * State for one stored collection. Changes are written to localStorage right
+ * away rather than inside a state updater, so later reads in the same event
+ * (conflict checks, names for the audit log) already see them.
+ */
+function useStoredList<T>(load: () => T[], save: (items: T[]) => void) {
+  const [items, setItems] = useState<T[]>(load);
+  const change = useCallback(
+    (update: (prev: T[]) => T[]) => {
+      const next = update(load());
+      save(next);
+      setItems(next);
+    },
+    [load, save],
+  );
+  return [items, change] as const;
+}
 
 export function useAppData() {
-  const [teams, setTeams] = useState<Team[]>(getTeams);
-  const [members, setMembers] = useState<Member[]>(getMembers);
-  const [projects, setProjects] = useState<Project[]>(getProjects);
-  const [assignments, setAssignments] = useState<Assignment[]>(getAssignments);
+  const { user } = useAuth();
+  const [teams, changeTeams] = useStoredList(getTeams, saveTeams);
+  const [members, changeMembers] = useStoredList(getMembers, saveMembers);
+  const [projects, changeProjects] = useStoredList(getProjects, saveProjects);
+  const [assignments, changeAssignments] = useStoredList(
+    getAssignments,
+    saveAssignments,
+  );
+  const [timeOff, changeTimeOff] = useStoredList(getTimeOff, saveTimeOff);
+  const [baselines, changeBaselines] = useStoredList(
+    getBaselines,
+    saveBaselines,
+  );
+  const [dependencies, changeDependencies] = useStoredList(
+    getDependencies,
+    saveDependencies,
+  );
 
-  // Teams
-  const addTeam = useCallback((team: Omit<Team, "id">) => {
-    const newTeam = { ...team, id: generateId() };
-    setTeams((prev) => {
-      const next = [...prev, newTeam];
-      saveTeams(next);
-      return next;
-    });
-    return newTeam;
-  }, []);
+  // The server holds the shared plan; localStorage keeps a copy so the app
+  // renders instantly and keeps working while the server is unreachable.
+  const queryClient = useQueryClient();
+  const workspaceQuery = useQuery({
+    queryKey: WORKSPACE_QUERY_KEY,
+    queryFn: fetchWorkspace,
+  });
 
-  const updateTeam = useCallback((id: string, data: Partial<Team>) => {
-    setTeams((prev) => {
-      const next = prev.map((t) => (t.id === id ? { ...t, ...data } : t));
-      saveTeams(next);
-      return next;
-    });
-  }, []);
+  // Every edit is applied locally first, then sent to the server. If the
+  // server rejects it, reload the server copy so the two don't drift.
+  // Writes go out even when the browser reports being offline; api.ts
+  // queues what cannot reach the server and replays it on reconnect.
+  const { mutate: sync } = useMutation({
+    mutationFn: (write: () => Promise<unknown>) => write(),
+    networkMode: "always",
+    onError: (error) => {
+      if (error instanceof ApiError && error.status === 409)
+        toast.warning(
+          "Someone else changed this booking at the same time. Your edit was not saved; their version is shown.",
+        );
+      if (error instanceof ApiError && error.status === 403)
+        toast.error(`Not saved: ${error.message}`);
+      // Signed out meanwhile (expired, or the account was removed)
+      if (error instanceof ApiError && error.status === 401)
+        queryClient.invalidateQueries({ queryKey: SESSION_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: WORKSPACE_QUERY_KEY });
+    },
+  });
+
+  // Scenarios: what-if copies of the workspace. While one is open every
+  // collection above reads and writes the scenario's copy (see store.ts),
+  // and edits are saved to the scenario instead of the live plan.
+  const [scenarios, changeScenarios] = useStoredList(
+    getScenarios,
+    saveScenarios,
+  );
+  const [activeScenarioId, setActiveScenarioId] = useState<string | null>(
+    getActiveScenario,
+  );
+  const scenariosQuery = useQuery({
+    queryKey: SCENARIOS_QUERY_KEY,
+    queryFn: fetchScenarios,
+  });
 
-  const deleteTeam = useCallback((id: string) => {
-    setTeams((prev) => {
-      const next = prev.filter((t) => t.id !== id);
-      saveTeams(next);
-      return next;
+  useEffect(() => {
+    if (!scenariosQuery.data) return;
+    // The open scenario keeps its local copy so in-progress edits survive
+    for (const scenario of scenariosQuery.data) {
+      if (scenario.id !== getActiveScenario())
+        saveScenarioData(scenario.id, scenario.data);
+    }
+    changeScenarios((prev) => {
+      const remote = scenariosQuery.data.map(
+        ({ data: _, ...summary }) => summary,
+      );
+      const open = prev.find((s) => s.id === getActiveScenario());
+      return open && !remote.some((s) => s.id === open.id)
+        ? [...remote, open]
+        : remote;
     });
-  }, []);
+  }, [scenariosQuery.data, changeScenarios]);
 
-  const reorderTeams = useCallback((reordered: Team[]) => {
-    setTeams(reordered);
-    saveTeams(reordered);
-  }, []);
+  const saveScenarioCopy = useCallback(
+    (summary: ScenarioSummary) => {
+      const data = getScenarioData(summary.id);
+      sync(() => saveScenario({ ...summary, data }));
+    },
+    [sync],
+  );
 
-  // Members
-  const addMember = useCallback((member: Omit<Member, "id">) => {
-    const newMember = { ...member, id: generateId() };
-    setMembers((prev) => {
-      const next = [...prev, newMember];
-      saveMembers(next);
-      return next;
-    });
-    return newMember;
+  /** Send an edit to the server, or to the open scenario's saved copy */
+  const persist = useCallback(
+    (write: () => Promise<unknown>) => {
+      const id = getActiveScenario();
+      if (!id) {
+        sync(write);
+        return;
+      }
+      const summary = getScenarios().find((s) => s.id === id);
+      if (!summary) return;
+      const updated = { ...summary, updatedAt: new Date().toISOString() };
+      changeScenarios((prev) => prev.map((s) => (s.id === id ? updated : s)));
+      saveScenarioCopy(updated);
+    },
+    [sync, changeScenarios, saveScenarioCopy],
+  );
+
+  // Change history. Entries are appended locally and posted to the server;
+  // the server copy is merged in so edits from other browsers show up too.
+  const [auditLog, changeAuditLog] = useStoredList(getAuditLog, saveAuditLog);
+  const auditQuery = useQuery({
+    queryKey: AUDIT_QUERY_KEY,
+    queryFn: fetchAuditLog,
+  });
+
+  useEffect(() => {
+    if (!auditQuery.data) return;
+    changeAuditLog((prev) => mergeAuditLogs(prev, auditQuery.data));
+  }, [auditQuery.data, changeAuditLog]);
+
+  // Scenario edits are scratch work and stay out of the history
+  const commitAudit = useCallback(
+    (drafts: AuditDraft[], source?: string) => {
+      if (getActiveScenario()) return;
+      const entries = stampDrafts(drafts, user.name, source);
+      if (entries.length === 0) return;
+      changeAuditLog((prev) => [...prev, ...entries]);
+      sync(() => appendAuditLog(entries));
+    },
+    [sync, changeAuditLog, user.name],
+  );
+
+  const applyWorkspace = useCallback(
+    (data: WorkspaceData) => {
+      changeTeams(() => data.teams);
+      changeMembers(() => data.members);
+      changeProjects(() => data.projects);
+      changeAssignments(() => data.assignments);
+      changeTimeOff(() => data.timeOff);
+      changeBaselines(() => data.baselines);
+      changeDependencies(() => data.dependencies);
+    },
+    [
+      changeTeams,
+      changeMembers,
+      changeProjects,
+      changeAssignments,
+      changeTimeOff,
+      changeBaselines,
+      changeDependencies,
+    ],
+  );
+
+  // Undo/redo. Each edit records the workspace as it was before the edit;
+  // inside a batch (a CSV import, one bar drag) only the first edit records,
+  // so the whole batch undoes as a single step.
+  const historyRef = useRef<HistoryState>(EMPTY_HISTORY);
+  const [history, setHistory] = useState<HistoryState>(EMPTY_HISTORY);
+  const batchRef = useRef<{
+    label: string;
+    recorded: boolean;
+    source?: string;
+    drafts: AuditDraft[];
+  } | null>(null);
+  const undoToastRef = useRef<string | number | null>(null);
+
+  const updateHistory = useCallback((next: HistoryState) => {
+    historyRef.current = next;
+    setHistory(next);
   }, []);
 
-  const updateMember = useCallback((id: string, data: Partial<Member>) => {
-    setMembers((prev) => {
-      const next = prev.map((m) => (m.id === id ? { ...m, ...data } : m));
-      saveMembers(next);
-      return next;
-    });
+  const dismissUndoToast = useCallback(() => {
+    if (undoToastRef.current === null) return;
+    toast.dismiss(undoToastRef.current);
+    undoToastRef.current = null;
   }, []);
 
-  const deleteMember = useCallback((id: string) => {
-    setMembers((prev) => {
-      const next = prev.filter((m) => m.id !== id);
-      saveMembers(next);
-      return next;
+  const record = useCallback(
+    (label: string) => {
+      const batch = batchRef.current;
+      if (batch) {
+        if (batch.recorded) return;
+        batch.recorded = true;
+        label = batch.label;
+      }
+      // An older "Undo" toast would now undo this edit instead
+      dismissUndoToast();
+      updateHistory(
+        pushHistory(historyRef.current, { label, snapshot: getWorkspace() }),
+      );
+    },
+    [updateHistory, dismissUndoToast],
+  );
+
+  // Offline edits the server turned down on replay
+  useEffect(
+    () =>
+      onOutboxRefused((count) => {
+        toast.warning(
+          `${countLabel(count, "change")} made offline could not be saved: someone else changed the same records. Their version is shown.`,
+        );
+        queryClient.invalidateQueries({ queryKey: WORKSPACE_QUERY_KEY });
+      }),
+    [queryClient],
+  );
+
+  // A plan this browser kept before it first synced, waiting for the user
+  // to say whether it should go to the (empty) server
+  const [unsyncedPlan, setUnsyncedPlan] = useState<WorkspaceData | null>(null);
+  const canEdit = hasRole(user, "planner");
+
+  // Every fetch of the server's copy replaces the local plan
+  useEffect(() => {
+    const remote = workspaceQuery.data;
+    if (!remote) return;
+    if (isWorkspaceEmpty(remote) && canEdit) {
+      const local = getUnsyncedWorkspace();
+      if (local) {
+        setUnsyncedPlan(local);
+        return;
+      }
+    }
+    markSynced();
+    // Keep the live copy current behind an open scenario
+    if (getActiveScenario()) inScope(null, () => saveWorkspace(remote));
+    else {
+      // Undo must not bring back what other planners have since changed
+      updateHistory(rebaseHistory(historyRef.current, getWorkspace(), remote));
+      applyWorkspace(remote);
+    }
+  }, [workspaceQuery.data, canEdit, applyWorkspace, updateHistory]);
+
+  /** Upload the plan this browser kept, or drop it for the server's */
+  const resolveUnsyncedPlan = useCallback(
+    (upload: boolean) => {
+      if (!unsyncedPlan) return;
+      setUnsyncedPlan(null);
+      markSynced();
+      if (upload) sync(() => replaceWorkspace(unsyncedPlan));
+      else if (workspaceQuery.data) applyWorkspace(workspaceQuery.data);
+    },
+    [unsyncedPlan, workspaceQuery.data, sync, applyWorkspace],
+  );
+
+  // Audit entries made during a batch are held back and merged at the end,
+  // so a drag is logged as one move rather than one per mouse step
+  const log = useCallback(
+    (draft: AuditDraft) => {
+      if (batchRef.current) batchRef.current.drafts.push(draft);
+      else commitAudit([draft]);
+    },
+    [commitAudit],
+  );
+
+  // Assignments moved along dependency links, with their dates before the
+  // first move. Reported once per edit, or once per batch so a drag ends
+  // with a single summary.
+  const cascadeRef = useRef(new Map<string, Assignment>());
+
+  const reportCascade = useCallback(() => {
+    const before = cascadeRef.current;
+    if (before.size === 0) return;
+    cascadeRef.current = new Map();
+    const moved = getAssignments().filter((a) => {
+      const previous = before.get(a.id);
+      return (
+        previous &&
+        (previous.startDate !== a.startDate || previous.endDate !== a.endDate)
+      );
     });
-    // Also remove assignments for this member
-    setAssignments((prev) => {
-      const next = prev.filter((a) => a.memberId !== id);
-      saveAssignments(next);
-      return next;
+    if (moved.length === 0) return;
+    const message = `Rescheduled ${countLabel(moved.length, "dependent assignment")}`;
+    const clashes = moved
+      .map((a) => ({
+        assignment: a,
+        conflicts: findBookingConflicts(a),
+      }))
+      .filter((c) => c.conflicts.length > 0);
+    if (clashes.length === 0) {
+      toast(message);
+      return;
+    }
+    toast.warning(`${message}, ${clashes.length} now over capacity`, {
+      description: clashes
+        .map(
+          ({ assignment, conflicts }) =>
+            `${assignmentName(assignment)} clashes with ${conflicts
+              .map((c) => projectName(c.projectId))
+              .join(", ")}`,
+        )
+        .join("; "),
     });
   }, []);
 
-  // Projects
-  const addProject = useCallback((project: Omit<Project, "id">) => {
-    const newProject = { ...project, id: generateId() };
-    setProjects((prev) => {
-      const next = [...prev, newProject];
-      saveProjects(next);
-      return next;
-    });
-    return newProject;
+  const beginBatch = useCallback((label: string, source?: string) => {
+    batchRef.current = { label, recorded: false, source, drafts: [] };
   }, []);
 
-  const updateProject = useCallback((id: string, data: Partial<Project>) => {
-    setProjects((prev) => {
-      const next = prev.map((p) => (p.id === id ? { ...p, ...data } : p));
-      saveProjects(next);
-      return next;
-    });
-  }, []);
+  const endBatch = useCallback(() => {
+    const current = batchRef.current;
+    batchRef.current = null;
+    if (current) commitAudit(current.drafts, current.source);
+    reportCascade();
+  }, [commitAudit, reportCascade]);
 
-  const deleteProject = useCallback((id: string) => {
-    setProjects((prev) => {
-      const next = prev.filter((p) => p.id !== id);
-      saveProjects(next);
-      return next;
-    });
-    // Also remove assignments for this project
-    setAssignments((prev) => {
-      const next = prev.filter((a) => a.projectId !== id);
-      saveAssignments(next);
-      return next;
+  /** Run several edits as one undo step, logged as part of `label` */
+  const batch = useCallback(
+    <T>(label: string, run: () => T): T => {
+      if (batchRef.current) return run();
+      beginBatch(label, label);
+      try {
+        return run();
+      } finally {
+        endBatch();
+      }
+    },
+    [beginBatch, endBatch],
+  );
+
+  /**
+   * Save a jump of the whole plan (undo, redo, a restore) record by record.
+   * Each update names the values it replaces, so a record another planner
+   * changed meanwhile is refused instead of overwritten.
+   */
+  const persistChanges = useCallback(
+    (from: WorkspaceData, to: WorkspaceData) => {
+      const changes = workspaceChanges(from, to);
+      // Removals first, children before parents, so nothing is left dangling
+      for (const { collection, id, after } of [...changes].reverse()) {
+        if (!after) persist(() => collectionApis[collection].remove(id));
+      }
+      for (const { collection, id, before, after } of changes) {
+        if (!after) continue;
+        if (!before) {
+          persist(() => collectionApis[collection].create(after));
+          continue;
+        }
+        const fields = changedFields(before, after);
+        const pick = (item: object) =>
+          Object.fromEntries(fields.map((field) => [field, item[field]]));
+        persist(() =>
+          collectionApis[collection].update(id, pick(after), pick(before)),
+        );
+      }
+      if (isReordered(from.teams, to.teams))
+        persist(() => teamsApi.replaceAll(to.teams));
+    },
+    [persist],
+  );
+
+  const travel = useCallback(
+    (step: typeof undoHistory) => {
+      const result = step(historyRef.current, getWorkspace());
+      if (!result) return;
+      const undoing = step === undoHistory;
+      const label = undoing
+        ? historyRef.current.past[historyRef.current.past.length - 1].label
+        : historyRef.current.future[historyRef.current.future.length - 1].label;
+      batchRef.current = null;
+      dismissUndoToast();
+      updateHistory(result.history);
+      const current = getWorkspace();
+      applyWorkspace(result.snapshot);
+      persistChanges(current, result.snapshot);
+      commitAudit([
+        {
+          action: undoing ? "undo" : "redo",
+          entityType: "workspace",
+          entityName: "",
+          summary: `${undoing ? "Undid" : "Redid"}: ${label}`,
+        },
+      ]);
+    },
+    [
+      persistChanges,
+      applyWorkspace,
+      updateHistory,
+      dismissUndoToast,
+      commitAudit,
+    ],
+  );
+
+  // Live collaboration: other planners' writes arrive as change events and
+  // reload the plan; presence says who is looking at or dragging what
+  const [peers, setPeers] = useState<Presence[]>([]);
+  const presenceRef = useRef<PresenceState>({});
+  const setPresence = useCallback(
+    (state: PresenceState) => {
+      presenceRef.current = { ...presenceRef.current, ...state };
+      sendPresence({
+        clientId: CLIENT_ID,
+        name: user.name,
+        ...presenceRef.current,
+      }).catch(() => undefined);
+    },
+    [user.name],
+  );
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout>;
+    const collections = new Set<string>();
+    // Bursts (an import, a drag) reload once; a drag in progress here is
+    // not interrupted by a reload
+    const reloadSoon = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        if (batchRef.current) return reloadSoon();
+        if ([...collections].some((c) => c !== "audit"))
+          queryClient.invalidateQueries({ queryKey: WORKSPACE_QUERY_KEY });
+        queryClient.invalidateQueries({ queryKey: AUDIT_QUERY_KEY });
+        collections.clear();
+      }, 300);
+    };
+    const disconnect = connectLive({
+      onOpen: () => setPresence({}),
+      onChange: (change) => {
+        collections.add(change.collection);
+        reloadSoon();
+      },
+      onPresence: (everyone) => setPeers(otherPeers(everyone)),
     });
-  }, []);
+    return () => {
+      clearTimeout(timer);
+      disconnect();
+    };
+  }, [queryClient, setPresence]);
+
+  const undo = useCallback(() => travel(undoHistory), [travel]);
+  const redo = useCallback(() => travel(redoHistory), [travel]);
+
+  const notifyUndoable = useCallback(
+    (message: string) => {
+      undoToastRef.current = toast(message, {
+        action: { label: "Undo", onClick: undo },
+      });
+    },
+    [undo],
+  );
+
+  // Whole workspace (backup restore)
+  const restoreWorkspace = useCallback(
+    (data: WorkspaceData) => {
+      record("Restore backup");
+      const current = getWorkspace();
+      applyWorkspace(data);
+      persistChanges(current, data);
+      log({
+        action: "restore",
+        entityType: "workspace",
+        entityName: "",
+        summary: "Restored workspace from backup",
+      });
+      notifyUndoable("Workspace restored from backup");
+    },
+    [persistChanges, applyWorkspace, record, log, notifyUndoable],
+  );
+
+  // Scenarios. Undo history belongs to the plan being edited, so it is
+  // cleared whenever the open plan changes.
+  const switchScenario = useCallback(
+    (id: string | null) => {
+      batchRef.current = null;
+      dismissUndoToast();
+      setActiveScenario(id);
+      setActiveScenarioId(id);
+      applyWorkspace(getWorkspace());
+      updateHistory(EMPTY_HISTORY);
+    },
+    [applyWorkspace, updateHistory, dismissUndoToast],
+  );
+
+  /** Fork the plan currently open into a new scenario and open it */
+  const createScenario = useCallback(
+    (name: string) => {
+      const now = new Date().toISOString();
+      const scenario: ScenarioSummary = {
+        id: generateId(),
+        name: name.trim(),
+        createdAt: now,
+        updatedAt: now,
+      };
+      saveScenarioData(scenario.id, getWorkspace());
+      changeScenarios((prev) => [...prev, scenario]);
+      saveScenarioCopy(scenario);
+      switchScenario(scenario.id);
+      return scenario;
+    },
+    [changeScenarios, saveScenarioCopy, switchScenario],
+  );
+
+  const renameScenario = useCallback(
+    (id: string, name: string) => {
+      const summary = getScenarios().find((s) => s.id === id);
+      if (!summary) return;
+      const updated = {
+        ...summary,
+        name: name.trim(),
+        updatedAt: new Date().toISOString(),
+      };
+      changeScenarios((prev) => prev.map((s) => (s.id === id ? updated : s)));
+      saveScenarioCopy(updated);
+    },
+    [changeScenarios, saveScenarioCopy],
+  );
+
+  const discardScenario = useCallback(
+    (id: string) => {
+      if (getActiveScenario() === id) switchScenario(null);
+      removeScenarioData(id);
+      changeScenarios((prev) => prev.filter((s) => s.id !== id));
+      sync(() => deleteScenario(id));
+    },
+    [sync, changeScenarios, switchScenario],
+  );
+
+  /** Replace the live plan with a scenario; the scenario is used up */
+  const promoteScenario = useCallback(
+    (id: string) => {
+      const scenario = getScenarios().find((s) => s.id === id);
+      if (!scenario) return;
+      const data = getScenarioData(id);
+      switchScenario(null);
+      discardScenario(id);
+      record("Promote scenario");
+      applyWorkspace(data);
+      sync(() => replaceWorkspace(data));
+      log({
+        action: "restore",
+        entityType: "workspace",
+        entityName: scenario.name,
+        summary: `Replaced live plan with scenario ${scenario.name}`,
+      });
+      notifyUndoable(`Promoted ${scenario.name} to the live plan`);
+    },
+    [
+      sync,
+      record,
+      log,
+      notifyUndoable,
+      applyWorkspace,
+      discardScenario,
+      switchScenario,
+    ],
+  );
+
+  // Teams
+  const addTeam = useCallback(
+    (team: Omit<Team, "id">) => {
+      record("Add team");
+      const newTeam = { ...team, id: generateId() };
+      changeTeams((prev) => [...prev, newTeam]);
+      persist(() => teamsApi.create(newTeam));
+      log({
+        action: "create",
+        entityType: "team",
+        entityId: newTeam.id,
+        entityName: newTeam.name,
+      });
+      return newTeam;
+    },
+    [persist, record, log, changeTeams],
+  );
+
+  const updateTeam = useCallback(
+    (id: string, data: Partial<Team>) => {
+      const before = getTeams().find((t) => t.id === id);
+      record("Edit team");
+      changeTeams((prev) =>
+        prev.map((t) => (t.id === id ? { ...t, ...data } : t)),
+      );
+      persist(() => teamsApi.update(id, data));
+      if (before) {
+        const after = { ...before, ...data };
+        log({
+          action: "update",
+          entityType: "team",
+          entityId: id,
+          entityName: after.name,
+          changes: diffRecord(before, after),
+        });
+      }
+    },
+    [persist, record, log, changeTeams],
+  );
+
+  const deleteTeam = useCallback(
+    (id: string) => {
+      const team = getTeams().find((t) => t.id === id);
+      record("Delete team");
+      changeTeams((prev) => prev.filter((t) => t.id !== id));
+      // Also remove team-wide closures for this team
+      changeTimeOff((prev) => prev.filter((t) => t.teamId !== id));
+      persist(() => teamsApi.remove(id));
+      log({
+        action: "delete",
+        entityType: "team",
+        entityId: id,
+        entityName: team?.name ?? "",
+      });
+      notifyUndoable(`Deleted ${team?.name ?? "team"}`);
+    },
+    [persist, record, log, notifyUndoable, changeTeams, changeTimeOff],
+  );
+
+  const reorderTeams = useCallback(
+    (reordered: Team[]) => {
+      const order = (list: Team[]) => list.map((t) => t.name).join(", ");
+      const before = order(getTeams());
+      record("Reorder teams");
+      changeTeams(() => reordered);
+      persist(() => teamsApi.replaceAll(reordered));
+      log({
+        action: "update",
+        entityType: "team",
+        entityName: "",
+        summary: "Reordered teams",
+        changes: [{ field: "order", from: before, to: order(reordered) }],
+      });
+    },
+    [persist, record, log, changeTeams],
+  );
+
+  /** Links left pointing at a removed assignment are dropped with it */
+  const pruneDependencies = useCallback(() => {
+    const ids = new Set(getAssignments().map((a) => a.id));
+    changeDependencies((prev) =>
+      prev.filter((d) => ids.has(d.predecessorId) && ids.has(d.successorId)),
+    );
+  }, [changeDependencies]);
+
+  // Members
+  const addMember = useCallback(
+    (member: Omit<Member, "id">) => {
+      record("Add member");
+      const newMember = { ...member, id: generateId() };
+      changeMembers((prev) => [...prev, newMember]);
+      persist(() => membersApi.create(newMember));
+      log({
+        action: "create",
+        entityType: "member",
+        entityId: newMember.id,
+        entityName: newMember.name,
+      });
+      return newMember;
+    },
+    [persist, record, log, changeMembers],
+  );
+
+  const updateMember = useCallback(
+    (id: string, data: Partial<Member>) => {
+      const before = getMembers().find((m) => m.id === id);
+      record("Edit member");
+      changeMembers((prev) =>
+        prev.map((m) => (m.id === id ? { ...m, ...data } : m)),
+      );
+      persist(() => membersApi.update(id, data));
+      if (before) {
+        const after = { ...before, ...data };
+        log({
+          action: "update",
+          entityType: "member",
+          entityId: id,
+          entityName: after.name,
+          changes: diffRecord(before, after, memberFields),
+        });
+      }
+    },
+    [persist, record, log, changeMembers],
+  );
+
+  const deleteMember = useCallback(
+    (id: string) => {
+      const member = getMembers().find((m) => m.id === id);
+      const booked = getAssignments().filter((a) => a.memberId === id).length;
+      record("Delete member");
+      changeMembers((prev) => prev.filter((m) => m.id !== id));
+      // Also remove assignments and leave for this member, and drop them
+      // as owner of their projects
+      changeAssignments((prev) => prev.filter((a) => a.memberId !== id));
+      pruneDependencies();
+      changeTimeOff((prev) => prev.filter((t) => t.memberId !== id));
+      changeProjects((prev) =>
+        prev.map(({ ownerId, ...p }) =>
+          ownerId === id ? p : { ...p, ownerId },
+        ),
+      );
+      persist(() => membersApi.remove(id));
+      const removed =
+        `Deleted ${member?.name ?? "member"}` +
+        (booked ? ` and ${countLabel(booked, "assignment")}` : "");
+      log({
+        action: "delete",
+        entityType: "member",
+        entityId: id,
+        entityName: member?.name ?? "",
+        summary: booked
+          ? `Deleted member ${member?.name ?? ""} and ${countLabel(booked, "assignment")}`
+          : undefined,
+      });
+      notifyUndoable(removed);
+    },
+    [
+      persist,
+      record,
+      log,
+      notifyUndoable,
+      changeMembers,
+      changeAssignments,
+      changeTimeOff,
+      changeProjects,
+      pruneDependencies,
+    ],
+  );
+
+  // Projects
+  const addProject = useCallback(
+    (project: Omit<Project, "id">) => {
+      record("Add project");
+      const newProject = { ...project, id: generateId() };
+      changeProjects((prev) => [...prev, newProject]);
+      persist(() => projectsApi.create(newProject));
+      log({
+        action: "create",
+        entityType: "project",
+        entityId: newProject.id,
+        projectId: newProject.id,
+        entityName: newProject.name,
+      });
+      return newProject;
+    },
+    [persist, record, log, changeProjects],
+  );
+
+  const updateProject = useCallback(
+    (id: string, data: Partial<Project>) => {
+      const before = getProjects().find((p) => p.id === id);
+      record("Edit project");
+      changeProjects((prev) =>
+        prev.map((p) => (p.id === id ? { ...p, ...data } : p)),
+      );
+      persist(() => projectsApi.update(id, data));
+      if (before) {
+        const after = { ...before, ...data };
+        log({
+          action: "update",
+          entityType: "project",
+          entityId: id,
+          projectId: id,
+          entityName: after.name,
+          changes: diffRecord(before, after, projectFields),
+        });
+      }
+    },
+    [persist, record, log, changeProjects],
+  );
+
+  const deleteProject = useCallback(
+    (id: string) => {
+      const project = getProjects().find((p) => p.id === id);
+      const booked = getAssignments().filter((a) => a.projectId === id).length;
+      record("Delete project");
+      changeProjects((prev) => prev.filter((p) => p.id !== id));
+      // Also remove assignments for this project
+      changeAssignments((prev) => prev.filter((a) => a.projectId !== id));
+      pruneDependencies();
+      persist(() => projectsApi.remove(id));
+      log({
+        action: "delete",
+        entityType: "project",
+        entityId: id,
+        projectId: id,
+        entityName: project?.name ?? "",
+        summary: booked
+          ? `Deleted project ${project?.name ?? ""} and ${countLabel(booked, "assignment")}`
+          : undefined,
+      });
+      notifyUndoable(
+        `Deleted ${project?.name ?? "project"}` +
+          (booked ? ` and ${countLabel(booked, "assignment")}` : ""),
+      );
+    },
+    [
+      persist,
+      record,
+      log,
+      notifyUndoable,
+      changeProjects,
+      changeAssignments,
+      pruneDependencies,
+    ],
+  );
+
+  /** Apply dates pushed along dependency links by a change to `cause` */
+  const moveDependents = useCallback(
+    (moves: Assignment[], cause: Assignment) => {
+      if (moves.length === 0) return;
+      const before = new Map(getAssignments().map((a) => [a.id, a]));
+      const byId = new Map(moves.map((a) => [a.id, a]));
+      changeAssignments((prev) => prev.map((a) => byId.get(a.id) ?? a));
+      for (const moved of moves) {
+        const previous = before.get(moved.id);
+        if (!cascadeRef.current.has(moved.id))
+          cascadeRef.current.set(moved.id, previous);
+        persist(() =>
+          assignmentsApi.update(moved.id, {
+            startDate: moved.startDate,
+            endDate: moved.endDate,
+          }),
+        );
+        log({
+          action: "move",
+          entityType: "assignment",
+          entityId: moved.id,
+          projectId: moved.projectId,
+          entityName: assignmentName(moved),
+          changes: diffRecord(previous, moved, assignmentFields),
+          note: `Follows ${assignmentName(cause)}`,
+        });
+      }
+    },
+    [persist, log, changeAssignments],
+  );
 
   // Assignments
+  // A per-browser preference: not part of the plan
+  const [tentativeBlocks, setTentativeBlocksState] =
+    useState(getTentativeBlocks);
+  const setTentativeBlocks = useCallback((blocks: boolean) => {
+    saveTentativeBlocks(blocks);
+    setTentativeBlocksState(blocks);
+  }, []);
+
   const addAssignment = useCallback(
     (
       assignment: Omit<Assignment, "id">,
     ): { success: boolean; conflicts: Assignment[] } => {
-      const conflicts = findConflicts(
-        assignment.memberId,
-        assignment.startDate,
-        assignment.endDate,
-      );
+      const conflicts = findBookingConflicts(assignment);
       if (conflicts.length > 0) return { success: false, conflicts };
+      record("Add assignment");
       const newAssignment = { ...assignment, id: generateId() };
-      setAssignments((prev) => {
-        const next = [...prev, newAssignment];
-        saveAssignments(next);
-        return next;
+      changeAssignments((prev) => [...prev, newAssignment]);
+      persist(() => assignmentsApi.create(newAssignment));
+      log({
+        action: "create",
+        entityType: "assignment",
+        entityId: newAssignment.id,
+        projectId: newAssignment.projectId,
+        entityName: assignmentName(newAssignment),
       });
       return { success: true, conflicts: [] };
     },
-    [],
+    [persist, record, log, changeAssignments],
   );
 
   const updateAssignment = useCallback(
     (
       id: string,
       data: Partial<Assignment>,
+      note?: string,
     ): { success: boolean; conflicts: Assignment[] } => {
       // Get existing assignment to merge
       const existing = getAssignments().find((a) => a.id === id);
       if (!existing) return { success: false, conflicts: [] };
       const merged = { ...existing, ...data };
-      const conflicts = findConflicts(
-        merged.memberId,
-        merged.startDate,
-        merged.endDate,
-        id,
-      );
+      const conflicts = findBookingConflicts(merged);
       if (conflicts.length > 0) return { success: false, conflicts };
-      setAssignments((prev) => {
-        const next = prev.map((a) => (a.id === id ? merged : a));
-        saveAssignments(next);
-        return next;
+      record("Edit assignment");
+      changeAssignments((prev) => prev.map((a) => (a.id === id ? merged : a)));
+      // The values this edit replaces: if another planner has changed them
+      // on the server meanwhile, the server refuses instead of overwriting
+      const expected = Object.fromEntries(
+        Object.keys(data).map((key) => [key, existing[key]]),
+      ) as Partial<Assignment>;
+      persist(() => assignmentsApi.update(id, data, expected));
+      const changes = diffRecord(existing, merged, assignmentFields);
+      log({
+        action: assignmentAction(changes),
+        entityType: "assignment",
+        entityId: id,
+        projectId: merged.projectId,
+        entityName: assignmentName(merged),
+        changes,
+        note,
       });
+      // Dependents follow even into overbooking; the summary points it out
+      moveDependents(
+        cascadeShifts(existing, merged, getAssignments(), getDependencies()),
+        merged,
+      );
+      if (!batchRef.current) reportCascade();
       return { success: true, conflicts: [] };
     },
-    [],
+    [persist, record, log, changeAssignments, moveDependents, reportCascade],
   );
 
-  const deleteAssignment = useCallback((id: string) => {
-    setAssignments((prev) => {
-      const next = prev.filter((a) => a.id !== id);
-      saveAssignments(next);
-      return next;
-    });
-  }, []);
+  const deleteAssignment = useCallback(
+    (id: string) => {
+      const assignment = getAssignments().find((a) => a.id === id);
+      record("Delete assignment");
+      changeAssignments((prev) => prev.filter((a) => a.id !== id));
+      pruneDependencies();
+      persist(() => assignmentsApi.remove(id));
+      if (assignment) {
+        log({
+          action: "delete",
+          entityType: "assignment",
+          entityId: id,
+          projectId: assignment.projectId,
+          entityName: assignmentName(assignment),
+        });
+      }
+      notifyUndoable("Assignment deleted");
+    },
+    [
+      persist,
+      record,
+      log,
+      notifyUndoable,
+      changeAssignments,
+      pruneDependencies,
+    ],
+  );
+
+  // Dependencies
+  const addDependency = useCallback(
+    (dependency: Omit<Dependency, "id">): Dependency | null => {
+      const all = getAssignments();
+      const predecessor = all.find((a) => a.id === dependency.predecessorId);
+      const successor = all.find((a) => a.id === dependency.successorId);
+      // Either booking may have been deleted by another planner meanwhile
+      if (!predecessor || !successor) {
+        toast.error("Not linked: one of the assignments no longer exists");
+        return null;
+      }
+      record("Link assignments");
+      const link = { ...dependency, id: generateId() };
+      changeDependencies((prev) => [...prev, link]);
+      persist(() => dependenciesApi.create(link));
+      log({
+        action: "create",
+        entityType: "dependency",
+        entityId: link.id,
+        projectId: successor.projectId,
+        entityName: `${assignmentName(predecessor)} → ${assignmentName(successor)}`,
+      });
+      // A successor already scheduled too early is pushed out right away
+      const earliest = earliestStart(link, predecessor);
+      if (successor.startDate < earliest) {
+        const shifted = shiftAssignment(successor, earliest);
+        moveDependents(
+          [
+            shifted,
+            ...cascadeShifts(successor, shifted, all, getDependencies()),
+          ],
+          predecessor,
+        );
+      }
+      if (!batchRef.current) reportCascade();
+      return link;
+    },
+    [persist, record, log, changeDependencies, moveDependents, reportCascade],
+  );
+
+  const deleteDependency = useCallback(
+    (id: string) => {
+      const link = getDependencies().find((d) => d.id === id);
+      record("Unlink assignments");
+      changeDependencies((prev) => prev.filter((d) => d.id !== id));
+      persist(() => dependenciesApi.remove(id));
+      if (link) {
+        const all = getAssignments();
+        const predecessor = all.find((a) => a.id === link.predecessorId);
+        const successor = all.find((a) => a.id === link.successorId);
+        log({
+          action: "delete",
+          entityType: "dependency",
+          entityId: id,
+          projectId: successor?.projectId,
+          entityName: `${assignmentName(predecessor)} → ${assignmentName(successor)}`,
+        });
+      }
+      notifyUndoable("Dependency removed");
+    },
+    [persist, record, log, notifyUndoable, changeDependencies],
+  );
+
+  // Open roles
+  /**
+   * Hand every booking of an open role to a real member, each through the
+   * usual conflict check. Bookings that would overbook the member stay on
+   * the role; once none are left the role itself is closed.
+   */
+  const fillPlaceholder = useCallback(
+    (placeholderId: string, memberId: string) =>
+      batch("Fill open role", () => {
+        const role = getMembers().find((m) => m.id === placeholderId);
+        const roleName = role?.name ?? "open role";
+        const bookings = getAssignments().filter(
+          (a) => a.memberId === placeholderId,
+        );
+        const failed = bookings.filter(
+          (a) =>
+            !updateAssignment(a.id, { memberId }, `Filled ${roleName}`).success,
+        );
+        const filled = bookings.length - failed.length;
+        if (failed.length === 0) {
+          record("Fill open role");
+          changeMembers((prev) => prev.filter((m) => m.id !== placeholderId));
+          changeTimeOff((prev) =>
+            prev.filter((t) => t.memberId !== placeholderId),
+          );
+          persist(() => membersApi.remove(placeholderId));
+          log({
+            action: "delete",
+            entityType: "member",
+            entityId: placeholderId,
+            entityName: roleName,
+            summary: `Closed open role ${roleName}`,
+          });
+        }
+        if (filled > 0 || failed.length === 0) {
+          notifyUndoable(
+            `${memberName(memberId)} took ${countLabel(filled, "booking")} from ${roleName}` +
+              (failed.length ? `; ${failed.length} still open` : ""),
+          );
+        }
+        return { filled, failed };
+      }),
+    [
+      batch,
+      updateAssignment,
+      record,
+      persist,
+      log,
+      notifyUndoable,
+      changeMembers,
+      changeTimeOff,
+    ],
+  );
+
+  /**
+   * Apply a leveling proposal exactly as previewed: one undo step, no
+   * dependency cascade and no further conflict checks, since the proposal
+   * already placed each booking. Moves whose booking changed or vanished
+   * since are skipped and returned.
+   */
+  const applyLeveling = useCallback(
+    (moves: LevelingMove[]) =>
+      batch("Level resources", () => {
+        const current = new Map(getAssignments().map((a) => [a.id, a]));
+        const stale = moves.filter((m) => {
+          const now = current.get(m.assignment.id);
+          return (
+            !now ||
+            now.memberId !== m.assignment.memberId ||
+            now.startDate !== m.assignment.startDate ||
+            now.endDate !== m.assignment.endDate
+          );
+        });
+        // The planner may have accepted only some of the proposal
+        const { applied, clashing } = fitMoves(
+          getAssignments(),
+          moves.filter((m) => !stale.includes(m)),
+          (moved, plan) =>
+            findBookingConflicts(moved, getTentativeBlocks(), plan),
+        );
+        const skipped = [...stale, ...clashing];
+        if (applied.length === 0) return skipped;
+        record("Level resources");
+        changeAssignments((prev) => applyMoves(prev, applied));
+        for (const { assignment, changes } of applied) {
+          const moved = { ...assignment, ...changes };
+          const expected = {
+            memberId: assignment.memberId,
+            startDate: assignment.startDate,
+            endDate: assignment.endDate,
+          };
+          persist(() =>
+            assignmentsApi.update(assignment.id, changes, expected),
+          );
+          const diff = diffRecord(assignment, moved, assignmentFields);
+          log({
+            action: assignmentAction(diff),
+            entityType: "assignment",
+            entityId: assignment.id,
+            projectId: assignment.projectId,
+            entityName: assignmentName(moved),
+            changes: diff,
+            note: "Resource leveling",
+          });
+        }
+        // Leveling ignores links, so dependents follow afterwards; the batch
+        // ends with the usual summary of what moved and now clashes
+        for (const { assignment, changes } of applied) {
+          const moved = { ...assignment, ...changes };
+          moveDependents(
+            cascadeShifts(
+              assignment,
+              moved,
+              getAssignments(),
+              getDependencies(),
+            ),
+            moved,
+          );
+        }
+        return skipped;
+      }),
+    [batch, record, persist, log, changeAssignments, moveDependents],
+  );
+
+  // Time off
+  const addTimeOff = useCallback(
+    (entry: Omit<TimeOff, "id">) => {
+      record("Add time off");
+      const newEntry = { ...entry, id: generateId() };
+      changeTimeOff((prev) => [...prev, newEntry]);
+      persist(() => timeOffApi.create(newEntry));
+      log({
+        action: "create",
+        entityType: "timeOff",
+        entityId: newEntry.id,
+        entityName: newEntry.label,
+      });
+      return newEntry;
+    },
+    [persist, record, log, changeTimeOff],
+  );
+
+  const updateTimeOff = useCallback(
+    (id: string, data: Partial<TimeOff>) => {
+      const before = getTimeOff().find((t) => t.id === id);
+      record("Edit time off");
+      changeTimeOff((prev) =>
+        prev.map((t) => (t.id === id ? { ...t, ...data } : t)),
+      );
+      persist(() => timeOffApi.update(id, data));
+      if (before) {
+        const after = { ...before, ...data };
+        log({
+          action: "update",
+          entityType: "timeOff",
+          entityId: id,
+          entityName: after.label,
+          changes: diffRecord(before, after, timeOffFields),
+        });
+      }
+    },
+    [persist, record, log, changeTimeOff],
+  );
+
+  const deleteTimeOff = useCallback(
+    (id: string) => {
+      const entry = getTimeOff().find((t) => t.id === id);
+      record("Delete time off");
+      changeTimeOff((prev) => prev.filter((t) => t.id !== id));
+      persist(() => timeOffApi.remove(id));
+      log({
+        action: "delete",
+        entityType: "timeOff",
+        entityId: id,
+        entityName: entry?.label ?? "",
+      });
+      notifyUndoable(`Deleted ${entry?.label ?? "time off"}`);
+    },
+    [persist, record, log, notifyUndoable, changeTimeOff],
+  );
+
+  // Baselines
+  const saveBaseline = useCallback(
+    (name: string) => {
+      record("Save baseline");
+      const baseline: Baseline = {
+        ...captureBaseline(name, getAssignments()),
+        id: generateId(),
+      };
+      changeBaselines((prev) => [...prev, baseline]);
+      persist(() => baselinesApi.create(baseline));
+      log({
+        action: "create",
+        entityType: "baseline",
+        entityId: baseline.id,
+        entityName: baseline.name,
+        summary: `Saved baseline ${baseline.name} of ${countLabel(Object.keys(baseline.assignments).length, "assignment")}`,
+      });
+      return baseline;
+    },
+    [persist, record, log, changeBaselines],
+  );
+
+  const deleteBaseline = useCallback(
+    (id: string) => {
+      const baseline = getBaselines().find((b) => b.id === id);
+      record("Delete baseline");
+      changeBaselines((prev) => prev.filter((b) => b.id !== id));
+      persist(() => baselinesApi.remove(id));
+      log({
+        action: "delete",
+        entityType: "baseline",
+        entityId: id,
+        entityName: baseline?.name ?? "",
+      });
+      notifyUndoable(`Deleted baseline ${baseline?.name ?? ""}`);
+    },
+    [persist, record, log, notifyUndoable, changeBaselines],
+  );
 
   return {
+    isOffline: workspaceQuery.isError || workspaceQuery.isPaused,
+    unsyncedPlan,
+    resolveUnsyncedPlan,
+    scenarios,
+    activeScenario: scenarios.find((s) => s.id === activeScenarioId) ?? null,
+    switchScenario,
+    createScenario,
+    renameScenario,
+    discardScenario,
+    promoteScenario,
+    auditLog,
+    peers,
+    setPresence,
+    restoreWorkspace,
+    undo,
+    redo,
+    undoLabel: history.past[history.past.length - 1]?.label,
+    redoLabel: history.future[history.future.length - 1]?.label,
+    batch,
+    beginBatch,
+    endBatch,
     teams,
     addTeam,
     updateTeam,
@@ -191,5 +1430,19 @@ export function useAppData() {
     addAssignment,
     updateAssignment,
     deleteAssignment,
+    fillPlaceholder,
+    applyLeveling,
+    tentativeBlocks,
+    setTentativeBlocks,
+    timeOff,
+    addTimeOff,
+    updateTimeOff,
+    deleteTimeOff,
+    baselines,
+    saveBaseline,
+    deleteBaseline,
+    dependencies,
+    addDependency,
+    deleteDependency,
   };
 }
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { columnLoads, loadLevel, loadPercent, sumLoads } from "./utilization";
+import { parseDate } from "./dateUtils";
+import { Assignment, Member } from "./types";
+
+const member: Member = { id: "m-1", name: "Ann", role: "Dev", teamId: "t-1" };
+
+function booking(
+  startDate: string,
+  endDate: string,
+  allocation: number,
+): Assignment {
+  return {
+    id: `${startDate}-${allocation}`,
+    memberId: "m-1",
+    projectId: "p-1",
+    startDate,
+    endDate,
+    allocation,
+  };
+}
+
+describe("columnLoads", () => {
+  // 2025-03-03 is a Monday
+  const weeks = [parseDate("2025-03-03"), parseDate("2025-03-10")];
+
+  it("rates each week against the member's capacity", () => {
+    const loads = columnLoads(
+      member,
+      [booking("2025-03-03", "2025-03-07", 100)],
+      [],
+      weeks,
+      "week",
+    );
+    expect(loads.map(loadPercent)).toEqual([100, 0]);
+  });
+
+  it("adds overlapping bookings past full capacity", () => {
+    const loads = columnLoads(
+      member,
+      [
+        booking("2025-03-03", "2025-03-14", 50),
+        booking("2025-03-10", "2025-03-14", 75),
+      ],
+      [],
+      weeks,
+      "week",
+    );
+    expect(loads.map(loadPercent)).toEqual([50, 125]);
+    expect(loads.map((l) => loadLevel(loadPercent(l)))).toEqual([
+      "under",
+      "over",
+    ]);
+  });
+
+  it("has no percentage on days the member does not work", () => {
+    const [saturday] = columnLoads(
+      member,
+      [],
+      [],
+      [parseDate("2025-03-08")],
+      "day",
+    );
+    expect(loadPercent(saturday)).toBeNull();
+  });
+});
+
+describe("sumLoads", () => {
+  it("rolls rows up column by column", () => {
+    const total = sumLoads([
+      [
+        { capacity: 40, booked: 40 },
+        { capacity: 40, booked: 0 },
+      ],
+      [
+        { capacity: 20, booked: 30 },
+        { capacity: 20, booked: 10 },
+      ],
+    ]);
+    expect(total).toEqual([
+      { capacity: 60, booked: 70 },
+      { capacity: 60, booked: 10 },
+    ]);
+    expect(total.map(loadPercent)).toEqual([117, 17]);
+  });
+});
@@ -0,0 +1,94 @@
+import { Assignment, Member, TimeOff } from "./types";
+import {
+  FULL_ALLOCATION,
+  bookedHours,
+  countWorkingDays,
+  getHoursPerDay,
+} from "./capacity";
+import { Granularity, getColumnEnd } from "./dateUtils";
+
+export interface Load {
+  capacity: number; // hours available
+  booked: number; // hours assigned
+}
+
+export type LoadLevel = "under" | "full" | "over";
+
+export const LOAD_LEVEL_LABELS: Record<LoadLevel, string> = {
+  under: "Under-booked",
+  full: "Full",
+  over: "Over-booked",
+};
+
+/** Booked vs available hours of one member over [start..end] */
+export function memberLoad(
+  member: Member,
+  assignments: Assignment[],
+  timeOff: TimeOff[],
+  start: Date,
+  end: Date,
+): Load {
+  return {
+    capacity:
+      countWorkingDays(member, start, end, timeOff) * getHoursPerDay(member),
+    booked: bookedHours(
+      member,
+      assignments.filter((a) => a.memberId === member.id),
+      start,
+      end,
+      timeOff,
+    ),
+  };
+}
+
+/** The member's load in each timeline column */
+export function columnLoads(
+  member: Member,
+  assignments: Assignment[],
+  timeOff: TimeOff[],
+  columns: Date[],
+  granularity: Granularity,
+): Load[] {
+  return columns.map((col) =>
+    memberLoad(
+      member,
+      assignments,
+      timeOff,
+      col,
+      getColumnEnd(col, granularity),
+    ),
+  );
+}
+
+/** Add up several rows of column loads, e.g. a team's members */
+export function sumLoads(rows: Load[][]): Load[] {
+  const total: Load[] = [];
+  for (const row of rows) {
+    row.forEach((load, i) => {
+      total[i] = {
+        capacity: (total[i]?.capacity ?? 0) + load.capacity,
+        booked: (total[i]?.booked ?? 0) + load.booked,
+      };
+    });
+  }
+  return total;
+}
+
+/** Booked share of capacity in percent, or null when nothing is available */
+export function loadPercent(load?: Load): number | null {
+  if (!load?.capacity) return null;
+  return Math.round((load.booked / load.capacity) * FULL_ALLOCATION);
+}
+
+export function loadLevel(percent: number): LoadLevel {
+  if (percent > FULL_ALLOCATION) return "over";
+  return percent === FULL_ALLOCATION ? "full" : "under";
+}
+
+/** Tooltip text such as "32h of 40h booked (80%)" */
+export function formatLoad(load?: Load): string {
+  const percent = loadPercent(load);
+  if (percent === null) return "Not available";
+  const hours = (h: number) => `${Number(h.toFixed(1))}h`;
+  return `${hours(load.booked)} of ${hours(load.capacity)} booked (${percent}%)`;
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { readViewParams, writeViewParams } from "./viewState";
+
+describe("readViewParams", () => {
+  it("reads a full schedule link", () => {
+    const params = new URLSearchParams(
+      "group=project&scale=week&from=2025-03-03&to=2025-05-25&zoom=70&status=active,on_hold&owner=ann&focus=a-1",
+    );
+    expect(readViewParams(params)).toEqual({
+      tab: undefined,
+      groupBy: "project",
+      granularity: "week",
+      from: "2025-03-03",
+      to: "2025-05-25",
+      offset: undefined,
+      zoom: 70,
+      filters: { statuses: ["active", "on_hold"], ownerId: "ann" },
+      focus: "a-1",
+    });
+  });
+
+  it("still reads the offset of older links", () => {
+    expect(readViewParams(new URLSearchParams("offset=-2")).offset).toBe(-2);
+  });
+
+  it("ignores values it does not know", () => {
+    const view = readViewParams(
+      new URLSearchParams(
+        "group=planet&scale=year&from=2025-05-01&to=2025-03-01&offset=1.5&zoom=-3&status=lost",
+      ),
+    );
+    expect(view).toMatchObject({
+      groupBy: undefined,
+      granularity: undefined,
+      from: undefined,
+      to: undefined,
+      offset: undefined,
+      zoom: undefined,
+      filters: {},
+    });
+  });
+});
+
+describe("writeViewParams", () => {
+  it("changes only the fields given and drops defaults", () => {
+    const params = writeViewParams(new URLSearchParams("tab=reports&zoom=70"), {
+      groupBy: "member",
+      offset: 0,
+      filters: { priorities: ["high"], client: "Acme" },
+    });
+    expect(params.toString()).toBe(
+      "tab=reports&zoom=70&group=member&priority=high&client=Acme",
+    );
+    expect(
+      writeViewParams(params, { tab: "schedule", zoom: undefined }).toString(),
+    ).toBe("group=member&priority=high&client=Acme");
+  });
+
+  it("round-trips", () => {
+    const view = {
+      groupBy: "team" as const,
+      granularity: "month" as const,
+      from: "2025-01-01",
+      to: "2025-12-31",
+      filters: { statuses: ["done" as const] },
+      focus: "a-9",
+    };
+    expect(
+      readViewParams(writeViewParams(new URLSearchParams(), view)),
+    ).toMatchObject(view);
+  });
+});
@@ -0,0 +1,113 @@
+import { ShareView } from "@shared/api";
+import { ProjectPriority, ProjectStatus } from "./types";
+import { Granularity } from "./dateUtils";
+import {
+  PROJECT_PRIORITY_LABELS,
+  PROJECT_STATUS_LABELS,
+  ProjectFilters,
+} from "./projects";
+
+export type GroupBy = ShareView["groupBy"];
+
+/**
+ * What the URL records about the page, so a copied link opens the same view
+ * and back/forward steps through view changes. Absent fields mean defaults.
+ */
+export interface ViewState {
+  tab?: string;
+  groupBy?: GroupBy;
+  granularity?: Granularity;
+  // The dates on screen, from the first column to the end of the last;
+  // absent means the default range around today
+  from?: string;
+  to?: string;
+  offset?: number; // older links: navigation steps away from today
+  zoom?: number; // column width in pixels
+  filters?: ProjectFilters;
+  focus?: string; // highlighted assignment id
+}
+
+export const DEFAULT_TAB = "schedule";
+
+const GROUP_BYS: GroupBy[] = ["team", "member", "project", "utilization"];
+const GRANULARITIES: Granularity[] = ["day", "week", "month", "quarter"];
+
+const oneOf = <T extends string>(
+  value: string | null,
+  allowed: readonly T[],
+) => (allowed.includes(value as T) ? (value as T) : undefined);
+
+const isoDate = (value: string | null) =>
+  value !== null && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : undefined;
+
+const integer = (value: string | null) =>
+  value !== null && /^-?\d+$/.test(value) ? Number(value) : undefined;
+
+const list = <T extends string>(value: string | null, allowed: readonly T[]) =>
+  (value ?? "").split(",").filter((v): v is T => allowed.includes(v as T));
+
+/** Read the view from the query string, ignoring anything malformed */
+export function readViewParams(params: URLSearchParams): ViewState {
+  const statuses = list(
+    params.get("status"),
+    Object.keys(PROJECT_STATUS_LABELS) as ProjectStatus[],
+  );
+  const priorities = list(
+    params.get("priority"),
+    Object.keys(PROJECT_PRIORITY_LABELS) as ProjectPriority[],
+  );
+  const zoom = integer(params.get("zoom"));
+  const from = isoDate(params.get("from"));
+  const to = isoDate(params.get("to"));
+  const range = from && to && from <= to;
+  return {
+    tab: params.get("tab") ?? undefined,
+    groupBy: oneOf(params.get("group"), GROUP_BYS),
+    granularity: oneOf(params.get("scale"), GRANULARITIES),
+    from: range ? from : undefined,
+    to: range ? to : undefined,
+    offset: integer(params.get("offset")),
+    zoom: zoom > 0 ? zoom : undefined,
+    filters: {
+      ...(statuses.length && { statuses }),
+      ...(priorities.length && { priorities }),
+      ...(params.get("owner") && { ownerId: params.get("owner") }),
+      ...(params.get("client") && { client: params.get("client") }),
+    },
+    focus: params.get("focus") ?? undefined,
+  };
+}
+
+/**
+ * A copy of `params` with the given fields changed. Fields set to undefined
+ * or to their default are removed; fields not mentioned are left alone, so
+ * the page and the schedule can each write their own part.
+ */
+export function writeViewParams(
+  params: URLSearchParams,
+  change: Partial<ViewState>,
+): URLSearchParams {
+  const next = new URLSearchParams(params);
+  const put = (key: string, value: string | undefined) => {
+    if (value) next.set(key, value);
+    else next.delete(key);
+  };
+  if ("tab" in change)
+    put("tab", change.tab === DEFAULT_TAB ? undefined : change.tab);
+  if ("groupBy" in change) put("group", change.groupBy);
+  if ("granularity" in change) put("scale", change.granularity);
+  if ("from" in change) put("from", change.from);
+  if ("to" in change) put("to", change.to);
+  if ("offset" in change)
+    put("offset", change.offset ? String(change.offset) : undefined);
+  if ("zoom" in change) put("zoom", change.zoom && String(change.zoom));
+  if ("filters" in change) {
+    const filters = change.filters ?? {};
+    put("status", filters.statuses?.join(","));
+    put("priority", filters.priorities?.join(","));
+    put("owner", filters.ownerId);
+    put("client", filters.client);
+  }
+  if ("focus" in change) put("focus", change.focus);
+  return next;
+}
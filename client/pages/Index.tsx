@@ -1,14 +1,70 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
+import { useSearchParams } from "react-router-dom";
 import { useAppData } from "@/lib/useAppData";
+import { useAuth } from "@/lib/auth";
+import { hasRole } from "@shared/api";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import MembersPanel from "@/components/MembersPanel";
 import ProjectsPanel from "@/components/ProjectsPanel";
 import ScheduleView from "@/components/schedule/ScheduleView";
-import { CalendarDays, Users, FolderKanban, LayoutGrid } from "lucide-react";
+import BackupDialog from "@/components/BackupDialog";
+import UndoRedoButtons from "@/components/UndoRedoButtons";
+import UnsyncedPlanDialog from "@/components/UnsyncedPlanDialog";
+import HistoryPanel from "@/components/audit/HistoryPanel";
+import ReportsPanel from "@/components/reports/ReportsPanel";
+import ForecastPanel from "@/components/reports/ForecastPanel";
+import ScenarioSwitcher from "@/components/scenarios/ScenarioSwitcher";
+import ScenarioBanner from "@/components/scenarios/ScenarioBanner";
+import UserMenu from "@/components/auth/UserMenu";
+import { WorkspaceData } from "@/lib/types";
+import { DEFAULT_TAB, readViewParams, writeViewParams } from "@/lib/viewState";
+import {
+  CalendarDays,
+  Users,
+  FolderKanban,
+  LayoutGrid,
+  CloudOff,
+  History,
+  BarChart3,
+  TrendingUp,
+} from "lucide-react";
 
 export default function Index() {
   const data = useAppData();
-  const [tab, setTab] = useState("schedule");
+  const { user } = useAuth();
+  // The server enforces the same rules; this only hides what would be refused
+  const canEdit = hasRole(user, "planner");
+  const isAdmin = hasRole(user, "admin");
+  // The tab is part of the URL, like the schedule's view
+  const [searchParams, setSearchParams] = useSearchParams();
+  const tab = readViewParams(searchParams).tab ?? DEFAULT_TAB;
+  const setTab = (next: string) =>
+    setSearchParams((params) => writeViewParams(params, { tab: next }));
+  // Bumped after a restore so the schedule re-reads its view preferences
+  const [viewKey, setViewKey] = useState(0);
+  const { setPresence } = data;
+  useEffect(() => setPresence({ view: tab }), [tab, setPresence]);
+
+  const workspace: WorkspaceData = {
+    teams: data.teams,
+    members: data.members,
+    projects: data.projects,
+    assignments: data.assignments,
+    timeOff: data.timeOff,
+    baselines: data.baselines,
+    dependencies: data.dependencies,
+  };
+
+  const handleRestore = (workspace: WorkspaceData) => {
+    data.restoreWorkspace(workspace);
+    // The restored preferences apply rather than what the URL says
+    setSearchParams(
+      (params) =>
+        writeViewParams(params, { groupBy: undefined, granularity: undefined }),
+      { replace: true },
+    );
+    setViewKey((k) => k + 1);
+  };
 
   return (
     <div className="min-h-screen bg-background">
@@ -23,11 +79,56 @@ export default function Index() {
               ResourceHub
             </span>
           </div>
-          <div className="text-xs text-muted-foreground hidden sm:block">
-            {data.members.length} members &middot; {data.projects.length}{" "}
-            projects &middot; {data.assignments.length} assignments
+          <div className="flex items-center gap-3">
+            <div className="text-xs text-muted-foreground hidden sm:flex items-center gap-3">
+              {data.isOffline && (
+                <span className="flex items-center gap-1 text-amber-600">
+                  <CloudOff className="h-3.5 w-3.5" /> Offline &middot; changes
+                  are saved once reconnected
+                </span>
+              )}
+              <span>
+                {data.members.length} members &middot; {data.projects.length}{" "}
+                projects &middot; {data.assignments.length} assignments
+              </span>
+            </div>
+            <div className="flex items-center">
+              {canEdit && (
+                <>
+                  <ScenarioSwitcher
+                    scenarios={data.scenarios}
+                    activeScenario={data.activeScenario}
+                    onSwitch={data.switchScenario}
+                    onCreate={data.createScenario}
+                  />
+                  <UndoRedoButtons
+                    undoLabel={data.undoLabel}
+                    redoLabel={data.redoLabel}
+                    onUndo={data.undo}
+                    onRedo={data.redo}
+                  />
+                </>
+              )}
+              <BackupDialog
+                workspace={workspace}
+                onRestore={isAdmin ? handleRestore : undefined}
+              />
+              <UserMenu />
+            </div>
           </div>
         </div>
+        {data.activeScenario && (
+          <ScenarioBanner
+            scenario={data.activeScenario}
+            workspace={workspace}
+            onRename={(name) =>
+              data.renameScenario(data.activeScenario.id, name)
+            }
+            onPromote={() => data.promoteScenario(data.activeScenario.id)}
+            onDiscard={() => data.discardScenario(data.activeScenario.id)}
+            onExit={() => data.switchScenario(null)}
+          />
+        )}
       </header>
 
       {/* Main content */}
@@ -46,20 +147,52 @@ export default function Index() {
               <FolderKanban className="h-4 w-4" />
               <span className="hidden sm:inline">Projects</span>
             </TabsTrigger>
+            <TabsTrigger value="reports" className="gap-1.5">
+              <BarChart3 className="h-4 w-4" />
+              <span className="hidden sm:inline">Reports</span>
+            </TabsTrigger>
+            <TabsTrigger value="forecast" className="gap-1.5">
+              <TrendingUp className="h-4 w-4" />
+              <span className="hidden sm:inline">Forecast</span>
+            </TabsTrigger>
+            <TabsTrigger value="history" className="gap-1.5">
+              <History className="h-4 w-4" />
+              <span className="hidden sm:inline">History</span>
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="schedule">
             <ScheduleView
+              key={viewKey}
               teams={data.teams}
               members={data.members}
               projects={data.projects}
               assignments={data.assignments}
+              timeOff={data.timeOff}
               addTeam={data.addTeam}
               addMember={data.addMember}
               addProject={data.addProject}
               addAssignment={data.addAssignment}
               updateAssignment={data.updateAssignment}
               deleteAssignment={data.deleteAssignment}
+              auditLog={data.auditLog}
+              batch={data.batch}
+              beginBatch={data.beginBatch}
+              endBatch={data.endBatch}
+              baselines={data.baselines}
+              saveBaseline={data.saveBaseline}
+              deleteBaseline={data.deleteBaseline}
+              dependencies={data.dependencies}
+              addDependency={data.addDependency}
+              deleteDependency={data.deleteDependency}
+              fillPlaceholder={data.fillPlaceholder}
+              applyLeveling={data.applyLeveling}
+              tentativeBlocks={data.tentativeBlocks}
+              setTentativeBlocks={data.setTentativeBlocks}
+              peers={data.peers}
+              setPresence={data.setPresence}
+              readOnly={!canEdit}
+              canImport={isAdmin}
             />
           </TabsContent>
 
@@ -69,24 +202,67 @@ export default function Index() {
               members={data.members}
               addTeam={data.addTeam}
               updateTeam={data.updateTeam}
-              deleteTeam={data.deleteTeam}
+              deleteTeam={isAdmin ? data.deleteTeam : undefined}
               reorderTeams={data.reorderTeams}
               addMember={data.addMember}
               updateMember={data.updateMember}
               deleteMember={data.deleteMember}
+              timeOff={data.timeOff}
+              addTimeOff={data.addTimeOff}
+              updateTimeOff={data.updateTimeOff}
+              deleteTimeOff={data.deleteTimeOff}
+              batch={data.batch}
+              readOnly={!canEdit}
+              canImport={isAdmin}
             />
           </TabsContent>
 
           <TabsContent value="projects">
             <ProjectsPanel
               projects={data.projects}
+              members={data.members}
+              assignments={data.assignments}
+              timeOff={data.timeOff}
               addProject={data.addProject}
               updateProject={data.updateProject}
-              deleteProject={data.deleteProject}
+              deleteProject={isAdmin ? data.deleteProject : undefined}
+              batch={data.batch}
+              readOnly={!canEdit}
+              canImport={isAdmin}
             />
           </TabsContent>
+
+          <TabsContent value="reports">
+            <ReportsPanel
+              teams={data.teams}
+              members={data.members}
+              projects={data.projects}
+              assignments={data.assignments}
+              timeOff={data.timeOff}
+              tentativeBlocks={data.tentativeBlocks}
+            />
+          </TabsContent>
+
+          <TabsContent value="forecast">
+            <ForecastPanel
+              teams={data.teams}
+              members={data.members}
+              assignments={data.assignments}
+              timeOff={data.timeOff}
+              tentativeBlocks={data.tentativeBlocks}
+            />
+          </TabsContent>
+
+          <TabsContent value="history">
+            <HistoryPanel auditLog={data.auditLog} projects={data.projects} />
+          </TabsContent>
         </Tabs>
       </main>
+
+      <UnsyncedPlanDialog
+        plan={data.unsyncedPlan}
+        onResolve={data.resolveUnsyncedPlan}
+      />
     </div>
   );
 }
@@ -0,0 +1,113 @@
+import { useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ApiError, fetchSharedSchedule } from "@/lib/api";
+import { describeExpiry } from "@/lib/shares";
+import ScheduleView from "@/components/schedule/ScheduleView";
+import { Button } from "@/components/ui/button";
+import { CloudOff, LayoutGrid, Link2Off } from "lucide-react";
+
+// Nothing on a shared schedule can be changed
+const ignore = () => undefined;
+
+/** A share link: a fixed, read-only part of the schedule, no account needed */
+export default function SharedSchedule() {
+  const { id } = useParams<{ id: string }>();
+  const shared = useQuery({
+    queryKey: ["share", id],
+    queryFn: () => fetchSharedSchedule(id),
+    // Revoked and expired links stay that way
+    retry: (count, err) => !(err instanceof ApiError) && count < 3,
+  });
+
+  if (shared.isPending) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-sm text-muted-foreground">
+        Loading…
+      </div>
+    );
+  }
+  if (shared.isError) {
+    const gone = shared.error instanceof ApiError;
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-3 text-sm text-muted-foreground">
+        {gone ? (
+          <>
+            <Link2Off className="h-6 w-6" />
+            {shared.error.message}. Ask whoever sent it for a new one.
+          </>
+        ) : (
+          <>
+            <CloudOff className="h-6 w-6" />
+            The server can't be reached.
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => shared.refetch()}
+            >
+              Try again
+            </Button>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  const { link, data } = shared.data;
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-30 bg-card/80 backdrop-blur-md border-b">
+        <div className="max-w-[1440px] mx-auto px-4 sm:px-6 lg:px-8 flex items-center justify-between h-14">
+          <div className="flex items-center gap-2.5 min-w-0">
+            <div className="w-8 h-8 rounded-lg bg-primary flex items-center justify-center shrink-0">
+              <LayoutGrid className="h-4 w-4 text-primary-foreground" />
+            </div>
+            <span className="font-semibold text-base tracking-tight truncate">
+              {link.name}
+            </span>
+          </div>
+          <p className="text-xs text-muted-foreground hidden sm:block">
+            Read-only · shared by {link.createdBy} on{" "}
+            {format(new Date(link.createdAt), "MMM d, yyyy")} ·{" "}
+            {describeExpiry(link, new Date())}
+          </p>
+        </div>
+      </header>
+
+      <main className="max-w-[1440px] mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        <ScheduleView
+          teams={data.teams}
+          members={data.members}
+          projects={data.projects}
+          assignments={data.assignments}
+          timeOff={data.timeOff}
+          addTeam={ignore}
+          addMember={ignore}
+          addProject={ignore}
+          addAssignment={ignore}
+          updateAssignment={ignore}
+          deleteAssignment={ignore}
+          auditLog={[]}
+          batch={(_label, run) => run()}
+          beginBatch={ignore}
+          endBatch={ignore}
+          baselines={data.baselines}
+          saveBaseline={ignore}
+          deleteBaseline={ignore}
+          dependencies={data.dependencies}
+          addDependency={ignore}
+          deleteDependency={ignore}
+          fillPlaceholder={ignore}
+          applyLeveling={() => []}
+          tentativeBlocks={false}
+          setTentativeBlocks={ignore}
+          peers={[]}
+          setPresence={ignore}
+          readOnly
+          canImport={false}
+          locked={link.view}
+        />
+      </main>
+    </div>
+  );
+}
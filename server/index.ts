@@ -1,14 +1,42 @@
 import "dotenv/config";
 import express from "express";
 import cors from "cors";
+import { WorkspaceData } from "../shared/api";
 import { handleDemo } from "./routes/demo";
+import { handleGetWorkspace, handleReplaceWorkspace } from "./routes/workspace";
+import { handleGetAuditLog, handleAppendAuditLog } from "./routes/audit";
+import { scenariosRouter } from "./routes/scenarios";
+import {
+  announceChanges,
+  handleLiveStream,
+  handleUpdatePresence,
+} from "./routes/live";
+import {
+  authRouter,
+  authenticate,
+  requireRole,
+  requireRoleForWrites,
+  adminToRemove,
+} from "./routes/auth";
+import { usersRouter } from "./routes/users";
+import { handleGetSharedSchedule, sharesRouter } from "./routes/shares";
+import {
+  teamsRouter,
+  membersRouter,
+  projectsRouter,
+  assignmentsRouter,
+  timeOffRouter,
+  baselinesRouter,
+  dependenciesRouter,
+} from "./routes/collections";
 
 export function createServer() {
   const app = express();
 
   // Middleware
   app.use(cors());
-  app.use(express.json());
+  // Workspace imports send the whole dataset in one request
+  app.use(express.json({ limit: "10mb" }));
   app.use(express.urlencoded({ extended: true }));
 
   // Example API routes
@@ -19,5 +47,58 @@ export function createServer() {
 
   app.get("/api/demo", handleDemo);
 
+  // Accounts. Everything after `authenticate` needs a signed-in user;
+  // viewers only read, planners edit, admins also delete teams and projects
+  // and manage users.
+  app.use("/api/auth", authRouter);
+  // Share links are read by people without an account
+  app.get("/api/public/shares/:id", handleGetSharedSchedule);
+  app.use("/api", authenticate);
+  app.get("/api/live", handleLiveStream);
+  app.post("/api/live/presence", handleUpdatePresence);
+  app.use("/api", requireRoleForWrites("planner"));
+  app.use("/api/users", requireRole("admin"), usersRouter);
+  app.delete(["/api/teams/:id", "/api/projects/:id"], requireRole("admin"));
+  app.put(
+    "/api/teams",
+    adminToRemove((body) => ({ teams: body as WorkspaceData["teams"] })),
+  );
+  app.put(
+    "/api/projects",
+    adminToRemove((body) => ({
+      projects: body as WorkspaceData["projects"],
+    })),
+  );
+
+  // Planning data
+  app.get("/api/workspace", handleGetWorkspace);
+  app.put(
+    "/api/workspace",
+    adminToRemove((body) => body as WorkspaceData),
+    announceChanges("workspace"),
+    handleReplaceWorkspace,
+  );
+  app.use("/api/teams", announceChanges("teams"), teamsRouter);
+  app.use("/api/members", announceChanges("members"), membersRouter);
+  app.use("/api/projects", announceChanges("projects"), projectsRouter);
+  app.use(
+    "/api/assignments",
+    announceChanges("assignments"),
+    assignmentsRouter,
+  );
+  app.use("/api/time-off", announceChanges("timeOff"), timeOffRouter);
+  app.use("/api/baselines", announceChanges("baselines"), baselinesRouter);
+  app.use(
+    "/api/dependencies",
+    announceChanges("dependencies"),
+    dependenciesRouter,
+  );
+  app.use("/api/scenarios", scenariosRouter);
+  app.use("/api/shares", requireRole("planner"), sharesRouter);
+
+  // Change history
+  app.get("/api/audit", handleGetAuditLog);
+  app.post("/api/audit", announceChanges("audit"), handleAppendAuditLog);
+
   return app;
 }
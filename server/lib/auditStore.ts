@@ -0,0 +1,30 @@
+import path from "path";
+import { AuditEntry } from "../../shared/api";
+import { readJsonFile, writeJsonFile } from "./jsonFile";
+import { DATA_FILE } from "./workspaceStore";
+
+/**
+ * The change history is kept apart from the workspace (AUDIT_FILE, default
+ * audit.json next to DATA_FILE) so that replacing the workspace on a
+ * restore or undo never rewrites history.
+ */
+const AUDIT_FILE =
+  process.env.AUDIT_FILE ?? path.join(path.dirname(DATA_FILE), "audit.json");
+
+let cache: AuditEntry[] | null = null;
+
+export function readAuditLog(): AuditEntry[] {
+  if (!cache) cache = readJsonFile<AuditEntry[]>(AUDIT_FILE) ?? [];
+  return cache;
+}
+
+/** Append entries, skipping ids already stored (retried requests) */
+export function appendAuditLog(entries: AuditEntry[]): AuditEntry[] {
+  const log = readAuditLog();
+  const known = new Set(log.map((entry) => entry.id));
+  const added = entries.filter((entry) => !known.has(entry.id));
+  if (added.length === 0) return added;
+  cache = [...log, ...added];
+  writeJsonFile(AUDIT_FILE, cache);
+  return added;
+}
@@ -0,0 +1,18 @@
+import fs from "fs";
+import path from "path";
+
+export function readJsonFile<T>(file: string): T | null {
+  if (!fs.existsSync(file)) return null;
+  return JSON.parse(fs.readFileSync(file, "utf-8")) as T;
+}
+
+/**
+ * Write through a temp file and rename, so a crash never leaves a
+ * half-written file behind
+ */
+export function writeJsonFile(file: string, data: unknown) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmpFile = `${file}.tmp`;
+  fs.writeFileSync(tmpFile, JSON.stringify(data, null, 2));
+  fs.renameSync(tmpFile, file);
+}
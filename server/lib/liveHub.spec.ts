@@ -0,0 +1,48 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Response } from "express";
+import { closeChannel, listPresence, openChannel } from "./liveHub";
+
+function stream() {
+  return { write: vi.fn(), end: vi.fn() } as unknown as Response;
+}
+
+let open: [string, Response][] = [];
+
+function connect(clientId: string) {
+  const res = stream();
+  openChannel({ clientId, name: "Ana" }, res);
+  open.push([clientId, res]);
+  return res;
+}
+
+afterEach(() => {
+  for (const [clientId, res] of open) closeChannel(clientId, res);
+  open = [];
+});
+
+describe("live channels", () => {
+  it("ends the old stream when a tab reconnects", () => {
+    const first = connect("tab-1");
+    connect("tab-1");
+    expect(first.end).toHaveBeenCalled();
+    expect(listPresence()).toHaveLength(1);
+  });
+
+  it("keeps the new stream when the replaced one closes late", () => {
+    const first = connect("tab-1");
+    const second = connect("tab-1");
+    closeChannel("tab-1", first);
+    expect(listPresence().map((p) => p.clientId)).toEqual(["tab-1"]);
+    closeChannel("tab-1", second);
+    expect(listPresence()).toEqual([]);
+  });
+
+  it("tells the other tabs who left", () => {
+    const watcher = connect("tab-1");
+    const leaving = connect("tab-2");
+    closeChannel("tab-2", leaving);
+    expect(watcher.write).toHaveBeenLastCalledWith(
+      `event: presence\ndata: ${JSON.stringify([{ clientId: "tab-1", name: "Ana" }])}\n\n`,
+    );
+  });
+});
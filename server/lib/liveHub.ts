@@ -0,0 +1,81 @@
+import { Response } from "express";
+import { LiveChange, Presence } from "../../shared/api";
+
+/**
+ * Open live channels (server-sent events), one per browser tab, with what
+ * each tab last said it is doing. Kept in memory only: presence means
+ * nothing once the tab has gone.
+ */
+interface Channel {
+  res: Response;
+  presence: Presence;
+  keepAlive: ReturnType<typeof setInterval>;
+}
+
+// Proxies drop connections that stay silent for too long
+const KEEP_ALIVE_MS = 25_000;
+
+const channels = new Map<string, Channel>();
+
+function send(res: Response, event: string, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+export function listPresence(): Presence[] {
+  return [...channels.values()].map((channel) => channel.presence);
+}
+
+export function broadcast(
+  event: "change",
+  data: LiveChange,
+  exceptClientId?: string,
+): void;
+export function broadcast(event: "presence", data: Presence[]): void;
+export function broadcast(
+  event: string,
+  data: unknown,
+  exceptClientId?: string,
+) {
+  for (const [clientId, channel] of channels) {
+    if (clientId !== exceptClientId) send(channel.res, event, data);
+  }
+}
+
+/**
+ * Register a tab's event stream; a reconnecting tab replaces its old one,
+ * which is ended here
+ */
+export function openChannel(presence: Presence, res: Response) {
+  const previous = channels.get(presence.clientId);
+  if (previous) {
+    clearInterval(previous.keepAlive);
+    previous.res.end();
+  }
+  channels.set(presence.clientId, {
+    res,
+    presence,
+    keepAlive: setInterval(() => res.write(": keep-alive\n\n"), KEEP_ALIVE_MS),
+  });
+  broadcast("presence", listPresence());
+}
+
+/**
+ * Forget a tab's stream once `res` has closed. A stream the tab has since
+ * replaced closes late, so it must not take the new one with it.
+ */
+export function closeChannel(clientId: string, res: Response) {
+  const channel = channels.get(clientId);
+  if (!channel || channel.res !== res) return;
+  clearInterval(channel.keepAlive);
+  channels.delete(clientId);
+  broadcast("presence", listPresence());
+}
+
+/** Returns false when the tab has no open channel */
+export function updatePresence(presence: Presence): boolean {
+  const channel = channels.get(presence.clientId);
+  if (!channel) return false;
+  channel.presence = presence;
+  broadcast("presence", listPresence());
+  return true;
+}
@@ -0,0 +1,41 @@
+import path from "path";
+import { Scenario } from "../../shared/api";
+import { readJsonFile, writeJsonFile } from "./jsonFile";
+import { DATA_FILE } from "./workspaceStore";
+
+/** Scenarios live in their own file (SCENARIOS_FILE, default next to DATA_FILE) */
+const SCENARIOS_FILE =
+  process.env.SCENARIOS_FILE ??
+  path.join(path.dirname(DATA_FILE), "scenarios.json");
+
+let cache: Scenario[] | null = null;
+
+export function readScenarios(): Scenario[] {
+  if (!cache) cache = readJsonFile<Scenario[]>(SCENARIOS_FILE) ?? [];
+  return cache;
+}
+
+function writeScenarios(scenarios: Scenario[]) {
+  writeJsonFile(SCENARIOS_FILE, scenarios);
+  cache = scenarios;
+}
+
+/** Insert or replace a scenario by id */
+export function saveScenario(scenario: Scenario): Scenario {
+  const scenarios = readScenarios();
+  const exists = scenarios.some((s) => s.id === scenario.id);
+  writeScenarios(
+    exists
+      ? scenarios.map((s) => (s.id === scenario.id ? scenario : s))
+      : [...scenarios, scenario],
+  );
+  return scenario;
+}
+
+/** Returns false when no scenario has that id */
+export function deleteScenario(id: string): boolean {
+  const scenarios = readScenarios();
+  if (!scenarios.some((s) => s.id === id)) return false;
+  writeScenarios(scenarios.filter((s) => s.id !== id));
+  return true;
+}
@@ -0,0 +1,50 @@
+import crypto from "crypto";
+
+/**
+ * Signed-in browsers, keyed by the token in their session cookie. Kept in
+ * memory, so restarting the server signs everyone out.
+ */
+export const SESSION_COOKIE = "rh_session";
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const sessions = new Map<string, { userId: string; expiresAt: number }>();
+
+export function createSession(userId: string): string {
+  const token = crypto.randomBytes(32).toString("hex");
+  sessions.set(token, { userId, expiresAt: Date.now() + SESSION_TTL_MS });
+  return token;
+}
+
+/** The user behind a token, or null once it is unknown or expired */
+export function sessionUserId(token: string | undefined): string | null {
+  const session = token ? sessions.get(token) : undefined;
+  if (!session) return null;
+  if (session.expiresAt < Date.now()) {
+    sessions.delete(token);
+    return null;
+  }
+  return session.userId;
+}
+
+export function endSession(token: string | undefined) {
+  if (token) sessions.delete(token);
+}
+
+/** Sign a user out everywhere, e.g. when the account is deleted */
+export function endSessionsOf(userId: string) {
+  for (const [token, session] of sessions) {
+    if (session.userId === userId) sessions.delete(token);
+  }
+}
+
+/** One cookie from a Cookie header */
+export function readCookie(
+  header: string | undefined,
+  name: string,
+): string | undefined {
+  for (const part of header?.split(";") ?? []) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(value.join("="));
+  }
+  return undefined;
+}
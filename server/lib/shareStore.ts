@@ -0,0 +1,39 @@
+import path from "path";
+import { randomBytes } from "crypto";
+import { ShareLink } from "../../shared/api";
+import { readJsonFile, writeJsonFile } from "./jsonFile";
+import { DATA_FILE } from "./workspaceStore";
+
+/** Share links live in their own file (SHARES_FILE, default next to DATA_FILE) */
+const SHARES_FILE =
+  process.env.SHARES_FILE ?? path.join(path.dirname(DATA_FILE), "shares.json");
+
+let cache: ShareLink[] | null = null;
+
+export function readShares(): ShareLink[] {
+  if (!cache) cache = readJsonFile<ShareLink[]>(SHARES_FILE) ?? [];
+  return cache;
+}
+
+function writeShares(shares: ShareLink[]) {
+  writeJsonFile(SHARES_FILE, shares);
+  cache = shares;
+}
+
+/** Anyone holding the id can see the link's view, so it must not be guessable */
+export function newShareId(): string {
+  return randomBytes(18).toString("base64url");
+}
+
+export function addShare(share: ShareLink): ShareLink {
+  writeShares([...readShares(), share]);
+  return share;
+}
+
+/** Returns false when no link has that id */
+export function deleteShare(id: string): boolean {
+  const shares = readShares();
+  if (!shares.some((s) => s.id === id)) return false;
+  writeShares(shares.filter((s) => s.id !== id));
+  return true;
+}
@@ -0,0 +1,57 @@
+import crypto from "crypto";
+import path from "path";
+import { User } from "../../shared/api";
+import { readJsonFile, writeJsonFile } from "./jsonFile";
+import { DATA_FILE } from "./workspaceStore";
+
+/**
+ * User accounts (USERS_FILE, default users.json next to DATA_FILE).
+ * Passwords are stored as salted scrypt hashes.
+ */
+const USERS_FILE =
+  process.env.USERS_FILE ?? path.join(path.dirname(DATA_FILE), "users.json");
+
+export interface StoredUser extends User {
+  salt: string;
+  passwordHash: string;
+}
+
+let cache: StoredUser[] | null = null;
+
+export function readUsers(): StoredUser[] {
+  if (!cache) cache = readJsonFile<StoredUser[]>(USERS_FILE) ?? [];
+  return cache;
+}
+
+export function writeUsers(users: StoredUser[]): StoredUser[] {
+  writeJsonFile(USERS_FILE, users);
+  cache = users;
+  return users;
+}
+
+export function findUserByUsername(username: string): StoredUser | undefined {
+  const wanted = username.trim().toLowerCase();
+  return readUsers().find((u) => u.username.toLowerCase() === wanted);
+}
+
+export function hashPassword(
+  password: string,
+): Pick<StoredUser, "salt" | "passwordHash"> {
+  const salt = crypto.randomBytes(16).toString("hex");
+  const passwordHash = crypto.scryptSync(password, salt, 64).toString("hex");
+  return { salt, passwordHash };
+}
+
+export function verifyPassword(user: StoredUser, password: string): boolean {
+  const expected = Buffer.from(user.passwordHash, "hex");
+  const actual = crypto.scryptSync(password, user.salt, expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+export function toPublicUser({
+  salt: _salt,
+  passwordHash: _hash,
+  ...user
+}: StoredUser): User {
+  return user;
+}
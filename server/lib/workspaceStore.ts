@@ -0,0 +1,46 @@
+import path from "path";
+import { WorkspaceData } from "../../shared/api";
+import { readJsonFile, writeJsonFile } from "./jsonFile";
+
+/**
+ * File-backed workspace storage. The whole dataset lives in one JSON file
+ * (DATA_FILE, default ./data/workspace.json) and is cached in memory after
+ * the first read.
+ */
+export const DATA_FILE =
+  process.env.DATA_FILE ?? path.resolve(process.cwd(), "data/workspace.json");
+
+let cache: WorkspaceData | null = null;
+
+export function emptyWorkspace(): WorkspaceData {
+  return {
+    teams: [],
+    members: [],
+    projects: [],
+    assignments: [],
+    timeOff: [],
+    baselines: [],
+    dependencies: [],
+  };
+}
+
+export function readWorkspace(): WorkspaceData {
+  if (cache) return cache;
+  const parsed = readJsonFile<Partial<WorkspaceData>>(DATA_FILE);
+  // Fill in collections added after the file was written
+  cache = { ...emptyWorkspace(), ...parsed };
+  return cache;
+}
+
+export function writeWorkspace(data: WorkspaceData): WorkspaceData {
+  writeJsonFile(DATA_FILE, data);
+  cache = data;
+  return data;
+}
+
+/** Derive a new workspace from the current one and persist it */
+export function updateWorkspace(
+  change: (data: WorkspaceData) => WorkspaceData,
+): WorkspaceData {
+  return writeWorkspace(change(readWorkspace()));
+}
@@ -0,0 +1,39 @@
+import { RequestHandler } from "express";
+import { z } from "zod";
+// Relative imports: vite.config.ts loads the server without path aliases
+import { ApiErrorResponse, AuditEntry } from "../../shared/api";
+import { auditEntrySchema, formatIssues } from "../../shared/schemas";
+import { appendAuditLog, readAuditLog } from "../lib/auditStore";
+import { currentUser } from "./auth";
+
+/** List history, optionally narrowed with ?entityId= or ?projectId= */
+export const handleGetAuditLog: RequestHandler = (req, res) => {
+  const { entityId, projectId } = req.query;
+  const response: AuditEntry[] = readAuditLog().filter(
+    (entry) =>
+      (!entityId || entry.entityId === entityId) &&
+      (!projectId || entry.projectId === projectId),
+  );
+  res.status(200).json(response);
+};
+
+/**
+ * Append one or more entries; history is never edited or deleted. Entries
+ * are recorded under the signed-in user, whatever actor they name.
+ */
+export const handleAppendAuditLog: RequestHandler = (req, res) => {
+  const parsed = z.array(auditEntrySchema).safeParse(req.body);
+  if (!parsed.success) {
+    const response: ApiErrorResponse = {
+      error: "Invalid audit entries",
+      issues: formatIssues(parsed.error),
+    };
+    res.status(400).json(response);
+    return;
+  }
+  const { name } = currentUser(res);
+  const response: AuditEntry[] = appendAuditLog(
+    (parsed.data as AuditEntry[]).map((entry) => ({ ...entry, actor: name })),
+  );
+  res.status(201).json(response);
+};
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Request, Response } from "express";
+import { User, UserRole, WorkspaceData } from "../../shared/api";
+import { adminToRemove, requireRole, requireRoleForWrites } from "./auth";
+
+const store = vi.hoisted(() => ({ data: null as WorkspaceData }));
+
+vi.mock("../lib/workspaceStore", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../lib/workspaceStore")>()),
+  readWorkspace: () => store.data,
+}));
+
+const team = { id: "t-1", name: "Web", color: "#6366f1" };
+const project = {
+  id: "p-1",
+  name: "Atlas",
+  description: "",
+  color: "#8b5cf6",
+  startDate: "2025-03-03",
+  endDate: "2025-06-27",
+};
+
+/** Run a middleware as `role`; the status it refused with, or "next" */
+function run(
+  middleware: ReturnType<typeof requireRole>,
+  role: UserRole,
+  req: Partial<Request> = { method: "POST" },
+) {
+  const user: User = { id: "u-1", username: "ana", name: "Ana", role };
+  let outcome: number | "next" | undefined;
+  const res = {
+    locals: { user },
+    status: (code: number) => {
+      outcome = code;
+      return res;
+    },
+    json: () => res,
+  };
+  middleware(req as Request, res as unknown as Response, () => {
+    outcome = "next";
+  });
+  return outcome;
+}
+
+beforeEach(() => {
+  store.data = {
+    teams: [team],
+    members: [],
+    projects: [project],
+    assignments: [],
+    timeOff: [],
+    baselines: [],
+    dependencies: [],
+  };
+});
+
+describe("requireRole", () => {
+  it("lets the role and those above it through", () => {
+    expect(run(requireRole("planner"), "planner")).toBe("next");
+    expect(run(requireRole("planner"), "admin")).toBe("next");
+  });
+
+  it("refuses the roles below", () => {
+    expect(run(requireRole("planner"), "viewer")).toBe(403);
+    expect(run(requireRole("admin"), "planner")).toBe(403);
+  });
+});
+
+describe("requireRoleForWrites", () => {
+  it("lets everyone read", () => {
+    expect(
+      run(requireRoleForWrites("planner"), "viewer", { method: "GET" }),
+    ).toBe("next");
+  });
+
+  it("refuses writes below the role", () => {
+    for (const method of ["POST", "PUT", "PATCH", "DELETE"])
+      expect(run(requireRoleForWrites("planner"), "viewer", { method })).toBe(
+        403,
+      );
+    expect(run(requireRoleForWrites("planner"), "planner")).toBe("next");
+  });
+});
+
+describe("adminToRemove", () => {
+  const guard = adminToRemove((body) => body as WorkspaceData);
+
+  it("lets planners replace the lists without dropping anything", () => {
+    const body = {
+      teams: [{ ...team, name: "Web team" }],
+      projects: [project],
+    };
+    expect(run(guard, "planner", { body })).toBe("next");
+    // Lists left out are not being replaced
+    expect(run(guard, "planner", { body: {} })).toBe("next");
+  });
+
+  it("refuses planners a replace that drops a team or project", () => {
+    expect(run(guard, "planner", { body: { teams: [] } })).toBe(403);
+    expect(run(guard, "planner", { body: { projects: [] } })).toBe(403);
+  });
+
+  it("lets admins drop them", () => {
+    expect(run(guard, "admin", { body: { teams: [], projects: [] } })).toBe(
+      "next",
+    );
+  });
+});
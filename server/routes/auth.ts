@@ -0,0 +1,168 @@
+import { RequestHandler, Response, Router } from "express";
+// Relative imports: vite.config.ts loads the server without path aliases
+import {
+  ApiErrorResponse,
+  NewUser,
+  SessionResponse,
+  User,
+  UserRole,
+  WorkspaceData,
+  hasRole,
+  removedIds,
+} from "../../shared/api";
+import { loginSchema, setupSchema, formatIssues } from "../../shared/schemas";
+import {
+  findUserByUsername,
+  hashPassword,
+  readUsers,
+  toPublicUser,
+  verifyPassword,
+  writeUsers,
+} from "../lib/userStore";
+import {
+  SESSION_COOKIE,
+  SESSION_TTL_MS,
+  createSession,
+  endSession,
+  readCookie,
+  sessionUserId,
+} from "../lib/sessions";
+import { readWorkspace } from "../lib/workspaceStore";
+
+function signIn(res: Response, user: User, secure: boolean) {
+  res.cookie(SESSION_COOKIE, createSession(user.id), {
+    httpOnly: true,
+    sameSite: "lax",
+    secure,
+    maxAge: SESSION_TTL_MS,
+  });
+  const response: SessionResponse = { user, needsSetup: false };
+  res.status(200).json(response);
+}
+
+function signedInUser(cookieHeader: string | undefined): User | null {
+  const userId = sessionUserId(readCookie(cookieHeader, SESSION_COOKIE));
+  const user = userId && readUsers().find((u) => u.id === userId);
+  return user ? toPublicUser(user) : null;
+}
+
+/** The user `authenticate` found for this request */
+export function currentUser(res: Response): User {
+  return res.locals.user as User;
+}
+
+/**
+ * Signing in:
+ *   GET  /session   who is signed in, and whether an admin must be created
+ *   POST /login     username and password; sets the session cookie
+ *   POST /logout
+ *   POST /setup     create the first admin account, only while there is none
+ */
+export const authRouter = Router();
+
+authRouter.get("/session", (req, res) => {
+  const response: SessionResponse = {
+    user: signedInUser(req.get("Cookie")),
+    needsSetup: readUsers().length === 0,
+  };
+  res.status(200).json(response);
+});
+
+authRouter.post("/login", (req, res) => {
+  const parsed = loginSchema.safeParse(req.body);
+  const user = parsed.success && findUserByUsername(parsed.data.username);
+  if (!user || !verifyPassword(user, parsed.data.password)) {
+    const response: ApiErrorResponse = {
+      error: "Wrong username or password",
+    };
+    res.status(401).json(response);
+    return;
+  }
+  signIn(res, toPublicUser(user), req.secure);
+});
+
+authRouter.post("/logout", (req, res) => {
+  endSession(readCookie(req.get("Cookie"), SESSION_COOKIE));
+  res.clearCookie(SESSION_COOKIE);
+  res.status(204).end();
+});
+
+authRouter.post("/setup", (req, res) => {
+  if (readUsers().length > 0) {
+    const response: ApiErrorResponse = { error: "Setup is already done" };
+    res.status(409).json(response);
+    return;
+  }
+  const parsed = setupSchema.safeParse(req.body);
+  if (!parsed.success) {
+    const response: ApiErrorResponse = {
+      error: "Invalid account",
+      issues: formatIssues(parsed.error),
+    };
+    res.status(400).json(response);
+    return;
+  }
+  const { password, ...account } = parsed.data as Omit<NewUser, "role">;
+  const admin = {
+    id: crypto.randomUUID(),
+    ...account,
+    role: "admin" as const,
+    ...hashPassword(password),
+  };
+  writeUsers([admin]);
+  signIn(res, toPublicUser(admin), req.secure);
+});
+
+/** Middleware: refuse requests without a valid session */
+export const authenticate: RequestHandler = (req, res, next) => {
+  const user = signedInUser(req.get("Cookie"));
+  if (!user) {
+    const response: ApiErrorResponse = { error: "Sign in required" };
+    res.status(401).json(response);
+    return;
+  }
+  res.locals.user = user;
+  next();
+};
+
+function forbidden(res: Response, error: string) {
+  const response: ApiErrorResponse = { error };
+  res.status(403).json(response);
+}
+
+/** Middleware: only `role` and above may continue */
+export function requireRole(role: UserRole): RequestHandler {
+  return (_req, res, next) => {
+    if (hasRole(currentUser(res), role)) next();
+    else forbidden(res, `This needs the ${role} role or higher`);
+  };
+}
+
+/** Middleware: reads are open to every signed-in user, writes need `role` */
+export function requireRoleForWrites(role: UserRole): RequestHandler {
+  const guard = requireRole(role);
+  return (req, res, next) =>
+    req.method === "GET" ? next() : guard(req, res, next);
+}
+
+/**
+ * Middleware for bulk replaces (a restore, undo, reordering): deleting teams
+ * and projects is for admins, so nobody else may drop them this way either
+ */
+export function adminToRemove(
+  read: (body: unknown) => Partial<Pick<WorkspaceData, "teams" | "projects">>,
+): RequestHandler {
+  return (req, res, next) => {
+    if (hasRole(currentUser(res), "admin")) return next();
+    const replacement = read(req.body) ?? {};
+    const current = readWorkspace();
+    const dropped = (["teams", "projects"] as const).filter(
+      (key) =>
+        Array.isArray(replacement[key]) &&
+        removedIds(current[key], replacement[key]).length > 0,
+    );
+    if (dropped.length > 0)
+      forbidden(res, `Only an admin can delete ${dropped.join(" or ")}`);
+    else next();
+  };
+}
@@ -0,0 +1,208 @@
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeAll,
+  afterAll,
+  beforeEach,
+} from "vitest";
+import express from "express";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { EXPECT_HEADER, WorkspaceData } from "../../shared/api";
+import {
+  assignmentsRouter,
+  membersRouter,
+  projectsRouter,
+  teamsRouter,
+} from "./collections";
+
+const store = vi.hoisted(() => ({ data: null as WorkspaceData }));
+
+vi.mock("../lib/workspaceStore", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../lib/workspaceStore")>()),
+  readWorkspace: () => store.data,
+  updateWorkspace: (change: (data: WorkspaceData) => WorkspaceData) =>
+    (store.data = change(store.data)),
+}));
+
+function booking(id: string, memberId: string, projectId: string) {
+  return {
+    id,
+    memberId,
+    projectId,
+    startDate: "2025-03-03",
+    endDate: "2025-03-14",
+    allocation: 50,
+  };
+}
+
+function project(id: string, ownerId?: string) {
+  return {
+    id,
+    name: id,
+    description: "",
+    color: "#8b5cf6",
+    startDate: "2025-03-03",
+    endDate: "2025-06-27",
+    ownerId,
+  };
+}
+
+let server: Server;
+let base: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use("/api/teams", teamsRouter);
+  app.use("/api/members", membersRouter);
+  app.use("/api/projects", projectsRouter);
+  app.use("/api/assignments", assignmentsRouter);
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+beforeEach(() => {
+  store.data = {
+    teams: [{ id: "t-1", name: "Web", color: "#6366f1" }],
+    members: [
+      { id: "m-1", name: "Ana", role: "Developer", teamId: "t-1" },
+      { id: "m-2", name: "Bo", role: "Developer", teamId: "t-1" },
+    ],
+    projects: [project("p-1", "m-1"), project("p-2", "m-2")],
+    assignments: [
+      booking("a-1", "m-1", "p-1"),
+      booking("a-2", "m-2", "p-1"),
+      booking("a-3", "m-2", "p-2"),
+    ],
+    timeOff: [
+      {
+        id: "o-1",
+        type: "vacation",
+        label: "",
+        startDate: "2025-04-07",
+        endDate: "2025-04-11",
+        memberId: "m-1",
+      },
+      {
+        id: "o-2",
+        type: "holiday",
+        label: "",
+        startDate: "2025-05-01",
+        endDate: "2025-05-01",
+        teamId: "t-1",
+      },
+    ],
+    baselines: [],
+    dependencies: [
+      {
+        id: "d-1",
+        predecessorId: "a-1",
+        successorId: "a-2",
+        type: "finish_to_start",
+      },
+      {
+        id: "d-2",
+        predecessorId: "a-2",
+        successorId: "a-3",
+        type: "finish_to_start",
+      },
+    ],
+  };
+});
+
+function patch(path: string, body: unknown, expected?: unknown) {
+  return fetch(`${base}${path}`, {
+    method: "PATCH",
+    headers: {
+      "Content-Type": "application/json",
+      ...(expected
+        ? { [EXPECT_HEADER]: encodeURIComponent(JSON.stringify(expected)) }
+        : {}),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+function remove(path: string) {
+  return fetch(`${base}${path}`, { method: "DELETE" });
+}
+
+const ids = (items: { id: string }[]) => items.map((item) => item.id);
+
+describe("PATCH with X-Expect", () => {
+  it("applies the change while the expected values still hold", async () => {
+    const res = await patch(
+      "/api/assignments/a-1",
+      { allocation: 80 },
+      { allocation: 50 },
+    );
+    expect(res.status).toBe(200);
+    expect(store.data.assignments[0].allocation).toBe(80);
+  });
+
+  it("refuses with the stored record once someone else changed them", async () => {
+    store.data.assignments[0].allocation = 30;
+    const res = await patch(
+      "/api/assignments/a-1",
+      { allocation: 80 },
+      { allocation: 50 },
+    );
+    expect(res.status).toBe(409);
+    const body = await res.json();
+    expect(body.issues).toEqual(["allocation: changed meanwhile"]);
+    expect(body.current.allocation).toBe(30);
+    expect(store.data.assignments[0].allocation).toBe(30);
+  });
+
+  it("ignores fields that changed but were not expected", async () => {
+    store.data.assignments[0].endDate = "2025-03-21";
+    const res = await patch(
+      "/api/assignments/a-1",
+      { allocation: 80 },
+      { allocation: 50 },
+    );
+    expect(res.status).toBe(200);
+  });
+});
+
+describe("DELETE cascades", () => {
+  it("drops the links of a deleted assignment", async () => {
+    expect((await remove("/api/assignments/a-2")).status).toBe(204);
+    expect(ids(store.data.assignments)).toEqual(["a-1", "a-3"]);
+    expect(store.data.dependencies).toEqual([]);
+  });
+
+  it("drops a member's bookings, time off and links, and unsets ownership", async () => {
+    expect((await remove("/api/members/m-1")).status).toBe(204);
+    expect(ids(store.data.assignments)).toEqual(["a-2", "a-3"]);
+    expect(ids(store.data.timeOff)).toEqual(["o-2"]);
+    expect(ids(store.data.dependencies)).toEqual(["d-2"]);
+    expect(store.data.projects[0]).not.toHaveProperty("ownerId");
+    expect(store.data.projects[1].ownerId).toBe("m-2");
+  });
+
+  it("drops a project's bookings and their links", async () => {
+    expect((await remove("/api/projects/p-1")).status).toBe(204);
+    expect(ids(store.data.assignments)).toEqual(["a-3"]);
+    expect(store.data.dependencies).toEqual([]);
+  });
+
+  it("drops a team's time off", async () => {
+    expect((await remove("/api/teams/t-1")).status).toBe(204);
+    expect(ids(store.data.timeOff)).toEqual(["o-1"]);
+  });
+
+  it("answers 404 for an unknown item and changes nothing", async () => {
+    const before = store.data;
+    expect((await remove("/api/members/m-9")).status).toBe(404);
+    expect(store.data).toBe(before);
+  });
+});
@@ -0,0 +1,231 @@
+import { Router } from "express";
+import { z } from "zod";
+// Relative imports: vite.config.ts loads the server without path aliases
+import {
+  ApiErrorResponse,
+  EXPECT_HEADER,
+  WorkspaceCollection,
+  WorkspaceData,
+  staleFields,
+} from "../../shared/api";
+import {
+  teamSchema,
+  memberSchema,
+  projectSchema,
+  assignmentSchema,
+  timeOffSchema,
+  baselineSchema,
+  dependencySchema,
+  formatIssues,
+} from "../../shared/schemas";
+import { readWorkspace, updateWorkspace } from "../lib/workspaceStore";
+
+interface CollectionOptions {
+  collection: WorkspaceCollection;
+  schema: z.ZodTypeAny;
+  /** Remove records that reference a deleted item */
+  cascade?: (data: WorkspaceData, id: string) => WorkspaceData;
+}
+
+type Entity = { id: string };
+
+/** The X-Expect header of a PATCH; undefined when absent or unreadable */
+function parseExpected(header: string | undefined) {
+  if (!header) return undefined;
+  try {
+    const expected = JSON.parse(decodeURIComponent(header));
+    return expected && typeof expected === "object"
+      ? (expected as Record<string, unknown>)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function invalid(error: z.ZodError): ApiErrorResponse {
+  return { error: "Validation failed", issues: formatIssues(error) };
+}
+
+/**
+ * REST endpoints for one workspace collection:
+ *   GET    /        list
+ *   PUT    /        replace the whole list (used to persist ordering)
+ *   POST   /        create (the client generates ids)
+ *   PATCH  /:id     partial update, validated against the merged record;
+ *                   409 if a field named in X-Expect changed meanwhile
+ *   DELETE /:id     delete, cascading to dependent records
+ */
+function createCollectionRouter({
+  collection,
+  schema,
+  cascade,
+}: CollectionOptions): Router {
+  const router = Router();
+  const list = () => readWorkspace()[collection] as Entity[];
+
+  router.get("/", (_req, res) => {
+    res.status(200).json(list());
+  });
+
+  router.put("/", (req, res) => {
+    const parsed = z.array(schema).safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json(invalid(parsed.error));
+      return;
+    }
+    updateWorkspace((data) => ({ ...data, [collection]: parsed.data }));
+    res.status(200).json(parsed.data);
+  });
+
+  router.post("/", (req, res) => {
+    const parsed = schema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json(invalid(parsed.error));
+      return;
+    }
+    const item = parsed.data as Entity;
+    if (list().some((existing) => existing.id === item.id)) {
+      const response: ApiErrorResponse = {
+        error: `${collection} item ${item.id} already exists`,
+      };
+      res.status(409).json(response);
+      return;
+    }
+    updateWorkspace((data) => ({
+      ...data,
+      [collection]: [...(data[collection] as Entity[]), item],
+    }));
+    res.status(201).json(item);
+  });
+
+  router.patch("/:id", (req, res) => {
+    const existing = list().find((item) => item.id === req.params.id);
+    if (!existing) {
+      const response: ApiErrorResponse = {
+        error: `${collection} item ${req.params.id} not found`,
+      };
+      res.status(404).json(response);
+      return;
+    }
+    // Two planners editing the same item: the later write loses instead of
+    // silently overwriting, and gets the stored version back
+    const expected = parseExpected(req.get(EXPECT_HEADER));
+    const stale = expected ? staleFields(existing, expected) : [];
+    if (stale.length > 0) {
+      const response: ApiErrorResponse = {
+        error: `${collection} item ${existing.id} was changed by someone else`,
+        issues: stale.map((field) => `${field}: changed meanwhile`),
+        current: existing,
+      };
+      res.status(409).json(response);
+      return;
+    }
+    // null in a patch clears an optional field (JSON has no undefined)
+    const patched = Object.fromEntries(
+      Object.entries({ ...existing, ...req.body }).filter(
+        ([, value]) => value !== null,
+      ),
+    );
+    const parsed = schema.safeParse({ ...patched, id: existing.id });
+    if (!parsed.success) {
+      res.status(400).json(invalid(parsed.error));
+      return;
+    }
+    const updated = parsed.data as Entity;
+    updateWorkspace((data) => ({
+      ...data,
+      [collection]: (data[collection] as Entity[]).map((item) =>
+        item.id === updated.id ? updated : item,
+      ),
+    }));
+    res.status(200).json(updated);
+  });
+
+  router.delete("/:id", (req, res) => {
+    const { id } = req.params;
+    if (!list().some((item) => item.id === id)) {
+      const response: ApiErrorResponse = {
+        error: `${collection} item ${id} not found`,
+      };
+      res.status(404).json(response);
+      return;
+    }
+    updateWorkspace((data) => {
+      const next = {
+        ...data,
+        [collection]: (data[collection] as Entity[]).filter(
+          (item) => item.id !== id,
+        ),
+      };
+      return cascade ? cascade(next, id) : next;
+    });
+    res.status(204).end();
+  });
+
+  return router;
+}
+
+/** Drop links whose assignments no longer exist */
+function pruneDependencies(data: WorkspaceData): WorkspaceData {
+  const ids = new Set(data.assignments.map((a) => a.id));
+  return {
+    ...data,
+    dependencies: data.dependencies.filter(
+      (d) => ids.has(d.predecessorId) && ids.has(d.successorId),
+    ),
+  };
+}
+
+export const teamsRouter = createCollectionRouter({
+  collection: "teams",
+  schema: teamSchema,
+  cascade: (data, id) => ({
+    ...data,
+    timeOff: data.timeOff.filter((t) => t.teamId !== id),
+  }),
+});
+
+export const membersRouter = createCollectionRouter({
+  collection: "members",
+  schema: memberSchema,
+  cascade: (data, id) =>
+    pruneDependencies({
+      ...data,
+      assignments: data.assignments.filter((a) => a.memberId !== id),
+      timeOff: data.timeOff.filter((t) => t.memberId !== id),
+      projects: data.projects.map(({ ownerId, ...p }) =>
+        ownerId === id ? p : { ...p, ownerId },
+      ),
+    }),
+});
+
+export const projectsRouter = createCollectionRouter({
+  collection: "projects",
+  schema: projectSchema,
+  cascade: (data, id) =>
+    pruneDependencies({
+      ...data,
+      assignments: data.assignments.filter((a) => a.projectId !== id),
+    }),
+});
+
+export const assignmentsRouter = createCollectionRouter({
+  collection: "assignments",
+  schema: assignmentSchema,
+  cascade: pruneDependencies,
+});
+
+export const timeOffRouter = createCollectionRouter({
+  collection: "timeOff",
+  schema: timeOffSchema,
+});
+
+export const baselinesRouter = createCollectionRouter({
+  collection: "baselines",
+  schema: baselineSchema,
+});
+
+export const dependenciesRouter = createCollectionRouter({
+  collection: "dependencies",
+  schema: dependencySchema,
+});
@@ -0,0 +1,79 @@
+import { RequestHandler } from "express";
+// Relative imports: vite.config.ts loads the server without path aliases
+import {
+  ApiErrorResponse,
+  CLIENT_ID_HEADER,
+  LiveChange,
+  Presence,
+} from "../../shared/api";
+import { presenceSchema, formatIssues } from "../../shared/schemas";
+import {
+  broadcast,
+  closeChannel,
+  openChannel,
+  updatePresence,
+} from "../lib/liveHub";
+import { currentUser } from "./auth";
+
+/**
+ * GET /api/live?clientId= — a server-sent event stream with
+ * "change" events (someone else wrote to the workspace) and "presence"
+ * events (who is connected and what they are doing)
+ */
+export const handleLiveStream: RequestHandler = (req, res) => {
+  const clientId =
+    typeof req.query.clientId === "string" ? req.query.clientId : "";
+  if (!clientId) {
+    const response: ApiErrorResponse = { error: "clientId is required" };
+    res.status(400).json(response);
+    return;
+  }
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  res.flushHeaders();
+  openChannel({ clientId, name: currentUser(res).name }, res);
+  req.on("close", () => closeChannel(clientId, res));
+};
+
+/** POST /api/live/presence — replace what this tab is doing */
+export const handleUpdatePresence: RequestHandler = (req, res) => {
+  const parsed = presenceSchema.safeParse(req.body);
+  if (!parsed.success) {
+    const response: ApiErrorResponse = {
+      error: "Invalid presence",
+      issues: formatIssues(parsed.error),
+    };
+    res.status(400).json(response);
+    return;
+  }
+  // Peers see the account's name, whatever the tab claims
+  const presence = { ...parsed.data, name: currentUser(res).name } as Presence;
+  if (!updatePresence(presence)) {
+    const response: ApiErrorResponse = { error: "No live channel is open" };
+    res.status(404).json(response);
+    return;
+  }
+  res.status(204).end();
+};
+
+/**
+ * Middleware: once a write to `collection` has succeeded, tell every other
+ * open tab so it reloads
+ */
+export function announceChanges(
+  collection: LiveChange["collection"],
+): RequestHandler {
+  return (req, res, next) => {
+    if (req.method !== "GET") {
+      res.on("finish", () => {
+        if (res.statusCode >= 400) return;
+        const by = req.get(CLIENT_ID_HEADER) ?? "";
+        broadcast("change", { collection, by }, by);
+      });
+    }
+    next();
+  };
+}
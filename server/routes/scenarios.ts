@@ -0,0 +1,47 @@
+import { Router } from "express";
+// Relative imports: vite.config.ts loads the server without path aliases
+import { ApiErrorResponse, Scenario } from "../../shared/api";
+import { scenarioSchema, formatIssues } from "../../shared/schemas";
+import {
+  deleteScenario,
+  readScenarios,
+  saveScenario,
+} from "../lib/scenarioStore";
+
+/**
+ * What-if copies of the workspace:
+ *   GET    /        list, with data
+ *   PUT    /:id     create or replace
+ *   DELETE /:id     discard
+ */
+export const scenariosRouter = Router();
+
+scenariosRouter.get("/", (_req, res) => {
+  const response: Scenario[] = readScenarios();
+  res.status(200).json(response);
+});
+
+scenariosRouter.put("/:id", (req, res) => {
+  const parsed = scenarioSchema.safeParse({ ...req.body, id: req.params.id });
+  if (!parsed.success) {
+    const response: ApiErrorResponse = {
+      error: "Invalid scenario",
+      issues: formatIssues(parsed.error),
+    };
+    res.status(400).json(response);
+    return;
+  }
+  const response: Scenario = saveScenario(parsed.data as Scenario);
+  res.status(200).json(response);
+});
+
+scenariosRouter.delete("/:id", (req, res) => {
+  if (!deleteScenario(req.params.id)) {
+    const response: ApiErrorResponse = {
+      error: `Scenario ${req.params.id} not found`,
+    };
+    res.status(404).json(response);
+    return;
+  }
+  res.status(204).end();
+});
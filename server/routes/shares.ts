@@ -0,0 +1,91 @@
+import { RequestHandler, Router } from "express";
+// Relative imports: vite.config.ts loads the server without path aliases
+import {
+  ApiErrorResponse,
+  ShareLink,
+  SharedSchedule,
+  isShareExpired,
+  shareWorkspace,
+} from "../../shared/api";
+import { newShareSchema, formatIssues } from "../../shared/schemas";
+import {
+  addShare,
+  deleteShare,
+  newShareId,
+  readShares,
+} from "../lib/shareStore";
+import { readWorkspace } from "../lib/workspaceStore";
+import { currentUser } from "./auth";
+
+/**
+ * Read-only links to part of the schedule:
+ *   GET    /        list, expired ones included
+ *   POST   /        create; the response carries the secret id
+ *   DELETE /:id     revoke
+ */
+export const sharesRouter = Router();
+
+sharesRouter.get("/", (_req, res) => {
+  const response: ShareLink[] = readShares();
+  res.status(200).json(response);
+});
+
+sharesRouter.post("/", (req, res) => {
+  const parsed = newShareSchema.safeParse(req.body);
+  if (!parsed.success) {
+    const response: ApiErrorResponse = {
+      error: "Invalid share link",
+      issues: formatIssues(parsed.error),
+    };
+    res.status(400).json(response);
+    return;
+  }
+  const { name, view, expiresAt } = parsed.data as Omit<
+    ShareLink,
+    "id" | "createdAt" | "createdBy"
+  >;
+  const response: ShareLink = addShare({
+    id: newShareId(),
+    name,
+    view,
+    createdAt: new Date().toISOString(),
+    createdBy: currentUser(res).name,
+    ...(expiresAt ? { expiresAt } : {}),
+  });
+  res.status(201).json(response);
+});
+
+sharesRouter.delete("/:id", (req, res) => {
+  if (!deleteShare(req.params.id)) {
+    const response: ApiErrorResponse = { error: "Share link not found" };
+    res.status(404).json(response);
+    return;
+  }
+  res.status(204).end();
+});
+
+/**
+ * GET /api/public/shares/:id, open to anyone with the link. Revoked and
+ * unknown links look the same so ids cannot be probed.
+ */
+export const handleGetSharedSchedule: RequestHandler = (req, res) => {
+  const link = readShares().find((s) => s.id === req.params.id);
+  if (!link) {
+    const response: ApiErrorResponse = {
+      error: "This link does not exist or was revoked",
+    };
+    res.status(404).json(response);
+    return;
+  }
+  if (isShareExpired(link, new Date())) {
+    const response: ApiErrorResponse = { error: "This link has expired" };
+    res.status(410).json(response);
+    return;
+  }
+  const { id: _id, ...details } = link;
+  const response: SharedSchedule = {
+    link: details,
+    data: shareWorkspace(readWorkspace(), link.view),
+  };
+  res.status(200).json(response);
+};
@@ -0,0 +1,116 @@
+import { Response, Router } from "express";
+// Relative imports: vite.config.ts loads the server without path aliases
+import { ApiErrorResponse, NewUser, User } from "../../shared/api";
+import {
+  newUserSchema,
+  userUpdateSchema,
+  formatIssues,
+} from "../../shared/schemas";
+import {
+  StoredUser,
+  findUserByUsername,
+  hashPassword,
+  readUsers,
+  toPublicUser,
+  writeUsers,
+} from "../lib/userStore";
+import { endSessionsOf } from "../lib/sessions";
+import { currentUser } from "./auth";
+
+function refuse(res: Response, status: number, error: string) {
+  const response: ApiErrorResponse = { error };
+  res.status(status).json(response);
+}
+
+/** Every admin but `id`; the workspace must always keep one */
+const otherAdmins = (id: string) =>
+  readUsers().filter((u) => u.role === "admin" && u.id !== id);
+
+/**
+ * User accounts, for admins:
+ *   GET    /        list
+ *   POST   /        create
+ *   PATCH  /:id     change name, role or password
+ *   DELETE /:id     delete and sign out everywhere
+ */
+export const usersRouter = Router();
+
+usersRouter.get("/", (_req, res) => {
+  const response: User[] = readUsers().map(toPublicUser);
+  res.status(200).json(response);
+});
+
+usersRouter.post("/", (req, res) => {
+  const parsed = newUserSchema.safeParse(req.body);
+  if (!parsed.success) {
+    const response: ApiErrorResponse = {
+      error: "Invalid user",
+      issues: formatIssues(parsed.error),
+    };
+    res.status(400).json(response);
+    return;
+  }
+  const { password, ...account } = parsed.data as NewUser;
+  if (findUserByUsername(account.username)) {
+    refuse(res, 409, `Username ${account.username} is taken`);
+    return;
+  }
+  const user: StoredUser = {
+    id: crypto.randomUUID(),
+    ...account,
+    ...hashPassword(password),
+  };
+  writeUsers([...readUsers(), user]);
+  const response: User = toPublicUser(user);
+  res.status(201).json(response);
+});
+
+usersRouter.patch("/:id", (req, res) => {
+  const existing = readUsers().find((u) => u.id === req.params.id);
+  if (!existing) {
+    refuse(res, 404, `User ${req.params.id} not found`);
+    return;
+  }
+  const parsed = userUpdateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    const response: ApiErrorResponse = {
+      error: "Invalid user",
+      issues: formatIssues(parsed.error),
+    };
+    res.status(400).json(response);
+    return;
+  }
+  const { password, ...changes } = parsed.data as Partial<NewUser>;
+  if (
+    changes.role &&
+    changes.role !== "admin" &&
+    existing.role === "admin" &&
+    otherAdmins(existing.id).length === 0
+  ) {
+    refuse(res, 409, "The last admin cannot be demoted");
+    return;
+  }
+  const updated: StoredUser = {
+    ...existing,
+    ...changes,
+    ...(password && hashPassword(password)),
+  };
+  writeUsers(readUsers().map((u) => (u.id === updated.id ? updated : u)));
+  const response: User = toPublicUser(updated);
+  res.status(200).json(response);
+});
+
+usersRouter.delete("/:id", (req, res) => {
+  const { id } = req.params;
+  if (!readUsers().some((u) => u.id === id)) {
+    refuse(res, 404, `User ${id} not found`);
+    return;
+  }
+  if (id === currentUser(res).id) {
+    refuse(res, 409, "You cannot delete your own account");
+    return;
+  }
+  writeUsers(readUsers().filter((u) => u.id !== id));
+  endSessionsOf(id);
+  res.status(204).end();
+});
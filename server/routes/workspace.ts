@@ -0,0 +1,25 @@
+import { RequestHandler } from "express";
+import { ApiErrorResponse, WorkspaceData } from "../../shared/api";
+// Relative imports: vite.config.ts loads the server without path aliases
+import { workspaceSchema, formatIssues } from "../../shared/schemas";
+import { readWorkspace, writeWorkspace } from "../lib/workspaceStore";
+
+export const handleGetWorkspace: RequestHandler = (_req, res) => {
+  const response: WorkspaceData = readWorkspace();
+  res.status(200).json(response);
+};
+
+/** Replace the whole workspace, e.g. when seeding from a browser's local copy */
+export const handleReplaceWorkspace: RequestHandler = (req, res) => {
+  const parsed = workspaceSchema.safeParse(req.body);
+  if (!parsed.success) {
+    const response: ApiErrorResponse = {
+      error: "Invalid workspace",
+      issues: formatIssues(parsed.error),
+    };
+    res.status(400).json(response);
+    return;
+  }
+  const response: WorkspaceData = writeWorkspace(parsed.data as WorkspaceData);
+  res.status(200).json(response);
+};
@@ -10,3 +10,406 @@
 export interface DemoResponse {
   message: string;
 }
+
+// --- Planning entities ---
+
+export interface Team {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export type SkillLevel = "beginner" | "intermediate" | "advanced" | "expert";
+
+export interface MemberSkill {
+  name: string; // e.g. "React Native", matched case-insensitively
+  level: SkillLevel;
+}
+
+export interface Member {
+  id: string;
+  name: string;
+  role: string;
+  teamId: string;
+  avatar?: string;
+  hoursPerWeek?: number; // contracted hours, defaults to 40
+  workingDays?: number[]; // weekdays worked (0 = Sunday), defaults to Mon-Fri
+  skills?: MemberSkill[];
+  placeholder?: boolean; // an open role: demand not yet staffed by a person
+  costRate?: number; // what an hour of this member costs
+  billRate?: number; // what an hour of this member is billed at
+}
+
+export type ProjectStatus =
+  | "proposed"
+  | "active"
+  | "on_hold"
+  | "done"
+  | "cancelled";
+
+export type ProjectPriority = "low" | "medium" | "high";
+
+/** A dated checkpoint of a project, e.g. kickoff, beta, launch or a review gate */
+export interface Milestone {
+  id: string;
+  name: string;
+  date: string; // ISO date string YYYY-MM-DD
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  color: string;
+  description: string;
+  status?: ProjectStatus; // defaults to active
+  priority?: ProjectPriority; // defaults to medium
+  startDate?: string; // target start, ISO date string YYYY-MM-DD
+  endDate?: string; // target end
+  ownerId?: string; // member accountable for the project
+  client?: string; // customer name
+  milestones?: Milestone[];
+  budget?: number; // planned spend limit, in the same currency as rates
+}
+
+/**
+ * How firm a booking is: requested (asked for, not yet agreed), tentative
+ * (penciled in, e.g. an unsigned deal) or confirmed
+ */
+export type BookingStatus = "requested" | "tentative" | "confirmed";
+
+export interface Assignment {
+  id: string;
+  memberId: string;
+  projectId: string;
+  startDate: string; // ISO date string YYYY-MM-DD
+  endDate: string; // ISO date string YYYY-MM-DD
+  allocation: number; // percent of the member's capacity (1-100)
+  status?: BookingStatus; // defaults to confirmed
+}
+
+/**
+ * How a successor is tied to its predecessor: finish_to_start waits for the
+ * predecessor to end (a design hand-off), start_to_start lets both begin
+ * together
+ */
+export type DependencyType = "finish_to_start" | "start_to_start";
+
+/** A scheduling link between two assignments */
+export interface Dependency {
+  id: string;
+  predecessorId: string; // assignment id
+  successorId: string; // assignment id
+  type: DependencyType;
+}
+
+export type TimeOffType = "vacation" | "sick" | "holiday";
+
+export interface TimeOff {
+  id: string;
+  type: TimeOffType;
+  label: string;
+  startDate: string; // ISO date string YYYY-MM-DD
+  endDate: string; // ISO date string YYYY-MM-DD
+  memberId?: string; // personal leave
+  teamId?: string; // team-wide closure; neither set means a company holiday
+}
+
+/** Dates of one assignment frozen in a baseline */
+export interface BaselineDates {
+  startDate: string; // ISO date string YYYY-MM-DD
+  endDate: string;
+}
+
+/**
+ * A snapshot of every assignment's dates at one point in time (e.g. the
+ * quarter-start plan), kept to measure later drift against
+ */
+export interface Baseline {
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamp
+  assignments: Record<string, BaselineDates>; // keyed by assignment id
+}
+
+/**
+ * The whole planning dataset, as returned by GET /api/workspace and
+ * accepted by PUT /api/workspace
+ */
+export interface WorkspaceData {
+  teams: Team[];
+  members: Member[];
+  projects: Project[];
+  assignments: Assignment[];
+  timeOff: TimeOff[];
+  baselines: Baseline[];
+  dependencies: Dependency[];
+}
+
+export type WorkspaceCollection = keyof WorkspaceData;
+
+export function isWorkspaceEmpty(data: WorkspaceData): boolean {
+  return Object.values(data).every((items) => items.length === 0);
+}
+
+// --- Scenarios ---
+
+/**
+ * A sandboxed what-if copy of the workspace. Edits to a scenario never touch
+ * the live plan until it is promoted.
+ */
+export interface Scenario {
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamp
+  updatedAt: string;
+  data: WorkspaceData;
+}
+
+export type ScenarioSummary = Omit<Scenario, "data">;
+
+// --- Audit log ---
+
+export type AuditAction =
+  | "create"
+  | "update"
+  | "move" // assignment dates changed
+  | "reassign" // assignment moved to another member or project
+  | "delete"
+  | "restore"
+  | "undo"
+  | "redo";
+
+export type AuditEntityType =
+  | "team"
+  | "member"
+  | "project"
+  | "assignment"
+  | "timeOff"
+  | "baseline"
+  | "dependency"
+  | "workspace";
+
+/** One changed field. Values are display text (names, not ids). */
+export interface AuditChange {
+  field: string;
+  from: string;
+  to: string;
+}
+
+/**
+ * One entry of the append-only change history, as returned by
+ * GET /api/audit and accepted by POST /api/audit
+ */
+export interface AuditEntry {
+  id: string;
+  at: string; // ISO timestamp
+  actor: string;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId?: string;
+  projectId?: string; // project the change belongs to, for filtering
+  summary: string;
+  changes?: AuditChange[];
+  note?: string; // the "why", when the user gave one
+  source?: string; // bulk operation the change was part of, e.g. "Import CSV"
+}
+
+// --- Accounts ---
+
+/**
+ * What a signed-in user may do: viewers browse, planners edit the plan,
+ * admins also delete teams and projects, run bulk imports and manage users
+ */
+export type UserRole = "viewer" | "planner" | "admin";
+
+const ROLE_RANK: Record<UserRole, number> = { viewer: 0, planner: 1, admin: 2 };
+
+/** A user account as the API returns it; password hashes stay on the server */
+export interface User {
+  id: string;
+  username: string; // sign-in name, unique ignoring case
+  name: string; // display name, recorded in the change history
+  role: UserRole;
+}
+
+/** Accepted by POST /api/users (admins) */
+export interface NewUser extends Omit<User, "id"> {
+  password: string;
+}
+
+/** Accepted by POST /api/auth/login */
+export interface LoginRequest {
+  username: string;
+  password: string;
+}
+
+/**
+ * Returned by GET /api/auth/session and the sign-in calls. needsSetup is
+ * true until the first admin account has been created.
+ */
+export interface SessionResponse {
+  user: User | null;
+  needsSetup: boolean;
+}
+
+/** Whether the user holds `role` or a stronger one */
+export function hasRole(
+  user: Pick<User, "role"> | null | undefined,
+  role: UserRole,
+): boolean {
+  return Boolean(user) && ROLE_RANK[user.role] >= ROLE_RANK[role];
+}
+
+/** Ids in `before` that are missing from `after` */
+export function removedIds(
+  before: { id: string }[],
+  after: { id: string }[],
+): string[] {
+  const kept = new Set(after.map((item) => item.id));
+  return before.map((item) => item.id).filter((id) => !kept.has(id));
+}
+
+// --- Share links ---
+
+/** What a share link shows; the recipient cannot change any of it */
+export interface ShareView {
+  groupBy: "team" | "member" | "project" | "utilization";
+  granularity: "day" | "week" | "month" | "quarter";
+  startDate: string; // ISO date string YYYY-MM-DD
+  endDate: string;
+  projectIds?: string[]; // only these projects; all when absent
+  teamIds?: string[]; // only members of these teams; all when absent
+}
+
+/**
+ * A read-only link to part of the schedule, for people without an account.
+ * The id is the secret in the URL; deleting the link revokes it.
+ */
+export interface ShareLink {
+  id: string;
+  name: string; // e.g. "Atlas plan for the client"
+  view: ShareView;
+  createdAt: string; // ISO timestamp
+  createdBy: string; // user name
+  expiresAt?: string; // ISO timestamp; never expires when absent
+}
+
+/** GET /api/public/shares/:id: the link and the part of the plan it shows */
+export interface SharedSchedule {
+  link: Omit<ShareLink, "id">;
+  data: WorkspaceData;
+}
+
+export function isShareExpired(link: Pick<ShareLink, "expiresAt">, now: Date) {
+  return Boolean(link.expiresAt) && new Date(link.expiresAt) <= now;
+}
+
+/**
+ * The part of the workspace a share link shows: bookings overlapping its
+ * dates for its projects and teams, and the people, teams, projects, leave
+ * and links they involve. Rates and budgets are left out, as are baselines.
+ */
+export function shareWorkspace(
+  data: WorkspaceData,
+  view: ShareView,
+): WorkspaceData {
+  const projectIds = view.projectIds?.length ? new Set(view.projectIds) : null;
+  const teamIds = view.teamIds?.length ? new Set(view.teamIds) : null;
+  const inRange = (r: { startDate: string; endDate: string }) =>
+    r.startDate <= view.endDate && r.endDate >= view.startDate;
+
+  const teamMembers = data.members.filter(
+    (m) => !teamIds || teamIds.has(m.teamId),
+  );
+  const memberIds = new Set(teamMembers.map((m) => m.id));
+  const assignments = data.assignments.filter(
+    (a) =>
+      inRange(a) &&
+      memberIds.has(a.memberId) &&
+      (!projectIds || projectIds.has(a.projectId)),
+  );
+  const booked = new Set(assignments.map((a) => a.memberId));
+  // A project view lists the people on it; a team view lists the whole team
+  const members = teamMembers
+    .filter((m) => !projectIds || booked.has(m.id))
+    .map(({ costRate: _cost, billRate: _bill, ...m }) => m);
+  const shownMembers = new Set(members.map((m) => m.id));
+  const shownTeams = new Set(members.map((m) => m.teamId));
+  const usedProjects = new Set(assignments.map((a) => a.projectId));
+  const shownAssignments = new Set(assignments.map((a) => a.id));
+
+  return {
+    teams: data.teams.filter((t) => shownTeams.has(t.id)),
+    members,
+    projects: data.projects
+      .filter((p) =>
+        projectIds ? projectIds.has(p.id) : usedProjects.has(p.id),
+      )
+      .map(({ budget: _budget, ...p }) => p),
+    assignments,
+    timeOff: data.timeOff.filter(
+      (t) =>
+        inRange(t) &&
+        (t.memberId
+          ? shownMembers.has(t.memberId)
+          : !t.teamId || shownTeams.has(t.teamId)),
+    ),
+    baselines: [],
+    dependencies: data.dependencies.filter(
+      (d) =>
+        shownAssignments.has(d.predecessorId) &&
+        shownAssignments.has(d.successorId),
+    ),
+  };
+}
+
+/**
+ * Error body returned by the API for 4xx/5xx responses
+ */
+export interface ApiErrorResponse {
+  error: string;
+  issues?: string[];
+  current?: unknown; // the stored record, when a write lost a race (409)
+}
+
+// --- Live collaboration ---
+
+/** Identifies the browser tab behind a request, so it is not told about its own writes */
+export const CLIENT_ID_HEADER = "X-Client-Id";
+
+/**
+ * On a PATCH, the values the client last saw for the fields it changes
+ * (URI-encoded JSON). The write is refused with 409 if any of them has
+ * changed on the server since.
+ */
+export const EXPECT_HEADER = "X-Expect";
+
+/** What one open tab is doing, as shown to the others */
+export interface Presence {
+  clientId: string;
+  name: string; // the signed-in user's name
+  view?: string; // open tab, e.g. "schedule"
+  dragging?: string; // assignment id
+  editing?: string; // assignment id
+}
+
+/** Sent on the live channel after a write, to every tab but the writer */
+export interface LiveChange {
+  collection: WorkspaceCollection | "workspace" | "audit";
+  by: string; // client id of the writer
+}
+
+/**
+ * The fields of `expected` whose value differs from the record's, i.e. what
+ * someone else changed since the client read it. Missing and null are equal.
+ */
+export function staleFields(
+  record: object,
+  expected: Record<string, unknown>,
+): string[] {
+  const same = (a: unknown, b: unknown) =>
+    JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+  return Object.keys(expected).filter(
+    (key) => !same(record[key as keyof typeof record], expected[key]),
+  );
+}
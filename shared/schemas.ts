@@ -0,0 +1,237 @@
+/**
+ * Zod schemas for the planning entities in ./api.ts, used to validate
+ * request bodies on the server. Keep them in step with the interfaces.
+ */
+import { z } from "zod";
+
+const id = z.string().min(1);
+const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date");
+const color = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Expected a hex color");
+
+/** Reject ranges whose end comes before their start */
+function validRange<T extends { startDate: string; endDate: string }>(
+  value: T,
+): boolean {
+  return value.startDate <= value.endDate;
+}
+const rangeMessage = {
+  message: "endDate must not be before startDate",
+  path: ["endDate"],
+};
+
+export const teamSchema = z.object({
+  id,
+  name: z.string().trim().min(1),
+  color,
+});
+
+export const memberSchema = z.object({
+  id,
+  name: z.string().trim().min(1),
+  role: z.string(),
+  teamId: z.string(),
+  avatar: z.string().optional(),
+  hoursPerWeek: z.number().positive().max(168).optional(),
+  workingDays: z.array(z.number().int().min(0).max(6)).min(1).optional(),
+  skills: z
+    .array(
+      z.object({
+        name: z.string().trim().min(1),
+        level: z.enum(["beginner", "intermediate", "advanced", "expert"]),
+      }),
+    )
+    .optional(),
+  placeholder: z.boolean().optional(),
+  costRate: z.number().nonnegative().optional(),
+  billRate: z.number().nonnegative().optional(),
+});
+
+export const milestoneSchema = z.object({
+  id,
+  name: z.string().trim().min(1),
+  date: isoDate,
+});
+
+export const projectSchema = z
+  .object({
+    id,
+    name: z.string().trim().min(1),
+    color,
+    description: z.string(),
+    status: z
+      .enum(["proposed", "active", "on_hold", "done", "cancelled"])
+      .optional(),
+    priority: z.enum(["low", "medium", "high"]).optional(),
+    startDate: isoDate.optional(),
+    endDate: isoDate.optional(),
+    ownerId: z.string().optional(),
+    client: z.string().optional(),
+    milestones: z.array(milestoneSchema).optional(),
+    budget: z.number().nonnegative().optional(),
+  })
+  .refine(
+    (p) => !p.startDate || !p.endDate || p.startDate <= p.endDate,
+    rangeMessage,
+  );
+
+export const assignmentSchema = z
+  .object({
+    id,
+    memberId: id,
+    projectId: id,
+    startDate: isoDate,
+    endDate: isoDate,
+    allocation: z.number().min(1).max(100),
+    status: z.enum(["requested", "tentative", "confirmed"]).optional(),
+  })
+  .refine(validRange, rangeMessage);
+
+export const dependencySchema = z
+  .object({
+    id,
+    predecessorId: id,
+    successorId: id,
+    type: z.enum(["finish_to_start", "start_to_start"]),
+  })
+  .refine((d) => d.predecessorId !== d.successorId, {
+    message: "An assignment cannot depend on itself",
+    path: ["successorId"],
+  });
+
+export const timeOffSchema = z
+  .object({
+    id,
+    type: z.enum(["vacation", "sick", "holiday"]),
+    label: z.string(),
+    startDate: isoDate,
+    endDate: isoDate,
+    memberId: z.string().optional(),
+    teamId: z.string().optional(),
+  })
+  .refine(validRange, rangeMessage);
+
+export const baselineSchema = z.object({
+  id,
+  name: z.string().trim().min(1),
+  createdAt: z.string().datetime(),
+  assignments: z.record(
+    z
+      .object({ startDate: isoDate, endDate: isoDate })
+      .refine(validRange, rangeMessage),
+  ),
+});
+
+export const workspaceSchema = z.object({
+  teams: z.array(teamSchema),
+  members: z.array(memberSchema),
+  projects: z.array(projectSchema),
+  assignments: z.array(assignmentSchema),
+  timeOff: z.array(timeOffSchema).default([]),
+  baselines: z.array(baselineSchema).default([]),
+  dependencies: z.array(dependencySchema).default([]),
+});
+
+export const scenarioSchema = z.object({
+  id,
+  name: z.string().trim().min(1),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+  data: workspaceSchema,
+});
+
+export const auditEntrySchema = z.object({
+  id,
+  at: z.string().datetime(),
+  actor: z.string(),
+  action: z.enum([
+    "create",
+    "update",
+    "move",
+    "reassign",
+    "delete",
+    "restore",
+    "undo",
+    "redo",
+  ]),
+  entityType: z.enum([
+    "team",
+    "member",
+    "project",
+    "assignment",
+    "timeOff",
+    "baseline",
+    "dependency",
+    "workspace",
+  ]),
+  entityId: z.string().optional(),
+  projectId: z.string().optional(),
+  summary: z.string(),
+  changes: z
+    .array(z.object({ field: z.string(), from: z.string(), to: z.string() }))
+    .optional(),
+  note: z.string().optional(),
+  source: z.string().optional(),
+});
+
+export const presenceSchema = z.object({
+  clientId: z.string().min(1),
+  name: z.string(),
+  view: z.string().optional(),
+  dragging: z.string().optional(),
+  editing: z.string().optional(),
+});
+
+export const shareViewSchema = z
+  .object({
+    groupBy: z.enum(["team", "member", "project", "utilization"]),
+    granularity: z.enum(["day", "week", "month", "quarter"]),
+    startDate: isoDate,
+    endDate: isoDate,
+    projectIds: z.array(id).optional(),
+    teamIds: z.array(id).optional(),
+  })
+  .refine(validRange, rangeMessage);
+
+/** POST /api/shares; the server fills in id, creator and creation time */
+export const newShareSchema = z.object({
+  name: z.string().trim().min(1),
+  view: shareViewSchema,
+  expiresAt: z.string().datetime().optional(),
+});
+
+export const userRoleSchema = z.enum(["viewer", "planner", "admin"]);
+
+export const loginSchema = z.object({
+  username: z.string().min(1),
+  password: z.string().min(1),
+});
+
+const passwordSchema = z
+  .string()
+  .min(8, "Password must be at least 8 characters");
+
+export const newUserSchema = z.object({
+  username: z.string().trim().min(1),
+  name: z.string().trim().min(1),
+  role: userRoleSchema,
+  password: passwordSchema,
+});
+
+/** Admins change a user's name, role or password; usernames are fixed */
+export const userUpdateSchema = newUserSchema
+  .omit({ username: true })
+  .partial();
+
+/** The first account, always an admin */
+export const setupSchema = newUserSchema.omit({ role: true });
+
+/** Flatten zod issues into "path: message" strings for API error bodies */
+export function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) =>
+    issue.path.length > 0
+      ? `${issue.path.join(".")}: ${issue.message}`
+      : issue.message,
+  );
+}